@@ -20,6 +20,10 @@ import ProfilePage from './pages/ProfilePage';
 import DashboardPage from './pages/DashboardPage';
 import SearchPage from './pages/SearchPage';
 import NotificationsPage from './pages/NotificationsPage';
+import InvitationPage from './pages/InvitationPage';
+import ModerationPage from './pages/ModerationPage';
+import AdminDashboardPage from './pages/AdminDashboardPage';
+import SettingsPage from './pages/SettingsPage';
 
 // Auth pages
 import LoginPage from './pages/auth/LoginPage';
@@ -105,8 +109,12 @@ function App() {
       <Route path="/" element={<ProtectedRoute><Layout /></ProtectedRoute>}>
         <Route path="dashboard" element={<DashboardPage />} />
         <Route path="notifications" element={<NotificationsPage />} />
+        <Route path="settings" element={<SettingsPage />} />
         <Route path="create" element={<CreateIdeaPage />} />
         <Route path="ideas/:id/edit" element={<EditIdeaPage />} />
+        <Route path="invitations/:token" element={<InvitationPage />} />
+        <Route path="moderation" element={<ModerationPage />} />
+        <Route path="admin" element={<AdminDashboardPage />} />
       </Route>
 
       {/* Redirect authenticated users from auth pages */}
@@ -121,8 +129,12 @@ function App() {
         <>
           <Route path="/dashboard" element={<Navigate to="/auth/login" replace />} />
           <Route path="/notifications" element={<Navigate to="/auth/login" replace />} />
+          <Route path="/settings" element={<Navigate to="/auth/login" replace />} />
           <Route path="/create" element={<Navigate to="/auth/login" replace />} />
           <Route path="/ideas/*/edit" element={<Navigate to="/auth/login" replace />} />
+          <Route path="/invitations/*" element={<Navigate to="/auth/login" replace />} />
+          <Route path="/moderation" element={<Navigate to="/auth/login" replace />} />
+          <Route path="/admin" element={<Navigate to="/auth/login" replace />} />
         </>
       )}
 
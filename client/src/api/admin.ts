@@ -0,0 +1,30 @@
+import apiClient from './client';
+import { AIUsageStats, CategoryEngagement, DailyStats, RetentionCohort, StatsOverview } from '@/types';
+
+export const adminApi = {
+  // Platform analytics; every range ends today
+  getOverview: async (days: number): Promise<StatsOverview> => {
+    const response = await apiClient.get('/api/admin/stats/overview', { params: { days } });
+    return response.data;
+  },
+
+  getDailyStats: async (days: number): Promise<DailyStats[]> => {
+    const response = await apiClient.get('/api/admin/stats/daily', { params: { days } });
+    return response.data.days;
+  },
+
+  getCategoryEngagement: async (days: number): Promise<CategoryEngagement[]> => {
+    const response = await apiClient.get('/api/admin/stats/categories', { params: { days } });
+    return response.data.categories;
+  },
+
+  getAIUsage: async (days: number): Promise<AIUsageStats> => {
+    const response = await apiClient.get('/api/admin/stats/ai-usage', { params: { days } });
+    return response.data;
+  },
+
+  getRetention: async (weeks: number): Promise<RetentionCohort[]> => {
+    const response = await apiClient.get('/api/admin/stats/retention', { params: { weeks } });
+    return response.data.cohorts;
+  },
+};
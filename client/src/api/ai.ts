@@ -1,4 +1,6 @@
 import apiClient from './client';
+import { useAuthStore } from '@/store/authStore';
+import { Idea } from '@/types';
 
 export interface IdeaEnhancement {
   improvements: string[];
@@ -31,14 +33,82 @@ export interface AutoTag {
   category: 'technology' | 'domain' | 'difficulty' | 'type';
 }
 
+// Set when the server could not get valid output from the AI provider and
+// answered with generic fallback content instead
+export interface AIDegradation {
+  degraded?: boolean;
+  degradedReason?: 'invalid_output' | 'provider_error';
+}
+
+// Present when the request was tied to a saved idea and the result is stored
+export interface AIAnalysisMeta {
+  analysisId?: string;
+  version?: number;
+  analyzedAt?: string;
+  cached?: boolean;
+}
+
 export interface AIAnalysisRequest {
   title: string;
   description: string;
   category?: string;
   tags?: string[];
+  // Store the result on this idea and reuse it while the content is unchanged
+  ideaId?: string;
+  // Ignore a stored result and ask the AI again
+  refresh?: boolean;
+}
+
+export type AIAnalysisKind = 'ANALYSIS' | 'TECH_STACK' | 'FEASIBILITY';
+
+export interface StoredAIAnalysis {
+  id: string;
+  ideaId: string;
+  kind: AIAnalysisKind;
+  version: number;
+  contentHash: string;
+  result: any;
+  provider: string;
+  model: string;
+  appliedFields: string[];
+  appliedAt?: string;
+  createdAt: string;
+  // False once the idea's saved content differs from what was analyzed
+  isCurrent: boolean;
+}
+
+export interface ApplyAIAnalysisRequest {
+  tags?: string[];
+  techStack?: string[];
+  difficulty?: boolean;
+}
+
+export interface AIQuotaCounter {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface AIQuotaWindow {
+  requests: AIQuotaCounter;
+  tokens: AIQuotaCounter;
+  resetsAt: string;
+  exhausted: boolean;
+}
+
+export interface AIUsage {
+  available: boolean;
+  tier: { name: string; minKarma: number };
+  nextTier: { name: string; minKarma: number } | null;
+  daily: AIQuotaWindow;
+  monthly: AIQuotaWindow;
+  history: {
+    days: { date: string; requests: number; tokens: number }[];
+    tasks: { task: string; requests: number; tokens: number }[];
+  };
 }
 
-export interface AIAnalysisResponse {
+export interface AIAnalysisResponse extends AIDegradation, AIAnalysisMeta {
   enhancement: IdeaEnhancement;
   techStack: TechStackRecommendation[];
   feasibility: FeasibilityScore;
@@ -46,6 +116,99 @@ export interface AIAnalysisResponse {
   processingTime: number;
 }
 
+export interface SimilarIdeasRequest {
+  title: string;
+  description?: string;
+  tags?: string[];
+  // The idea being edited, so it isn't reported as similar to itself
+  excludeId?: string;
+  limit?: number;
+}
+
+export interface SimilarIdea {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  voteScore: number;
+  author: { id: string; username: string; avatar: string | null };
+  // 0-1
+  score: number;
+  isLikelyDuplicate: boolean;
+}
+
+// Parts of a streamed analysis received so far, by section name
+export interface AIAnalysisSections {
+  improvements?: string[];
+  missingFeatures?: string[];
+  challenges?: string[];
+  opportunities?: string[];
+  techStack?: TechStackRecommendation[];
+  feasibility?: FeasibilityScore;
+  autoTags?: AutoTag[];
+}
+
+// Errors are shaped like axios errors so callers can read response.data.message
+const streamError = (status: number, data: any) =>
+  Object.assign(new Error(data?.message || 'AI request failed'), { response: { status, data } });
+
+// POSTs to a Server-Sent Events endpoint, reporting "section" events as they
+// arrive and resolving with the "done" payload. Abort the signal to cancel.
+async function streamAI<T>(
+  path: string,
+  body: unknown,
+  onSection: (section: string, data: any) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  const { tokens } = useAuthStore.getState();
+  const response = await fetch(`${apiClient.defaults.baseURL}${path}`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...(tokens?.accessToken ? { Authorization: `Bearer ${tokens.accessToken}` } : {})
+    },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  // Validation, auth and quota errors arrive as plain JSON before the stream starts
+  if (!response.ok || !response.body) {
+    throw streamError(response.status, await response.json().catch(() => null));
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() || '';
+
+    for (const message of messages) {
+      const event = message.match(/^event: (.*)$/m)?.[1];
+      const data = message.match(/^data: (.*)$/m)?.[1];
+      if (!event || !data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === 'section') {
+        onSection(payload.section, payload.data);
+      } else if (event === 'done') {
+        return payload;
+      } else if (event === 'error') {
+        throw streamError(payload.status, payload);
+      }
+    }
+  }
+
+  throw new Error('The AI response ended unexpectedly');
+}
+
 export const aiApi = {
   // Get AI analysis for an idea
   analyzeIdea: async (request: AIAnalysisRequest): Promise<AIAnalysisResponse> => {
@@ -53,6 +216,19 @@ export const aiApi = {
     return response.data;
   },
 
+  // Same as analyzeIdea, with sections reported as they stream in
+  streamAnalysis: (
+    request: AIAnalysisRequest,
+    onSection: (sections: AIAnalysisSections) => void,
+    signal?: AbortSignal
+  ): Promise<AIAnalysisResponse> => {
+    let sections: AIAnalysisSections = {};
+    return streamAI<AIAnalysisResponse>('/api/ai/analyze/stream', request, (section, data) => {
+      sections = { ...sections, [section]: data };
+      onSection(sections);
+    }, signal);
+  },
+
   // Get just idea enhancements
   enhanceIdea: async (request: AIAnalysisRequest): Promise<IdeaEnhancement> => {
     const response = await apiClient.post('/api/ai/enhance', request);
@@ -60,15 +236,15 @@ export const aiApi = {
   },
 
   // Get tech stack recommendations
-  recommendTechStack: async (request: AIAnalysisRequest): Promise<TechStackRecommendation[]> => {
+  recommendTechStack: async (request: AIAnalysisRequest): Promise<{ techStack: TechStackRecommendation[] } & AIDegradation & AIAnalysisMeta> => {
     const response = await apiClient.post('/api/ai/tech-stack', request);
     return response.data;
   },
 
-  // Get feasibility score
+  // Get feasibility score (part of the full analysis)
   scoreFeasibility: async (request: AIAnalysisRequest): Promise<FeasibilityScore> => {
-    const response = await apiClient.post('/api/ai/feasibility', request);
-    return response.data;
+    const response = await apiClient.post('/api/ai/analyze', request);
+    return response.data.feasibility;
   },
 
   // Get auto-generated tags
@@ -86,8 +262,33 @@ export const aiApi = {
     return response.data.suggestions;
   },
 
-  // Check if similar ideas exist
-  findSimilarIdeas: async (request: AIAnalysisRequest): Promise<any[]> => {
+  // Stored analyses of an idea, newest first
+  getIdeaAnalyses: async (ideaId: string, params?: { kind?: AIAnalysisKind; page?: number; limit?: number }): Promise<{
+    analyses: StoredAIAnalysis[];
+    pagination: { page: number; limit: number; total: number; pages: number };
+  }> => {
+    const response = await apiClient.get(`/api/ideas/${ideaId}/ai-analyses`, { params });
+    return response.data;
+  },
+
+  // Copy chosen suggestions from a stored analysis into the idea
+  applyIdeaAnalysis: async (ideaId: string, analysisId: string, request: ApplyAIAnalysisRequest): Promise<{
+    message: string;
+    idea: Idea;
+    analysis: StoredAIAnalysis;
+  }> => {
+    const response = await apiClient.post(`/api/ideas/${ideaId}/ai-analyses/${analysisId}/apply`, request);
+    return response.data;
+  },
+
+  // Current user's remaining AI budget and recent usage
+  getMyUsage: async (): Promise<AIUsage> => {
+    const response = await apiClient.get('/api/ai/usage/me');
+    return response.data;
+  },
+
+  // Published ideas that look like a draft, most similar first
+  findSimilarIdeas: async (request: SimilarIdeasRequest): Promise<{ similar: SimilarIdea[]; hasLikelyDuplicate: boolean }> => {
     const response = await apiClient.post('/api/ai/similar', request);
     return response.data;
   }
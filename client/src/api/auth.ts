@@ -9,7 +9,7 @@ export const authApi = {
   },
 
   // Login user
-  login: async (credentials: LoginCredentials): Promise<{ user: AuthUser; tokens: AuthTokens }> => {
+  login: async (credentials: LoginCredentials): Promise<{ user: AuthUser; tokens: AuthTokens; message: string; accountRestored?: boolean }> => {
     const response = await apiClient.post('/api/auth/login', credentials);
     return response.data;
   },
@@ -37,6 +37,12 @@ export const authApi = {
     return response.data;
   },
 
+  // Resend verification email
+  resendVerification: async (email: string): Promise<{ message: string }> => {
+    const response = await apiClient.post('/api/auth/resend-verification', { email });
+    return response.data;
+  },
+
   // Forgot password
   forgotPassword: async (email: string): Promise<{ message: string }> => {
     const response = await apiClient.post('/api/auth/forgot-password', { email });
@@ -1,5 +1,5 @@
 import apiClient from './client';
-import { Comment, CommentsResponse, CommentFormData, VoteType } from '@/types';
+import { Comment, CommentsResponse, CommentFormData, ReportInput, VoteType } from '@/types';
 
 export const commentsApi = {
   // Get comments for an idea
@@ -15,13 +15,14 @@ export const commentsApi = {
   },
 
   // Create comment
-  createComment: async (ideaId: string, data: CommentFormData): Promise<{ comment: Comment; message: string }> => {
+  // `held` means the comment was saved but waits for moderator review
+  createComment: async (ideaId: string, data: CommentFormData): Promise<{ comment: Comment; message: string; held?: boolean }> => {
     const response = await apiClient.post('/api/comments', { ideaId, ...data });
     return response.data;
   },
 
   // Update comment
-  updateComment: async (id: string, content: string): Promise<{ comment: Comment; message: string }> => {
+  updateComment: async (id: string, content: string): Promise<{ comment: Comment; message: string; held?: boolean }> => {
     const response = await apiClient.put(`/api/comments/${id}`, { content });
     return response.data;
   },
@@ -37,4 +38,10 @@ export const commentsApi = {
     const response = await apiClient.post(`/api/comments/${id}/vote`, { type });
     return response.data;
   },
+
+  // Flag a comment for moderator review
+  reportComment: async (id: string, input: ReportInput): Promise<{ message: string }> => {
+    const response = await apiClient.post(`/api/comments/${id}/report`, input);
+    return response.data;
+  },
 };
@@ -7,31 +7,33 @@ import type {
   TrendingResponse,
   IdeaFilters,
   PreferencesOptions,
-  PaginatedResponse
+  PaginatedResponse,
+  Idea,
+  IdeaFacets
 } from '../types';
 
 // User Preferences API
 export const preferencesApi = {
   // Get user preferences
   getPreferences: async (): Promise<UserPreferences> => {
-    const response = await api.get('/preferences');
+    const response = await api.get('/api/preferences');
     return response.data.data;
   },
 
   // Update user preferences
   updatePreferences: async (preferences: Partial<UserPreferences>): Promise<UserPreferences> => {
-    const response = await api.put('/preferences', preferences);
+    const response = await api.put('/api/preferences', preferences);
     return response.data.data;
   },
 
   // Reset preferences to defaults
   resetPreferences: async (): Promise<void> => {
-    await api.delete('/preferences');
+    await api.delete('/api/preferences');
   },
 
   // Get available options for preferences
   getOptions: async (): Promise<PreferencesOptions> => {
-    const response = await api.get('/preferences/options');
+    const response = await api.get('/api/preferences/options');
     return response.data.data;
   }
 };
@@ -115,11 +117,11 @@ export const collectionsApi = {
 
 // Enhanced Ideas API (extending existing ideas API)
 export const enhancedIdeasApi = {
-  // Get ideas with enhanced filtering
+  // Get ideas with enhanced filtering, plus facet counts for the filter panel
   getIdeas: async (filters: IdeaFilters & {
     page?: number;
     limit?: number;
-  } = {}): Promise<PaginatedResponse<any>> => {
+  } = {}): Promise<PaginatedResponse<Idea> & { facets?: IdeaFacets }> => {
     const params: any = {};
     
     if (filters.category) params.category = filters.category;
@@ -128,12 +130,18 @@ export const enhancedIdeasApi = {
     if (filters.techStack?.length) params.techStack = filters.techStack.join(',');
     if (filters.tags?.length) params.tags = filters.tags.join(',');
     if (filters.search) params.search = filters.search;
+    if (filters.recruiting) params.recruiting = true;
     if (filters.sort) params.sort = filters.sort;
     if (filters.page) params.page = filters.page;
     if (filters.limit) params.limit = filters.limit;
-
-    const response = await api.get('/ideas', { params });
-    return response.data;
+    params.facets = true;
+
+    const response = await api.get('/api/ideas', { params });
+    return {
+      data: response.data.ideas,
+      pagination: response.data.pagination,
+      facets: response.data.facets
+    };
   },
 
   // Get trending ideas specifically
@@ -1,5 +1,19 @@
 import apiClient from './client';
-import { Idea, IdeasResponse, IdeaFormData, SearchFilters, VoteType } from '@/types';
+import {
+  CollaboratorRole,
+  Idea,
+  IdeaCollaborator,
+  IdeaCollaboratorSummary,
+  IdeaRevision,
+  IdeasResponse,
+  JoinRequest,
+  JoinRequestStatus,
+  OpenRole,
+  IdeaFormData,
+  ReportInput,
+  SearchFilters,
+  VoteType,
+} from '@/types';
 
 export const ideasApi = {
   // Get all ideas with filtering and pagination
@@ -33,11 +47,102 @@ export const ideasApi = {
   },
 
   // Update idea
-  updateIdea: async (id: string, data: Partial<IdeaFormData>): Promise<{ idea: Idea; message: string }> => {
+  updateIdea: async (id: string, data: Partial<IdeaFormData>): Promise<{ idea: Idea; message: string; held?: boolean }> => {
     const response = await apiClient.put(`/api/ideas/${id}`, data);
     return response.data;
   },
 
+  // Get revision history
+  getRevisions: async (id: string, params?: { page?: number; limit?: number }): Promise<{
+    revisions: IdeaRevision[];
+    pagination: { page: number; limit: number; total: number; pages: number };
+  }> => {
+    const response = await apiClient.get(`/api/ideas/${id}/revisions`, { params });
+    return response.data;
+  },
+
+  // Restore a revision
+  restoreRevision: async (id: string, revisionId: string): Promise<{ idea: Idea; message: string; held?: boolean }> => {
+    const response = await apiClient.post(`/api/ideas/${id}/revisions/${revisionId}/restore`);
+    return response.data;
+  },
+
+  // Get collaborators (pending invitations are only returned to the owner)
+  getCollaborators: async (id: string): Promise<{ owner: IdeaCollaboratorSummary; collaborators: IdeaCollaborator[] }> => {
+    const response = await apiClient.get(`/api/ideas/${id}/collaborators`);
+    return response.data;
+  },
+
+  // Invite a collaborator
+  inviteCollaborator: async (id: string, data: { username: string; role: CollaboratorRole }): Promise<{ collaborator: IdeaCollaborator; message: string }> => {
+    const response = await apiClient.post(`/api/ideas/${id}/collaborators`, data);
+    return response.data;
+  },
+
+  // Change a collaborator's role
+  updateCollaboratorRole: async (id: string, userId: string, role: CollaboratorRole): Promise<{ collaborator: IdeaCollaborator; message: string }> => {
+    const response = await apiClient.patch(`/api/ideas/${id}/collaborators/${userId}`, { role });
+    return response.data;
+  },
+
+  // Remove a collaborator, cancel an invitation or leave the idea
+  removeCollaborator: async (id: string, userId: string): Promise<{ message: string }> => {
+    const response = await apiClient.delete(`/api/ideas/${id}/collaborators/${userId}`);
+    return response.data;
+  },
+
+  // Open or close recruitment and set open roles
+  updateRecruitment: async (id: string, data: {
+    isRecruiting: boolean;
+    openRoles?: (Pick<OpenRole, 'title' | 'skills'> & Partial<Pick<OpenRole, 'id' | 'filled'>>)[];
+  }): Promise<{ isRecruiting: boolean; openRoles: OpenRole[]; message: string }> => {
+    const response = await apiClient.put(`/api/ideas/${id}/recruitment`, data);
+    return response.data;
+  },
+
+  // Get join requests (all for the owner, your own otherwise)
+  getJoinRequests: async (id: string, params?: { status?: JoinRequestStatus; page?: number; limit?: number }): Promise<{
+    joinRequests: JoinRequest[];
+    pagination: { page: number; limit: number; total: number; pages: number };
+  }> => {
+    const response = await apiClient.get(`/api/ideas/${id}/join-requests`, { params });
+    return response.data;
+  },
+
+  // Ask to join an idea's team
+  requestToJoin: async (id: string, data: { roleId?: string; message: string }): Promise<{ joinRequest: JoinRequest; message: string }> => {
+    const response = await apiClient.post(`/api/ideas/${id}/join-requests`, data);
+    return response.data;
+  },
+
+  // Approve or reject a join request
+  respondToJoinRequest: async (id: string, requestId: string, status: 'APPROVED' | 'REJECTED'): Promise<{ joinRequest: JoinRequest; message: string }> => {
+    const response = await apiClient.patch(`/api/ideas/${id}/join-requests/${requestId}`, { status });
+    return response.data;
+  },
+
+  // Withdraw your pending join request
+  withdrawJoinRequest: async (id: string): Promise<{ message: string }> => {
+    const response = await apiClient.delete(`/api/ideas/${id}/join-requests/mine`);
+    return response.data;
+  },
+
+  // Merge a duplicate into the idea it duplicates (moderators only)
+  mergeIdea: async (id: string, targetId: string): Promise<{
+    message: string;
+    mergedInto: { id: string; title: string };
+    summary: { votesMoved: number; commentsMoved: number; bookmarksMoved: number; collectionItemsMoved: number };
+  }> => {
+    const response = await apiClient.post(`/api/ideas/${id}/merge`, { targetId });
+    return response.data;
+  },
+
+  // Flag an idea for moderator review
+  reportIdea: async (id: string, input: ReportInput): Promise<{ message: string }> => {
+    const response = await apiClient.post(`/api/ideas/${id}/report`, input);
+    return response.data;
+  },
+
   // Delete idea
   deleteIdea: async (id: string): Promise<{ message: string }> => {
     const response = await apiClient.delete(`/api/ideas/${id}`);
@@ -0,0 +1,28 @@
+import apiClient from './client';
+import { CollaborationInvitation } from '@/types';
+
+export const invitationsApi = {
+  // Get the current user's pending invitations
+  getInvitations: async (): Promise<{ invitations: CollaborationInvitation[] }> => {
+    const response = await apiClient.get('/api/invitations');
+    return response.data;
+  },
+
+  // Get an invitation from its link token
+  getInvitation: async (token: string): Promise<{ invitation: CollaborationInvitation }> => {
+    const response = await apiClient.get(`/api/invitations/${token}`);
+    return response.data;
+  },
+
+  // Accept an invitation
+  acceptInvitation: async (token: string): Promise<{ invitation: CollaborationInvitation; message: string }> => {
+    const response = await apiClient.post(`/api/invitations/${token}/accept`);
+    return response.data;
+  },
+
+  // Decline an invitation
+  declineInvitation: async (token: string): Promise<{ invitation: CollaborationInvitation; message: string }> => {
+    const response = await apiClient.post(`/api/invitations/${token}/decline`);
+    return response.data;
+  },
+};
@@ -0,0 +1,80 @@
+import apiClient from './client';
+import {
+  ModerationAction,
+  ModerationQueueItem,
+  ReportStatus,
+  ReportTargetType,
+  ScreeningAction,
+  ScreeningDecision,
+  ScreeningStatus,
+  ScreeningVerdict,
+  SuspendedUser
+} from '@/types';
+
+export interface ModerationResult {
+  message: string;
+  reportCount: number;
+  isHidden: boolean;
+}
+
+export const moderationApi = {
+  // Reported content grouped per idea or comment, most reported first
+  getQueue: async (params?: {
+    type?: ReportTargetType;
+    status?: ReportStatus;
+    page?: number;
+    limit?: number;
+  }): Promise<{ items: ModerationQueueItem[]; pagination: { page: number; limit: number; total: number; pages: number } }> => {
+    const response = await apiClient.get('/api/moderation/queue', { params });
+    return response.data;
+  },
+
+  moderateIdea: async (id: string, action: ModerationAction, note?: string): Promise<ModerationResult> => {
+    const response = await apiClient.post(`/api/moderation/ideas/${id}/actions`, { action, note });
+    return response.data;
+  },
+
+  moderateComment: async (id: string, action: ModerationAction, note?: string): Promise<ModerationResult> => {
+    const response = await apiClient.post(`/api/moderation/comments/${id}/actions`, { action, note });
+    return response.data;
+  },
+
+  // Content held or rejected by automatic screening
+  getScreeningVerdicts: async (params?: {
+    status?: ScreeningStatus;
+    action?: Exclude<ScreeningAction, 'ALLOW'>;
+    page?: number;
+    limit?: number;
+  }): Promise<{ verdicts: ScreeningVerdict[]; pagination: { page: number; limit: number; total: number; pages: number } }> => {
+    const response = await apiClient.get('/api/moderation/screening', { params });
+    return response.data;
+  },
+
+  reviewScreeningVerdict: async (id: string, decision: ScreeningDecision, note?: string): Promise<{
+    message: string;
+    status: ScreeningStatus;
+    contentChanged: boolean;
+  }> => {
+    const response = await apiClient.post(`/api/moderation/screening/${id}/review`, { decision, note });
+    return response.data;
+  },
+
+  getSuspendedUsers: async (params?: { page?: number; limit?: number }): Promise<{
+    users: SuspendedUser[];
+    pagination: { page: number; limit: number; total: number; pages: number };
+  }> => {
+    const response = await apiClient.get('/api/moderation/users/suspended', { params });
+    return response.data;
+  },
+
+  // Without `until` the suspension is permanent
+  suspendUser: async (id: string, reason: string, until?: string | null): Promise<{ message: string }> => {
+    const response = await apiClient.post(`/api/moderation/users/${id}/suspension`, { reason, until });
+    return response.data;
+  },
+
+  liftSuspension: async (id: string, reason?: string): Promise<{ message: string }> => {
+    const response = await apiClient.delete(`/api/moderation/users/${id}/suspension`, { data: { reason } });
+    return response.data;
+  },
+};
@@ -30,7 +30,7 @@ export const notificationsApi = {
 
   // Mark all notifications as read
   markAllAsRead: async (): Promise<{ message: string }> => {
-    const response = await apiClient.put('/api/notifications/read-all');
+    const response = await apiClient.put('/api/notifications/mark-all-read');
     return response.data;
   },
 
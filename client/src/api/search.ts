@@ -1,9 +1,9 @@
 import apiClient from './client';
-import { IdeasResponse, SearchFilters } from '@/types';
+import { SavedSearch, SavedSearchInput, SearchFilters, SearchResponse } from '@/types';
 
 export const searchApi = {
   // Search ideas
-  searchIdeas: async (query: string, filters?: SearchFilters): Promise<IdeasResponse> => {
+  searchIdeas: async (query: string, filters?: SearchFilters): Promise<SearchResponse> => {
     const response = await apiClient.get('/api/search', {
       params: { q: query, ...filters }
     });
@@ -29,4 +29,24 @@ export const searchApi = {
     const response = await apiClient.get('/api/search/popular');
     return response.data.searches;
   },
+
+  // Saved searches of the current user
+  getSavedSearches: async (): Promise<{ savedSearches: SavedSearch[]; limit: number }> => {
+    const response = await apiClient.get('/api/search/saved');
+    return response.data;
+  },
+
+  createSavedSearch: async (input: SavedSearchInput): Promise<{ savedSearch: SavedSearch }> => {
+    const response = await apiClient.post('/api/search/saved', input);
+    return response.data;
+  },
+
+  updateSavedSearch: async (id: string, input: Partial<SavedSearchInput>): Promise<{ savedSearch: SavedSearch }> => {
+    const response = await apiClient.patch(`/api/search/saved/${id}`, input);
+    return response.data;
+  },
+
+  deleteSavedSearch: async (id: string): Promise<void> => {
+    await apiClient.delete(`/api/search/saved/${id}`);
+  },
 };
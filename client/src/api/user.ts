@@ -1,5 +1,5 @@
 import apiClient from './client';
-import { AuthUser } from '@/types';
+import { AccountDeletionMode, AuthUser, FollowUser, User } from '@/types';
 
 export const userApi = {
   // Get user profile
@@ -8,6 +8,12 @@ export const userApi = {
     return response.data;
   },
 
+  // Look up users by username prefix
+  lookupUsers: async (q: string, limit = 8): Promise<{ users: Pick<User, 'id' | 'username' | 'avatar'>[] }> => {
+    const response = await apiClient.get('/api/users/lookup', { params: { q, limit } });
+    return response.data;
+  },
+
   // Get user stats
   getUserStats: async (username: string): Promise<{
     totalIdeas: number;
@@ -41,20 +47,32 @@ export const userApi = {
     return response.data;
   },
 
-  // Follow/unfollow user
-  followUser: async (username: string): Promise<{ isFollowing: boolean; message: string }> => {
+  // Follow user
+  followUser: async (username: string): Promise<{ isFollowing: boolean; followerCount: number; message: string }> => {
     const response = await apiClient.post(`/api/users/${username}/follow`);
     return response.data;
   },
 
+  // Unfollow user
+  unfollowUser: async (username: string): Promise<{ isFollowing: boolean; followerCount: number; message: string }> => {
+    const response = await apiClient.delete(`/api/users/${username}/follow`);
+    return response.data;
+  },
+
   // Get followers
-  getFollowers: async (username: string, params?: { page?: number; limit?: number }) => {
+  getFollowers: async (username: string, params?: { page?: number; limit?: number }): Promise<{
+    followers: FollowUser[];
+    pagination: { page: number; limit: number; total: number; pages: number };
+  }> => {
     const response = await apiClient.get(`/api/users/${username}/followers`, { params });
     return response.data;
   },
 
   // Get following
-  getFollowing: async (username: string, params?: { page?: number; limit?: number }) => {
+  getFollowing: async (username: string, params?: { page?: number; limit?: number }): Promise<{
+    following: FollowUser[];
+    pagination: { page: number; limit: number; total: number; pages: number };
+  }> => {
     const response = await apiClient.get(`/api/users/${username}/following`, { params });
     return response.data;
   },
@@ -76,4 +94,16 @@ export const userApi = {
     const response = await apiClient.get('/api/users/bookmarks', { params });
     return response.data;
   },
+
+  // Deactivate the signed-in account; signing in again reactivates it
+  deactivateAccount: async (password?: string): Promise<{ message: string }> => {
+    const response = await apiClient.post('/api/users/account/deactivate', { password });
+    return response.data;
+  },
+
+  // Delete the signed-in account after a grace period
+  scheduleAccountDeletion: async (mode: AccountDeletionMode, password?: string): Promise<{ message: string; deleteAt: string }> => {
+    const response = await apiClient.post('/api/users/account/deletion', { mode, password });
+    return response.data;
+  },
 };
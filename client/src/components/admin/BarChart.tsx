@@ -0,0 +1,72 @@
+import { cn } from '@/utils/cn';
+
+export interface BarSeries {
+  key: string;
+  label: string;
+  // Tailwind fill class, e.g. fill-primary-500
+  className: string;
+}
+
+interface BarChartProps<T> {
+  data: T[];
+  series: BarSeries[];
+  labelOf: (row: T) => string;
+  valueOf: (row: T, key: string) => number;
+  height?: number;
+}
+
+// Grouped bar chart drawn as plain SVG; one group per row, one bar per series
+const BarChart = <T,>({ data, series, labelOf, valueOf, height = 180 }: BarChartProps<T>) => {
+  const max = Math.max(1, ...data.flatMap(row => series.map(s => valueOf(row, s.key))));
+  const groupWidth = 100 / Math.max(1, data.length);
+  const barWidth = (groupWidth * 0.8) / series.length;
+  // Label every nth group so long ranges stay readable
+  const labelEvery = Math.ceil(data.length / 10);
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-4 mb-2 text-xs text-gray-600">
+        {series.map(s => (
+          <span key={s.key} className="flex items-center gap-1">
+            <svg className="w-3 h-3" viewBox="0 0 10 10"><rect width="10" height="10" rx="2" className={s.className} /></svg>
+            {s.label}
+          </span>
+        ))}
+        <span className="ml-auto">max {max.toLocaleString()}</span>
+      </div>
+      <svg viewBox={`0 0 100 ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }}>
+        {data.map((row, index) =>
+          series.map((s, seriesIndex) => {
+            const value = valueOf(row, s.key);
+            const barHeight = (value / max) * (height - 2);
+            return (
+              <rect
+                key={`${index}-${s.key}`}
+                x={index * groupWidth + groupWidth * 0.1 + seriesIndex * barWidth}
+                y={height - barHeight}
+                width={barWidth}
+                height={barHeight}
+                className={cn(s.className, 'hover:opacity-75')}
+              >
+                <title>{`${labelOf(row)} · ${s.label}: ${value.toLocaleString()}`}</title>
+              </rect>
+            );
+          })
+        )}
+      </svg>
+      <div className="relative h-4 mt-1 text-[10px] text-gray-500">
+        {data.map((row, index) => index % labelEvery === 0 && (
+          <span
+            key={index}
+            className="absolute -translate-x-1/2 whitespace-nowrap"
+            style={{ left: `${(index + 0.5) * groupWidth}%` }}
+          >
+            {labelOf(row)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BarChart;
@@ -1,7 +1,11 @@
-import { useState } from 'react';
-import { useMutation } from '@tanstack/react-query';
-import { aiApi, AIAnalysisResponse, AIAnalysisRequest } from '@/api/ai';
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { aiApi, AIAnalysisResponse, AIAnalysisSections, ApplyAIAnalysisRequest } from '@/api/ai';
+import { Idea } from '@/types';
+import { cn } from '@/utils/cn';
 import {
+  ArrowPathIcon,
   SparklesIcon,
   LightBulbIcon,
   CpuChipIcon,
@@ -10,7 +14,8 @@ import {
   ExclamationTriangleIcon,
   CheckCircleIcon,
   ClockIcon,
-  ArrowTrendingUpIcon
+  ArrowTrendingUpIcon,
+  XMarkIcon
 } from '@heroicons/react/24/outline';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import toast from 'react-hot-toast';
@@ -20,6 +25,10 @@ interface AIEnhancementPanelProps {
   description: string;
   category?: string;
   tags?: string[];
+  // Saved idea being analyzed: results are stored on it and suggestions are
+  // applied on the server
+  ideaId?: string;
+  onIdeaUpdated?: (idea: Idea) => void;
   onSuggestionsApplied?: (suggestions: {
     tags?: string[];
     description?: string;
@@ -27,52 +36,167 @@ interface AIEnhancementPanelProps {
   }) => void;
 }
 
+const PendingSection = ({ label }: { label: string }) => (
+  <div className="flex items-center space-x-2 text-sm text-neutral-500 dark:text-neutral-400">
+    <LoadingSpinner size="sm" />
+    <span>Waiting for {label}...</span>
+  </div>
+);
+
 const AIEnhancementPanel = ({
   title,
   description,
   category,
   tags = [],
+  ideaId,
+  onIdeaUpdated,
   onSuggestionsApplied
 }: AIEnhancementPanelProps) => {
+  const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState<'enhancement' | 'techstack' | 'feasibility' | 'tags'>('enhancement');
   const [analysis, setAnalysis] = useState<AIAnalysisResponse | null>(null);
+  const [loadedFromStore, setLoadedFromStore] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedTech, setSelectedTech] = useState<string[]>([]);
+  // Sections of the analysis currently streaming in, replaced by the full
+  // result once it is done
+  const [streamedSections, setStreamedSections] = useState<AIAnalysisSections | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const { data: storedData } = useQuery({
+    queryKey: ['idea-ai-analyses', ideaId, 'ANALYSIS'],
+    queryFn: () => aiApi.getIdeaAnalyses(ideaId!, { kind: 'ANALYSIS', limit: 1 }),
+    enabled: !!ideaId,
+  });
+  const stored = storedData?.analyses[0];
+
+  const showAnalysis = (data: AIAnalysisResponse) => {
+    setAnalysis(data);
+    setSelectedTags(data.autoTags.filter(tag => tag.confidence > 0.7).map(tag => tag.tag));
+    setSelectedTech([]);
+  };
+
+  // Show the last saved analysis until a new one is run
+  useEffect(() => {
+    if (stored && !analysis) {
+      showAnalysis({
+        ...stored.result,
+        analysisId: stored.id,
+        version: stored.version,
+        analyzedAt: stored.createdAt,
+        cached: true
+      });
+      setLoadedFromStore(true);
+    }
+  }, [stored, analysis]);
 
   const analyzeIdeaMutation = useMutation({
-    mutationFn: (request: AIAnalysisRequest) => aiApi.analyzeIdea(request),
+    mutationFn: (refresh: boolean) => {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setStreamedSections({});
+      return aiApi.streamAnalysis(
+        { title, description, category, tags, ideaId, refresh },
+        setStreamedSections,
+        controller.signal
+      );
+    },
     onSuccess: (data) => {
-      setAnalysis(data);
-      toast.success('AI analysis completed!');
+      showAnalysis(data);
+      setLoadedFromStore(false);
+      if (ideaId) {
+        queryClient.invalidateQueries({ queryKey: ['idea-ai-analyses', ideaId] });
+      }
+      if (data.degraded) {
+        toast('AI analysis unavailable, showing generic suggestions');
+      } else if (data.cached) {
+        toast.success('Nothing changed since the last analysis, showing the saved result');
+      } else {
+        toast.success('AI analysis completed!');
+      }
+    },
+    onError: (error: any) => {
+      if (error.name === 'AbortError') {
+        toast('Analysis cancelled');
+        return;
+      }
+      // Quota errors (402/429) explain when the budget resets
+      toast.error(error.response?.data?.message || 'Failed to analyze idea. Please try again.');
     },
-    onError: () => {
-      toast.error('Failed to analyze idea. Please try again.');
+    onSettled: () => {
+      abortRef.current = null;
+      setStreamedSections(null);
+      queryClient.invalidateQueries({ queryKey: ['ai-usage'] });
     }
   });
 
-  const handleAnalyzeIdea = () => {
+  const applyMutation = useMutation({
+    mutationFn: (request: ApplyAIAnalysisRequest) => aiApi.applyIdeaAnalysis(ideaId!, analysis!.analysisId!, request),
+    onSuccess: (result) => {
+      onIdeaUpdated?.(result.idea);
+      queryClient.invalidateQueries({ queryKey: ['idea-ai-analyses', ideaId] });
+      toast.success(result.message);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to apply suggestions');
+    }
+  });
+
+  // Stop streaming if the panel goes away mid-analysis
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const isStreaming = !!streamedSections;
+
+  // What the tabs render: the sections streamed so far, or the last full result
+  const view: AIAnalysisSections | null = streamedSections || (analysis && {
+    ...analysis.enhancement,
+    techStack: analysis.techStack,
+    feasibility: analysis.feasibility,
+    autoTags: analysis.autoTags
+  });
+
+  const autoTags = view?.autoTags;
+
+  // Saved ideas apply through the server; drafts hand suggestions to the form
+  const canApplyToIdea = !isStreaming && !!ideaId && !!analysis?.analysisId;
+  const canApply = canApplyToIdea || (!isStreaming && !ideaId && !!onSuggestionsApplied);
+
+  const handleAnalyzeIdea = (refresh = false) => {
     if (!title.trim() || !description.trim()) {
       toast.error('Please provide both title and description');
       return;
     }
 
-    analyzeIdeaMutation.mutate({
-      title,
-      description,
-      category,
-      tags
-    });
+    analyzeIdeaMutation.mutate(refresh);
   };
 
-  const applyAutoTags = () => {
-    if (analysis?.autoTags && onSuggestionsApplied) {
-      const suggestedTags = analysis.autoTags
-        .filter(tag => tag.confidence > 0.7)
-        .map(tag => tag.tag);
-      
-      onSuggestionsApplied({ tags: [...tags, ...suggestedTags] });
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const applySelectedTags = () => {
+    if (selectedTags.length === 0) return;
+
+    if (canApplyToIdea) {
+      applyMutation.mutate({ tags: selectedTags });
+    } else if (onSuggestionsApplied) {
+      onSuggestionsApplied({ tags: selectedTags });
       toast.success('Tags applied successfully!');
     }
   };
 
+  const applySelectedTech = () => {
+    if (selectedTech.length === 0) return;
+
+    if (canApplyToIdea) {
+      applyMutation.mutate({ techStack: selectedTech });
+    } else if (onSuggestionsApplied) {
+      onSuggestionsApplied({ techStack: selectedTech });
+      toast.success('Tech stack updated!');
+    }
+  };
+
+  const isOutdated = loadedFromStore && !!stored && stored.id === analysis?.analysisId && !stored.isCurrent;
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'beginner': return 'text-green-600 bg-green-100';
@@ -105,24 +229,32 @@ const AIEnhancementPanel = ({
             <SparklesIcon className="w-6 h-6 text-white" />
             <h3 className="text-lg font-semibold text-white">AI-Powered Assistance</h3>
           </div>
-          <button
-            type="button"
-            onClick={handleAnalyzeIdea}
-            disabled={analyzeIdeaMutation.isPending || !title.trim() || !description.trim()}
-            className="btn btn-sm bg-white/20 hover:bg-white/30 text-white border-white/30 disabled:opacity-50"
-          >
-            {analyzeIdeaMutation.isPending ? (
-              <>
+          {analyzeIdeaMutation.isPending ? (
+            <div className="flex items-center space-x-2">
+              <span className="flex items-center text-sm text-white">
                 <LoadingSpinner size="sm" />
-                Analyzing...
-              </>
-            ) : (
-              <>
-                <SparklesIcon className="w-4 h-4 mr-2" />
-                Analyze Idea
-              </>
-            )}
-          </button>
+                <span className="ml-2">Analyzing...</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => abortRef.current?.abort()}
+                className="btn btn-sm bg-white/20 hover:bg-white/30 text-white border-white/30"
+              >
+                <XMarkIcon className="w-4 h-4 mr-1" />
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => handleAnalyzeIdea()}
+              disabled={!title.trim() || !description.trim()}
+              className="btn btn-sm bg-white/20 hover:bg-white/30 text-white border-white/30 disabled:opacity-50"
+            >
+              <SparklesIcon className="w-4 h-4 mr-2" />
+              Analyze Idea
+            </button>
+          )}
         </div>
       </div>
 
@@ -152,7 +284,7 @@ const AIEnhancementPanel = ({
 
       {/* Content */}
       <div className="p-6">
-        {!analysis ? (
+        {!view ? (
           <div className="text-center py-8">
             <SparklesIcon className="w-12 h-12 text-neutral-400 mx-auto mb-4" />
             <p className="text-neutral-600 dark:text-neutral-400">
@@ -161,6 +293,41 @@ const AIEnhancementPanel = ({
           </div>
         ) : (
           <div className="space-y-6">
+            {!isStreaming && analysis?.analysisId && analysis.analyzedAt && (
+              <div className="flex items-center justify-between text-sm text-neutral-500 dark:text-neutral-400">
+                <span>
+                  Saved analysis v{analysis.version} from {formatDistanceToNow(new Date(analysis.analyzedAt), { addSuffix: true })}
+                  {isOutdated && (
+                    <span className="text-amber-600 dark:text-amber-400"> · the idea changed since then</span>
+                  )}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleAnalyzeIdea(true)}
+                  disabled={analyzeIdeaMutation.isPending}
+                  className="inline-flex items-center text-primary-600 hover:text-primary-700 dark:text-primary-400"
+                >
+                  <ArrowPathIcon className="w-4 h-4 mr-1" />
+                  Run again
+                </button>
+              </div>
+            )}
+
+            {!isStreaming && analysis?.degraded && (
+              <div className="flex items-start space-x-3 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-4">
+                <ExclamationTriangleIcon className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+                <div className="text-sm">
+                  <p className="font-medium text-amber-800 dark:text-amber-200">These are generic suggestions, not an AI analysis</p>
+                  <p className="text-amber-700 dark:text-amber-300 mt-1">
+                    {analysis.degradedReason === 'provider_error'
+                      ? 'The AI service could not be reached.'
+                      : 'The AI did not return a usable answer.'}{' '}
+                    The content below is based only on your idea's category. Try analyzing again in a moment.
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* Enhancement Tab */}
             {activeTab === 'enhancement' && (
               <div className="space-y-6">
@@ -169,14 +336,18 @@ const AIEnhancementPanel = ({
                     <ArrowTrendingUpIcon className="w-5 h-5 mr-2 text-green-600" />
                     Suggested Improvements
                   </h4>
-                  <ul className="space-y-2">
-                    {analysis.enhancement.improvements.map((improvement, index) => (
-                      <li key={index} className="flex items-start space-x-3">
-                        <CheckCircleIcon className="w-5 h-5 text-green-600 mt-0.5 flex-shrink-0" />
-                        <span className="text-neutral-700 dark:text-neutral-300">{improvement}</span>
-                      </li>
-                    ))}
-                  </ul>
+                  {view.improvements ? (
+                    <ul className="space-y-2">
+                      {view.improvements.map((improvement, index) => (
+                        <li key={index} className="flex items-start space-x-3">
+                          <CheckCircleIcon className="w-5 h-5 text-green-600 mt-0.5 flex-shrink-0" />
+                          <span className="text-neutral-700 dark:text-neutral-300">{improvement}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <PendingSection label="improvements" />
+                  )}
                 </div>
 
                 <div>
@@ -184,14 +355,18 @@ const AIEnhancementPanel = ({
                     <LightBulbIcon className="w-5 h-5 mr-2 text-yellow-600" />
                     Missing Features
                   </h4>
-                  <ul className="space-y-2">
-                    {analysis.enhancement.missingFeatures.map((feature, index) => (
-                      <li key={index} className="flex items-start space-x-3">
-                        <LightBulbIcon className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
-                        <span className="text-neutral-700 dark:text-neutral-300">{feature}</span>
-                      </li>
-                    ))}
-                  </ul>
+                  {view.missingFeatures ? (
+                    <ul className="space-y-2">
+                      {view.missingFeatures.map((feature, index) => (
+                        <li key={index} className="flex items-start space-x-3">
+                          <LightBulbIcon className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
+                          <span className="text-neutral-700 dark:text-neutral-300">{feature}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <PendingSection label="missing features" />
+                  )}
                 </div>
 
                 <div>
@@ -199,14 +374,18 @@ const AIEnhancementPanel = ({
                     <ExclamationTriangleIcon className="w-5 h-5 mr-2 text-orange-600" />
                     Potential Challenges
                   </h4>
-                  <ul className="space-y-2">
-                    {analysis.enhancement.challenges.map((challenge, index) => (
-                      <li key={index} className="flex items-start space-x-3">
-                        <ExclamationTriangleIcon className="w-5 h-5 text-orange-600 mt-0.5 flex-shrink-0" />
-                        <span className="text-neutral-700 dark:text-neutral-300">{challenge}</span>
-                      </li>
-                    ))}
-                  </ul>
+                  {view.challenges ? (
+                    <ul className="space-y-2">
+                      {view.challenges.map((challenge, index) => (
+                        <li key={index} className="flex items-start space-x-3">
+                          <ExclamationTriangleIcon className="w-5 h-5 text-orange-600 mt-0.5 flex-shrink-0" />
+                          <span className="text-neutral-700 dark:text-neutral-300">{challenge}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <PendingSection label="challenges" />
+                  )}
                 </div>
               </div>
             )}
@@ -214,81 +393,122 @@ const AIEnhancementPanel = ({
             {/* Tech Stack Tab */}
             {activeTab === 'techstack' && (
               <div className="space-y-4">
-                <h4 className="font-semibold text-neutral-900 dark:text-white mb-4">
-                  Recommended Technologies
-                </h4>
-                {analysis.techStack.map((tech, index) => (
-                  <div key={index} className="border border-neutral-200 dark:border-neutral-700 rounded-lg p-4">
-                    <div className="flex items-start justify-between mb-2">
-                      <div>
-                        <h5 className="font-medium text-neutral-900 dark:text-white">{tech.category}</h5>
-                        <p className="text-lg font-semibold text-primary-600 dark:text-primary-400">{tech.technology}</p>
-                      </div>
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getDifficultyColor(tech.difficulty)}`}>
-                        {tech.difficulty}
-                      </span>
-                    </div>
-                    <p className="text-neutral-600 dark:text-neutral-400 mb-3">{tech.reason}</p>
-                    {tech.alternatives.length > 0 && (
-                      <div>
-                        <span className="text-sm font-medium text-neutral-700 dark:text-neutral-300">Alternatives: </span>
-                        <span className="text-sm text-neutral-600 dark:text-neutral-400">
-                          {tech.alternatives.join(', ')}
+                <div className="flex items-center justify-between mb-4">
+                  <h4 className="font-semibold text-neutral-900 dark:text-white">
+                    Recommended Technologies
+                  </h4>
+                  {canApply && (
+                    <button
+                      type="button"
+                      onClick={applySelectedTech}
+                      disabled={selectedTech.length === 0 || applyMutation.isPending}
+                      className="btn btn-sm btn-primary"
+                    >
+                      Add Selected to Tech Stack
+                    </button>
+                  )}
+                </div>
+                {view.techStack ? (
+                  view.techStack.map((tech, index) => (
+                    <div key={index} className="border border-neutral-200 dark:border-neutral-700 rounded-lg p-4">
+                      <div className="flex items-start justify-between mb-2">
+                        <div className="flex items-start">
+                          {canApply && (
+                            <input
+                              type="checkbox"
+                              checked={selectedTech.includes(tech.technology)}
+                              onChange={() => setSelectedTech(toggle(selectedTech, tech.technology))}
+                              className="mt-1 mr-3 rounded"
+                              aria-label={`Add ${tech.technology} to the tech stack`}
+                            />
+                          )}
+                          <div>
+                            <h5 className="font-medium text-neutral-900 dark:text-white">{tech.category}</h5>
+                            <p className="text-lg font-semibold text-primary-600 dark:text-primary-400">{tech.technology}</p>
+                          </div>
+                        </div>
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getDifficultyColor(tech.difficulty)}`}>
+                          {tech.difficulty}
                         </span>
                       </div>
-                    )}
-                  </div>
-                ))}
+                      <p className="text-neutral-600 dark:text-neutral-400 mb-3">{tech.reason}</p>
+                      {tech.alternatives.length > 0 && (
+                        <div>
+                          <span className="text-sm font-medium text-neutral-700 dark:text-neutral-300">Alternatives: </span>
+                          <span className="text-sm text-neutral-600 dark:text-neutral-400">
+                            {tech.alternatives.join(', ')}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                ) : (
+                  <PendingSection label="tech stack recommendations" />
+                )}
               </div>
             )}
 
             {/* Feasibility Tab */}
-            {activeTab === 'feasibility' && (
+            {activeTab === 'feasibility' && !view.feasibility && <PendingSection label="feasibility scores" />}
+            {activeTab === 'feasibility' && view.feasibility && (
               <div className="space-y-6">
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div className="text-center">
-                    <div className={`text-3xl font-bold ${getFeasibilityColor(analysis.feasibility.overall)}`}>
-                      {analysis.feasibility.overall}/10
+                    <div className={`text-3xl font-bold ${getFeasibilityColor(view.feasibility.overall)}`}>
+                      {view.feasibility.overall}/10
                     </div>
                     <div className="text-sm text-neutral-600 dark:text-neutral-400">Overall</div>
                   </div>
                   <div className="text-center">
-                    <div className={`text-3xl font-bold ${getFeasibilityColor(analysis.feasibility.technical)}`}>
-                      {analysis.feasibility.technical}/10
+                    <div className={`text-3xl font-bold ${getFeasibilityColor(view.feasibility.technical)}`}>
+                      {view.feasibility.technical}/10
                     </div>
                     <div className="text-sm text-neutral-600 dark:text-neutral-400">Technical</div>
                   </div>
                   <div className="text-center">
-                    <div className={`text-3xl font-bold ${getFeasibilityColor(analysis.feasibility.market)}`}>
-                      {analysis.feasibility.market}/10
+                    <div className={`text-3xl font-bold ${getFeasibilityColor(view.feasibility.market)}`}>
+                      {view.feasibility.market}/10
                     </div>
                     <div className="text-sm text-neutral-600 dark:text-neutral-400">Market</div>
                   </div>
                   <div className="text-center">
-                    <div className={`text-3xl font-bold ${getFeasibilityColor(analysis.feasibility.complexity)}`}>
-                      {analysis.feasibility.complexity}/10
+                    <div className={`text-3xl font-bold ${getFeasibilityColor(view.feasibility.complexity)}`}>
+                      {view.feasibility.complexity}/10
                     </div>
                     <div className="text-sm text-neutral-600 dark:text-neutral-400">Complexity</div>
                   </div>
                 </div>
 
+                {canApplyToIdea && (
+                  <div className="flex justify-end">
+                    <button
+                      type="button"
+                      onClick={() => applyMutation.mutate({ difficulty: true })}
+                      disabled={applyMutation.isPending}
+                      className="btn btn-sm btn-outline"
+                    >
+                      Use Complexity as Difficulty Level
+                    </button>
+                  </div>
+                )}
+
                 <div className="bg-neutral-50 dark:bg-neutral-800 rounded-lg p-4">
                   <div className="flex items-center mb-2">
                     <ClockIcon className="w-5 h-5 text-neutral-600 dark:text-neutral-400 mr-2" />
                     <span className="font-medium text-neutral-900 dark:text-white">Estimated Timeline</span>
                   </div>
                   <p className="text-lg font-semibold text-primary-600 dark:text-primary-400">
-                    {analysis.feasibility.timeEstimate}
+                    {view.feasibility.timeEstimate}
                   </p>
                 </div>
 
                 <div>
                   <h4 className="font-semibold text-neutral-900 dark:text-white mb-3">AI Analysis</h4>
-                  <p className="text-neutral-700 dark:text-neutral-300 mb-4">{analysis.feasibility.reasoning}</p>
+                  <p className="text-neutral-700 dark:text-neutral-300 mb-4">{view.feasibility.reasoning}</p>
                   
                   <h5 className="font-medium text-neutral-900 dark:text-white mb-2">Recommendations</h5>
                   <ul className="space-y-2">
-                    {analysis.feasibility.recommendations.map((rec, index) => (
+                    {view.feasibility.recommendations.map((rec, index) => (
                       <li key={index} className="flex items-start space-x-3">
                         <CheckCircleIcon className="w-5 h-5 text-green-600 mt-0.5 flex-shrink-0" />
                         <span className="text-neutral-700 dark:text-neutral-300">{rec}</span>
@@ -300,24 +520,28 @@ const AIEnhancementPanel = ({
             )}
 
             {/* Tags Tab */}
-            {activeTab === 'tags' && (
+            {activeTab === 'tags' && !autoTags && <PendingSection label="tags" />}
+            {activeTab === 'tags' && autoTags && (
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <h4 className="font-semibold text-neutral-900 dark:text-white">
                     AI-Generated Tags
                   </h4>
-                  <button
-                    type="button"
-                    onClick={applyAutoTags}
-                    className="btn btn-sm btn-primary"
-                  >
-                    Apply High-Confidence Tags
-                  </button>
+                  {canApply && (
+                    <button
+                      type="button"
+                      onClick={applySelectedTags}
+                      disabled={selectedTags.length === 0 || applyMutation.isPending}
+                      className="btn btn-sm btn-primary"
+                    >
+                      Apply Selected Tags ({selectedTags.length})
+                    </button>
+                  )}
                 </div>
                 
                 <div className="space-y-3">
                   {['technology', 'domain', 'difficulty', 'type'].map(category => {
-                    const categoryTags = analysis.autoTags.filter(tag => tag.category === category);
+                    const categoryTags = autoTags.filter(tag => tag.category === category);
                     if (categoryTags.length === 0) return null;
                     
                     return (
@@ -327,21 +551,27 @@ const AIEnhancementPanel = ({
                         </h5>
                         <div className="flex flex-wrap gap-2">
                           {categoryTags.map((tag, index) => (
-                            <span
+                            <button
                               key={index}
-                              className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
+                              type="button"
+                              onClick={() => setSelectedTags(toggle(selectedTags, tag.tag))}
+                              disabled={!canApply}
+                              aria-pressed={selectedTags.includes(tag.tag)}
+                              className={cn(
+                                'inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border',
                                 tag.confidence > 0.8
-                                  ? 'bg-green-100 text-green-800 border border-green-200'
+                                  ? 'bg-green-100 text-green-800 border-green-200'
                                   : tag.confidence > 0.6
-                                  ? 'bg-yellow-100 text-yellow-800 border border-yellow-200'
-                                  : 'bg-neutral-100 text-neutral-800 border border-neutral-200'
-                              }`}
+                                  ? 'bg-yellow-100 text-yellow-800 border-yellow-200'
+                                  : 'bg-neutral-100 text-neutral-800 border-neutral-200',
+                                canApply && selectedTags.includes(tag.tag) && 'ring-2 ring-primary-500'
+                              )}
                             >
                               {tag.tag}
                               <span className="ml-2 text-xs opacity-75">
                                 {Math.round(tag.confidence * 100)}%
                               </span>
-                            </span>
+                            </button>
                           ))}
                         </div>
                       </div>
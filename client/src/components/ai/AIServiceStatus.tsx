@@ -1,60 +1,104 @@
 import React from 'react';
-import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { ExclamationTriangleIcon, SparklesIcon } from '@heroicons/react/24/outline';
+import { aiApi, AIQuotaWindow } from '@/api/ai';
+import { cn } from '@/utils/cn';
 
-interface AIServiceStatusProps {
-  isAvailable: boolean;
-  error?: string;
-}
+const formatNumber = (value: number) => value.toLocaleString();
 
-const AIServiceStatus: React.FC<AIServiceStatusProps> = ({ isAvailable, error }) => {
-  if (isAvailable) return null;
+const QuotaBar: React.FC<{ label: string; window: AIQuotaWindow }> = ({ label, window }) => {
+  const remaining = Math.min(
+    window.requests.remaining / window.requests.limit,
+    window.tokens.remaining / window.tokens.limit
+  );
 
   return (
-    <div className="bg-amber-50 border-l-4 border-amber-400 p-4 mb-6">
-      <div className="flex">
-        <div className="flex-shrink-0">
-          <ExclamationTriangleIcon className="h-5 w-5 text-amber-400" aria-hidden="true" />
-        </div>
-        <div className="ml-3">
-          <p className="text-sm text-amber-700">
-            <span className="font-medium">AI Features Unavailable</span>
-          </p>
-          <div className="mt-2 text-sm text-amber-700">
-            <p>
-              The AI-powered features require a Google Gemini API key to be configured.
-              {error && ` Error: ${error}`}
+    <div>
+      <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+        <span className="font-medium text-gray-700">{label}</span>
+        <span>
+          {formatNumber(window.requests.remaining)} requests · {formatNumber(window.tokens.remaining)} tokens left
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-1.5">
+        <div
+          className={cn(
+            'h-1.5 rounded-full',
+            remaining > 0.5 ? 'bg-green-500' : remaining > 0.2 ? 'bg-amber-500' : 'bg-red-500'
+          )}
+          style={{ width: `${Math.max(0, remaining) * 100}%` }}
+        />
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Resets {formatDistanceToNow(new Date(window.resetsAt), { addSuffix: true })}
+      </p>
+    </div>
+  );
+};
+
+const AIServiceStatus: React.FC = () => {
+  const { data: usage, error } = useQuery({
+    queryKey: ['ai-usage'],
+    queryFn: aiApi.getMyUsage,
+    staleTime: 60 * 1000
+  });
+
+  if (!usage && !error) return null;
+
+  if (!usage || !usage.available) {
+    return (
+      <div className="bg-amber-50 border-l-4 border-amber-400 p-4 mb-6">
+        <div className="flex">
+          <div className="flex-shrink-0">
+            <ExclamationTriangleIcon className="h-5 w-5 text-amber-400" aria-hidden="true" />
+          </div>
+          <div className="ml-3">
+            <p className="text-sm text-amber-700">
+              <span className="font-medium">AI Features Unavailable</span>
+            </p>
+            <p className="mt-2 text-sm text-amber-700">
+              {usage
+                ? 'No AI provider is configured on the server. Set AI_PROVIDER and its API key in the server .env file.'
+                : 'Could not check the AI service status.'}
             </p>
           </div>
-          <div className="mt-4">
-            <div className="flex">
-              <button
-                type="button"
-                className="bg-amber-100 px-2 py-1.5 rounded-md text-sm font-medium text-amber-800 hover:bg-amber-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500"
-                onClick={() => {
-                  const setupGuide = `
-# AI Features Setup
-
-To enable AI features, you need to:
-
-1. Get a Google Gemini API key from: https://makersuite.google.com/app/apikey
-2. Create a .env file in the server folder
-3. Add: GEMINI_API_KEY=your_api_key_here
-4. Restart the server
-
-See AI_SETUP_GUIDE.md for detailed instructions.
-                  `.trim();
-                  navigator.clipboard.writeText(setupGuide);
-                  alert('Setup instructions copied to clipboard!');
-                }}
-              >
-                Copy Setup Instructions
-              </button>
-            </div>
+        </div>
+      </div>
+    );
+  }
+
+  const exhausted = usage.monthly.exhausted ? usage.monthly : usage.daily.exhausted ? usage.daily : null;
+
+  return (
+    <div className="card mb-6">
+      <div className="p-5 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <SparklesIcon className="h-5 w-5 text-purple-600" />
+            <span className="text-sm font-medium text-gray-900 dark:text-neutral-100">AI budget</span>
           </div>
+          <span className="badge bg-purple-100 text-purple-800">{usage.tier.name}</span>
         </div>
+
+        {exhausted && (
+          <p className="text-sm text-red-600">
+            {exhausted === usage.monthly ? "This month's" : "Today's"} AI budget is used up. It resets{' '}
+            {formatDistanceToNow(new Date(exhausted.resetsAt), { addSuffix: true })}.
+          </p>
+        )}
+
+        <QuotaBar label="Today" window={usage.daily} />
+        <QuotaBar label="This month" window={usage.monthly} />
+
+        {usage.nextTier && (
+          <p className="text-xs text-gray-500">
+            Reach {formatNumber(usage.nextTier.minKarma)} karma to unlock the larger {usage.nextTier.name} budget.
+          </p>
+        )}
       </div>
     </div>
   );
 };
 
-export default AIServiceStatus;
\ No newline at end of file
+export default AIServiceStatus;
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { aiApi, FeasibilityScore } from '@/api/ai';
 import {
   ChartBarIcon,
@@ -8,6 +8,7 @@ import {
   InformationCircleIcon
 } from '@heroicons/react/24/outline';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import toast from 'react-hot-toast';
 
 interface FeasibilityScoreDisplayProps {
   title: string;
@@ -15,6 +16,8 @@ interface FeasibilityScoreDisplayProps {
   category?: string;
   className?: string;
   autoAnalyze?: boolean;
+  // Saved idea: show its stored analysis and store new ones on it
+  ideaId?: string;
 }
 
 const FeasibilityScoreDisplay = ({
@@ -22,15 +25,36 @@ const FeasibilityScoreDisplay = ({
   description,
   category,
   className = '',
-  autoAnalyze = false
+  autoAnalyze = false,
+  ideaId
 }: FeasibilityScoreDisplayProps) => {
-  const [score, setScore] = useState<FeasibilityScore | null>(null);
+  const queryClient = useQueryClient();
+  const [analyzedScore, setAnalyzedScore] = useState<FeasibilityScore | null>(null);
   const [showDetails, setShowDetails] = useState(false);
 
+  // Shares the cache entry with AIEnhancementPanel; the feasibility score is
+  // part of the full analysis
+  const { data: storedData } = useQuery({
+    queryKey: ['idea-ai-analyses', ideaId, 'ANALYSIS'],
+    queryFn: () => aiApi.getIdeaAnalyses(ideaId!, { kind: 'ANALYSIS', limit: 1 }),
+    enabled: !!ideaId,
+  });
+  const stored = storedData?.analyses[0];
+  const score: FeasibilityScore | null = analyzedScore || stored?.result?.feasibility || null;
+
   const scoreMutation = useMutation({
-    mutationFn: () => aiApi.scoreFeasibility({ title, description, category }),
+    mutationFn: () => aiApi.scoreFeasibility({ title, description, category, ideaId }),
     onSuccess: (data) => {
-      setScore(data);
+      setAnalyzedScore(data);
+      if (ideaId) {
+        queryClient.invalidateQueries({ queryKey: ['idea-ai-analyses', ideaId] });
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to score feasibility');
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['ai-usage'] });
     }
   });
 
@@ -116,6 +140,10 @@ const FeasibilityScoreDisplay = ({
         >
           {showDetails ? 'Hide Details' : 'View Details'}
         </button>
+
+        {!analyzedScore && stored && !stored.isCurrent && (
+          <span className="text-xs text-amber-600 dark:text-amber-400">The idea changed since this score</span>
+        )}
       </div>
 
       {/* Detailed Breakdown */}
@@ -1,9 +1,10 @@
-import { useState } from 'react';
-import { useMutation } from '@tanstack/react-query';
+import { useRef, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { commentsApi } from '@/api/comments';
+import { userApi } from '@/api/user';
 import { useAuthStore } from '@/store/authStore';
 import { PaperAirplaneIcon, UserIcon } from '@heroicons/react/24/outline';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
@@ -15,6 +16,14 @@ const commentSchema = z.object({
 
 type CommentFormData = z.infer<typeof commentSchema>;
 
+// `@partial` directly before the caret, not part of an e-mail address
+const MENTION_QUERY_PATTERN = /(^|[^a-zA-Z0-9_@])@([a-zA-Z0-9_]{1,30})$/;
+
+interface MentionQuery {
+  query: string;
+  start: number;
+}
+
 interface CommentFormProps {
   ideaId: string;
   parentId?: string;
@@ -32,18 +41,86 @@ const CommentForm = ({
 }: CommentFormProps) => {
   const { user } = useAuthStore();
   const [isExpanded, setIsExpanded] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
 
   const {
     register,
     handleSubmit,
     reset,
     watch,
+    setValue,
     formState: { errors },
   } = useForm<CommentFormData>({
     resolver: zodResolver(commentSchema),
   });
 
   const content = watch('content');
+  const { ref: contentRef, onChange: onContentChange, ...contentField } = register('content');
+
+  const { data: lookupData } = useQuery({
+    queryKey: ['user-lookup', mentionQuery?.query],
+    queryFn: () => userApi.lookupUsers(mentionQuery!.query),
+    enabled: !!mentionQuery,
+    staleTime: 30 * 1000,
+  });
+
+  const suggestions = mentionQuery ? lookupData?.users || [] : [];
+
+  const updateMentionQuery = (textarea: HTMLTextAreaElement) => {
+    const beforeCaret = textarea.value.slice(0, textarea.selectionStart);
+    const match = beforeCaret.match(MENTION_QUERY_PATTERN);
+
+    if (match) {
+      setMentionQuery({ query: match[2], start: beforeCaret.length - match[2].length - 1 });
+      setActiveSuggestion(0);
+    } else {
+      setMentionQuery(null);
+    }
+  };
+
+  const selectSuggestion = (username: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !mentionQuery) return;
+
+    const caret = textarea.selectionStart;
+    const inserted = `@${username} `;
+    const nextValue = textarea.value.slice(0, mentionQuery.start) + inserted + textarea.value.slice(caret);
+
+    setValue('content', nextValue, { shouldDirty: true });
+    setMentionQuery(null);
+
+    const nextCaret = mentionQuery.start + inserted.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveSuggestion((index) => (index + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveSuggestion((index) => (index - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        selectSuggestion(suggestions[Math.min(activeSuggestion, suggestions.length - 1)].username);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setMentionQuery(null);
+        break;
+    }
+  };
 
   const commentMutation = useMutation({
     mutationFn: (data: CommentFormData) => 
@@ -52,8 +129,13 @@ const CommentForm = ({
       console.log('[CommentForm] Comment created successfully:', result);
       reset();
       setIsExpanded(false);
+      setMentionQuery(null);
       onCommentAdded();
-      toast.success('Comment added successfully!');
+      if (result.held) {
+        toast(result.message, { duration: 6000 });
+      } else {
+        toast.success('Comment added successfully!');
+      }
       if (onCancel) onCancel();
     },
     onError: (error: any) => {
@@ -69,6 +151,7 @@ const CommentForm = ({
   const handleCancel = () => {
     reset();
     setIsExpanded(false);
+    setMentionQuery(null);
     if (onCancel) onCancel();
   };
 
@@ -91,9 +174,23 @@ const CommentForm = ({
         </div>
 
         {/* Input */}
-        <div className="flex-1">
+        <div className="flex-1 relative">
           <textarea
-            {...register('content')}
+            {...contentField}
+            ref={(element) => {
+              contentRef(element);
+              textareaRef.current = element;
+            }}
+            onChange={(e) => {
+              onContentChange(e);
+              updateMentionQuery(e.target);
+            }}
+            onKeyDown={handleKeyDown}
+            onClick={(e) => updateMentionQuery(e.currentTarget)}
+            onBlur={(e) => {
+              contentField.onBlur(e);
+              setMentionQuery(null);
+            }}
             placeholder={placeholder}
             rows={isExpanded ? 3 : 1}
             onFocus={() => setIsExpanded(true)}
@@ -101,6 +198,34 @@ const CommentForm = ({
               errors.content ? 'border-red-500' : ''
             }`}
           />
+
+          {/* Mention suggestions */}
+          {suggestions.length > 0 && (
+            <ul className="absolute z-10 left-0 mt-1 w-64 bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-auto">
+              {suggestions.map((suggestion, index) => (
+                <li key={suggestion.id}>
+                  <button
+                    type="button"
+                    // Keep focus in the textarea so onBlur doesn't close the list first
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      selectSuggestion(suggestion.username);
+                    }}
+                    className={`w-full flex items-center space-x-2 px-3 py-2 text-sm text-left ${
+                      index === activeSuggestion ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {suggestion.avatar ? (
+                      <img src={suggestion.avatar} alt={suggestion.username} className="w-5 h-5 rounded-full object-cover" />
+                    ) : (
+                      <UserIcon className="w-5 h-5 text-gray-400" />
+                    )}
+                    <span>@{suggestion.username}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
           
           {errors.content && (
             <p className="mt-1 text-sm text-red-600">{errors.content.message}</p>
@@ -2,20 +2,23 @@ import { useState } from 'react';
 import { socketService } from '../../services/socket';
 import { useEffect } from 'react';
 import { useMutation, useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { formatDistanceToNow } from 'date-fns';
 import { commentsApi } from '@/api/comments';
 import { useAuthStore } from '@/store/authStore';
-import { Comment } from '@/types';
+import { Comment, Mention } from '@/types';
 import { 
   ChevronDownIcon,
   ChevronUpIcon,
   ChatBubbleLeftIcon,
   PencilIcon,
   TrashIcon,
-  UserIcon
+  UserIcon,
+  FlagIcon
 } from '@heroicons/react/24/outline';
 import CommentVoteButton from './CommentVoteButton';
 import CommentForm from './CommentForm';
+import ReportForm from '@/components/moderation/ReportForm';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import toast from 'react-hot-toast';
 
@@ -26,6 +29,28 @@ interface CommentItemProps {
   level?: number;
 }
 
+// Turn @username tokens that resolved to real users into profile links
+const renderContent = (content: string, mentions: Mention[] = []) => {
+  if (mentions.length === 0) return content;
+
+  const known = new Set(mentions.map(mention => mention.username));
+  return content.split(/(@[a-zA-Z0-9_]{3,30})/g).map((part, index) => {
+    const username = part.slice(1);
+    if (part.startsWith('@') && known.has(username)) {
+      return (
+        <Link
+          key={index}
+          to={`/users/${username}`}
+          className="text-primary-600 hover:text-primary-700 font-medium"
+        >
+          {part}
+        </Link>
+      );
+    }
+    return part;
+  });
+};
+
 const CommentItem = ({ comment, ideaId, onUpdate, level = 0 }: CommentItemProps) => {
   // Import socketService
   // Real-time reply handler
@@ -44,6 +69,7 @@ const CommentItem = ({ comment, ideaId, onUpdate, level = 0 }: CommentItemProps)
   const [showReplies, setShowReplies] = useState(false);
   const [showReplyForm, setShowReplyForm] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
   const [editContent, setEditContent] = useState(comment.content);
 
   const isOwner = user?.id === comment.author.id;
@@ -62,13 +88,17 @@ const CommentItem = ({ comment, ideaId, onUpdate, level = 0 }: CommentItemProps)
   // Update comment mutation
   const updateMutation = useMutation({
     mutationFn: (content: string) => commentsApi.updateComment(comment.id, content),
-    onSuccess: () => {
+    onSuccess: (result) => {
       setIsEditing(false);
       onUpdate();
-      toast.success('Comment updated successfully');
+      if (result.held) {
+        toast(result.message, { duration: 6000 });
+      } else {
+        toast.success('Comment updated successfully');
+      }
     },
-    onError: () => {
-      toast.error('Failed to update comment');
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to update comment');
     },
   });
 
@@ -122,7 +152,7 @@ const CommentItem = ({ comment, ideaId, onUpdate, level = 0 }: CommentItemProps)
   }
 
   return (
-    <div className={`${level > 0 ? 'ml-8' : ''} space-y-3`}>
+    <div id={`comment-${comment.id}`} className={`${level > 0 ? 'ml-8' : ''} space-y-3`}>
       <div className="flex space-x-3">
         {/* Avatar */}
         <div className="flex-shrink-0">
@@ -184,7 +214,7 @@ const CommentItem = ({ comment, ideaId, onUpdate, level = 0 }: CommentItemProps)
             </div>
           ) : (
             <div className="text-neutral-700 dark:text-neutral-300 text-sm whitespace-pre-wrap mb-2">
-              {comment.content}
+              {renderContent(comment.content, comment.mentions)}
             </div>
           )}
 
@@ -251,6 +281,23 @@ const CommentItem = ({ comment, ideaId, onUpdate, level = 0 }: CommentItemProps)
                   </button>
                 </>
               )}
+
+              {/* Report */}
+              {isAuthenticated && !isOwner && (
+                <button
+                  onClick={() => setIsReporting(!isReporting)}
+                  className="text-neutral-500 hover:text-red-600 dark:text-neutral-400 dark:hover:text-red-400 flex items-center"
+                >
+                  <FlagIcon className="w-3 h-3 mr-1" />
+                  Report
+                </button>
+              )}
+            </div>
+          )}
+
+          {isReporting && (
+            <div className="mt-3">
+              <ReportForm targetType="COMMENT" targetId={comment.id} onDone={() => setIsReporting(false)} />
             </div>
           )}
 
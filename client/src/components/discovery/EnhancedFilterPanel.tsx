@@ -1,21 +1,63 @@
 import React, { useState, useEffect } from 'react';
 import { preferencesApi } from '../../api/discovery';
+import { IdeaCategory, DifficultyLevel, TimeCommitment } from '../../types';
 import type { 
   IdeaFilters, 
-  IdeaCategory, 
-  DifficultyLevel, 
-  TimeCommitment,
-  PreferencesOptions
+  PreferencesOptions,
+  FacetBucket,
+  IdeaFacets
 } from '../../types';
 
 interface EnhancedFilterPanelProps {
   filters: IdeaFilters;
+  // Result counts for the current search and filters; without them nothing is disabled
+  facets?: IdeaFacets;
   onFiltersChange: (filters: IdeaFilters) => void;
   className?: string;
 }
 
+const CATEGORY_OPTIONS: { value: IdeaCategory; label: string }[] = [
+  { value: IdeaCategory.WEB, label: 'Web Development' },
+  { value: IdeaCategory.MOBILE, label: 'Mobile' },
+  { value: IdeaCategory.AI_ML, label: 'AI/ML' },
+  { value: IdeaCategory.BLOCKCHAIN, label: 'Blockchain' },
+  { value: IdeaCategory.IOT, label: 'IoT' },
+  { value: IdeaCategory.GAME_DEV, label: 'Game Development' },
+  { value: IdeaCategory.DATA_SCIENCE, label: 'Data Science' },
+  { value: IdeaCategory.CYBERSECURITY, label: 'Cybersecurity' },
+  { value: IdeaCategory.DEVTOOLS, label: 'Dev Tools' },
+  { value: IdeaCategory.FINTECH, label: 'FinTech' },
+  { value: IdeaCategory.HEALTHTECH, label: 'HealthTech' },
+  { value: IdeaCategory.EDTECH, label: 'EdTech' },
+  { value: IdeaCategory.SOCIAL, label: 'Social' },
+  { value: IdeaCategory.ECOMMERCE, label: 'E-commerce' },
+  { value: IdeaCategory.PRODUCTIVITY, label: 'Productivity' },
+  { value: IdeaCategory.OTHER, label: 'Other' },
+];
+
+const DIFFICULTY_OPTIONS: { value: DifficultyLevel; label: string }[] = [
+  { value: DifficultyLevel.BEGINNER, label: 'Beginner' },
+  { value: DifficultyLevel.INTERMEDIATE, label: 'Intermediate' },
+  { value: DifficultyLevel.ADVANCED, label: 'Advanced' },
+  { value: DifficultyLevel.EXPERT, label: 'Expert' },
+];
+
+const TIME_COMMITMENT_OPTIONS: { value: TimeCommitment; label: string }[] = [
+  { value: TimeCommitment.QUICK, label: 'Quick (< 1 week)' },
+  { value: TimeCommitment.SHORT, label: 'Short (1-4 weeks)' },
+  { value: TimeCommitment.MEDIUM, label: 'Medium (1-3 months)' },
+  { value: TimeCommitment.LONG, label: 'Long (3-6 months)' },
+  { value: TimeCommitment.EXTENDED, label: 'Extended (> 6 months)' },
+];
+
+const countOf = (buckets: FacetBucket[] | undefined, value: string) =>
+  buckets ? buckets.find(bucket => bucket.value === value)?.count ?? 0 : undefined;
+
+const withCount = (label: string, count?: number) => count === undefined ? label : `${label} (${count})`;
+
 export const EnhancedFilterPanel: React.FC<EnhancedFilterPanelProps> = ({
   filters,
+  facets,
   onFiltersChange,
   className = ''
 }) => {
@@ -108,21 +150,14 @@ export const EnhancedFilterPanel: React.FC<EnhancedFilterPanelProps> = ({
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
           >
             <option value="">All Categories</option>
-            <option value="WEB">Web Development</option>
-            <option value="MOBILE">Mobile</option>
-            <option value="AI_ML">AI/ML</option>
-            <option value="BLOCKCHAIN">Blockchain</option>
-            <option value="GAME_DEV">Game Development</option>
-            <option value="DATA_SCIENCE">Data Science</option>
-            <option value="CYBERSECURITY">Cybersecurity</option>
-            <option value="DEVTOOLS">Dev Tools</option>
-            <option value="FINTECH">FinTech</option>
-            <option value="HEALTHTECH">HealthTech</option>
-            <option value="EDTECH">EdTech</option>
-            <option value="SOCIAL">Social</option>
-            <option value="ECOMMERCE">E-commerce</option>
-            <option value="PRODUCTIVITY">Productivity</option>
-            <option value="OTHER">Other</option>
+            {CATEGORY_OPTIONS.map(option => {
+              const count = countOf(facets?.category, option.value);
+              return (
+                <option key={option.value} value={option.value} disabled={count === 0 && filters.category !== option.value}>
+                  {withCount(option.label, count)}
+                </option>
+              );
+            })}
           </select>
         </div>
 
@@ -137,10 +172,14 @@ export const EnhancedFilterPanel: React.FC<EnhancedFilterPanelProps> = ({
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
           >
             <option value="">Any Difficulty</option>
-            <option value="BEGINNER">Beginner</option>
-            <option value="INTERMEDIATE">Intermediate</option>
-            <option value="ADVANCED">Advanced</option>
-            <option value="EXPERT">Expert</option>
+            {DIFFICULTY_OPTIONS.map(option => {
+              const count = countOf(facets?.difficulty, option.value);
+              return (
+                <option key={option.value} value={option.value} disabled={count === 0 && filters.difficulty !== option.value}>
+                  {withCount(option.label, count)}
+                </option>
+              );
+            })}
           </select>
         </div>
 
@@ -155,22 +194,60 @@ export const EnhancedFilterPanel: React.FC<EnhancedFilterPanelProps> = ({
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
           >
             <option value="">Any Duration</option>
-            <option value="QUICK">Quick (&lt; 1 week)</option>
-            <option value="SHORT">Short (1-4 weeks)</option>
-            <option value="MEDIUM">Medium (1-3 months)</option>
-            <option value="LONG">Long (3-6 months)</option>
-            <option value="EXTENDED">Extended (&gt; 6 months)</option>
+            {TIME_COMMITMENT_OPTIONS.map(option => {
+              const count = countOf(facets?.timeCommitment, option.value);
+              return (
+                <option key={option.value} value={option.value} disabled={count === 0 && filters.timeCommitment !== option.value}>
+                  {withCount(option.label, count)}
+                </option>
+              );
+            })}
           </select>
         </div>
 
+        {/* Recruitment Filter */}
+        <div>
+          <label className="inline-flex items-center text-sm font-medium text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={!!filters.recruiting}
+              onChange={(e) => handleFilterChange('recruiting', e.target.checked || undefined)}
+              className="mr-2 rounded border-gray-300 dark:border-gray-600 text-blue-600"
+            />
+            Open for collaborators
+          </label>
+        </div>
+
         {/* Tech Stack Filter */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
             Tech Stack
           </label>
           
-          {/* Common Tech Stack Options */}
-          {options?.commonTechStack && (
+          {/* Technologies in the current results, with counts */}
+          {facets && facets.techStack.length > 0 ? (
+            <div className="mb-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">Technologies in these results:</div>
+              <div className="flex flex-wrap gap-2 mb-3 max-h-32 overflow-y-auto">
+                {facets.techStack.map(({ value, count }) => (
+                  <button
+                    key={value}
+                    onClick={() => addTechStack(value)}
+                    disabled={selectedTechStack.includes(value) || count === 0}
+                    className={`px-2 py-1 text-xs rounded transition-colors ${
+                      selectedTechStack.includes(value)
+                        ? 'bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-200 cursor-not-allowed'
+                        : count === 0
+                          ? 'bg-gray-50 text-gray-400 dark:bg-gray-800 dark:text-gray-500 cursor-not-allowed'
+                          : 'bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-gray-300'
+                    }`}
+                  >
+                    {value} <span className="opacity-60">{count}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : options?.commonTechStack && (
             <div className="mb-3">
               <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">Popular technologies:</div>
               <div className="flex flex-wrap gap-2 mb-3 max-h-32 overflow-y-auto">
@@ -249,6 +326,28 @@ export const EnhancedFilterPanel: React.FC<EnhancedFilterPanelProps> = ({
             Tags
           </label>
           
+          {/* Tags in the current results, with counts */}
+          {facets && facets.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3 max-h-32 overflow-y-auto">
+              {facets.tags.map(({ value, count }) => (
+                <button
+                  key={value}
+                  onClick={() => addTag(value)}
+                  disabled={selectedTags.includes(value) || count === 0}
+                  className={`px-2 py-1 text-xs rounded transition-colors ${
+                    selectedTags.includes(value)
+                      ? 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-200 cursor-not-allowed'
+                      : count === 0
+                        ? 'bg-gray-50 text-gray-400 dark:bg-gray-800 dark:text-gray-500 cursor-not-allowed'
+                        : 'bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-gray-300'
+                  }`}
+                >
+                  #{value} <span className="opacity-60">{count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Custom Tag Input */}
           <div className="flex gap-2 mb-3">
             <input
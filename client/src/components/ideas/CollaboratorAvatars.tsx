@@ -0,0 +1,54 @@
+import { Link } from 'react-router-dom';
+import { IdeaCollaboratorSummary } from '@/types';
+import { cn } from '@/utils/cn';
+
+interface CollaboratorAvatarsProps {
+  collaborators: IdeaCollaboratorSummary[];
+  max?: number;
+  size?: 'sm' | 'md';
+}
+
+const CollaboratorAvatars = ({ collaborators, max = 4, size = 'sm' }: CollaboratorAvatarsProps) => {
+  if (collaborators.length === 0) return null;
+
+  const visible = collaborators.slice(0, max);
+  const hidden = collaborators.length - visible.length;
+  const sizeClass = size === 'sm' ? 'w-6 h-6 text-[10px]' : 'w-8 h-8 text-xs';
+
+  return (
+    <div className="flex items-center">
+      <div className="flex -space-x-2">
+        {visible.map(collaborator => (
+          <Link
+            key={collaborator.id}
+            to={`/users/${collaborator.username}`}
+            title={`${collaborator.username} (${collaborator.role.toLowerCase()})`}
+            className="relative hover:z-10"
+          >
+            {collaborator.avatar ? (
+              <img
+                src={collaborator.avatar}
+                alt={collaborator.username}
+                className={cn(sizeClass, 'rounded-full object-cover ring-2 ring-white dark:ring-neutral-900')}
+              />
+            ) : (
+              <div
+                className={cn(
+                  sizeClass,
+                  'rounded-full bg-gradient-to-br from-accent-500 to-primary-500 flex items-center justify-center text-white font-semibold ring-2 ring-white dark:ring-neutral-900'
+                )}
+              >
+                {collaborator.username.charAt(0).toUpperCase()}
+              </div>
+            )}
+          </Link>
+        ))}
+      </div>
+      {hidden > 0 && (
+        <span className="ml-2 text-xs text-neutral-500 dark:text-neutral-400">+{hidden}</span>
+      )}
+    </div>
+  );
+};
+
+export default CollaboratorAvatars;
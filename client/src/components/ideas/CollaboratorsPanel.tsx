@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ideasApi } from '@/api/ideas';
+import { CollaboratorRole, IdeaCollaborator } from '@/types';
+import { useAuthStore } from '@/store/authStore';
+import { LinkIcon, UserGroupIcon, UserPlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface CollaboratorsPanelProps {
+  ideaId: string;
+  canManage: boolean;
+}
+
+const ROLE_OPTIONS: { value: CollaboratorRole; label: string }[] = [
+  { value: 'OWNER', label: 'Owner' },
+  { value: 'EDITOR', label: 'Editor' },
+  { value: 'VIEWER', label: 'Viewer' },
+];
+
+const STATUS_LABELS: Record<IdeaCollaborator['status'], string> = {
+  PENDING: 'Invited',
+  ACCEPTED: 'Joined',
+  DECLINED: 'Declined',
+};
+
+const CollaboratorsPanel = ({ ideaId, canManage }: CollaboratorsPanelProps) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  const [username, setUsername] = useState('');
+  const [role, setRole] = useState<CollaboratorRole>('EDITOR');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['idea-collaborators', ideaId],
+    queryFn: () => ideasApi.getCollaborators(ideaId),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['idea-collaborators', ideaId] });
+    queryClient.invalidateQueries({ queryKey: ['idea', ideaId] });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast.error(error.response?.data?.message || fallback);
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: () => ideasApi.inviteCollaborator(ideaId, { username: username.trim(), role }),
+    onSuccess: (result) => {
+      setUsername('');
+      refresh();
+      toast.success(result.message);
+    },
+    onError: onError('Failed to send invitation'),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: CollaboratorRole }) =>
+      ideasApi.updateCollaboratorRole(ideaId, userId, role),
+    onSuccess: (result) => {
+      refresh();
+      toast.success(result.message);
+    },
+    onError: onError('Failed to update role'),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (userId: string) => ideasApi.removeCollaborator(ideaId, userId),
+    onSuccess: (result) => {
+      refresh();
+      toast.success(result.message);
+    },
+    onError: onError('Failed to remove collaborator'),
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (username.trim()) {
+      inviteMutation.mutate();
+    }
+  };
+
+  const handleCopyLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${link}`);
+      toast.success('Invitation link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleRemove = (collaborator: IdeaCollaborator) => {
+    const isSelf = collaborator.userId === user?.id;
+    const prompt = isSelf
+      ? 'Leave this idea? You will lose access to it if it is not published.'
+      : `Remove ${collaborator.user.username} from this idea?`;
+    if (window.confirm(prompt)) {
+      removeMutation.mutate(collaborator.userId);
+    }
+  };
+
+  const collaborators = data?.collaborators || [];
+
+  return (
+    <div>
+      <h2 className="flex items-center text-lg font-semibold text-neutral-900 dark:text-neutral-100 mb-4">
+        <UserGroupIcon className="w-5 h-5 mr-2" />
+        Collaborators
+      </h2>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <ul className="divide-y divide-neutral-200 dark:divide-neutral-800">
+          {data?.owner && (
+            <li className="py-3 flex items-center justify-between text-sm">
+              <Link to={`/users/${data.owner.username}`} className="font-medium text-neutral-900 dark:text-neutral-100 hover:text-primary-600">
+                {data.owner.username}
+              </Link>
+              <span className="text-xs px-2 py-0.5 rounded-full bg-primary-100 text-primary-700">Owner</span>
+            </li>
+          )}
+          {collaborators.map(collaborator => (
+            <li key={collaborator.id} className="py-3 flex items-center justify-between gap-4 text-sm">
+              <div className="flex items-center space-x-2 min-w-0">
+                <Link
+                  to={`/users/${collaborator.user.username}`}
+                  className="font-medium text-neutral-900 dark:text-neutral-100 hover:text-primary-600 truncate"
+                >
+                  {collaborator.user.username}
+                </Link>
+                {collaborator.status !== 'ACCEPTED' && (
+                  <span className="text-xs text-neutral-500 dark:text-neutral-400">{STATUS_LABELS[collaborator.status]}</span>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                {canManage ? (
+                  <select
+                    value={collaborator.role}
+                    onChange={(e) => roleMutation.mutate({ userId: collaborator.userId, role: e.target.value as CollaboratorRole })}
+                    disabled={roleMutation.isPending}
+                    className="input py-1 text-xs"
+                  >
+                    {ROLE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-xs text-neutral-500 dark:text-neutral-400">{collaborator.role.toLowerCase()}</span>
+                )}
+
+                {canManage && collaborator.inviteLink && (
+                  <button
+                    type="button"
+                    onClick={() => handleCopyLink(collaborator.inviteLink!)}
+                    className="p-1.5 text-neutral-400 hover:text-primary-600 rounded-lg"
+                    title="Copy invitation link"
+                  >
+                    <LinkIcon className="w-4 h-4" />
+                  </button>
+                )}
+
+                {(canManage || collaborator.userId === user?.id) && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(collaborator)}
+                    disabled={removeMutation.isPending}
+                    className="p-1.5 text-neutral-400 hover:text-red-600 rounded-lg"
+                    title={collaborator.userId === user?.id ? 'Leave idea' : 'Remove collaborator'}
+                  >
+                    <XMarkIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManage && (
+        <form onSubmit={handleInvite} className="mt-4 flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username to invite"
+            className="input flex-1"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as CollaboratorRole)}
+            className="input sm:w-32"
+          >
+            {ROLE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!username.trim() || inviteMutation.isPending}
+            className="btn btn-primary flex items-center justify-center"
+          >
+            <UserPlusIcon className="w-4 h-4 mr-1" />
+            Invite
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default CollaboratorsPanel;
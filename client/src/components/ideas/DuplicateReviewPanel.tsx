@@ -0,0 +1,73 @@
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { aiApi } from '@/api/ai';
+import { ideasApi } from '@/api/ideas';
+import { Idea } from '@/types';
+import SimilarIdeasWarning from './SimilarIdeasWarning';
+import toast from 'react-hot-toast';
+
+interface DuplicateReviewPanelProps {
+  idea: Idea;
+}
+
+// Moderators only: ideas this one may duplicate, with a merge action
+const DuplicateReviewPanel = ({ idea }: DuplicateReviewPanelProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['similar-ideas', 'review', idea.id],
+    queryFn: () => aiApi.findSimilarIdeas({
+      title: idea.title,
+      description: idea.description,
+      tags: idea.tags,
+      excludeId: idea.id
+    }),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: (targetId: string) => ideasApi.mergeIdea(idea.id, targetId),
+    onSuccess: (result) => {
+      toast.success(result.message);
+      queryClient.invalidateQueries({ queryKey: ['ideas'] });
+      queryClient.invalidateQueries({ queryKey: ['idea', idea.id] });
+      navigate(`/ideas/${result.mergedInto.id}`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to merge ideas');
+    }
+  });
+
+  const handleMerge = (targetId: string, targetTitle: string) => {
+    if (window.confirm(`Merge "${idea.title}" into "${targetTitle}"? Votes, comments and bookmarks move to "${targetTitle}" and this idea is archived.`)) {
+      mergeMutation.mutate(targetId);
+    }
+  };
+
+  if (isLoading || !data) return null;
+
+  if (data.similar.length === 0) {
+    return (
+      <p className="text-sm text-neutral-500 dark:text-neutral-400">No similar ideas found.</p>
+    );
+  }
+
+  return (
+    <SimilarIdeasWarning
+      similar={data.similar}
+      title="Possible duplicates"
+      renderAction={(similar) => (
+        <button
+          type="button"
+          onClick={() => handleMerge(similar.id, similar.title)}
+          disabled={mergeMutation.isPending}
+          className="btn btn-sm btn-outline"
+        >
+          Merge into this
+        </button>
+      )}
+    />
+  );
+};
+
+export default DuplicateReviewPanel;
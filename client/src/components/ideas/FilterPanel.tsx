@@ -45,7 +45,8 @@ const FilterPanel = ({ filters, onFilterChange, onReset }: FilterPanelProps) =>
     filters.difficulty ||
     filters.tags?.length ||
     filters.minVotes ||
-    filters.dateRange
+    filters.dateRange ||
+    filters.recruiting
   );
 
   return (
@@ -165,6 +166,19 @@ const FilterPanel = ({ filters, onFilterChange, onReset }: FilterPanelProps) =>
         />
       </div>
 
+      {/* Recruitment */}
+      <div>
+        <label className="inline-flex items-center text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!filters.recruiting}
+            onChange={(e) => onFilterChange({ recruiting: e.target.checked || undefined })}
+            className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          Open for collaborators
+        </label>
+      </div>
+
       {/* Date Range */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -7,11 +7,13 @@ import {
   ChatBubbleLeftIcon, 
   BookmarkIcon,
   EyeIcon,
-  TagIcon
+  TagIcon,
+  UserPlusIcon
 } from '@heroicons/react/24/outline';
 import { BookmarkIcon as BookmarkIconSolid } from '@heroicons/react/24/solid';
 import VoteButton from './VoteButton';
 import CategoryBadge from './CategoryBadge';
+import CollaboratorAvatars from './CollaboratorAvatars';
 
 interface IdeaCardProps {
   idea: Idea;
@@ -59,6 +61,12 @@ const IdeaCard = ({ idea, showActions = true }: IdeaCardProps) => {
                   {formatDistanceToNow(new Date(idea.createdAt), { addSuffix: true })}
                 </span>
               </div>
+              {idea.collaborators && idea.collaborators.length > 0 && (
+                <div className="flex items-center gap-2 mt-1.5">
+                  <span className="text-xs text-neutral-500 dark:text-neutral-400">with</span>
+                  <CollaboratorAvatars collaborators={idea.collaborators} />
+                </div>
+              )}
             </div>
           </div>
           
@@ -79,6 +87,22 @@ const IdeaCard = ({ idea, showActions = true }: IdeaCardProps) => {
           </p>
         </Link>
 
+        {/* Recruitment */}
+        {idea.isRecruiting && idea.openRoles && idea.openRoles.some(role => !role.filled) && (
+          <Link
+            to={`/ideas/${idea.id}#team`}
+            className="flex items-center gap-2 mb-4 text-xs font-medium text-emerald-700 dark:text-emerald-300"
+          >
+            <UserPlusIcon className="w-4 h-4" />
+            <span>
+              Looking for {idea.openRoles.filter(role => !role.filled).map(role => role.title).join(', ')}
+            </span>
+            {idea.openRoles.some(role => !role.filled && role.matchedSkills && role.matchedSkills.length > 0) && (
+              <span className="px-2 py-0.5 rounded-full bg-emerald-100 dark:bg-emerald-900/30">Matches your skills</span>
+            )}
+          </Link>
+        )}
+
         {/* Tags */}
         {idea.tags && idea.tags.length > 0 && (
           <div className="flex flex-wrap gap-2 mb-4">
@@ -0,0 +1,344 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { ideasApi } from '@/api/ideas';
+import { Idea, OpenRole } from '@/types';
+import { useAuthStore } from '@/store/authStore';
+import { cn } from '@/utils/cn';
+import { CheckIcon, PlusIcon, UserPlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+
+interface RecruitmentPanelProps {
+  idea: Idea;
+  isOwner: boolean;
+}
+
+type RoleDraft = { id?: string; title: string; skills: string; filled: boolean };
+
+const toDrafts = (roles: OpenRole[] = []): RoleDraft[] =>
+  roles.map(role => ({ id: role.id, title: role.title, skills: role.skills.join(', '), filled: role.filled }));
+
+const RoleSkills = ({ role }: { role: OpenRole }) => (
+  <div className="flex flex-wrap gap-1 mt-1">
+    {role.skills.map(skill => {
+      const isMatch = role.matchedSkills?.includes(skill);
+      return (
+        <span
+          key={skill}
+          className={cn(
+            'px-2 py-0.5 rounded text-xs border',
+            isMatch
+              ? 'bg-emerald-50 dark:bg-emerald-900/30 border-emerald-200 dark:border-emerald-800 text-emerald-700 dark:text-emerald-300'
+              : 'border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-400'
+          )}
+        >
+          {skill}
+        </span>
+      );
+    })}
+  </div>
+);
+
+const RecruitmentPanel = ({ idea, isOwner }: RecruitmentPanelProps) => {
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuthStore();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isRecruiting, setIsRecruiting] = useState(!!idea.isRecruiting);
+  const [roles, setRoles] = useState<RoleDraft[]>(toDrafts(idea.openRoles));
+  const [roleId, setRoleId] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!isEditing) {
+      setIsRecruiting(!!idea.isRecruiting);
+      setRoles(toDrafts(idea.openRoles));
+    }
+  }, [idea.isRecruiting, idea.openRoles, isEditing]);
+
+  const openRoles = (idea.openRoles || []).filter(role => !role.filled);
+  const isMember = !!idea.userRole;
+  const ownRequest = idea.userJoinRequest;
+
+  const { data: requestsData } = useQuery({
+    queryKey: ['idea-join-requests', idea.id],
+    queryFn: () => ideasApi.getJoinRequests(idea.id, { status: 'PENDING' }),
+    enabled: isOwner,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['idea', idea.id] });
+    queryClient.invalidateQueries({ queryKey: ['idea-join-requests', idea.id] });
+    queryClient.invalidateQueries({ queryKey: ['idea-collaborators', idea.id] });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast.error(error.response?.data?.message || fallback);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => ideasApi.updateRecruitment(idea.id, {
+      isRecruiting,
+      openRoles: roles
+        .filter(role => role.title.trim())
+        .map(role => ({
+          id: role.id,
+          title: role.title.trim(),
+          skills: role.skills.split(',').map(skill => skill.trim()).filter(Boolean),
+          filled: role.filled,
+        })),
+    }),
+    onSuccess: (result) => {
+      setIsEditing(false);
+      refresh();
+      toast.success(result.message);
+    },
+    onError: onError('Failed to update recruitment'),
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: () => ideasApi.requestToJoin(idea.id, { roleId: roleId || undefined, message: message.trim() }),
+    onSuccess: (result) => {
+      setMessage('');
+      refresh();
+      toast.success(result.message);
+    },
+    onError: onError('Failed to send join request'),
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: () => ideasApi.withdrawJoinRequest(idea.id),
+    onSuccess: (result) => {
+      refresh();
+      toast.success(result.message);
+    },
+    onError: onError('Failed to withdraw request'),
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ requestId, status }: { requestId: string; status: 'APPROVED' | 'REJECTED' }) =>
+      ideasApi.respondToJoinRequest(idea.id, requestId, status),
+    onSuccess: (result) => {
+      refresh();
+      toast.success(result.message);
+    },
+    onError: onError('Failed to respond to request'),
+  });
+
+  const updateRole = (index: number, changes: Partial<RoleDraft>) => {
+    setRoles(roles.map((role, i) => (i === index ? { ...role, ...changes } : role)));
+  };
+
+  if (!isOwner && !idea.isRecruiting) {
+    return null;
+  }
+
+  const pendingRequests = requestsData?.joinRequests || [];
+
+  return (
+    <div id="team">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center text-lg font-semibold text-neutral-900 dark:text-neutral-100">
+          <UserPlusIcon className="w-5 h-5 mr-2" />
+          Looking for teammates
+        </h2>
+        {isOwner && !isEditing && (
+          <button type="button" onClick={() => setIsEditing(true)} className="btn btn-outline btn-sm">
+            {idea.isRecruiting ? 'Edit roles' : 'Start recruiting'}
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-4">
+          <label className="inline-flex items-center text-sm text-neutral-700 dark:text-neutral-300">
+            <input
+              type="checkbox"
+              checked={isRecruiting}
+              onChange={(e) => setIsRecruiting(e.target.checked)}
+              className="mr-2 rounded"
+            />
+            Open for collaborators
+          </label>
+
+          {roles.map((role, index) => (
+            <div key={role.id || index} className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="text"
+                value={role.title}
+                onChange={(e) => updateRole(index, { title: e.target.value })}
+                placeholder="Role, e.g. Frontend developer"
+                className="input sm:w-56"
+              />
+              <input
+                type="text"
+                value={role.skills}
+                onChange={(e) => updateRole(index, { skills: e.target.value })}
+                placeholder="Skills, e.g. React, TypeScript"
+                className="input flex-1"
+              />
+              <label className="inline-flex items-center text-xs text-neutral-600 dark:text-neutral-400">
+                <input
+                  type="checkbox"
+                  checked={role.filled}
+                  onChange={(e) => updateRole(index, { filled: e.target.checked })}
+                  className="mr-1 rounded"
+                />
+                Filled
+              </label>
+              <button
+                type="button"
+                onClick={() => setRoles(roles.filter((_, i) => i !== index))}
+                className="p-2 text-neutral-400 hover:text-red-600"
+                title="Remove role"
+              >
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => setRoles([...roles, { title: '', skills: '', filled: false }])}
+              disabled={roles.length >= 10}
+              className="text-sm text-primary-600 hover:text-primary-700 flex items-center"
+            >
+              <PlusIcon className="w-4 h-4 mr-1" />
+              Add role
+            </button>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setIsEditing(false)} className="btn btn-outline btn-sm">
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending}
+                className="btn btn-primary btn-sm"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : openRoles.length === 0 ? (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+          {idea.isRecruiting ? 'All roles are filled.' : 'Add open roles to let others ask to join.'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {openRoles.map(role => (
+            <li key={role.id}>
+              <div className="text-sm font-medium text-neutral-900 dark:text-neutral-100">{role.title}</div>
+              <RoleSkills role={role} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Join request from a visitor */}
+      {!isOwner && !isMember && idea.isRecruiting && openRoles.length > 0 && (
+        <div className="mt-6">
+          {!isAuthenticated ? (
+            <p className="text-sm text-neutral-500">
+              <Link to="/auth/login" className="text-primary-600 hover:text-primary-700">Sign in</Link> to ask to join.
+            </p>
+          ) : ownRequest?.status === 'PENDING' ? (
+            <div className="flex items-center justify-between text-sm text-neutral-600 dark:text-neutral-400">
+              <span>Your request was sent {formatDistanceToNow(new Date(ownRequest.createdAt), { addSuffix: true })}.</span>
+              <button
+                type="button"
+                onClick={() => withdrawMutation.mutate()}
+                disabled={withdrawMutation.isPending}
+                className="btn btn-outline btn-sm"
+              >
+                Withdraw
+              </button>
+            </div>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                joinMutation.mutate();
+              }}
+              className="space-y-2"
+            >
+              <select value={roleId} onChange={(e) => setRoleId(e.target.value)} className="input w-full">
+                <option value="">Any role</option>
+                {openRoles.map(role => (
+                  <option key={role.id} value={role.id}>{role.title}</option>
+                ))}
+              </select>
+              <textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={3}
+                placeholder="Tell the author what you'd like to work on and what you bring"
+                className="input w-full"
+              />
+              <button
+                type="submit"
+                disabled={message.trim().length < 10 || joinMutation.isPending}
+                className="btn btn-primary btn-sm"
+              >
+                Ask to join
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+
+      {/* Pending requests for the owner */}
+      {isOwner && pendingRequests.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-neutral-900 dark:text-neutral-100 mb-2">Join requests</h3>
+          <ul className="divide-y divide-neutral-200 dark:divide-neutral-800">
+            {pendingRequests.map(request => (
+              <li key={request.id} className="py-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="text-sm">
+                      <Link to={`/users/${request.user.username}`} className="font-medium text-neutral-900 dark:text-neutral-100 hover:text-primary-600">
+                        {request.user.username}
+                      </Link>
+                      <span className="text-neutral-500"> · {request.role ? request.role.title : 'any role'}</span>
+                      {request.skillMatch && request.skillMatch.matchedSkills.length > 0 && (
+                        <span className="ml-2 text-xs text-emerald-700 dark:text-emerald-300">
+                          Matches {request.skillMatch.matchedSkills.join(', ')}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-1 whitespace-pre-wrap">{request.message}</p>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => respondMutation.mutate({ requestId: request.id, status: 'APPROVED' })}
+                      disabled={respondMutation.isPending}
+                      className="p-2 text-neutral-400 hover:text-emerald-600"
+                      title="Approve"
+                    >
+                      <CheckIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => respondMutation.mutate({ requestId: request.id, status: 'REJECTED' })}
+                      disabled={respondMutation.isPending}
+                      className="p-2 text-neutral-400 hover:text-red-600"
+                      title="Reject"
+                    >
+                      <XMarkIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecruitmentPanel;
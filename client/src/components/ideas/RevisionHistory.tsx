@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { ideasApi } from '@/api/ideas';
+import { IdeaRevision, RevisionField, RevisionFieldChange } from '@/types';
+import { diffLists, diffWords, DiffPart } from '@/utils/diff';
+import { cn } from '@/utils/cn';
+import {
+  ArrowUturnLeftIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  ClockIcon,
+} from '@heroicons/react/24/outline';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface RevisionHistoryProps {
+  ideaId: string;
+  canRestore: boolean;
+}
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  title: 'Title',
+  description: 'Description',
+  content: 'Content',
+  category: 'Category',
+  tags: 'Tags',
+  techStack: 'Tech stack',
+};
+
+const partClass = (type: DiffPart['type']) => cn(
+  type === 'added' && 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300',
+  type === 'removed' && 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300 line-through'
+);
+
+const FieldDiff = ({ change, isFirst }: { change: RevisionFieldChange; isFirst: boolean }) => {
+  const isList = Array.isArray(change.after);
+
+  // The first revision has nothing to compare against; show its values as-is
+  if (isFirst) {
+    return (
+      <div className="text-sm text-neutral-700 dark:text-neutral-300 whitespace-pre-wrap">
+        {isList ? (change.after as string[]).join(', ') || '—' : (change.after as string)}
+      </div>
+    );
+  }
+
+  if (isList) {
+    const parts = diffLists((change.before as string[]) || [], change.after as string[]);
+    return (
+      <div className="flex flex-wrap gap-1">
+        {parts.map((part, index) => (
+          <span
+            key={index}
+            className={cn(
+              'px-2 py-0.5 rounded text-xs border border-neutral-200 dark:border-neutral-700',
+              partClass(part.type)
+            )}
+          >
+            {part.value}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  const parts = diffWords((change.before as string) || '', change.after as string);
+  return (
+    <div className="text-sm text-neutral-700 dark:text-neutral-300 whitespace-pre-wrap">
+      {parts.map((part, index) => (
+        <span key={index} className={partClass(part.type)}>{part.value}</span>
+      ))}
+    </div>
+  );
+};
+
+const RevisionItem = ({
+  revision,
+  isLatest,
+  canRestore,
+  onRestore,
+  isRestoring,
+}: {
+  revision: IdeaRevision;
+  isLatest: boolean;
+  canRestore: boolean;
+  onRestore: (revision: IdeaRevision) => void;
+  isRestoring: boolean;
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const isFirst = revision.revision === 1;
+
+  return (
+    <li className="py-4">
+      <div className="flex items-start justify-between gap-4">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex-1 text-left"
+        >
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="font-medium text-neutral-900 dark:text-neutral-100">#{revision.revision}</span>
+            <span className="text-neutral-700 dark:text-neutral-300">{revision.summary || 'Updated idea'}</span>
+            {isLatest && (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-primary-100 text-primary-700">Current</span>
+            )}
+          </div>
+          <div className="mt-1 text-xs text-neutral-500 dark:text-neutral-400 flex items-center space-x-1">
+            <span>{revision.editor.username}</span>
+            <span>·</span>
+            <span>{formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}</span>
+            {isOpen ? <ChevronUpIcon className="w-3 h-3 ml-1" /> : <ChevronDownIcon className="w-3 h-3 ml-1" />}
+          </div>
+        </button>
+
+        {canRestore && !isLatest && (
+          <button
+            type="button"
+            onClick={() => onRestore(revision)}
+            disabled={isRestoring}
+            className="btn btn-outline btn-sm flex items-center"
+          >
+            <ArrowUturnLeftIcon className="w-4 h-4 mr-1" />
+            Restore
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          {revision.changes.length === 0 ? (
+            <p className="text-sm text-neutral-500">No field changes in this revision.</p>
+          ) : (
+            revision.changes.map(change => (
+              <div key={change.field}>
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-neutral-500 dark:text-neutral-400 mb-1">
+                  {FIELD_LABELS[change.field]}
+                </h4>
+                <FieldDiff change={change} isFirst={isFirst} />
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+const RevisionHistory = ({ ideaId, canRestore }: RevisionHistoryProps) => {
+  const queryClient = useQueryClient();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['idea-revisions', ideaId, page],
+    queryFn: () => ideasApi.getRevisions(ideaId, { page, limit: 10 }),
+    enabled: isExpanded,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revision: IdeaRevision) => ideasApi.restoreRevision(ideaId, revision.id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['idea', ideaId] });
+      queryClient.invalidateQueries({ queryKey: ['idea-revisions', ideaId] });
+      setPage(1);
+      if (result.held) {
+        toast(result.message, { duration: 6000 });
+      } else {
+        toast.success(result.message);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to restore revision');
+    },
+  });
+
+  const handleRestore = (revision: IdeaRevision) => {
+    if (window.confirm(`Restore revision #${revision.revision}? The current version stays in the history.`)) {
+      restoreMutation.mutate(revision);
+    }
+  };
+
+  const revisions = data?.revisions || [];
+  const pagination = data?.pagination;
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center text-lg font-semibold text-neutral-900 dark:text-neutral-100"
+      >
+        <ClockIcon className="w-5 h-5 mr-2" />
+        Revision history
+        {isExpanded ? <ChevronUpIcon className="w-4 h-4 ml-2" /> : <ChevronDownIcon className="w-4 h-4 ml-2" />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <LoadingSpinner />
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">No revisions recorded yet.</p>
+          ) : (
+            <>
+              <ul className="divide-y divide-neutral-200 dark:divide-neutral-800">
+                {revisions.map((revision, index) => (
+                  <RevisionItem
+                    key={revision.id}
+                    revision={revision}
+                    isLatest={page === 1 && index === 0}
+                    canRestore={canRestore}
+                    onRestore={handleRestore}
+                    isRestoring={restoreMutation.isPending}
+                  />
+                ))}
+              </ul>
+
+              {pagination && pagination.pages > 1 && (
+                <div className="flex justify-between items-center mt-4 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="btn btn-outline btn-sm"
+                  >
+                    Newer
+                  </button>
+                  <span className="text-neutral-500">Page {page} of {pagination.pages}</span>
+                  <button
+                    type="button"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= pagination.pages}
+                    className="btn btn-outline btn-sm"
+                  >
+                    Older
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
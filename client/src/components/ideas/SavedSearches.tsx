@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BookmarkIcon, ChevronDownIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { searchApi } from '@/api/search';
+import { useAuthStore } from '@/store/authStore';
+import { DifficultyLevel, SavedSearch, SavedSearchAlert, SavedSearchInput, SearchFilters, SearchMode } from '@/types';
+import { cn } from '@/utils/cn';
+import toast from 'react-hot-toast';
+
+export interface AppliedSearch {
+  query: string;
+  mode: SearchMode;
+  filters: Pick<SearchFilters, 'category' | 'difficulty' | 'tags'>;
+}
+
+interface SavedSearchesProps {
+  // The search on screen, offered for saving
+  current: AppliedSearch;
+  onApply: (search: AppliedSearch) => void;
+  // Saved search to apply once loaded, e.g. from a notification link
+  initialSavedId?: string | null;
+}
+
+const alertOptions: { value: SavedSearchAlert; label: string }[] = [
+  { value: 'INSTANT', label: 'Notify me' },
+  { value: 'DIGEST', label: 'In my email digest' },
+  { value: 'OFF', label: 'No alerts' },
+];
+
+const hasCriteria = ({ query, filters }: AppliedSearch) =>
+  Boolean(query.trim() || filters.category || filters.difficulty || filters.tags?.length);
+
+const describe = (search: Pick<SavedSearch, 'query' | 'category' | 'difficulty' | 'tags' | 'techStack'>) =>
+  [
+    search.query && `"${search.query}"`,
+    search.category,
+    search.difficulty?.toLowerCase(),
+    ...search.tags.map(tag => `#${tag}`),
+    ...search.techStack,
+  ].filter(Boolean).join(' · ');
+
+const toApplied = (search: SavedSearch): AppliedSearch => ({
+  query: search.query,
+  mode: search.mode,
+  filters: {
+    category: search.category || undefined,
+    difficulty: (search.difficulty as SearchFilters['difficulty']) || undefined,
+    tags: search.tags.length > 0 ? search.tags : undefined,
+  },
+});
+
+// "Save search" plus the user's saved searches, each with its alert setting
+const SavedSearches = ({ current, onApply, initialSavedId }: SavedSearchesProps) => {
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuthStore();
+  const [isSaving, setIsSaving] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [alerts, setAlerts] = useState<SavedSearchAlert>('INSTANT');
+  const appliedInitial = useRef(false);
+
+  const { data } = useQuery({
+    queryKey: ['saved-searches'],
+    queryFn: () => searchApi.getSavedSearches(),
+    enabled: isAuthenticated,
+  });
+  const savedSearches = data?.savedSearches || [];
+
+  useEffect(() => {
+    if (appliedInitial.current || !initialSavedId) return;
+    const saved = savedSearches.find(search => search.id === initialSavedId);
+    if (saved) {
+      appliedInitial.current = true;
+      onApply(toApplied(saved));
+    }
+  }, [initialSavedId, savedSearches, onApply]);
+
+  const onError = (fallback: string) => (error: any) => {
+    toast.error(error.response?.data?.message || fallback);
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+
+  const createMutation = useMutation({
+    mutationFn: (input: SavedSearchInput) => searchApi.createSavedSearch(input),
+    onSuccess: () => {
+      toast.success('Search saved');
+      setIsSaving(false);
+      refresh();
+    },
+    onError: onError('Failed to save search'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: Partial<SavedSearchInput> }) => searchApi.updateSavedSearch(id, input),
+    onSuccess: refresh,
+    onError: onError('Failed to update saved search'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => searchApi.deleteSavedSearch(id),
+    onSuccess: () => {
+      toast.success('Saved search deleted');
+      refresh();
+    },
+    onError: onError('Failed to delete saved search'),
+  });
+
+  if (!isAuthenticated) return null;
+
+  const startSaving = () => {
+    setName(current.query.trim() || 'My filters');
+    setAlerts('INSTANT');
+    setIsSaving(true);
+  };
+
+  const save = () => {
+    createMutation.mutate({
+      name: name.trim(),
+      query: current.query.trim(),
+      mode: current.mode,
+      category: current.filters.category,
+      difficulty: current.filters.difficulty as DifficultyLevel | undefined,
+      tags: current.filters.tags,
+      alerts,
+    });
+  };
+
+  return (
+    <div className="relative text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={startSaving}
+          disabled={!hasCriteria(current) || isSaving}
+          className="btn btn-outline btn-sm"
+          title={hasCriteria(current) ? 'Get alerted when new ideas match' : 'Enter a search or pick a filter first'}
+        >
+          <BookmarkIcon className="w-4 h-4 mr-1.5" />
+          Save search
+        </button>
+
+        {savedSearches.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setIsOpen(!isOpen)}
+            className="inline-flex items-center gap-1 text-neutral-600 dark:text-neutral-400 hover:text-primary-600"
+          >
+            Saved searches ({savedSearches.length})
+            <ChevronDownIcon className={cn('w-4 h-4 transition-transform', isOpen && 'rotate-180')} />
+          </button>
+        )}
+      </div>
+
+      {isSaving && (
+        <div className="mt-3 flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && name.trim() && save()}
+            maxLength={100}
+            placeholder="Name this search"
+            className="input flex-1"
+            autoFocus
+          />
+          <select
+            value={alerts}
+            onChange={(e) => setAlerts(e.target.value as SavedSearchAlert)}
+            className="input sm:w-48"
+          >
+            {alertOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={save}
+            disabled={!name.trim() || createMutation.isPending}
+            className="btn btn-primary btn-sm"
+          >
+            Save
+          </button>
+          <button type="button" onClick={() => setIsSaving(false)} className="btn btn-ghost btn-sm">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {isOpen && savedSearches.length > 0 && (
+        <ul className="mt-3 divide-y divide-neutral-200 dark:divide-neutral-700 rounded-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900">
+          {savedSearches.map(search => (
+            <li key={search.id} className="flex flex-col sm:flex-row sm:items-center gap-2 px-3 py-2">
+              <button
+                type="button"
+                onClick={() => {
+                  onApply(toApplied(search));
+                  setIsOpen(false);
+                }}
+                className="flex-1 min-w-0 text-left"
+              >
+                <span className="block font-medium text-neutral-900 dark:text-neutral-100 truncate">{search.name}</span>
+                <span className="block text-xs text-neutral-500 dark:text-neutral-400 truncate">{describe(search)}</span>
+              </button>
+              <select
+                value={search.alerts}
+                onChange={(e) => updateMutation.mutate({ id: search.id, input: { alerts: e.target.value as SavedSearchAlert } })}
+                className="input py-1 text-xs sm:w-44"
+                aria-label={`Alerts for ${search.name}`}
+              >
+                {alertOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => deleteMutation.mutate(search.id)}
+                disabled={deleteMutation.isPending}
+                className="text-neutral-400 hover:text-red-600"
+                title="Delete saved search"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearches;
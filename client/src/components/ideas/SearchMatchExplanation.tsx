@@ -0,0 +1,57 @@
+import { SparklesIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { SearchField, SearchHighlight, SearchMatch } from '@/types';
+
+interface SearchMatchExplanationProps {
+  match: SearchMatch;
+  highlights?: SearchHighlight[];
+}
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  title: 'title',
+  tags: 'tags',
+  techStack: 'tech stack',
+  description: 'description',
+  content: 'details',
+};
+
+// Why a search result matched: meaning, the query's words, and where they appear
+const SearchMatchExplanation = ({ match, highlights = [] }: SearchMatchExplanationProps) => {
+  const reasons: { icon: typeof SparklesIcon; text: string }[] = [];
+
+  if (match.semanticScore !== null && match.semanticScore > 0) {
+    reasons.push({ icon: SparklesIcon, text: `${Math.round(match.semanticScore * 100)}% similar in meaning` });
+  }
+
+  if (match.matchedTerms.length > 0) {
+    const where = match.matchedFields.length > 0
+      ? ` in ${match.matchedFields.map(field => FIELD_LABELS[field]).join(', ')}`
+      : '';
+    reasons.push({ icon: MagnifyingGlassIcon, text: `Mentions ${match.matchedTerms.join(', ')}${where}` });
+  }
+
+  if (reasons.length === 0 && highlights.length === 0) return null;
+
+  return (
+    <div className="mt-2 px-3 py-2 rounded-lg bg-neutral-100 dark:bg-neutral-800/70 text-xs text-neutral-600 dark:text-neutral-400 space-y-1.5">
+      {highlights.map(({ field, fragments }) => (
+        <p key={field} className={field === 'title' ? 'font-medium text-neutral-800 dark:text-neutral-200' : undefined}>
+          {fragments.map((fragment, index) => fragment.highlight ? (
+            <mark key={index} className="bg-amber-200/70 dark:bg-amber-500/30 text-inherit rounded-sm px-0.5">
+              {fragment.text}
+            </mark>
+          ) : (
+            <span key={index}>{fragment.text}</span>
+          ))}
+        </p>
+      ))}
+      {reasons.map(({ icon: Icon, text }) => (
+        <div key={text} className="flex items-center gap-1.5">
+          <Icon className="w-3.5 h-3.5 flex-shrink-0 text-primary-500" />
+          <span>{text}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SearchMatchExplanation;
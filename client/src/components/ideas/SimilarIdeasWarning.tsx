@@ -0,0 +1,81 @@
+import { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import { SimilarIdea } from '@/api/ai';
+import { cn } from '@/utils/cn';
+
+interface SimilarIdeasWarningProps {
+  similar: SimilarIdea[];
+  title?: string;
+  // Rendered under the list, e.g. a "create anyway" button
+  children?: ReactNode;
+  // Rendered next to each idea, e.g. a moderator's merge button
+  renderAction?: (idea: SimilarIdea) => ReactNode;
+  className?: string;
+}
+
+const SimilarIdeasWarning = ({ similar, title, children, renderAction, className }: SimilarIdeasWarningProps) => {
+  if (similar.length === 0) return null;
+
+  const [top] = similar;
+  const heading = title || (top.isLikelyDuplicate
+    ? `This looks like "${top.title}"`
+    : 'Similar ideas already exist');
+
+  return (
+    <div
+      className={cn(
+        'rounded-xl border p-4',
+        top.isLikelyDuplicate
+          ? 'border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20'
+          : 'border-neutral-200 dark:border-neutral-700 bg-neutral-50 dark:bg-neutral-800/50',
+        className
+      )}
+    >
+      <div className="flex items-start gap-3">
+        <DocumentDuplicateIcon className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-neutral-900 dark:text-neutral-100">{heading}</p>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
+            Consider upvoting or joining an existing idea instead of starting a new one.
+          </p>
+
+          <ul className="mt-3 space-y-2">
+            {similar.map(idea => (
+              <li key={idea.id} className="flex items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <Link
+                    to={`/ideas/${idea.id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium text-primary-600 dark:text-primary-400 hover:underline"
+                  >
+                    {idea.title}
+                  </Link>
+                  <span className="text-neutral-500 dark:text-neutral-400"> by {idea.author.username}</span>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span
+                    className={cn(
+                      'px-2 py-0.5 rounded-full text-xs font-medium',
+                      idea.isLikelyDuplicate
+                        ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300'
+                        : 'bg-neutral-100 text-neutral-700 dark:bg-neutral-800 dark:text-neutral-300'
+                    )}
+                  >
+                    {Math.round(idea.score * 100)}% similar
+                  </span>
+                  {renderAction?.(idea)}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {children && <div className="mt-4">{children}</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SimilarIdeasWarning;
@@ -15,6 +15,7 @@ import { Menu, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
 import toast from 'react-hot-toast';
 import ThemeToggle from '../ui/ThemeToggle';
+import { hasPermission } from '../../utils/permissions';
 
 const Header = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -44,6 +45,8 @@ const Header = () => {
     { name: 'Dashboard', href: '/dashboard' },
     { name: 'Profile', href: `/users/${user?.username}` },
     { name: 'Settings', href: '/settings' },
+    ...(hasPermission(user, 'content:moderate') ? [{ name: 'Moderation', href: '/moderation' }] : []),
+    ...(hasPermission(user, 'stats:read') ? [{ name: 'Analytics', href: '/admin' }] : []),
   ];
 
   return (
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { ideasApi } from '@/api/ideas';
+import { commentsApi } from '@/api/comments';
+import { ReportReason, ReportTargetType } from '@/types';
+import toast from 'react-hot-toast';
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  SPAM: 'Spam',
+  HARASSMENT: 'Harassment',
+  HATE_SPEECH: 'Hate speech',
+  INAPPROPRIATE: 'Inappropriate content',
+  MISINFORMATION: 'Misinformation',
+  PLAGIARISM: 'Plagiarism',
+  OTHER: 'Something else',
+};
+
+interface ReportFormProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  onDone: () => void;
+}
+
+// Inline form for flagging an idea or comment to moderators
+const ReportForm = ({ targetType, targetId, onDone }: ReportFormProps) => {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+
+  const reportMutation = useMutation({
+    mutationFn: () => {
+      const input = { reason: reason!, details: details.trim() || undefined };
+      return targetType === 'IDEA'
+        ? ideasApi.reportIdea(targetId, input)
+        : commentsApi.reportComment(targetId, input);
+    },
+    onSuccess: (result) => {
+      toast.success(result.message);
+      onDone();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to send report');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reason) reportMutation.mutate();
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-3 p-4 rounded-xl border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900"
+    >
+      <p className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
+        Why are you reporting this {targetType === 'IDEA' ? 'idea' : 'comment'}?
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map((value) => (
+          <label key={value} className="flex items-center gap-2 text-sm text-neutral-700 dark:text-neutral-300 cursor-pointer">
+            <input
+              type="radio"
+              name={`report-reason-${targetId}`}
+              value={value}
+              checked={reason === value}
+              onChange={() => setReason(value)}
+              className="text-primary-600 focus:ring-primary-500"
+            />
+            {REPORT_REASON_LABELS[value]}
+          </label>
+        ))}
+      </div>
+
+      <textarea
+        value={details}
+        onChange={(e) => setDetails(e.target.value)}
+        maxLength={1000}
+        rows={3}
+        placeholder="Anything moderators should know (optional)"
+        className="input w-full resize-none"
+      />
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onDone} className="btn btn-sm btn-ghost">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!reason || reportMutation.isPending}
+          className="btn btn-sm btn-primary"
+        >
+          {reportMutation.isPending ? 'Sending...' : 'Send report'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ReportForm;
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// The value as it was once it stopped changing for `delay` ms
+export const useDebouncedValue = <T>(value: T, delay = 500): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+};
@@ -0,0 +1,317 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { adminApi } from '@/api/admin';
+import { useAuthStore } from '@/store/authStore';
+import { hasPermission } from '@/utils/permissions';
+import { downloadCsv } from '@/utils/csv';
+import { ChartBarIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import BarChart from '@/components/admin/BarChart';
+import CategoryBadge from '@/components/ideas/CategoryBadge';
+
+const RANGES = [7, 30, 90, 365];
+const RETENTION_WEEKS = 8;
+
+const Section = ({ title, onExport, children }: { title: string; onExport?: () => void; children: React.ReactNode }) => (
+  <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+    <div className="flex items-center justify-between mb-4">
+      <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      {onExport && (
+        <button onClick={onExport} className="btn btn-sm btn-outline flex items-center">
+          <ArrowDownTrayIcon className="w-4 h-4 mr-1" />
+          CSV
+        </button>
+      )}
+    </div>
+    {children}
+  </div>
+);
+
+const Loading = () => (
+  <div className="flex justify-center py-8">
+    <LoadingSpinner size="md" />
+  </div>
+);
+
+const StatCard = ({ label, value, detail }: { label: string; value: number; detail?: string }) => (
+  <div className="bg-white rounded-lg shadow-sm p-4">
+    <p className="text-sm text-gray-500">{label}</p>
+    <p className="text-2xl font-bold text-gray-900">{value.toLocaleString()}</p>
+    {detail && <p className="text-xs text-gray-500 mt-1">{detail}</p>}
+  </div>
+);
+
+// Darker cells for higher retention
+const retentionCellClass = (rate: number) =>
+  rate >= 0.5 ? 'bg-primary-600 text-white'
+    : rate >= 0.25 ? 'bg-primary-400 text-white'
+      : rate >= 0.1 ? 'bg-primary-200 text-gray-900'
+        : rate > 0 ? 'bg-primary-50 text-gray-900'
+          : 'bg-gray-50 text-gray-400';
+
+const AdminDashboardPage = () => {
+  const { user } = useAuthStore();
+  const [days, setDays] = useState(30);
+  const canRead = hasPermission(user, 'stats:read');
+
+  const overview = useQuery({
+    queryKey: ['admin-stats', 'overview', days],
+    queryFn: () => adminApi.getOverview(days),
+    enabled: canRead,
+  });
+  const daily = useQuery({
+    queryKey: ['admin-stats', 'daily', days],
+    queryFn: () => adminApi.getDailyStats(days),
+    enabled: canRead,
+  });
+  const categories = useQuery({
+    queryKey: ['admin-stats', 'categories', days],
+    queryFn: () => adminApi.getCategoryEngagement(days),
+    enabled: canRead,
+  });
+  const aiUsage = useQuery({
+    queryKey: ['admin-stats', 'ai-usage', days],
+    queryFn: () => adminApi.getAIUsage(days),
+    enabled: canRead,
+  });
+  const retention = useQuery({
+    queryKey: ['admin-stats', 'retention', RETENTION_WEEKS],
+    queryFn: () => adminApi.getRetention(RETENTION_WEEKS),
+    enabled: canRead,
+  });
+
+  if (!canRead) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">You don't have access to platform analytics.</p>
+      </div>
+    );
+  }
+
+  const dateLabel = (date: string) => date.substring(5);
+
+  const exportDaily = () => daily.data && downloadCsv(
+    `daily-stats-${days}d.csv`,
+    ['date', 'signups', 'ideas_published', 'comments', 'votes', 'active_users'],
+    daily.data.map(day => [day.date, day.signups, day.ideasPublished, day.comments, day.votes, day.activeUsers])
+  );
+
+  const exportCategories = () => categories.data && downloadCsv(
+    `category-engagement-${days}d.csv`,
+    ['category', 'ideas_published', 'votes', 'comments', 'views', 'engagement_per_idea'],
+    categories.data.map(row => [row.category, row.ideasPublished, row.votes, row.comments, row.views, row.engagementPerIdea])
+  );
+
+  const exportAIUsage = () => aiUsage.data && downloadCsv(
+    `ai-usage-${days}d.csv`,
+    ['task', 'requests', 'tokens', 'users'],
+    aiUsage.data.tasks.map(task => [task.task, task.requests, task.tokens, task.users])
+  );
+
+  const exportRetention = () => retention.data && downloadCsv(
+    `retention-${RETENTION_WEEKS}w.csv`,
+    ['cohort_week', 'users', ...Array.from({ length: RETENTION_WEEKS }, (_, week) => `week_${week}`)],
+    retention.data.map(cohort => [cohort.weekStart, cohort.users, ...cohort.rates])
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+              <ChartBarIcon className="w-8 h-8 mr-3" />
+              Platform analytics
+            </h1>
+            <p className="text-gray-600 mt-1">Growth, engagement and AI usage across the platform</p>
+          </div>
+          <div className="flex space-x-2">
+            {RANGES.map(range => (
+              <button
+                key={range}
+                onClick={() => setDays(range)}
+                className={`btn btn-sm ${days === range ? 'btn-primary' : 'btn-outline'}`}
+              >
+                {range}d
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Overview */}
+        {overview.data ? (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+            <StatCard label="Users" value={overview.data.totals.users} detail={`+${overview.data.period.newUsers} in ${days}d`} />
+            <StatCard label="Active users" value={overview.data.period.activeUsers} detail={`last ${days}d`} />
+            <StatCard label="Published ideas" value={overview.data.totals.publishedIdeas} detail={`+${overview.data.period.ideasPublished} in ${days}d`} />
+            <StatCard label="Comments" value={overview.data.totals.comments} detail={`+${overview.data.period.comments} in ${days}d`} />
+            <StatCard label="Votes" value={overview.data.totals.votes} detail={`+${overview.data.period.votes} in ${days}d`} />
+          </div>
+        ) : overview.isLoading && <Loading />}
+
+        {/* Growth */}
+        <Section title="Daily signups and ideas published" onExport={exportDaily}>
+          {daily.data ? (
+            <BarChart
+              data={daily.data}
+              series={[
+                { key: 'signups', label: 'Signups', className: 'fill-primary-500' },
+                { key: 'ideasPublished', label: 'Ideas published', className: 'fill-accent-500' },
+              ]}
+              labelOf={day => dateLabel(day.date)}
+              valueOf={(day, key) => day[key as 'signups' | 'ideasPublished']}
+            />
+          ) : <Loading />}
+        </Section>
+
+        <Section title="Daily engagement">
+          {daily.data ? (
+            <BarChart
+              data={daily.data}
+              series={[
+                { key: 'activeUsers', label: 'Active users', className: 'fill-emerald-500' },
+                { key: 'comments', label: 'Comments', className: 'fill-blue-500' },
+                { key: 'votes', label: 'Votes', className: 'fill-amber-500' },
+              ]}
+              labelOf={day => dateLabel(day.date)}
+              valueOf={(day, key) => day[key as 'activeUsers' | 'comments' | 'votes']}
+            />
+          ) : <Loading />}
+        </Section>
+
+        {/* Categories */}
+        <Section title="Engagement by category" onExport={exportCategories}>
+          {categories.data ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Category</th>
+                    <th className="py-2 pr-4 font-medium text-right">Published</th>
+                    <th className="py-2 pr-4 font-medium text-right">Votes</th>
+                    <th className="py-2 pr-4 font-medium text-right">Comments</th>
+                    <th className="py-2 pr-4 font-medium text-right">Views</th>
+                    <th className="py-2 font-medium text-right">Per engaged idea</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {categories.data.map(row => (
+                    <tr key={row.category}>
+                      <td className="py-2 pr-4"><CategoryBadge category={row.category} size="sm" /></td>
+                      <td className="py-2 pr-4 text-right">{row.ideasPublished}</td>
+                      <td className="py-2 pr-4 text-right">{row.votes}</td>
+                      <td className="py-2 pr-4 text-right">{row.comments}</td>
+                      <td className="py-2 pr-4 text-right">{row.views}</td>
+                      <td className="py-2 text-right">{row.engagementPerIdea}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : <Loading />}
+        </Section>
+
+        {/* AI usage */}
+        <Section title="AI usage" onExport={exportAIUsage}>
+          {aiUsage.data ? (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-600">
+                {aiUsage.data.totals.requests.toLocaleString()} requests from {aiUsage.data.totals.users.toLocaleString()} users,{' '}
+                {aiUsage.data.totals.tokens.toLocaleString()} tokens ({aiUsage.data.totals.repairs.toLocaleString()} repair calls)
+              </p>
+              <BarChart
+                data={aiUsage.data.days}
+                series={[{ key: 'requests', label: 'Requests', className: 'fill-purple-500' }]}
+                labelOf={day => dateLabel(day.date)}
+                valueOf={day => day.requests}
+                height={140}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Endpoint</th>
+                      <th className="py-2 pr-4 font-medium text-right">Requests</th>
+                      <th className="py-2 pr-4 font-medium text-right">Tokens</th>
+                      <th className="py-2 font-medium text-right">Users</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {aiUsage.data.tasks.map(task => (
+                      <tr key={task.task}>
+                        <td className="py-2 pr-4 font-mono text-xs">{task.task}</td>
+                        <td className="py-2 pr-4 text-right">{task.requests.toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">{task.tokens.toLocaleString()}</td>
+                        <td className="py-2 text-right">{task.users}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Model</th>
+                      <th className="py-2 pr-4 font-medium text-right">Requests</th>
+                      <th className="py-2 font-medium text-right">Tokens</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {aiUsage.data.models.map(model => (
+                      <tr key={`${model.provider}:${model.model}`}>
+                        <td className="py-2 pr-4 text-xs">{model.provider} / <span className="font-mono">{model.model}</span></td>
+                        <td className="py-2 pr-4 text-right">{model.requests.toLocaleString()}</td>
+                        <td className="py-2 text-right">{model.tokens.toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : <Loading />}
+        </Section>
+
+        {/* Retention */}
+        <Section title={`Weekly retention (last ${RETENTION_WEEKS} signup cohorts)`} onExport={exportRetention}>
+          {retention.data ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Cohort</th>
+                    <th className="py-2 pr-4 font-medium text-right">Users</th>
+                    {Array.from({ length: RETENTION_WEEKS }, (_, week) => (
+                      <th key={week} className="py-2 px-1 font-medium text-center">W{week}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {retention.data.map(cohort => (
+                    <tr key={cohort.weekStart}>
+                      <td className="py-1 pr-4 whitespace-nowrap">{cohort.weekStart}</td>
+                      <td className="py-1 pr-4 text-right">{cohort.users}</td>
+                      {cohort.rates.map((rate, week) => (
+                        <td key={week} className="p-0.5">
+                          <div
+                            className={`rounded py-1 text-center ${retentionCellClass(rate)}`}
+                            title={`${cohort.active[week]} of ${cohort.users} active`}
+                          >
+                            {cohort.users ? `${Math.round(rate * 100)}%` : '–'}
+                          </div>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-3">
+                Share of each week's signups who did anything on the site in the weeks that followed. W0 is the signup week.
+              </p>
+            </div>
+          ) : <Loading />}
+        </Section>
+      </div>
+    </div>
+  );
+};
+
+export default AdminDashboardPage;
@@ -1,9 +1,12 @@
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { ideasApi } from '@/api/ideas';
+import { aiApi, SimilarIdea } from '@/api/ai';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
 import { IdeaCategory, IdeaStatus } from '@/types';
 import { 
   LightBulbIcon,
@@ -12,8 +15,10 @@ import {
 } from '@heroicons/react/24/outline';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import AIEnhancementPanel from '@/components/ai/AIEnhancementPanel';
+import AIServiceStatus from '@/components/ai/AIServiceStatus';
 import AISuggestionTooltip from '@/components/ai/AISuggestionTooltip';
 import FeasibilityScoreDisplay from '@/components/ai/FeasibilityScoreDisplay';
+import SimilarIdeasWarning from '@/components/ideas/SimilarIdeasWarning';
 import toast from 'react-hot-toast';
 
 const createIdeaSchema = z.object({
@@ -66,10 +71,24 @@ const CreateIdeaPage = () => {
     },
   });
 
+  // Set when the server refuses to create a likely duplicate without confirmation
+  const [duplicateConflict, setDuplicateConflict] = useState<{ data: CreateIdeaFormData; similar: SimilarIdea[] } | null>(null);
+
+  // Check for similar ideas while the author types
+  const similarTitle = useDebouncedValue(watch('title') || '', 800);
+  const similarDescription = useDebouncedValue(watch('description') || '', 800);
+  const { data: similarData } = useQuery({
+    queryKey: ['similar-ideas', similarTitle, similarDescription],
+    queryFn: () => aiApi.findSimilarIdeas({ title: similarTitle, description: similarDescription }),
+    enabled: similarTitle.trim().length >= 5 && similarDescription.trim().length >= 20,
+    staleTime: 60 * 1000,
+  });
+
   const createMutation = useMutation({
-    mutationFn: (data: CreateIdeaFormData) => {
+    mutationFn: ({ acknowledgeSimilar, ...data }: CreateIdeaFormData & { acknowledgeSimilar?: boolean }) => {
       const formattedData = {
         ...data,
+        acknowledgeSimilar,
         content: data.description, // Use description as content
         tags: data.tags ? data.tags.split(',').map(tag => tag.trim()).filter(Boolean) : [],
         techStack: data.techStack ? data.techStack.split(',').map(tech => tech.trim()).filter(Boolean) : undefined,
@@ -80,12 +99,17 @@ const CreateIdeaPage = () => {
       toast.success('Idea created successfully!');
       navigate(`/ideas/${data.idea.id}`);
     },
-    onError: (error: any) => {
+    onError: (error: any, data) => {
+      if (error.response?.status === 409 && error.response.data?.similar) {
+        setDuplicateConflict({ data, similar: error.response.data.similar });
+        return;
+      }
       toast.error(error.response?.data?.message || 'Failed to create idea');
     },
   });
 
   const onSubmit = (data: CreateIdeaFormData) => {
+    setDuplicateConflict(null);
     createMutation.mutate(data);
   };
 
@@ -235,6 +259,10 @@ const CreateIdeaPage = () => {
                   className="mt-4"
                 />
               )}
+
+              {similarData && (
+                <SimilarIdeasWarning similar={similarData.similar} className="mt-4" />
+              )}
             </div>
 
             {/* Category and Status Section */}
@@ -369,6 +397,8 @@ const CreateIdeaPage = () => {
                   <h2 className="text-2xl font-bold text-neutral-900 dark:text-neutral-100">AI-Powered Insights</h2>
                 </div>
                 
+                <AIServiceStatus />
+
                 <AIEnhancementPanel
                   title={watch('title')}
                   description={watch('description')}
@@ -395,6 +425,19 @@ const CreateIdeaPage = () => {
 
             {/* Enhanced Submit Section */}
             <div className="pt-8 border-t border-neutral-200 dark:border-neutral-800">
+              {duplicateConflict && (
+                <SimilarIdeasWarning similar={duplicateConflict.similar} className="mb-6">
+                  <button
+                    type="button"
+                    onClick={() => createMutation.mutate({ ...duplicateConflict.data, acknowledgeSimilar: true })}
+                    disabled={createMutation.isPending}
+                    className="btn btn-sm btn-outline"
+                  >
+                    Mine is different, create it anyway
+                  </button>
+                </SimilarIdeasWarning>
+              )}
+
               <div className="flex flex-col sm:flex-row gap-4">
                 <button
                   type="submit"
@@ -7,7 +7,7 @@ import { enhancedIdeasApi } from '../api/discovery';
 import IdeaCard from '../components/ideas/IdeaCard';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
 import { useAuthStore } from '../store/authStore';
-import type { Idea, IdeaFilters, PaginatedResponse } from '../types';
+import type { Idea, IdeaFacets, IdeaFilters } from '../types';
 
 const DiscoveryPage: React.FC = () => {
   const { user } = useAuthStore();
@@ -16,6 +16,7 @@ const DiscoveryPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [filters, setFilters] = useState<IdeaFilters>({});
+  const [facets, setFacets] = useState<IdeaFacets | undefined>();
   const [pagination, setPagination] = useState({
     page: 1,
     limit: 12,
@@ -29,7 +30,7 @@ const DiscoveryPage: React.FC = () => {
       setError(null);
       
       const currentPage = resetPage ? 1 : pagination.page;
-      const response: PaginatedResponse<Idea> = await enhancedIdeasApi.getIdeas({
+      const response = await enhancedIdeasApi.getIdeas({
         ...filters,
         page: currentPage,
         limit: pagination.limit
@@ -37,6 +38,7 @@ const DiscoveryPage: React.FC = () => {
 
       if (resetPage) {
         setIdeas(response.data);
+        setFacets(response.facets);
         setPagination({
           ...pagination,
           page: 1,
@@ -128,6 +130,7 @@ const DiscoveryPage: React.FC = () => {
               <div className="lg:col-span-1">
                 <EnhancedFilterPanel
                   filters={filters}
+                  facets={facets}
                   onFiltersChange={handleFiltersChange}
                 />
               </div>
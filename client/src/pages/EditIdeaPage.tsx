@@ -5,6 +5,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { ideasApi } from '@/api/ideas';
+import { SimilarIdea } from '@/api/ai';
 import { useAuthStore } from '@/store/authStore';
 import { IdeaCategory, IdeaStatus } from '@/types';
 import { 
@@ -14,6 +15,10 @@ import {
   ArrowLeftIcon
 } from '@heroicons/react/24/outline';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import AIEnhancementPanel from '@/components/ai/AIEnhancementPanel';
+import AIServiceStatus from '@/components/ai/AIServiceStatus';
+import FeasibilityScoreDisplay from '@/components/ai/FeasibilityScoreDisplay';
+import SimilarIdeasWarning from '@/components/ideas/SimilarIdeasWarning';
 import toast from 'react-hot-toast';
 
 const editIdeaSchema = z.object({
@@ -25,6 +30,7 @@ const editIdeaSchema = z.object({
   estimatedTime: z.string().optional(),
   tags: z.string().optional(),
   techStack: z.string().optional(),
+  changeSummary: z.string().max(200, 'Change summary is too long').optional(),
 });
 
 type EditIdeaFormData = z.infer<typeof editIdeaSchema>;
@@ -51,6 +57,7 @@ const EditIdeaPage = () => {
     handleSubmit,
     watch,
     reset,
+    setValue,
     formState: { errors, isDirty },
   } = useForm<EditIdeaFormData>({
     resolver: zodResolver(editIdeaSchema),
@@ -76,25 +83,38 @@ const EditIdeaPage = () => {
     }
   }, [ideaData, reset]);
 
+  // Set when publishing is refused because the idea looks like an existing one
+  const [duplicateConflict, setDuplicateConflict] = useState<{ data: EditIdeaFormData; similar: SimilarIdea[] } | null>(null);
+
   const updateMutation = useMutation({
-    mutationFn: (data: EditIdeaFormData) => {
+    mutationFn: ({ acknowledgeSimilar, ...data }: EditIdeaFormData & { acknowledgeSimilar?: boolean }) => {
       const formattedData = {
         ...data,
+        acknowledgeSimilar,
         tags: data.tags ? data.tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
         techStack: data.techStack ? data.techStack.split(',').map(tech => tech.trim()).filter(Boolean) : undefined,
       };
       return ideasApi.updateIdea(id!, formattedData);
     },
     onSuccess: (data) => {
-      toast.success('Idea updated successfully!');
+      if (data.held) {
+        toast(data.message, { duration: 6000 });
+      } else {
+        toast.success('Idea updated successfully!');
+      }
       navigate(`/ideas/${data.idea.id}`);
     },
-    onError: (error: any) => {
+    onError: (error: any, data) => {
+      if (error.response?.status === 409 && error.response.data?.similar) {
+        setDuplicateConflict({ data, similar: error.response.data.similar });
+        return;
+      }
       toast.error(error.response?.data?.message || 'Failed to update idea');
     },
   });
 
   const onSubmit = (data: EditIdeaFormData) => {
+    setDuplicateConflict(null);
     updateMutation.mutate(data);
   };
 
@@ -140,13 +160,16 @@ const EditIdeaPage = () => {
 
   const { idea } = ideaData;
 
-  // Check if user owns this idea
-  if (user?.id !== idea.author.id) {
+  // Owners and editors can change the content; only the owner changes the status
+  const isOwner = user?.id === idea.author.id || idea.userRole === 'OWNER';
+  const canEdit = isOwner || idea.userRole === 'EDITOR';
+
+  if (!canEdit) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <h1 className="text-2xl font-bold text-gray-900 mb-4">Access Denied</h1>
-          <p className="text-gray-600 mb-6">You can only edit your own ideas.</p>
+          <p className="text-gray-600 mb-6">You can only edit ideas you own or collaborate on as an editor.</p>
           <button onClick={() => navigate(-1)} className="btn btn-primary">
             Go Back
           </button>
@@ -267,6 +290,15 @@ const EditIdeaPage = () => {
               <p className="mt-1 text-sm text-gray-500">
                 {description?.length || 0}/5000 characters
               </p>
+              {title && description && (
+                <FeasibilityScoreDisplay
+                  ideaId={idea.id}
+                  title={title}
+                  description={description}
+                  category={watch('category')}
+                  className="mt-4"
+                />
+              )}
             </div>
 
             {/* Category and Status */}
@@ -299,6 +331,8 @@ const EditIdeaPage = () => {
                 <select
                   {...register('status')}
                   id="status"
+                  disabled={!isOwner}
+                  title={isOwner ? undefined : 'Only the owner can change the status'}
                   className="input w-full"
                 >
                   {statuses.map((status) => (
@@ -377,8 +411,46 @@ const EditIdeaPage = () => {
                 List the technologies you plan to use
               </p>
             </div>
+
+            {/* Change Summary */}
+            <div>
+              <label htmlFor="changeSummary" className="block text-sm font-medium text-gray-700 mb-2">
+                Summary of changes
+              </label>
+              <input
+                {...register('changeSummary')}
+                type="text"
+                id="changeSummary"
+                className="input w-full"
+                placeholder="e.g. Clarified the MVP scope (optional)"
+              />
+              {errors.changeSummary && (
+                <p className="mt-1 text-sm text-red-600">{errors.changeSummary.message}</p>
+              )}
+              <p className="mt-1 text-sm text-gray-500">
+                Shown in the idea's revision history
+              </p>
+            </div>
           </div>
 
+          <AIServiceStatus />
+
+          {/* AI suggestions are saved on the idea, so the form only mirrors them */}
+          <AIEnhancementPanel
+            ideaId={idea.id}
+            title={title || ''}
+            description={description || ''}
+            category={watch('category')}
+            tags={watch('tags') ? watch('tags')!.split(',').map(tag => tag.trim()).filter(Boolean) : []}
+            onIdeaUpdated={(updated) => {
+              setValue('tags', updated.tags.join(', '));
+              setValue('techStack', updated.techStack?.join(', ') || '');
+              if (updated.difficulty && updated.difficulty !== 'EXPERT') {
+                setValue('difficulty', updated.difficulty);
+              }
+            }}
+          />
+
           {/* Info Box */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <div className="flex">
@@ -394,6 +466,19 @@ const EditIdeaPage = () => {
             </div>
           </div>
 
+          {duplicateConflict && (
+            <SimilarIdeasWarning similar={duplicateConflict.similar}>
+              <button
+                type="button"
+                onClick={() => updateMutation.mutate({ ...duplicateConflict.data, acknowledgeSimilar: true })}
+                disabled={updateMutation.isPending}
+                className="btn btn-sm btn-outline"
+              >
+                Mine is different, publish it anyway
+              </button>
+            </SimilarIdeasWarning>
+          )}
+
           {/* Actions */}
           <div className="flex justify-end space-x-4">
             <button
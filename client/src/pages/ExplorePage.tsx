@@ -1,5 +1,6 @@
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
 import { ideasApi } from '@/api/ideas';
 import { SearchFilters } from '@/types';
 import { 
@@ -10,6 +11,7 @@ import {
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import IdeaCard from '@/components/ideas/IdeaCard';
 import FilterPanel from '@/components/ideas/FilterPanel';
+import SavedSearches, { AppliedSearch } from '@/components/ideas/SavedSearches';
 
 const ExplorePage = () => {
   const [filters, setFilters] = useState<SearchFilters>({
@@ -19,6 +21,7 @@ const ExplorePage = () => {
   });
   const [showFilters, setShowFilters] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchParams] = useSearchParams();
 
   const {
     data: ideasData,
@@ -40,6 +43,18 @@ const ExplorePage = () => {
     }));
   };
 
+  // Explore lists by its own sort, so a saved search's mode only matters on the search page
+  const handleApplySaved = useCallback((search: AppliedSearch) => {
+    setSearchQuery(search.query);
+    setFilters(prev => ({
+      page: 1,
+      limit: 12,
+      sort: prev.sort,
+      search: search.query || undefined,
+      ...search.filters,
+    }));
+  }, []);
+
   const handleFilterChange = (newFilters: Partial<SearchFilters>) => {
     setFilters(prev => ({
       ...prev,
@@ -135,6 +150,18 @@ const ExplorePage = () => {
             </div>
           </div>
 
+          <div className="mt-4">
+            <SavedSearches
+              current={{
+                query: filters.search || '',
+                mode: 'keyword',
+                filters: { category: filters.category, difficulty: filters.difficulty, tags: filters.tags },
+              }}
+              onApply={handleApplySaved}
+              initialSavedId={searchParams.get('saved')}
+            />
+          </div>
+
           {/* Enhanced Filter Panel */}
           {showFilters && (
             <div className="mt-6 pt-6 border-t border-neutral-200 dark:border-neutral-700">
@@ -2,8 +2,10 @@ import { useEffect, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { formatDistanceToNow } from 'date-fns';
+import { isAxiosError } from 'axios';
 import { ideasApi } from '../api/ideas';
 import { useAuthStore } from '@/store/authStore';
+import { Idea } from '@/types';
 import { 
   ArrowLeftIcon,
   PencilIcon,
@@ -13,15 +15,25 @@ import {
   EyeIcon,
   CalendarIcon,
   TagIcon,
-  UserIcon
+  UserIcon,
+  DocumentDuplicateIcon,
+  FlagIcon,
+  EyeSlashIcon
 } from '@heroicons/react/24/outline';
 import { BookmarkIcon as BookmarkIconSolid } from '@heroicons/react/24/solid';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import VoteButton from '@/components/ideas/VoteButton';
 import CategoryBadge from '@/components/ideas/CategoryBadge';
 import CommentSection from '@/components/comments/CommentSection';
+import RevisionHistory from '@/components/ideas/RevisionHistory';
+import CollaboratorAvatars from '@/components/ideas/CollaboratorAvatars';
+import CollaboratorsPanel from '@/components/ideas/CollaboratorsPanel';
+import RecruitmentPanel from '@/components/ideas/RecruitmentPanel';
+import DuplicateReviewPanel from '@/components/ideas/DuplicateReviewPanel';
+import ReportForm from '@/components/moderation/ReportForm';
 import toast from 'react-hot-toast';
 import { useSocketStore } from '@/store/socketStore';
+import { hasPermission } from '@/utils/permissions';
 
 const IdeaDetailPage = () => {
   const { id } = useParams<{ id: string }>();
@@ -29,6 +41,7 @@ const IdeaDetailPage = () => {
   const { user, isAuthenticated } = useAuthStore();
   const queryClient = useQueryClient();
   const [isBookmarking, setIsBookmarking] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
   const { socket, joinIdea, leaveIdea } = useSocketStore();
 
   // Fetch idea details
@@ -65,13 +78,31 @@ const IdeaDetailPage = () => {
       queryClient.invalidateQueries({ queryKey: ['ideas'] });
     };
 
+    const handleMerged = (payload: any) => {
+      if (!payload || payload.ideaId !== id) return;
+      toast(`This idea was merged into "${payload.mergedInto.title}"`);
+      navigate(`/ideas/${payload.mergedInto.id}`, { replace: true });
+    };
+
     socket?.on('vote:updated', handleVoteUpdated);
+    socket?.on('idea:merged', handleMerged);
 
     return () => {
       socket?.off('vote:updated', handleVoteUpdated);
+      socket?.off('idea:merged', handleMerged);
       leaveIdea(id);
     };
-  }, [id, socket, joinIdea, leaveIdea, queryClient]);
+  }, [id, socket, joinIdea, leaveIdea, queryClient, navigate]);
+
+  // Merged duplicates send everyone but their team to the idea they were merged into
+  const mergedInto = isAxiosError<{ mergedInto?: Idea['mergedInto'] }>(error)
+    ? error.response?.data?.mergedInto
+    : undefined;
+  useEffect(() => {
+    if (mergedInto) {
+      navigate(`/ideas/${mergedInto.id}`, { replace: true });
+    }
+  }, [mergedInto, navigate]);
 
   // Bookmark mutation
   const bookmarkMutation = useMutation({
@@ -182,7 +213,10 @@ const IdeaDetailPage = () => {
   }
 
   const { idea } = ideaData;
-  const isOwner = user?.id === idea.author.id;
+  const isOwner = user?.id === idea.author.id || idea.userRole === 'OWNER';
+  const canEdit = isOwner || idea.userRole === 'EDITOR';
+  const isCollaborator = !isOwner && !!idea.userRole;
+  const canMerge = hasPermission(user, 'ideas:merge');
 
   return (
     <div className="min-h-screen bg-neutral-50 dark:bg-neutral-950 transition-colors duration-300">
@@ -196,6 +230,28 @@ const IdeaDetailPage = () => {
           Back to ideas
         </button>
 
+        {idea.mergedInto && (
+          <div className="flex items-center gap-3 mb-6 p-4 rounded-xl border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-sm text-neutral-700 dark:text-neutral-300">
+            <DocumentDuplicateIcon className="w-5 h-5 text-amber-600 flex-shrink-0" />
+            <span>
+              This idea was merged into{' '}
+              <Link to={`/ideas/${idea.mergedInto.id}`} className="font-medium text-primary-600 dark:text-primary-400 hover:underline">
+                {idea.mergedInto.title}
+              </Link>
+              . Its votes and comments now live there.
+            </span>
+          </div>
+        )}
+
+        {idea.status === 'HIDDEN' && (
+          <div className="flex items-center gap-3 mb-6 p-4 rounded-xl border border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/20 text-sm text-neutral-700 dark:text-neutral-300">
+            <EyeSlashIcon className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <span>
+              This idea is hidden from everyone else while moderators review reports about it. You can still view it, but not publish or archive it until then.
+            </span>
+          </div>
+        )}
+
         {/* Main Content */}
         <div className="glass-card rounded-3xl shadow-2xl overflow-hidden">
           {/* Header */}
@@ -230,6 +286,12 @@ const IdeaDetailPage = () => {
                       {idea.views || 0} views
                     </span>
                   </div>
+                  {idea.collaborators && idea.collaborators.length > 0 && (
+                    <div className="flex items-center gap-2 mt-2">
+                      <span className="text-xs text-neutral-500 dark:text-neutral-400">with</span>
+                      <CollaboratorAvatars collaborators={idea.collaborators} max={6} size="md" />
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -262,15 +324,28 @@ const IdeaDetailPage = () => {
                   </button>
                 )}
 
+                {isAuthenticated && !isOwner && idea.status === 'PUBLISHED' && (
+                  <button
+                    onClick={() => setIsReporting(!isReporting)}
+                    className="p-3 text-neutral-400 dark:text-neutral-500 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-xl transition-all duration-300 group"
+                    title="Report idea"
+                  >
+                    <FlagIcon className="w-5 h-5 group-hover:scale-110 transition-transform duration-300" />
+                  </button>
+                )}
+
+                {canEdit && (
+                  <Link
+                    to={`/ideas/${idea.id}/edit`}
+                    className="p-3 text-neutral-400 dark:text-neutral-500 hover:text-primary-600 dark:hover:text-primary-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded-xl transition-all duration-300 group"
+                    title="Edit idea"
+                  >
+                    <PencilIcon className="w-5 h-5 group-hover:rotate-12 transition-transform duration-300" />
+                  </Link>
+                )}
+
                 {isOwner && (
                   <>
-                    <Link
-                      to={`/ideas/${idea.id}/edit`}
-                      className="p-3 text-neutral-400 dark:text-neutral-500 hover:text-primary-600 dark:hover:text-primary-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded-xl transition-all duration-300 group"
-                      title="Edit idea"
-                    >
-                      <PencilIcon className="w-5 h-5 group-hover:rotate-12 transition-transform duration-300" />
-                    </Link>
                     <button
                       onClick={handleDelete}
                       disabled={deleteMutation.isPending}
@@ -284,6 +359,12 @@ const IdeaDetailPage = () => {
               </div>
             </div>
 
+            {isReporting && (
+              <div className="mb-6">
+                <ReportForm targetType="IDEA" targetId={idea.id} onDone={() => setIsReporting(false)} />
+              </div>
+            )}
+
             {/* Title and Category */}
             <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
               <h1 className="text-3xl lg:text-4xl font-bold text-neutral-900 dark:text-neutral-100 leading-tight">
@@ -380,6 +461,40 @@ const IdeaDetailPage = () => {
             )}
           </div>
 
+          {/* Duplicate review */}
+          {canMerge && !isOwner && !idea.mergedInto && idea.status === 'PUBLISHED' && (
+            <div className="border-t border-neutral-200 dark:border-neutral-800">
+              <div className="p-8">
+                <DuplicateReviewPanel idea={idea} />
+              </div>
+            </div>
+          )}
+
+          {/* Recruitment */}
+          {(isOwner || idea.isRecruiting) && (
+            <div className="border-t border-neutral-200 dark:border-neutral-800">
+              <div className="p-8">
+                <RecruitmentPanel idea={idea} isOwner={isOwner} />
+              </div>
+            </div>
+          )}
+
+          {/* Collaborators */}
+          {(isOwner || isCollaborator) && (
+            <div className="border-t border-neutral-200 dark:border-neutral-800">
+              <div className="p-8">
+                <CollaboratorsPanel ideaId={idea.id} canManage={isOwner} />
+              </div>
+            </div>
+          )}
+
+          {/* Revision History */}
+          <div className="border-t border-neutral-200 dark:border-neutral-800">
+            <div className="p-8">
+              <RevisionHistory ideaId={idea.id} canRestore={canEdit} />
+            </div>
+          </div>
+
           {/* Comments Section */}
           <div className="border-t border-neutral-200 dark:border-neutral-800">
             <div className="p-8">
@@ -0,0 +1,105 @@
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { invitationsApi } from '@/api/invitations';
+import { UserGroupIcon } from '@heroicons/react/24/outline';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+const InvitationPage = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['invitation', token],
+    queryFn: () => invitationsApi.getInvitation(token!),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: (accept: boolean) => accept
+      ? invitationsApi.acceptInvitation(token!)
+      : invitationsApi.declineInvitation(token!),
+    onSuccess: (result, accept) => {
+      queryClient.invalidateQueries({ queryKey: ['invitation', token] });
+      toast.success(result.message);
+      if (accept) {
+        navigate(`/ideas/${result.invitation.idea.id}`);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to respond to invitation');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="max-w-lg mx-auto px-4 py-16 text-center">
+        <h1 className="text-2xl font-bold text-neutral-900 dark:text-neutral-100 mb-4">Invitation not found</h1>
+        <p className="text-neutral-600 dark:text-neutral-400 mb-6">
+          This invitation link is invalid or was sent to a different account.
+        </p>
+        <Link to="/notifications" className="btn btn-primary">Go to notifications</Link>
+      </div>
+    );
+  }
+
+  const { invitation } = data;
+  const isPending = invitation.status === 'PENDING';
+
+  return (
+    <div className="max-w-lg mx-auto px-4 py-16">
+      <div className="glass-card rounded-3xl shadow-xl p-8 text-center">
+        <div className="w-14 h-14 rounded-2xl bg-primary-100 dark:bg-primary-900/30 flex items-center justify-center mx-auto mb-6">
+          <UserGroupIcon className="w-7 h-7 text-primary-600 dark:text-primary-400" />
+        </div>
+
+        <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-2">
+          {invitation.invitedBy.username} invited you {formatDistanceToNow(new Date(invitation.createdAt), { addSuffix: true })} to join as {invitation.role.toLowerCase()}
+        </p>
+        <h1 className="text-2xl font-bold text-neutral-900 dark:text-neutral-100 mb-3">{invitation.idea.title}</h1>
+        <p className="text-neutral-600 dark:text-neutral-400 mb-8">{invitation.idea.description}</p>
+
+        {isPending ? (
+          <div className="flex justify-center gap-3">
+            <button
+              onClick={() => respondMutation.mutate(false)}
+              disabled={respondMutation.isPending}
+              className="btn btn-outline"
+            >
+              Decline
+            </button>
+            <button
+              onClick={() => respondMutation.mutate(true)}
+              disabled={respondMutation.isPending}
+              className="btn btn-primary"
+            >
+              Accept invitation
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+              You {invitation.status === 'ACCEPTED' ? 'accepted' : 'declined'} this invitation.
+            </p>
+            {invitation.status === 'ACCEPTED' && (
+              <Link to={`/ideas/${invitation.idea.id}`} className="btn btn-primary">View idea</Link>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InvitationPage;
@@ -0,0 +1,625 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { moderationApi } from '@/api/moderation';
+import { useAuthStore } from '@/store/authStore';
+import { hasPermission } from '@/utils/permissions';
+import {
+  ModerationAction,
+  ModerationQueueItem,
+  ReportStatus,
+  ReportTargetType,
+  ScreeningDecision,
+  ScreeningStatus,
+  ScreeningVerdict,
+  User
+} from '@/types';
+import { ShieldCheckIcon, FlagIcon, EyeSlashIcon, NoSymbolIcon, FunnelIcon } from '@heroicons/react/24/outline';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { REPORT_REASON_LABELS } from '@/components/moderation/ReportForm';
+import toast from 'react-hot-toast';
+
+const STATUS_FILTERS: { value: ReportStatus; label: string }[] = [
+  { value: 'OPEN', label: 'Open' },
+  { value: 'RESOLVED', label: 'Resolved' },
+  { value: 'DISMISSED', label: 'Dismissed' },
+];
+
+const TYPE_FILTERS: { value: ReportTargetType | undefined; label: string }[] = [
+  { value: undefined, label: 'All' },
+  { value: 'IDEA', label: 'Ideas' },
+  { value: 'COMMENT', label: 'Comments' },
+];
+
+const ACTIONS: { value: ModerationAction; label: string; className: string }[] = [
+  { value: 'DISMISS', label: 'Dismiss', className: 'btn-outline' },
+  { value: 'WARN', label: 'Warn author', className: 'btn-outline' },
+  { value: 'HIDE', label: 'Hide', className: 'btn-outline' },
+  { value: 'DELETE', label: 'Delete', className: 'btn-primary bg-red-600 hover:bg-red-700 border-red-600' },
+];
+
+const SCREENING_FILTERS: { value: ScreeningStatus; label: string }[] = [
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'REMOVED', label: 'Removed' },
+];
+
+// Held content is published or deleted; for rejected content the decision
+// only records whether the rejection was right
+const REVIEW_LABELS: Record<'HOLD' | 'REJECT', Record<ScreeningDecision, string>> = {
+  HOLD: { APPROVE: 'Publish', REMOVE: 'Remove' },
+  REJECT: { APPROVE: 'False positive', REMOVE: 'Uphold' },
+};
+
+// Suspension lengths in days; null is permanent
+const SUSPENSION_DURATIONS: { days: number | null; label: string }[] = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'Permanently' },
+];
+
+const itemKey = (item: ModerationQueueItem) => item.commentId || item.ideaId;
+
+const SuspendForm = ({ author, onDone }: { author: Pick<User, 'id' | 'username'>; onDone: () => void }) => {
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState('');
+  const [days, setDays] = useState<number | null>(7);
+
+  const suspendMutation = useMutation({
+    mutationFn: () => moderationApi.suspendUser(
+      author.id,
+      reason.trim(),
+      days === null ? null : new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+    ),
+    onSuccess: (result) => {
+      toast.success(result.message);
+      queryClient.invalidateQueries({ queryKey: ['suspended-users'] });
+      onDone();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to suspend user');
+    },
+  });
+
+  return (
+    <div className="space-y-2 p-4 rounded-lg border border-red-200 bg-red-50">
+      <p className="text-sm font-medium text-gray-900">Suspend {author.username}</p>
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        maxLength={500}
+        placeholder="Reason, shown to the user"
+        className="input w-full"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        {SUSPENSION_DURATIONS.map(duration => (
+          <button
+            key={duration.label}
+            onClick={() => setDays(duration.days)}
+            className={`btn btn-sm ${days === duration.days ? 'btn-primary' : 'btn-outline'}`}
+          >
+            {duration.label}
+          </button>
+        ))}
+        <div className="ml-auto flex gap-2">
+          <button onClick={onDone} className="btn btn-sm btn-ghost">Cancel</button>
+          <button
+            onClick={() => suspendMutation.mutate()}
+            disabled={!reason.trim() || suspendMutation.isPending}
+            className="btn btn-sm btn-primary bg-red-600 hover:bg-red-700 border-red-600"
+          >
+            Suspend
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SuspendedUsers = () => {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['suspended-users', page],
+    queryFn: () => moderationApi.getSuspendedUsers({ page }),
+  });
+
+  const liftMutation = useMutation({
+    mutationFn: (id: string) => moderationApi.liftSuspension(id),
+    onSuccess: (result) => {
+      toast.success(result.message);
+      queryClient.invalidateQueries({ queryKey: ['suspended-users'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to lift suspension');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!data || data.users.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <NoSymbolIcon className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900">No suspended users</h3>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="divide-y divide-gray-200">
+        {data.users.map(suspended => (
+          <div key={suspended.id} className="p-6 flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900">{suspended.username}</p>
+              <p className="text-xs text-gray-500">
+                Suspended {formatDistanceToNow(new Date(suspended.suspendedAt), { addSuffix: true })}
+                {' · '}
+                {suspended.suspendedUntil
+                  ? `ends ${formatDistanceToNow(new Date(suspended.suspendedUntil), { addSuffix: true })}`
+                  : 'permanent'}
+              </p>
+              {suspended.suspensionReason && (
+                <p className="mt-1 text-sm text-gray-700">{suspended.suspensionReason}</p>
+              )}
+            </div>
+            <button
+              onClick={() => liftMutation.mutate(suspended.id)}
+              disabled={liftMutation.isPending}
+              className="btn btn-sm btn-outline flex-shrink-0"
+            >
+              Reinstate
+            </button>
+          </div>
+        ))}
+      </div>
+      {data.pagination.pages > 1 && (
+        <div className="flex justify-center items-center gap-4 p-4 border-t border-gray-200">
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1} className="btn btn-sm btn-outline">
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">Page {page} of {data.pagination.pages}</span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= data.pagination.pages} className="btn btn-sm btn-outline">
+            Next
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+const VerdictItem = ({ verdict }: { verdict: ScreeningVerdict }) => {
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+  const labels = REVIEW_LABELS[verdict.action === 'REJECT' ? 'REJECT' : 'HOLD'];
+
+  const reviewMutation = useMutation({
+    mutationFn: (decision: ScreeningDecision) =>
+      moderationApi.reviewScreeningVerdict(verdict.id, decision, note.trim() || undefined),
+    onSuccess: (result) => {
+      toast.success(result.message);
+      queryClient.invalidateQueries({ queryKey: ['screening-verdicts'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to review');
+    },
+  });
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+            <span className={`px-2 py-0.5 rounded-full font-medium ${
+              verdict.action === 'REJECT' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+            }`}>
+              {verdict.action === 'REJECT' ? 'Rejected' : 'Held'}
+            </span>
+            <span>
+              {verdict.isEdit ? 'Edited' : 'New'} {verdict.targetType === 'COMMENT' ? 'comment' : 'idea'}
+              {verdict.author && <> by {verdict.author.username}</>}
+              {' · '}
+              {formatDistanceToNow(new Date(verdict.createdAt), { addSuffix: true })}
+            </span>
+          </div>
+          {verdict.idea && (
+            <Link to={`/ideas/${verdict.idea.id}`} className="font-medium text-gray-900 hover:text-primary-600">
+              {verdict.targetType === 'COMMENT' ? `On "${verdict.idea.title}"` : verdict.idea.title}
+            </Link>
+          )}
+          <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap break-words line-clamp-4">{verdict.excerpt}</p>
+        </div>
+        <span className="text-sm font-semibold text-gray-700 flex-shrink-0" title="Combined screening score">
+          {Math.round(verdict.score * 100)}%
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {verdict.signals.filter(signal => signal.score > 0).flatMap(signal =>
+          signal.reasons.map(reason => (
+            <span key={`${signal.screener}-${reason}`} className="px-2 py-1 text-xs rounded bg-gray-100 text-gray-700">
+              {signal.screener}: {reason}
+            </span>
+          ))
+        )}
+      </div>
+
+      {verdict.status === 'PENDING' ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={500}
+            placeholder="Note to the author (optional)"
+            className="input flex-1 min-w-[12rem]"
+          />
+          <button
+            onClick={() => reviewMutation.mutate('APPROVE')}
+            disabled={reviewMutation.isPending}
+            className="btn btn-sm btn-outline"
+          >
+            {labels.APPROVE}
+          </button>
+          <button
+            onClick={() => reviewMutation.mutate('REMOVE')}
+            disabled={reviewMutation.isPending}
+            className="btn btn-sm btn-primary bg-red-600 hover:bg-red-700 border-red-600"
+          >
+            {labels.REMOVE}
+          </button>
+        </div>
+      ) : verdict.reviewedBy && verdict.reviewedAt && (
+        <p className="text-xs text-gray-500">
+          Reviewed by {verdict.reviewedBy.username} {formatDistanceToNow(new Date(verdict.reviewedAt), { addSuffix: true })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const ScreeningQueue = () => {
+  const [status, setStatus] = useState<ScreeningStatus>('PENDING');
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['screening-verdicts', status, page],
+    queryFn: () => moderationApi.getScreeningVerdicts({ status, page }),
+  });
+
+  return (
+    <>
+      <div className="bg-white rounded-lg shadow-sm p-6 mb-6 flex items-center space-x-2">
+        <span className="text-sm font-medium text-gray-700">Status:</span>
+        {SCREENING_FILTERS.map(filter => (
+          <button
+            key={filter.value}
+            onClick={() => { setStatus(filter.value); setPage(1); }}
+            className={`btn btn-sm ${status === filter.value ? 'btn-primary' : 'btn-outline'}`}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : !data || data.verdicts.length === 0 ? (
+          <div className="text-center py-12">
+            <FunnelIcon className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900">
+              {status === 'PENDING' ? 'Nothing caught by screening' : 'No verdicts here'}
+            </h3>
+          </div>
+        ) : (
+          <>
+            <div className="divide-y divide-gray-200">
+              {data.verdicts.map(verdict => (
+                <VerdictItem key={verdict.id} verdict={verdict} />
+              ))}
+            </div>
+            {data.pagination.pages > 1 && (
+              <div className="flex justify-center items-center gap-4 p-4 border-t border-gray-200">
+                <button onClick={() => setPage(page - 1)} disabled={page <= 1} className="btn btn-sm btn-outline">
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">Page {page} of {data.pagination.pages}</span>
+                <button onClick={() => setPage(page + 1)} disabled={page >= data.pagination.pages} className="btn btn-sm btn-outline">
+                  Next
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </>
+  );
+};
+
+const QueueItem = ({ item, canAct, canSuspend }: { item: ModerationQueueItem; canAct: boolean; canSuspend: boolean }) => {
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+  const [isSuspending, setIsSuspending] = useState(false);
+
+  const actionMutation = useMutation({
+    mutationFn: (action: ModerationAction) => {
+      const trimmed = note.trim() || undefined;
+      return item.commentId
+        ? moderationApi.moderateComment(item.commentId, action, trimmed)
+        : moderationApi.moderateIdea(item.ideaId, action, trimmed);
+    },
+    onSuccess: () => {
+      toast.success('Moderation action applied');
+      queryClient.invalidateQueries({ queryKey: ['moderation-queue'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to apply action');
+    },
+  });
+
+  const handleAction = (action: ModerationAction) => {
+    if (action === 'DELETE' && !window.confirm(`Delete this ${item.commentId ? 'comment' : 'idea'} permanently?`)) {
+      return;
+    }
+    actionMutation.mutate(action);
+  };
+
+  const author = item.comment?.author || item.idea?.author;
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+            <span className="uppercase font-semibold tracking-wide">{item.targetType === 'IDEA' ? 'Idea' : 'Comment'}</span>
+            {author && <span>by {author.username}</span>}
+            {item.isHidden && (
+              <span className="inline-flex items-center text-red-600">
+                <EyeSlashIcon className="w-3 h-3 mr-1" />
+                Hidden
+              </span>
+            )}
+          </div>
+          {item.idea ? (
+            <Link to={`/ideas/${item.ideaId}`} className="font-medium text-gray-900 hover:text-primary-600">
+              {item.idea.title}
+            </Link>
+          ) : (
+            <span className="font-medium text-gray-500 italic">Deleted idea</span>
+          )}
+          {item.comment ? (
+            <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap border-l-2 border-gray-200 pl-3">
+              {item.comment.content}
+            </p>
+          ) : item.idea && item.targetType === 'IDEA' && (
+            <p className="mt-2 text-sm text-gray-700 line-clamp-3">{item.idea.description}</p>
+          )}
+        </div>
+        <div className="flex-shrink-0 text-right">
+          <div className="inline-flex items-center text-sm font-semibold text-red-600">
+            <FlagIcon className="w-4 h-4 mr-1" />
+            {item.reportCount}
+          </div>
+          <p className="text-xs text-gray-500">
+            {formatDistanceToNow(new Date(item.latestReportAt), { addSuffix: true })}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {item.reasons.map(({ reason, count }) => (
+          <span key={reason} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+            {REPORT_REASON_LABELS[reason]} · {count}
+          </span>
+        ))}
+      </div>
+
+      {item.reports.some(report => report.details) && (
+        <ul className="space-y-1 text-sm text-gray-600">
+          {item.reports.filter(report => report.details).map(report => (
+            <li key={report.id}>
+              <span className="font-medium text-gray-800">{report.reporter.username}:</span> {report.details}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canAct && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={500}
+            placeholder="Note to the author (optional)"
+            className="input w-full"
+          />
+          <div className="flex flex-wrap gap-2">
+            {ACTIONS.map(action => (
+              <button
+                key={action.value}
+                onClick={() => handleAction(action.value)}
+                disabled={actionMutation.isPending}
+                className={`btn btn-sm ${action.className}`}
+              >
+                {action.label}
+              </button>
+            ))}
+            {canSuspend && author && !isSuspending && (
+              <button onClick={() => setIsSuspending(true)} className="btn btn-sm btn-outline ml-auto">
+                Suspend author
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {isSuspending && author && (
+        <SuspendForm author={author} onDone={() => setIsSuspending(false)} />
+      )}
+    </div>
+  );
+};
+
+const ModerationPage = () => {
+  const { user } = useAuthStore();
+  const [status, setStatus] = useState<ReportStatus>('OPEN');
+  const [type, setType] = useState<ReportTargetType | undefined>(undefined);
+  const [page, setPage] = useState(1);
+  const [view, setView] = useState<'queue' | 'screening' | 'suspended'>('queue');
+  const canModerate = hasPermission(user, 'content:moderate');
+  const canSuspend = hasPermission(user, 'users:suspend');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['moderation-queue', status, type, page],
+    queryFn: () => moderationApi.getQueue({ status, type, page }),
+    enabled: canModerate,
+  });
+
+  if (!canModerate) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">You don't have access to the moderation queue.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <ShieldCheckIcon className="w-8 h-8 mr-3" />
+            Moderation
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Reported ideas and comments, most reported first
+          </p>
+        </div>
+
+        <div className="flex space-x-2 mb-6">
+          <button
+            onClick={() => setView('queue')}
+            className={`btn btn-sm ${view === 'queue' ? 'btn-primary' : 'btn-outline'}`}
+          >
+            Reports
+          </button>
+          <button
+            onClick={() => setView('screening')}
+            className={`btn btn-sm ${view === 'screening' ? 'btn-primary' : 'btn-outline'}`}
+          >
+            Screening
+          </button>
+          {canSuspend && (
+            <button
+              onClick={() => setView('suspended')}
+              className={`btn btn-sm ${view === 'suspended' ? 'btn-primary' : 'btn-outline'}`}
+            >
+              Suspended users
+            </button>
+          )}
+        </div>
+
+        {view === 'screening' ? (
+          <ScreeningQueue />
+        ) : view === 'suspended' ? (
+          <div className="bg-white rounded-lg shadow-sm">
+            <SuspendedUsers />
+          </div>
+        ) : (
+        <>
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-6 flex flex-wrap gap-6">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm font-medium text-gray-700">Status:</span>
+            {STATUS_FILTERS.map(filter => (
+              <button
+                key={filter.value}
+                onClick={() => { setStatus(filter.value); setPage(1); }}
+                className={`btn btn-sm ${status === filter.value ? 'btn-primary' : 'btn-outline'}`}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="text-sm font-medium text-gray-700">Type:</span>
+            {TYPE_FILTERS.map(filter => (
+              <button
+                key={filter.label}
+                onClick={() => { setType(filter.value); setPage(1); }}
+                className={`btn btn-sm ${type === filter.value ? 'btn-primary' : 'btn-outline'}`}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : error ? (
+            <div className="text-center py-12">
+              <p className="text-red-600">Failed to load the moderation queue</p>
+            </div>
+          ) : data?.items.length === 0 ? (
+            <div className="text-center py-12">
+              <ShieldCheckIcon className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900">
+                {status === 'OPEN' ? 'Nothing to review' : 'No reports here'}
+              </h3>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {data?.items.map(item => (
+                <QueueItem key={itemKey(item)} item={item} canAct={status === 'OPEN'} canSuspend={canSuspend} />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {data && data.pagination.pages > 1 && (
+          <div className="flex justify-center items-center gap-4 mt-6">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="btn btn-sm btn-outline"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page} of {data.pagination.pages}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= data.pagination.pages}
+              className="btn btn-sm btn-outline"
+            >
+              Next
+            </button>
+          </div>
+        )}
+        </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModerationPage;
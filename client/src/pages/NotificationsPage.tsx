@@ -2,15 +2,19 @@ import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { formatDistanceToNow } from 'date-fns';
 import { notificationsApi } from '@/api/notifications';
-import { NotificationType } from '@/types';
+import { preferencesApi } from '@/api/discovery';
+import { NotificationType, UserPreferences } from '@/types';
 import { 
   BellIcon,
   HeartIcon,
   ChatBubbleLeftIcon,
   UserPlusIcon,
   LightBulbIcon,
+  AtSymbolIcon,
+  UserGroupIcon,
   CheckIcon,
-  TrashIcon
+  TrashIcon,
+  MagnifyingGlassIcon
 } from '@heroicons/react/24/outline';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import toast from 'react-hot-toast';
@@ -46,6 +50,23 @@ const NotificationsPage = () => {
     },
   });
 
+  const { data: preferences } = useQuery({
+    queryKey: ['preferences'],
+    queryFn: () => preferencesApi.getPreferences(),
+  });
+
+  const digestMutation = useMutation({
+    mutationFn: (update: Pick<UserPreferences, 'digestDaily' | 'digestWeekly'>) =>
+      preferencesApi.updatePreferences(update),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['preferences'], updated);
+      toast.success('Email digest settings saved');
+    },
+    onError: () => {
+      toast.error('Failed to update email digest settings');
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: (id: string) => notificationsApi.deleteNotification(id),
     onSuccess: () => {
@@ -62,8 +83,18 @@ const NotificationsPage = () => {
         return ChatBubbleLeftIcon;
       case 'FOLLOW':
         return UserPlusIcon;
+      case 'MENTION':
+        return AtSymbolIcon;
+      case 'COLLABORATION_INVITE':
+      case 'COLLABORATION_RESPONSE':
+        return UserGroupIcon;
+      case 'JOIN_REQUEST':
+      case 'JOIN_REQUEST_RESPONSE':
+        return UserPlusIcon;
       case 'IDEA_FEATURED':
         return LightBulbIcon;
+      case 'SAVED_SEARCH_MATCH':
+        return MagnifyingGlassIcon;
       default:
         return BellIcon;
     }
@@ -77,8 +108,18 @@ const NotificationsPage = () => {
         return 'text-blue-600 bg-blue-100';
       case 'FOLLOW':
         return 'text-green-600 bg-green-100';
+      case 'MENTION':
+        return 'text-amber-600 bg-amber-100';
+      case 'COLLABORATION_INVITE':
+      case 'COLLABORATION_RESPONSE':
+        return 'text-indigo-600 bg-indigo-100';
+      case 'JOIN_REQUEST':
+      case 'JOIN_REQUEST_RESPONSE':
+        return 'text-emerald-600 bg-emerald-100';
       case 'IDEA_FEATURED':
         return 'text-purple-600 bg-purple-100';
+      case 'SAVED_SEARCH_MATCH':
+        return 'text-cyan-600 bg-cyan-100';
       default:
         return 'text-gray-600 bg-gray-100';
     }
@@ -145,6 +186,36 @@ const NotificationsPage = () => {
           </div>
         </div>
 
+        {/* Email digests */}
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+          <h2 className="text-sm font-medium text-gray-700 mb-1">Email digests</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Get a summary of unread notifications, new comments on your ideas and recommended ideas by email.
+          </p>
+          <div className="flex flex-wrap gap-6">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!preferences?.digestDaily}
+                disabled={!preferences || digestMutation.isPending}
+                onChange={(e) => digestMutation.mutate({ digestDaily: e.target.checked })}
+                className="rounded border-gray-300 text-primary-600"
+              />
+              <span>Daily digest</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!preferences?.digestWeekly}
+                disabled={!preferences || digestMutation.isPending}
+                onChange={(e) => digestMutation.mutate({ digestWeekly: e.target.checked })}
+                className="rounded border-gray-300 text-primary-600"
+              />
+              <span>Weekly digest</span>
+            </label>
+          </div>
+        </div>
+
         {/* Notifications List */}
         <div className="bg-white rounded-lg shadow-sm">
           {isLoading ? (
@@ -229,10 +300,20 @@ const NotificationsPage = () => {
                         {/* Link to related content */}
                         {notification.data?.ideaId && (
                           <a
-                            href={`/ideas/${notification.data.ideaId}`}
+                            href={notification.data.link || `/ideas/${notification.data.ideaId}`}
+                            className="text-sm text-primary-600 hover:text-primary-700 mt-2 inline-block"
+                          >
+                            {notification.type === NotificationType.COLLABORATION_INVITE
+                              ? 'View invitation →'
+                              : notification.data.matchCount > 1 ? 'View matches →' : 'View idea →'}
+                          </a>
+                        )}
+                        {notification.type === NotificationType.FOLLOW && notification.data?.username && (
+                          <a
+                            href={`/users/${notification.data.username}`}
                             className="text-sm text-primary-600 hover:text-primary-700 mt-2 inline-block"
                           >
-                            View idea →
+                            View profile →
                           </a>
                         )}
                       </div>
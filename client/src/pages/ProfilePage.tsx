@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { userApi } from '@/api/user';
 import { ideasApi } from '@/api/ideas';
 import { useAuthStore } from '@/store/authStore';
@@ -17,11 +17,59 @@ import {
 } from '@heroicons/react/24/outline';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import IdeaCard from '@/components/ideas/IdeaCard';
+import { FollowUser } from '@/types';
+import toast from 'react-hot-toast';
+
+type ProfileTab = 'ideas' | 'followers' | 'following' | 'activity';
+
+const FollowList = ({ users, emptyMessage }: { users: FollowUser[]; emptyMessage: string }) => {
+  if (users.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <UserIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-600">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {users.map((followUser) => (
+        <li key={followUser.id} className="py-4 flex items-center space-x-4">
+          {followUser.avatar ? (
+            <img
+              src={followUser.avatar}
+              alt={followUser.username}
+              className="w-10 h-10 rounded-full object-cover"
+            />
+          ) : (
+            <div className="w-10 h-10 bg-gray-200 rounded-full flex items-center justify-center">
+              <UserIcon className="w-5 h-5 text-gray-600" />
+            </div>
+          )}
+          <div className="flex-1 min-w-0">
+            <Link
+              to={`/users/${followUser.username}`}
+              className="font-medium text-gray-900 hover:text-primary-600"
+            >
+              {followUser.username}
+            </Link>
+            {followUser.bio && (
+              <p className="text-sm text-gray-600 truncate">{followUser.bio}</p>
+            )}
+          </div>
+          <span className="text-xs text-gray-500">{followUser.karmaScore} karma</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
 
 const ProfilePage = () => {
   const { username } = useParams<{ username: string }>();
   const { user: currentUser, isAuthenticated } = useAuthStore();
-  const [activeTab, setActiveTab] = useState<'ideas' | 'activity'>('ideas');
+  const [activeTab, setActiveTab] = useState<ProfileTab>('ideas');
+  const queryClient = useQueryClient();
 
   // Fetch user profile
   const {
@@ -53,6 +101,38 @@ const ProfilePage = () => {
     enabled: !!username,
   });
 
+  // Fetch followers / following lists
+  const {
+    data: followersData,
+    isLoading: followersLoading,
+  } = useQuery({
+    queryKey: ['user-followers', username],
+    queryFn: () => userApi.getFollowers(username!),
+    enabled: !!username && activeTab === 'followers',
+  });
+
+  const {
+    data: followingData,
+    isLoading: followingLoading,
+  } = useQuery({
+    queryKey: ['user-following', username],
+    queryFn: () => userApi.getFollowing(username!),
+    enabled: !!username && activeTab === 'following',
+  });
+
+  const followMutation = useMutation({
+    mutationFn: (follow: boolean) =>
+      follow ? userApi.followUser(username!) : userApi.unfollowUser(username!),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['user-profile', username] });
+      queryClient.invalidateQueries({ queryKey: ['user-followers', username] });
+      toast.success(result.message);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to update follow status');
+    },
+  });
+
   const isOwnProfile = currentUser?.username === username;
 
   if (profileLoading) {
@@ -100,6 +180,16 @@ const ProfilePage = () => {
       value: userStats?.totalViews || 0,
       icon: EyeIcon,
     },
+    {
+      label: 'Followers',
+      value: user.followerCount ?? user._count?.followers ?? 0,
+      icon: UserIcon,
+    },
+    {
+      label: 'Following',
+      value: user.followingCount ?? user._count?.following ?? 0,
+      icon: UserIcon,
+    },
   ];
 
   return (
@@ -176,6 +266,8 @@ const ProfilePage = () => {
                 </Link>
               ) : isAuthenticated ? (
                 <button
+                  onClick={() => followMutation.mutate(!user.isFollowing)}
+                  disabled={followMutation.isPending}
                   className={`btn ${user.isFollowing ? 'btn-outline' : 'btn-primary'} flex items-center`}
                 >
                   {user.isFollowing ? (
@@ -195,7 +287,7 @@ const ProfilePage = () => {
           </div>
 
           {/* Stats */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6 pt-6 border-t border-gray-200">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mt-6 pt-6 border-t border-gray-200">
             {stats.map((stat, index) => (
               <div key={index} className="text-center">
                 <div className="text-2xl font-bold text-gray-900">{stat.value}</div>
@@ -211,11 +303,13 @@ const ProfilePage = () => {
             <nav className="flex space-x-8 px-6" aria-label="Tabs">
               {[
                 { id: 'ideas', label: 'Ideas', count: userStats?.totalIdeas || 0 },
+                { id: 'followers', label: 'Followers', count: user.followerCount ?? 0 },
+                { id: 'following', label: 'Following', count: user.followingCount ?? 0 },
                 { id: 'activity', label: 'Activity', count: 0 },
               ].map((tab) => (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id as any)}
+                  onClick={() => setActiveTab(tab.id as ProfileTab)}
                   className={`py-4 px-1 border-b-2 font-medium text-sm whitespace-nowrap ${
                     activeTab === tab.id
                       ? 'border-primary-500 text-primary-600'
@@ -273,6 +367,32 @@ const ProfilePage = () => {
               </div>
             )}
 
+            {activeTab === 'followers' && (
+              followersLoading ? (
+                <div className="flex justify-center py-8">
+                  <LoadingSpinner size="lg" />
+                </div>
+              ) : (
+                <FollowList
+                  users={followersData?.followers || []}
+                  emptyMessage={`${isOwnProfile ? 'You have' : `${user.username} has`} no followers yet.`}
+                />
+              )
+            )}
+
+            {activeTab === 'following' && (
+              followingLoading ? (
+                <div className="flex justify-center py-8">
+                  <LoadingSpinner size="lg" />
+                </div>
+              ) : (
+                <FollowList
+                  users={followingData?.following || []}
+                  emptyMessage={`${isOwnProfile ? "You aren't" : `${user.username} isn't`} following anyone yet.`}
+                />
+              )
+            )}
+
             {activeTab === 'activity' && (
               <div className="text-center py-8">
                 <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
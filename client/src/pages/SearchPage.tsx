@@ -1,9 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useSearchParams } from 'react-router-dom';
 import { searchApi } from '@/api/search';
 import { ideasApi } from '@/api/ideas';
-import { SearchFilters } from '@/types';
+import { SearchFilters, SearchMode, SearchResponse } from '@/types';
 import { 
   MagnifyingGlassIcon, 
   ClockIcon,
@@ -13,6 +13,15 @@ import {
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import IdeaCard from '@/components/ideas/IdeaCard';
 import FilterPanel from '@/components/ideas/FilterPanel';
+import SearchMatchExplanation from '@/components/ideas/SearchMatchExplanation';
+import SavedSearches, { AppliedSearch } from '@/components/ideas/SavedSearches';
+import { cn } from '@/utils/cn';
+
+const searchModes: { value: SearchMode; label: string; description: string }[] = [
+  { value: 'hybrid', label: 'Smart', description: 'Meaning and exact words combined' },
+  { value: 'semantic', label: 'Meaning', description: 'Ideas about the same thing, even in other words' },
+  { value: 'keyword', label: 'Exact', description: 'Only ideas containing your exact words' },
+];
 
 const SearchPage = () => {
   const [searchParams, setSearchParams] = useSearchParams();
@@ -22,6 +31,7 @@ const SearchPage = () => {
     limit: 12,
     sort: 'relevance',
   });
+  const [mode, setMode] = useState<SearchMode>('hybrid');
   const [showFilters, setShowFilters] = useState(false);
 
   // Get trending searches
@@ -44,12 +54,12 @@ const SearchPage = () => {
     isLoading: searchLoading,
     error: searchError,
   } = useQuery({
-    queryKey: ['search', query, filters],
-    queryFn: () => {
+    queryKey: ['search', query, mode, filters],
+    queryFn: (): Promise<SearchResponse> => {
       if (!query.trim()) {
         return ideasApi.getIdeas(filters);
       }
-      return searchApi.searchIdeas(query, filters);
+      return searchApi.searchIdeas(query, { ...filters, mode });
     },
     enabled: true,
     staleTime: 5 * 60 * 1000, // 5 minutes
@@ -76,6 +86,15 @@ const SearchPage = () => {
     setFilters(prev => ({ ...prev, page: 1 }));
   };
 
+  const handleApplySaved = useCallback((search: AppliedSearch) => {
+    setQuery(search.query);
+    setMode(search.mode);
+    setFilters({ page: 1, limit: 12, sort: 'relevance', ...search.filters });
+    setSearchParams(search.query ? { q: search.query } : {});
+  }, [setSearchParams]);
+
+  const hasFilters = Boolean(filters.category || filters.difficulty || filters.tags?.length);
+
   const handleFilterChange = (newFilters: Partial<SearchFilters>) => {
     setFilters(prev => ({
       ...prev,
@@ -111,7 +130,7 @@ const SearchPage = () => {
             <MagnifyingGlassIcon className="absolute left-4 top-1/2 transform -translate-y-1/2 w-6 h-6 text-neutral-400 dark:text-neutral-500" />
             <input
               type="text"
-              placeholder="Search for ideas, technologies, categories..."
+              placeholder='Search ideas, e.g. study planner "react native" -blockchain'
               value={query}
               onChange={(e) => setQuery(e.target.value)}
               onKeyPress={(e) => e.key === 'Enter' && handleSearch(query)}
@@ -127,6 +146,18 @@ const SearchPage = () => {
             )}
           </div>
 
+          <div className="mt-4">
+            <SavedSearches
+              current={{
+                query,
+                mode,
+                filters: { category: filters.category, difficulty: filters.difficulty, tags: filters.tags },
+              }}
+              onApply={handleApplySaved}
+              initialSavedId={searchParams.get('saved')}
+            />
+          </div>
+
           {/* Enhanced Search Suggestions */}
           {suggestions && suggestions.length > 0 && query.length >= 2 && (
             <div className="mt-6 pt-6 border-t border-neutral-200 dark:border-neutral-700">
@@ -146,7 +177,7 @@ const SearchPage = () => {
           )}
         </div>
 
-        {!query ? (
+        {!query && !hasFilters ? (
           /* No Search Query - Show Trending and Popular */
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Trending Searches */}
@@ -197,7 +228,7 @@ const SearchPage = () => {
               <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center justify-between">
                 <div>
                   <h2 className="text-lg font-medium text-gray-900">
-                    Search results for "{query}"
+                    {query ? `Search results for "${query}"` : 'Filtered ideas'}
                   </h2>
                   {searchResults && (
                     <p className="text-sm text-gray-600">
@@ -207,6 +238,26 @@ const SearchPage = () => {
                 </div>
 
                 <div className="flex items-center gap-4">
+                  <div className="inline-flex rounded-lg border border-gray-200 p-1" role="group" aria-label="Search mode">
+                    {searchModes.map(option => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        title={option.description}
+                        onClick={() => {
+                          setMode(option.value);
+                          setFilters(prev => ({ ...prev, page: 1 }));
+                        }}
+                        className={cn(
+                          'px-3 py-1.5 rounded-md text-sm font-medium transition-colors',
+                          mode === option.value ? 'bg-primary-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                        )}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+
                   <select
                     value={filters.sort || ''}
                     onChange={(e) => handleFilterChange({ sort: e.target.value as 'relevance' | 'newest' | 'oldest' | 'popular' | 'trending' })}
@@ -228,6 +279,12 @@ const SearchPage = () => {
                 </div>
               </div>
 
+              {searchResults?.degraded && (
+                <p className="mt-4 text-sm text-amber-700">
+                  Searching by meaning is unavailable right now, so these are exact matches only.
+                </p>
+              )}
+
               {showFilters && (
                 <div className="mt-6 pt-6 border-t border-gray-200">
                   <FilterPanel
@@ -280,7 +337,10 @@ const SearchPage = () => {
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {searchResults?.ideas.map((idea) => (
-                  <IdeaCard key={idea.id} idea={idea} />
+                  <div key={idea.id}>
+                    <IdeaCard idea={idea} />
+                    {idea.match && <SearchMatchExplanation match={idea.match} highlights={idea.highlights} />}
+                  </div>
                 ))}
               </div>
             )}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation } from '@tanstack/react-query';
+import { userApi } from '@/api/user';
+import { useAuthStore } from '@/store/authStore';
+import { useSocketStore } from '@/store/socketStore';
+import { AccountDeletionMode } from '@/types';
+import { Cog6ToothIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+
+const DELETION_MODES: { value: AccountDeletionMode; label: string; description: string }[] = [
+  {
+    value: 'ANONYMIZE',
+    label: 'Keep my ideas and comments, anonymously',
+    description: 'They stay up, credited to a deleted user instead of you.',
+  },
+  {
+    value: 'REMOVE',
+    label: 'Remove my ideas and comments',
+    description: 'Your ideas are deleted along with their votes and discussion; your comments show as deleted.',
+  },
+];
+
+const SettingsPage = () => {
+  const navigate = useNavigate();
+  const { logout } = useAuthStore();
+  const { disconnect } = useSocketStore();
+  const [password, setPassword] = useState('');
+  const [deletionMode, setDeletionMode] = useState<AccountDeletionMode>('ANONYMIZE');
+
+  const signOut = (message: string) => {
+    toast.success(message, { duration: 6000 });
+    disconnect();
+    logout();
+    navigate('/');
+  };
+
+  const onError = (error: any) => {
+    toast.error(error.response?.data?.message || 'Something went wrong');
+  };
+
+  const deactivateMutation = useMutation({
+    mutationFn: () => userApi.deactivateAccount(password || undefined),
+    onSuccess: (result) => signOut(result.message),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => userApi.scheduleAccountDeletion(deletionMode, password || undefined),
+    onSuccess: (result) => signOut(result.message),
+    onError,
+  });
+
+  const isPending = deactivateMutation.isPending || deleteMutation.isPending;
+
+  const handleDeactivate = () => {
+    if (window.confirm('Deactivate your account? Your profile is hidden until you sign in again.')) {
+      deactivateMutation.mutate();
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm('Delete your account? You can still cancel by signing in during the grace period.')) {
+      deleteMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <Cog6ToothIcon className="w-8 h-8 mr-3" />
+            Settings
+          </h1>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 space-y-6">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Account</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Both actions sign you out everywhere. Confirm with your password; leave it empty if you only sign in with Google.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-700 mb-2">
+              Password
+            </label>
+            <input
+              id="confirm-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              className="input w-full max-w-sm"
+            />
+          </div>
+
+          <div className="border-t border-gray-200 pt-6">
+            <h3 className="text-sm font-medium text-gray-900">Deactivate account</h3>
+            <p className="text-sm text-gray-500 mt-1 mb-3">
+              Your profile is hidden and you're signed out. Sign in again any time to pick up where you left off.
+            </p>
+            <button onClick={handleDeactivate} disabled={isPending} className="btn btn-sm btn-outline">
+              {deactivateMutation.isPending ? 'Deactivating...' : 'Deactivate account'}
+            </button>
+          </div>
+
+          <div className="border-t border-gray-200 pt-6">
+            <h3 className="text-sm font-medium text-red-700">Delete account</h3>
+            <p className="text-sm text-gray-500 mt-1 mb-3">
+              Your account is deleted after a grace period. Signing in before then cancels the deletion.
+            </p>
+            <div className="space-y-3 mb-4">
+              {DELETION_MODES.map(mode => (
+                <label key={mode.value} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="deletion-mode"
+                    value={mode.value}
+                    checked={deletionMode === mode.value}
+                    onChange={() => setDeletionMode(mode.value)}
+                    className="mt-1 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-800">{mode.label}</span>
+                    <span className="block text-xs text-gray-500">{mode.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={handleDelete}
+              disabled={isPending}
+              className="btn btn-sm btn-primary bg-red-600 hover:bg-red-700 border-red-600"
+            >
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete account'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -39,7 +39,9 @@ const AuthCallbackPage = () => {
           // Connect to socket
           connect(tokens.accessToken);
 
-          toast.success('Successfully signed in!');
+          toast.success(searchParams.get('restored') === 'true'
+            ? 'Welcome back! Your account has been restored'
+            : 'Successfully signed in!');
           
           // Get redirect URL from sessionStorage or default to dashboard
           const redirectUrl = sessionStorage.getItem('auth_redirect') || '/dashboard';
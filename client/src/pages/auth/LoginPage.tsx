@@ -46,7 +46,7 @@ const LoginPage = () => {
       // Connect to socket
       connect(response.tokens.accessToken);
       
-      toast.success('Welcome back!');
+      toast.success(response.accountRestored ? response.message : 'Welcome back!');
       navigate(from, { replace: true });
     } catch (error: any) {
       console.error('Login error:', error);
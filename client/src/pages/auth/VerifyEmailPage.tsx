@@ -8,6 +8,8 @@ const VerifyEmailPage = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [isVerified, setIsVerified] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [resendEmail, setResendEmail] = useState('');
+  const [isResending, setIsResending] = useState(false);
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
 
@@ -42,6 +44,21 @@ const VerifyEmailPage = () => {
     verifyEmail();
   }, [searchParams, navigate]);
 
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resendEmail.trim()) return;
+
+    setIsResending(true);
+    try {
+      const result = await authApi.resendVerification(resendEmail.trim());
+      toast.success(result.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to resend verification email');
+    } finally {
+      setIsResending(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="text-center">
@@ -67,6 +84,20 @@ const VerifyEmailPage = () => {
           <p className="text-sm text-gray-500">
             The verification link may have expired or is invalid.
           </p>
+
+          <form onSubmit={handleResend} className="flex flex-col sm:flex-row gap-3 justify-center">
+            <input
+              type="email"
+              value={resendEmail}
+              onChange={(e) => setResendEmail(e.target.value)}
+              placeholder="Enter your email"
+              className="input sm:w-64"
+              required
+            />
+            <button type="submit" disabled={isResending} className="btn btn-outline">
+              {isResending ? 'Sending...' : 'Resend verification email'}
+            </button>
+          </form>
           
           <div className="flex flex-col sm:flex-row gap-3 justify-center">
             <Link to="/auth/register" className="btn btn-outline">
@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { io, Socket } from 'socket.io-client';
 import { SocketEvents } from '@/types';
 import { queryClient } from '@/main.tsx';
+import { useAuthStore } from './authStore';
 
 interface SocketState {
   socket: Socket | null;
@@ -124,6 +125,22 @@ export const useSocketStore = create<SocketState>((set, get) => ({
       queryClient.invalidateQueries({ queryKey: ['comments', ideaId] });
     });
 
+    socket.on('notification:new', (notification: SocketEvents['notification:new']) => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      import('react-hot-toast').then(({ default: toast }) => {
+        toast(notification.message);
+      });
+    });
+
+    // The server ends every session of a suspended, deactivated or deleted account
+    socket.on('session:revoked', ({ reason }: SocketEvents['session:revoked']) => {
+      useAuthStore.getState().logout();
+      get().disconnect();
+      import('react-hot-toast').then(({ default: toast }) => {
+        toast.error(reason === 'suspended' ? 'Your account has been suspended' : 'You have been signed out');
+      });
+    });
+
     set({ socket });
   },
 
@@ -1,4 +1,15 @@
 // User types
+export type UserRole = 'USER' | 'MODERATOR' | 'ADMIN';
+
+// Mirrors server/src/policies/permissions.ts
+export type Permission =
+  | 'ideas:merge'
+  | 'content:moderate'
+  | 'users:suspend'
+  | 'users:manage-roles'
+  | 'audit:read'
+  | 'stats:read';
+
 export interface User {
   id: string;
   email: string;
@@ -8,16 +19,33 @@ export interface User {
   skills: string[];
   socialLinks?: Record<string, string>;
   karmaScore: number;
+  // Only sent for the signed-in user
+  role?: UserRole;
+  permissions?: Permission[];
   emailVerified: boolean;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
   _count?: {
     ideas: number;
+    followers?: number;
+    following?: number;
   };
+  followerCount?: number;
+  followingCount?: number;
+  isFollowing?: boolean;
   isOwnProfile?: boolean;
 }
 
+export interface FollowUser extends Pick<User, 'id' | 'username' | 'avatar' | 'bio' | 'karmaScore'> {
+  isFollowing: boolean;
+}
+
+export interface Mention {
+  userId: string;
+  username: string;
+}
+
 // Idea types
 export interface Idea {
   id: string;
@@ -29,6 +57,15 @@ export interface Idea {
   status: IdeaStatus;
   authorId: string;
   author: Pick<User, 'id' | 'username' | 'avatar' | 'karmaScore'>;
+  mentions?: Mention[];
+  collaborators?: IdeaCollaboratorSummary[];
+  // The viewer's role on this idea (detail endpoint only)
+  userRole?: CollaboratorRole | null;
+
+  // Recruitment
+  isRecruiting?: boolean;
+  openRoles?: OpenRole[];
+  userJoinRequest?: Pick<JoinRequest, 'id' | 'roleId' | 'status' | 'createdAt'> | null;
   
   // Enhanced filtering fields
   techStack: string[];
@@ -60,6 +97,9 @@ export interface Idea {
   isBookmarked?: boolean;
   recommendationScore?: number;
   
+  // Set (detail endpoint only) when a moderator merged this idea into another
+  mergedInto?: { id: string; title: string } | null;
+
   // Legacy fields for backward compatibility
   estimatedTime?: string;
   
@@ -98,6 +138,8 @@ export enum IdeaStatus {
   DRAFT = 'DRAFT',
   PUBLISHED = 'PUBLISHED',
   ARCHIVED = 'ARCHIVED',
+  // Taken down by moderators or by reports; only the author still sees it
+  HIDDEN = 'HIDDEN',
 }
 
 export enum VoteType {
@@ -105,6 +147,92 @@ export enum VoteType {
   DOWN = 'DOWN',
 }
 
+// Revision history
+export type RevisionField = 'title' | 'description' | 'content' | 'category' | 'tags' | 'techStack';
+
+export interface RevisionFieldChange {
+  field: RevisionField;
+  before: string | string[] | null;
+  after: string | string[];
+}
+
+export interface IdeaRevision {
+  id: string;
+  ideaId: string;
+  revision: number;
+  editor: Pick<User, 'id' | 'username' | 'avatar'>;
+  title: string;
+  description: string;
+  content: string;
+  category: IdeaCategory;
+  tags: string[];
+  techStack: string[];
+  changedFields: RevisionField[];
+  summary?: string;
+  restoredFromId?: string;
+  createdAt: string;
+  changes: RevisionFieldChange[];
+}
+
+// Collaboration types
+export type CollaboratorRole = 'OWNER' | 'EDITOR' | 'VIEWER';
+
+export type CollaboratorStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED';
+
+export interface IdeaCollaboratorSummary extends Pick<User, 'id' | 'username' | 'avatar'> {
+  role: CollaboratorRole;
+}
+
+export interface IdeaCollaborator {
+  id: string;
+  userId: string;
+  role: CollaboratorRole;
+  status: CollaboratorStatus;
+  user: Pick<User, 'id' | 'username' | 'avatar'>;
+  invitedBy: Pick<User, 'id' | 'username' | 'avatar'>;
+  inviteLink?: string;
+  respondedAt?: string;
+  createdAt: string;
+}
+
+export interface CollaborationInvitation {
+  id: string;
+  role: CollaboratorRole;
+  status: CollaboratorStatus;
+  inviteToken: string;
+  respondedAt?: string;
+  createdAt: string;
+  idea: Pick<Idea, 'id' | 'title' | 'description' | 'status'>;
+  invitedBy: Pick<User, 'id' | 'username' | 'avatar'>;
+}
+
+// Recruitment types
+export interface OpenRole {
+  id: string;
+  title: string;
+  skills: string[];
+  filled: boolean;
+  // Which of the viewer's skills the role asks for (when signed in)
+  matchedSkills?: string[];
+  score?: number;
+}
+
+export type JoinRequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'WITHDRAWN';
+
+export interface JoinRequest {
+  id: string;
+  ideaId: string;
+  userId: string;
+  roleId?: string | null;
+  message: string;
+  status: JoinRequestStatus;
+  respondedAt?: string;
+  createdAt: string;
+  user: Pick<User, 'id' | 'username' | 'avatar' | 'skills' | 'karmaScore'>;
+  role?: OpenRole | null;
+  skillMatch?: { roleId: string | null; matchedSkills: string[]; score: number } | null;
+}
+
 // Comment types
 export interface Comment {
   id: string;
@@ -115,6 +243,7 @@ export interface Comment {
   parentCommentId?: string;
   voteScore: number;
   isDeleted: boolean;
+  mentions?: Mention[];
   createdAt: string;
   updatedAt: string;
   userVote?: VoteType | null;
@@ -141,9 +270,15 @@ export interface Notification {
 export enum NotificationType {
   VOTE = 'VOTE',
   COMMENT = 'COMMENT',
+  FOLLOW = 'FOLLOW',
   MENTION = 'MENTION',
   IDEA_PUBLISHED = 'IDEA_PUBLISHED',
   IDEA_FEATURED = 'IDEA_FEATURED',
+  COLLABORATION_INVITE = 'COLLABORATION_INVITE',
+  COLLABORATION_RESPONSE = 'COLLABORATION_RESPONSE',
+  JOIN_REQUEST = 'JOIN_REQUEST',
+  JOIN_REQUEST_RESPONSE = 'JOIN_REQUEST_RESPONSE',
+  SAVED_SEARCH_MATCH = 'SAVED_SEARCH_MATCH',
   SYSTEM = 'SYSTEM',
 }
 
@@ -174,6 +309,23 @@ export interface IdeasResponse extends PaginatedResponse<Idea> {
     search?: string;
     sort?: string;
   };
+  // Only when requested with facets=true (always present on search)
+  facets?: IdeaFacets;
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+// Result counts per filter value. Each facet is counted as if its own filter
+// weren't set, so other values show what switching to them would give.
+export interface IdeaFacets {
+  category: FacetBucket[];
+  difficulty: FacetBucket[];
+  timeCommitment: FacetBucket[];
+  techStack: FacetBucket[];
+  tags: FacetBucket[];
 }
 
 export interface CommentsResponse extends PaginatedResponse<Comment> {
@@ -213,12 +365,69 @@ export interface SearchFilters {
   tags?: string[];
   author?: string;
   sort?: 'relevance' | 'newest' | 'oldest' | 'popular' | 'trending';
+  mode?: SearchMode;
   page?: number;
   limit?: number;
   status?: IdeaStatus;
   difficulty?: 'BEGINNER' | 'INTERMEDIATE' | 'ADVANCED';
   minVotes?: number;
   dateRange?: 'week' | 'month' | 'year' | 'all';
+  recruiting?: boolean;
+}
+
+// keyword: substring match; semantic: embedding similarity; hybrid: both, blended
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+export type SearchField = 'title' | 'tags' | 'techStack' | 'description' | 'content';
+
+export interface SearchMatch {
+  score: number;
+  keywordScore: number;
+  // Null when the idea wasn't scored semantically
+  semanticScore: number | null;
+  matchedFields: SearchField[];
+  // Query words and "phrases" found in the idea
+  matchedTerms: string[];
+}
+
+// A snippet of one field, split into plain and matched parts
+export interface SearchHighlight {
+  field: SearchField;
+  fragments: { text: string; highlight: boolean }[];
+}
+
+export interface SearchResult extends Idea {
+  match?: SearchMatch | null;
+  highlights?: SearchHighlight[];
+}
+
+export interface SearchResponse extends IdeasResponse {
+  ideas: SearchResult[];
+  // Semantic scoring was unavailable; results are keyword matches only
+  degraded?: boolean;
+}
+
+// INSTANT: a notification per new match; DIGEST: listed in the email digest
+export type SavedSearchAlert = 'INSTANT' | 'DIGEST' | 'OFF';
+
+export interface SavedSearchInput {
+  name: string;
+  query?: string;
+  mode?: SearchMode;
+  category?: IdeaCategory | null;
+  difficulty?: DifficultyLevel | null;
+  timeCommitment?: TimeCommitment | null;
+  techStack?: string[];
+  tags?: string[];
+  alerts?: SavedSearchAlert;
+}
+
+export interface SavedSearch extends Required<Omit<SavedSearchInput, 'alerts'>> {
+  id: string;
+  alerts: SavedSearchAlert;
+  lastMatchedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface SearchSuggestions {
@@ -227,6 +436,136 @@ export interface SearchSuggestions {
   authors: Pick<User, 'username' | 'avatar' | 'karmaScore'>[];
 }
 
+// Moderation types
+export type ReportTargetType = 'IDEA' | 'COMMENT';
+
+export type ReportReason =
+  | 'SPAM'
+  | 'HARASSMENT'
+  | 'HATE_SPEECH'
+  | 'INAPPROPRIATE'
+  | 'MISINFORMATION'
+  | 'PLAGIARISM'
+  | 'OTHER';
+
+export type ReportStatus = 'OPEN' | 'RESOLVED' | 'DISMISSED';
+
+export type ModerationAction = 'DISMISS' | 'HIDE' | 'DELETE' | 'WARN';
+
+export interface ReportInput {
+  reason: ReportReason;
+  details?: string;
+}
+
+export interface SuspendedUser extends Pick<User, 'id' | 'username' | 'avatar'> {
+  suspendedAt: string;
+  // Null for a permanent suspension
+  suspendedUntil: string | null;
+  suspensionReason: string | null;
+}
+
+// ANONYMIZE keeps ideas and comments under a "deleted user"; REMOVE deletes them
+export type AccountDeletionMode = 'ANONYMIZE' | 'REMOVE';
+
+export interface ModerationReport {
+  id: string;
+  targetType: ReportTargetType;
+  ideaId: string;
+  commentId: string | null;
+  reason: ReportReason;
+  details: string | null;
+  createdAt: string;
+  reporter: Pick<User, 'id' | 'username' | 'avatar'>;
+}
+
+// One reported idea or comment with the reports filed against it
+export interface ModerationQueueItem {
+  targetType: ReportTargetType;
+  ideaId: string;
+  commentId: string | null;
+  reportCount: number;
+  latestReportAt: string;
+  reasons: { reason: ReportReason; count: number }[];
+  reports: ModerationReport[];
+  idea: (Pick<Idea, 'id' | 'title' | 'description' | 'status' | 'createdAt'> & {
+    author: Pick<User, 'id' | 'username' | 'avatar'>;
+  }) | null;
+  comment: (Pick<Comment, 'id' | 'content' | 'isDeleted' | 'createdAt'> & {
+    hiddenAt: string | null;
+    author: Pick<User, 'id' | 'username' | 'avatar'>;
+  }) | null;
+  isHidden: boolean;
+}
+
+// HOLD hides content until a moderator approves it; REJECT refuses it outright
+export type ScreeningAction = 'ALLOW' | 'HOLD' | 'REJECT';
+export type ScreeningStatus = 'PENDING' | 'APPROVED' | 'REMOVED';
+export type ScreeningDecision = 'APPROVE' | 'REMOVE';
+
+export interface ScreeningSignal {
+  screener: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface ScreeningVerdict {
+  id: string;
+  targetType: ReportTargetType;
+  ideaId: string | null;
+  commentId: string | null;
+  action: ScreeningAction;
+  score: number;
+  signals: ScreeningSignal[];
+  excerpt: string;
+  isEdit: boolean;
+  status: ScreeningStatus;
+  reviewedAt: string | null;
+  createdAt: string;
+  author: Pick<User, 'id' | 'username' | 'avatar'>;
+  reviewedBy: Pick<User, 'id' | 'username' | 'avatar'> | null;
+  idea: Pick<Idea, 'id' | 'title' | 'status'> | null;
+}
+
+// Admin analytics types
+export interface StatsOverview {
+  since: string;
+  totals: { users: number; publishedIdeas: number; comments: number; votes: number };
+  period: { newUsers: number; ideasPublished: number; comments: number; votes: number; activeUsers: number };
+}
+
+export interface DailyStats {
+  date: string;
+  signups: number;
+  ideasPublished: number;
+  comments: number;
+  votes: number;
+  activeUsers: number;
+}
+
+export interface CategoryEngagement {
+  category: IdeaCategory;
+  ideasPublished: number;
+  votes: number;
+  comments: number;
+  views: number;
+  engagementPerIdea: number;
+}
+
+export interface AIUsageStats {
+  totals: { requests: number; repairs: number; tokens: number; users: number };
+  days: { date: string; requests: number; tokens: number }[];
+  tasks: { task: string; requests: number; tokens: number; users: number }[];
+  models: { provider: string; model: string; requests: number; tokens: number }[];
+}
+
+export interface RetentionCohort {
+  weekStart: string;
+  users: number;
+  // Week 0 is the signup week
+  active: number[];
+  rates: number[];
+}
+
 // AI types
 export interface AIEnhancement {
   enhancedDescription: string;
@@ -300,6 +639,10 @@ export interface SocketEvents {
     ideaId: string;
     title: string;
   };
+  // This user's sessions were ended: suspended, deactivated or deleted
+  'session:revoked': {
+    reason: 'suspended' | 'deactivated' | 'deleted';
+  };
 }
 
 // Form types
@@ -311,6 +654,8 @@ export interface IdeaFormData {
   tags: string[];
   images?: string[];
   status?: IdeaStatus;
+  // Create or publish even though it looks like an existing idea
+  acknowledgeSimilar?: boolean;
 }
 
 export interface ProfileFormData {
@@ -359,6 +704,7 @@ export enum ActivityType {
   IDEA_VOTED = 'IDEA_VOTED',
   COMMENT_CREATED = 'COMMENT_CREATED',
   COMMENT_VOTED = 'COMMENT_VOTED',
+  USER_FOLLOWED = 'USER_FOLLOWED',
   BOOKMARK_ADDED = 'BOOKMARK_ADDED',
   COLLECTION_CREATED = 'COLLECTION_CREATED',
   COLLECTION_UPDATED = 'COLLECTION_UPDATED',
@@ -392,6 +738,8 @@ export interface UserPreferences {
   enableRecommendations: boolean;
   enableTrending: boolean;
   recommendationWeight?: Record<string, number>;
+  digestDaily?: boolean;
+  digestWeekly?: boolean;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -466,6 +814,7 @@ export interface IdeaFilters {
   tags?: string[];
   search?: string;
   sort?: 'newest' | 'oldest' | 'popular' | 'trending' | 'hot';
+  recruiting?: boolean;
 }
 
 // Preferences Options
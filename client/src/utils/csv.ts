@@ -0,0 +1,21 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCell = (value: CsvValue) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+// Save rows as a .csv file through a temporary download link
+export function downloadCsv(filename: string, headers: string[], rows: CsvValue[][]) {
+  const blob = new Blob([toCsv(headers, rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
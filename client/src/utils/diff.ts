@@ -0,0 +1,74 @@
+export type DiffPart = {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+};
+
+// Past this many token comparisons the LCS table gets too big for the browser;
+// fall back to showing the whole old and new text
+const MAX_DIFF_CELLS = 250_000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], value: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    parts.push({ type, value });
+  }
+}
+
+// Word-level diff (longest common subsequence over words and whitespace)
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, value: before }] : []),
+      ...(after ? [{ type: 'added' as const, value: after }] : []),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++]);
+    } else {
+      pushPart(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++]);
+  while (j < b.length) pushPart(parts, 'added', b[j++]);
+
+  return parts;
+}
+
+// Set-style diff for list fields such as tags
+export function diffLists(before: string[], after: string[]): DiffPart[] {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+
+  return [
+    ...after.map(value => ({ type: beforeSet.has(value) ? 'equal' as const : 'added' as const, value })),
+    ...before.filter(value => !afterSet.has(value)).map(value => ({ type: 'removed' as const, value })),
+  ];
+}
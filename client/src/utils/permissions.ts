@@ -0,0 +1,5 @@
+import { Permission, User } from '@/types';
+
+// UI hint only; the server checks every permission itself
+export const hasPermission = (user: User | null | undefined, permission: Permission) =>
+  !!user?.permissions?.includes(permission);
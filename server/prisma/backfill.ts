@@ -0,0 +1,52 @@
+import path from 'path';
+import dotenv from 'dotenv';
+import { Prisma } from '@prisma/client';
+import { initializeDatabase, disconnectDatabase } from '../src/config/database';
+import { bootstrapAdmins } from '../src/services/roleService';
+
+dotenv.config({ path: path.join(__dirname, '../.env') });
+
+// Prisma doesn't apply @default to documents that already exist on MongoDB, and
+// reading a required field that is missing fails (P2032). Each entry sets a
+// field added after launch on the documents created before it.
+const BACKFILLS: { collection: string; field: string; value: Prisma.InputJsonValue }[] = [
+  { collection: 'users', field: 'role', value: 'USER' },
+  { collection: 'ideas', field: 'isRecruiting', value: false },
+  { collection: 'ideas', field: 'openRoles', value: [] },
+  { collection: 'ideas', field: 'mentions', value: [] },
+  { collection: 'comments', field: 'mentions', value: [] },
+  { collection: 'user_preferences', field: 'digestDaily', value: false },
+  { collection: 'user_preferences', field: 'digestWeekly', value: false }
+];
+
+async function main() {
+  console.log('🔧 Backfilling default values...');
+  const prisma = await initializeDatabase();
+
+  for (const { collection, field, value } of BACKFILLS) {
+    const result = await prisma.$runCommandRaw({
+      update: collection,
+      updates: [{
+        q: { [field]: { $exists: false } },
+        u: { $set: { [field]: value } },
+        multi: true
+      }]
+    });
+    console.log(`✅ ${collection}.${field}: ${result['nModified'] ?? 0} documents updated`);
+  }
+
+  // Roles only exist once the backfill has run, so promote ADMIN_EMAILS now
+  // rather than waiting for the next server start
+  await bootstrapAdmins();
+
+  console.log('🎉 Backfill completed successfully!');
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Backfill failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await disconnectDatabase();
+  });
@@ -16,8 +16,12 @@ interface EnvConfig {
   GOOGLE_CLIENT_ID?: string;
   GOOGLE_CLIENT_SECRET?: string;
   GEMINI_API_KEY?: string;
+  AI_PROVIDER?: string;
+  AI_BASE_URL?: string;
   EMAIL_FROM: string;
+  EMAIL_TRANSPORT?: string;
   SENDGRID_API_KEY?: string;
+  SMTP_HOST?: string;
   CLIENT_URL: string;
   SERVER_URL: string;
   MAX_FILE_SIZE: number;
@@ -46,8 +50,12 @@ export function validateEnv(): EnvConfig {
     GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,
     GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET,
     GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+    AI_PROVIDER: process.env['AI_PROVIDER'],
+    AI_BASE_URL: process.env['AI_BASE_URL'],
     EMAIL_FROM: process.env.EMAIL_FROM || 'noreply@hackideas.com',
+    EMAIL_TRANSPORT: process.env['EMAIL_TRANSPORT'],
     SENDGRID_API_KEY: process.env['SENDGRID_API_KEY'],
+    SMTP_HOST: process.env['SMTP_HOST'],
     CLIENT_URL: process.env['CLIENT_URL'] || 'https://client-indol-theta.vercel.app',
     SERVER_URL: process.env['SERVER_URL'] || 'https://idea-app-production.up.railway.app',
     MAX_FILE_SIZE: parseInt(process.env['MAX_FILE_SIZE'] || '5242880', 10),
@@ -65,12 +73,12 @@ export function validateEnv(): EnvConfig {
     logger.warn('Google Client ID provided but Google Client Secret is missing');
   }
   
-  if (!config.GEMINI_API_KEY) {
-    logger.warn('Gemini API key not provided - AI features will be disabled');
+  if (!config.AI_PROVIDER && !config.GEMINI_API_KEY && !config.AI_BASE_URL) {
+    logger.warn('No AI provider configured - AI features will be disabled');
   }
 
-  if (!config.SENDGRID_API_KEY) {
-    logger.warn('SendGrid API key not provided - email features will be disabled');
+  if (!config.EMAIL_TRANSPORT && !config.SENDGRID_API_KEY && !config.SMTP_HOST) {
+    logger.warn('No email transport configured - emails will be written to the log');
   }
 
   logger.info('Environment validation completed successfully with defaults');
@@ -38,6 +38,8 @@ export const logger = winston.createLogger({
   level: process.env['LOG_LEVEL'] || 'info',
   format: logFormat,
   defaultMeta: { service: 'hackideas-pro' },
+  // Tests assert on responses; expected errors would only drown the output
+  silent: process.env.NODE_ENV === 'test',
   transports: [
     // File transport for errors
     new winston.transports.File({
@@ -6,6 +6,8 @@ import bcrypt from 'bcryptjs';
 import { Application } from 'express';
 import { getDatabase } from './database';
 import { logger } from './logger';
+import { permissionsFor } from '../policies/permissions';
+import { checkSignIn } from '../services/accountService';
 
 export function initializePassport(app: Application): void {
   app.use(passport.initialize());
@@ -33,22 +35,24 @@ export function initializePassport(app: Application): void {
           return done(null, false, { message: 'Please use OAuth to sign in' });
         }
 
-        if (!user.isActive) {
-          return done(null, false, { message: 'Account is deactivated' });
-        }
-
         const isValidPassword = await bcrypt.compare(password, user.password);
         if (!isValidPassword) {
           return done(null, false, { message: 'Invalid email or password' });
         }
 
+        // Checked after the password so strangers can't probe account status
+        const signIn = await checkSignIn(user.id);
+        if (!signIn.allowed) {
+          return done(null, false, { message: signIn.message });
+        }
+
         // Update last login
-        await prisma.user.update({
+        const signedIn = await prisma.user.update({
           where: { id: user.id },
           data: { lastLoginAt: new Date() }
         });
 
-        return done(null, user);
+        return done(null, { ...signedIn, accountRestored: signIn.restored });
       } catch (error) {
         logger.error('Local strategy error:', error);
         return done(error);
@@ -76,6 +80,7 @@ export function initializePassport(app: Application): void {
             skills: true,
             socialLinks: true,
             karmaScore: true,
+            role: true,
             emailVerified: true,
             isActive: true,
             createdAt: true,
@@ -87,7 +92,13 @@ export function initializePassport(app: Application): void {
           return done(null, false);
         }
 
-        return done(null, user);
+        // Tokens issued before a role change (or before roles existed) must be
+        // refreshed, so a demotion takes effect immediately
+        if (payload.role !== user.role) {
+          return done(null, false, { message: 'Your access has changed, please sign in again' });
+        }
+
+        return done(null, { ...user, permissions: permissionsFor(user.role) });
       } catch (error) {
         logger.error('JWT strategy error:', error);
         return done(error, false);
@@ -118,12 +129,17 @@ export function initializePassport(app: Application): void {
           });
 
           if (oauthProvider) {
+            const signIn = await checkSignIn(oauthProvider.user.id);
+            if (!signIn.allowed) {
+              return done(null, false, { message: signIn.message });
+            }
+
             // Update last login
-            await prisma.user.update({
+            const signedIn = await prisma.user.update({
               where: { id: oauthProvider.user.id },
               data: { lastLoginAt: new Date() }
             });
-            return done(null, oauthProvider.user);
+            return done(null, { ...signedIn, accountRestored: signIn.restored });
           }
 
           // Check if user exists with this email
@@ -136,7 +152,14 @@ export function initializePassport(app: Application): void {
             where: { email: email.toLowerCase() }
           });
 
+          let accountRestored = false;
           if (user) {
+            const signIn = await checkSignIn(user.id);
+            if (!signIn.allowed) {
+              return done(null, false, { message: signIn.message });
+            }
+            accountRestored = signIn.restored;
+
             // Link Google account to existing user
             await prisma.oAuthProvider.create({
               data: {
@@ -166,7 +189,7 @@ export function initializePassport(app: Application): void {
             });
           }
 
-          return done(null, user);
+          return done(null, { ...user, accountRestored });
         } catch (error) {
           logger.error('Google OAuth error:', error);
           return done(error);
@@ -63,9 +63,13 @@ export function getRedisClient(): RedisClientType | null {
   return redisClient || null;
 }
 
+const LOCK_RETRY_MS = 50;
+
 // Cache utilities
 export class CacheService {
   private client: RedisClientType | null = null;
+  // Tail of each lock's queue within this process
+  private localLocks = new Map<string, Promise<unknown>>();
 
   private getClient(): RedisClientType | null {
     if (!this.client) {
@@ -140,6 +144,62 @@ export class CacheService {
     }
   }
 
+  // Run task while holding a lock on key. Callers in this process queue up;
+  // with Redis the lock also holds across instances. The lock expires after
+  // ttlMs so a crashed holder can't block others for long, and a caller that
+  // can't get it within ttlMs goes ahead anyway.
+  async withLock<T>(key: string, ttlMs: number, task: () => Promise<T>): Promise<T> {
+    const previous = this.localLocks.get(key) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(() => this.withRedisLock(key, ttlMs, task));
+    this.localLocks.set(key, run);
+
+    try {
+      return await run;
+    } finally {
+      if (this.localLocks.get(key) === run) {
+        this.localLocks.delete(key);
+      }
+    }
+  }
+
+  private async withRedisLock<T>(key: string, ttlMs: number, task: () => Promise<T>): Promise<T> {
+    const client = this.getClient();
+    if (!client) return task();
+
+    const lockKey = `lock:${key}`;
+    const token = `${process.pid}:${Math.random().toString(36).slice(2)}`;
+    let acquired = false;
+
+    try {
+      for (let waited = 0; waited < ttlMs && !acquired; waited += LOCK_RETRY_MS) {
+        acquired = (await client.set(lockKey, token, { NX: true, PX: ttlMs })) === 'OK';
+        if (!acquired) {
+          await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+        }
+      }
+      if (!acquired) {
+        logger.warn(`Timed out waiting for lock ${key}, continuing without it`);
+      }
+    } catch (error) {
+      logger.error(`Cache lock error for key ${key}:`, error);
+    }
+
+    try {
+      return await task();
+    } finally {
+      if (acquired) {
+        try {
+          // Only release our own lock; it may have expired and been taken since
+          if (await client.get(lockKey) === token) {
+            await client.del(lockKey);
+          }
+        } catch (error) {
+          logger.error(`Cache unlock error for key ${key}:`, error);
+        }
+      }
+    }
+  }
+
   async getJson<T>(key: string): Promise<T | null> {
     try {
       const client = this.getClient();
@@ -5,7 +5,11 @@ import { getDatabase } from './database';
 
 // Remove unused interface - using inline type instead
 
+let socketServer: Server | null = null;
+
 export function initializeSocket(io: Server): void {
+  socketServer = io;
+
   // Authentication middleware
   io.use(async (socket: any, next) => {
     try {
@@ -141,14 +145,27 @@ export function initializeSocket(io: Server): void {
     io.emit(event, data);
   };
 
+  // Tell every open tab of a user why, then drop their connections; the auth
+  // middleware above keeps them from reconnecting while they're inactive
+  io.disconnectUser = (userId: string, reason: string) => {
+    io.to(`user:${userId}`).emit('session:revoked', { reason });
+    io.in(`user:${userId}`).disconnectSockets(true);
+  };
+
   logger.info('✅ Socket.IO initialized successfully');
 }
 
+// Access the Socket.IO server outside of a request (services, background jobs)
+export function getSocketServer(): Server | null {
+  return socketServer;
+}
+
 // Extend Socket.IO Server interface
 declare module 'socket.io' {
   interface Server {
     sendNotification(userId: string, notification: any): void;
     broadcastToIdea(ideaId: string, event: string, data: any): void;
     broadcastToAll(event: string, data: any): void;
+    disconnectUser(userId: string, reason: string): void;
   }
 }
@@ -18,6 +18,8 @@ import { initializeDatabase } from './config/database';
 import { initializeRedis } from './config/redis';
 import { initializePassport } from './config/passport';
 import { initializeSocket } from './config/socket';
+import { startScheduledJobs, stopScheduledJobs } from './jobs';
+import { bootstrapAdmins } from './services/roleService';
 
 // Routes will be imported after database initialization
 
@@ -40,6 +42,7 @@ async function startServer() {
     try {
       await initializeDatabase();
       logger.info('Database initialized successfully');
+      await bootstrapAdmins().catch(error => logger.error('Failed to promote ADMIN_EMAILS users:', error));
     } catch (error) {
       logger.error('Database initialization failed:', error);
       if (process.env.NODE_ENV === 'production') {
@@ -60,6 +63,10 @@ async function startServer() {
     const authRoutes = require('./routes/auth').default;
     const userRoutes = require('./routes/user-fixed').default;
     const ideaRoutes = require('./routes/ideas').default;
+    const ideaCollaboratorRoutes = require('./routes/ideaCollaborators').default;
+    const ideaRecruitmentRoutes = require('./routes/ideaRecruitment').default;
+    const ideaReportRoutes = require('./routes/ideaReports').default;
+    const ideaAIAnalysisRoutes = require('./routes/ideaAIAnalyses').default;
     const commentRoutes = require('./routes/comments').default;
     const searchRoutes = require('./routes/search').default;
     const notificationRoutes = require('./routes/notifications').default;
@@ -68,6 +75,10 @@ async function startServer() {
     const recommendationsRoutes = require('./routes/recommendations').default;
     const collectionsRoutes = require('./routes/collections').default;
     const preferencesRoutes = require('./routes/preferences').default;
+    const feedRoutes = require('./routes/feed').default;
+    const invitationRoutes = require('./routes/invitations').default;
+    const adminRoutes = require('./routes/admin').default;
+    const moderationRoutes = require('./routes/moderation').default;
 
     // Create Express app and server AFTER database initialization
     const app = express();
@@ -162,6 +173,10 @@ async function startServer() {
     app.use('/api/auth', authRoutes);
     app.use('/api/users', userRoutes);
     app.use('/api/ideas', ideaRoutes);
+    app.use('/api/ideas', ideaCollaboratorRoutes);
+    app.use('/api/ideas', ideaRecruitmentRoutes);
+    app.use('/api/ideas', ideaReportRoutes);
+    app.use('/api/ideas', ideaAIAnalysisRoutes);
     app.use('/api/comments', commentRoutes);
     app.use('/api/search', searchRoutes);
     app.use('/api/notifications', notificationRoutes);
@@ -170,6 +185,10 @@ async function startServer() {
     app.use('/api/recommendations', recommendationsRoutes);
     app.use('/api/collections', collectionsRoutes);
     app.use('/api/preferences', preferencesRoutes);
+    app.use('/api/feed', feedRoutes);
+    app.use('/api/invitations', invitationRoutes);
+    app.use('/api/admin', adminRoutes);
+    app.use('/api/moderation', moderationRoutes);
     
     // API documentation
     app.get('*', (_req: any, res: any) => {
@@ -202,10 +221,14 @@ async function startServer() {
       logger.info(`🌐 CORS origins: ${allowedOrigins.join(', ')}`);
       logger.info(`✅ Health check available at /health`);
     });
+
+    // Background jobs (email digests)
+    startScheduledJobs();
     
     // Graceful shutdown
     process.on('SIGTERM', () => {
       logger.info('SIGTERM received, shutting down gracefully');
+      stopScheduledJobs();
       server.close(() => {
         logger.info('Process terminated');
         process.exit(0);
@@ -214,6 +237,7 @@ async function startServer() {
     
     process.on('SIGINT', () => {
       logger.info('SIGINT received, shutting down gracefully');
+      stopScheduledJobs();
       server.close(() => {
         logger.info('Process terminated');
         process.exit(0);
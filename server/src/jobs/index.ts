@@ -0,0 +1,59 @@
+import { CronJob } from 'cron';
+import { logger } from '../config/logger';
+import { sendDigests } from '../services/digestService';
+import { refreshTrending } from '../services/trendingService';
+import { reindexIdeaEmbeddings } from '../services/embeddingService';
+import { liftExpiredSuspensions, purgeDeletedAccounts } from '../services/accountService';
+
+const scheduledJobs: CronJob[] = [];
+
+// Wrap a task so overlapping runs are skipped and failures only get logged
+function schedule(name: string, cronTime: string, task: () => Promise<unknown>, runOnInit = false): void {
+  let running = false;
+
+  const job = CronJob.from({
+    cronTime,
+    timeZone: process.env['JOBS_TIMEZONE'] || 'UTC',
+    start: true,
+    runOnInit,
+    onTick: async () => {
+      if (running) {
+        logger.warn(`Job ${name} is still running, skipping this tick`);
+        return;
+      }
+
+      running = true;
+      try {
+        await task();
+      } catch (error) {
+        logger.error(`Job ${name} failed:`, error);
+      } finally {
+        running = false;
+      }
+    }
+  });
+
+  scheduledJobs.push(job);
+  logger.info(`Scheduled job ${name} (${cronTime})`);
+}
+
+export function startScheduledJobs(): void {
+  if (process.env['DISABLE_SCHEDULED_JOBS'] === 'true') {
+    logger.info('Scheduled jobs are disabled');
+    return;
+  }
+
+  // Refresh right away so trending isn't empty until the first tick after a deploy
+  schedule('trending', process.env['TRENDING_CRON'] || '*/15 * * * *', refreshTrending, true);
+  schedule('daily-digest', process.env['DIGEST_DAILY_CRON'] || '0 8 * * *', () => sendDigests('daily'));
+  schedule('weekly-digest', process.env['DIGEST_WEEKLY_CRON'] || '0 8 * * 1', () => sendDigests('weekly'));
+  // Backfills existing ideas and re-embeds them after the embedding model changes
+  schedule('embeddings', process.env['EMBEDDING_REINDEX_CRON'] || '*/10 * * * *', reindexIdeaEmbeddings, true);
+  schedule('expired-suspensions', process.env['SUSPENSION_CRON'] || '*/5 * * * *', liftExpiredSuspensions);
+  schedule('account-deletions', process.env['ACCOUNT_DELETION_CRON'] || '0 3 * * *', purgeDeletedAccounts);
+}
+
+export function stopScheduledJobs(): void {
+  scheduledJobs.forEach(job => job.stop());
+  scheduledJobs.length = 0;
+}
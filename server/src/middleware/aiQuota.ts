@@ -0,0 +1,47 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { CustomError } from './errorHandler';
+import { logger } from '../config/logger';
+import { aiQuotaService } from '../services/aiQuotaService';
+
+// Per-user AI budget, checked before the provider is called. Use after
+// authenticateJWT. An exhausted daily budget is a 429 that clears at midnight
+// UTC; an exhausted monthly budget is a 402 until the next month.
+export const aiQuota = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  if (!req.user) {
+    return next(new CustomError('Authentication required', 401));
+  }
+
+  try {
+    const usage = await aiQuotaService.getSummary(req.user);
+    const exhausted = usage.monthly.exhausted ? 'monthly' : usage.daily.exhausted ? 'daily' : null;
+
+    if (!exhausted) {
+      return next();
+    }
+
+    const window = usage[exhausted];
+    const retryAfter = Math.max(1, Math.ceil((window.resetsAt.getTime() - Date.now()) / 1000));
+
+    logger.warn(`AI ${exhausted} quota exhausted for user ${req.user.username}`, {
+      tier: usage.tier.name,
+      path: req.path
+    });
+
+    const nextTierHint = usage.nextTier
+      ? ` Reach ${usage.nextTier.minKarma} karma for the larger ${usage.nextTier.name} budget.`
+      : '';
+
+    res.set('Retry-After', String(retryAfter));
+    res.status(exhausted === 'monthly' ? 402 : 429).json({
+      error: 'AI quota exceeded',
+      message: exhausted === 'monthly'
+        ? `You have used this month's AI budget. It resets on ${window.resetsAt.toISOString().substring(0, 10)}.${nextTierHint}`
+        : `You have used today's AI budget. It resets at midnight UTC.${nextTierHint}`,
+      retryAfter,
+      usage
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,96 @@
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { UserRole } from '@prisma/client';
+import { createFakePrisma } from '../test/fakePrisma';
+import { authHeader, createTestApp } from '../test/testApp';
+import { authenticateJWT, generateTokens, requirePermission } from './auth';
+
+const mockPrisma = createFakePrisma();
+jest.mock('../config/database', () => ({ getDatabase: () => mockPrisma }));
+
+const router = express.Router();
+router.get('/merge', authenticateJWT, requirePermission('ideas:merge'), (_req, res) => res.json({ ok: true }));
+router.get('/stats', authenticateJWT, requirePermission('stats:read'), (_req, res) => res.json({ ok: true }));
+router.get('/moderate-and-read', authenticateJWT, requirePermission('content:moderate', 'audit:read'), (_req, res) => res.json({ ok: true }));
+
+const app = createTestApp({ '/api/test': router });
+
+const createUser = (username: string, role: UserRole) =>
+  mockPrisma.user.create({ data: { email: `${username}@example.com`, username, role } });
+
+describe('requirePermission', () => {
+  beforeEach(() => mockPrisma.$reset());
+
+  it('requires a signed-in user', async () => {
+    const response = await request(app).get('/api/test/merge');
+
+    expect(response.status).toBe(401);
+  });
+
+  it('turns away users whose role lacks the permission', async () => {
+    const user = await createUser('member', UserRole.USER);
+
+    const response = await request(app).get('/api/test/merge').set(authHeader(user));
+
+    expect(response.status).toBe(403);
+  });
+
+  it('lets moderators merge but not read stats', async () => {
+    const moderator = await createUser('moderator', UserRole.MODERATOR);
+
+    expect((await request(app).get('/api/test/merge').set(authHeader(moderator))).status).toBe(200);
+    expect((await request(app).get('/api/test/stats').set(authHeader(moderator))).status).toBe(403);
+  });
+
+  it('requires every listed permission', async () => {
+    const moderator = await createUser('moderator', UserRole.MODERATOR);
+    const admin = await createUser('admin', UserRole.ADMIN);
+
+    expect((await request(app).get('/api/test/moderate-and-read').set(authHeader(moderator))).status).toBe(403);
+    expect((await request(app).get('/api/test/moderate-and-read').set(authHeader(admin))).status).toBe(200);
+  });
+});
+
+describe('role changes', () => {
+  beforeEach(() => mockPrisma.$reset());
+
+  it('puts the role and its permissions in the access token', () => {
+    const { accessToken } = generateTokens({ id: 'user-id', role: UserRole.MODERATOR });
+
+    expect(jwt.decode(accessToken)).toMatchObject({
+      userId: 'user-id',
+      role: UserRole.MODERATOR,
+      permissions: ['ideas:merge', 'content:moderate', 'users:suspend']
+    });
+  });
+
+  it('rejects tokens issued before a demotion', async () => {
+    const moderator = await createUser('moderator', UserRole.MODERATOR);
+    const headers = authHeader(moderator);
+    await mockPrisma.user.update({ where: { id: moderator.id }, data: { role: UserRole.USER } });
+
+    const response = await request(app).get('/api/test/merge').set(headers);
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Your access has changed, please sign in again');
+  });
+
+  it('rejects tokens issued before roles existed', async () => {
+    const user = await createUser('member', UserRole.USER);
+    const legacyToken = jwt.sign({ userId: user.id, type: 'access' }, process.env['JWT_SECRET']!);
+
+    const response = await request(app).get('/api/test/merge').set('Authorization', `Bearer ${legacyToken}`);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects deactivated users', async () => {
+    const admin = await createUser('admin', UserRole.ADMIN);
+    await mockPrisma.user.update({ where: { id: admin.id }, data: { isActive: false } });
+
+    const response = await request(app).get('/api/test/stats').set(authHeader(admin));
+
+    expect(response.status).toBe(401);
+  });
+});
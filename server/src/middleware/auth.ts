@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import passport from 'passport';
 import jwt from 'jsonwebtoken';
+import { UserRole } from '@prisma/client';
 import { CustomError } from './errorHandler';
 import { logger } from '../config/logger';
+import { Permission, permissionsFor } from '../policies/permissions';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -14,6 +16,8 @@ export interface AuthenticatedRequest extends Request {
     skills: string[];
     socialLinks?: any;
     karmaScore: number;
+    role: UserRole;
+    permissions: Permission[];
     emailVerified: boolean;
     isActive: boolean;
     createdAt: Date;
@@ -73,25 +77,27 @@ export const requireVerified = (req: AuthenticatedRequest, _res: Response, next:
   next();
 };
 
-// Check if user is admin (based on karma score or specific role)
-export const requireAdmin = (req: AuthenticatedRequest, _res: Response, next: NextFunction): void => {
-  if (!req.user) {
-    return next(new CustomError('Authentication required', 401));
-  }
+// Require every listed permission; use after authenticateJWT
+export const requirePermission = (...required: Permission[]) => {
+  return (req: AuthenticatedRequest, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      return next(new CustomError('Authentication required', 401));
+    }
 
-  // For now, consider users with high karma as admins
-  // In production, you might want a separate admin role
-  if (req.user.karmaScore < 1000) {
-    return next(new CustomError('Admin privileges required', 403));
-  }
+    if (!required.every(permission => req.user!.permissions.includes(permission))) {
+      return next(new CustomError('You do not have permission to do this', 403));
+    }
 
-  next();
+    next();
+  };
 };
 
-// Generate JWT tokens
-export const generateTokens = (userId: string) => {
+// Generate JWT tokens. The access token carries the user's role and its
+// permissions; the JWT strategy rejects it once the role changes.
+export const generateTokens = (user: { id: string; role: UserRole }) => {
+  const userId = user.id;
   const accessToken = jwt.sign(
-    { userId, type: 'access' },
+    { userId, type: 'access', role: user.role, permissions: permissionsFor(user.role) },
     process.env.JWT_SECRET!,
     { expiresIn: process.env.JWT_EXPIRES_IN || '15m' } as jwt.SignOptions
   );
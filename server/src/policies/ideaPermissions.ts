@@ -0,0 +1,44 @@
+import { CollaboratorRole, CollaboratorStatus } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+
+// What each collaborator may do with an idea. The author is always the OWNER;
+// invited users act with the role of their accepted invitation, so an OWNER
+// invitation makes a co-owner.
+
+interface IdeaAccessFields {
+  authorId: string;
+  collaborators?: { userId: string; role: CollaboratorRole | string; status: CollaboratorStatus | string }[];
+}
+
+const EDIT_ROLES: CollaboratorRole[] = [CollaboratorRole.OWNER, CollaboratorRole.EDITOR];
+
+export function getIdeaRole(idea: IdeaAccessFields, userId?: string): CollaboratorRole | null {
+  if (!userId) return null;
+  if (idea.authorId === userId) return CollaboratorRole.OWNER;
+
+  const collaborator = idea.collaborators?.find(
+    c => c.userId === userId && c.status === CollaboratorStatus.ACCEPTED
+  );
+  return collaborator ? collaborator.role as CollaboratorRole : null;
+}
+
+export function canEditIdea(idea: IdeaAccessFields, userId?: string): boolean {
+  const role = getIdeaRole(idea, userId);
+  return !!role && EDIT_ROLES.includes(role);
+}
+
+export function canManageIdea(idea: IdeaAccessFields, userId?: string): boolean {
+  return getIdeaRole(idea, userId) === CollaboratorRole.OWNER;
+}
+
+export function assertCanEditIdea(idea: IdeaAccessFields, userId?: string): void {
+  if (!canEditIdea(idea, userId)) {
+    throw new CustomError('Not authorized to update this idea', 403);
+  }
+}
+
+export function assertCanManageIdea(idea: IdeaAccessFields, userId: string | undefined, message: string): void {
+  if (!canManageIdea(idea, userId)) {
+    throw new CustomError(message, 403);
+  }
+}
@@ -0,0 +1,136 @@
+import { CollaboratorStatus, IdeaStatus } from '@prisma/client';
+import { createFakePrisma } from '../test/fakePrisma';
+import { seedVisibilityFixtures } from '../test/visibilityFixtures';
+import {
+  assertCanViewIdea,
+  authorIdeasWhere,
+  canViewIdea,
+  ideaListWhere,
+  IDEA_ACCESS_SELECT,
+  visibleIdeaRelationWhere
+} from './ideaVisibility';
+
+describe('idea visibility', () => {
+  const prisma = createFakePrisma();
+  let fixtures: Awaited<ReturnType<typeof seedVisibilityFixtures>>;
+
+  const titles = async (where: object) =>
+    (await prisma.idea.findMany({ where, orderBy: { title: 'asc' } })).map(idea => idea.title);
+
+  const withAccess = (id: string) =>
+    prisma.idea.findUnique({ where: { id }, select: { status: true, authorId: true, ...IDEA_ACCESS_SELECT } });
+
+  beforeEach(async () => {
+    prisma.$reset();
+    fixtures = await seedVisibilityFixtures(prisma);
+  });
+
+  describe('ideaListWhere', () => {
+    it('lists only published ideas by default, signed in or not', async () => {
+      expect(await titles(ideaListWhere())).toEqual(['Published garden planner']);
+      expect(await titles(ideaListWhere(fixtures.author.id))).toEqual(['Published garden planner']);
+      expect(await titles(ideaListWhere(fixtures.stranger.id, IdeaStatus.PUBLISHED))).toEqual(['Published garden planner']);
+    });
+
+    it('lists drafts only to their author and collaborators', async () => {
+      expect(await titles(ideaListWhere(fixtures.author.id, IdeaStatus.DRAFT))).toEqual(['Draft garden planner']);
+      expect(await titles(ideaListWhere(fixtures.collaborator.id, IdeaStatus.DRAFT))).toEqual(['Draft garden planner']);
+      expect(await titles(ideaListWhere(fixtures.stranger.id, IdeaStatus.DRAFT))).toEqual([]);
+    });
+
+    it('lists hidden ideas only to their author and collaborators', async () => {
+      expect(await titles(ideaListWhere(fixtures.author.id, IdeaStatus.HIDDEN))).toEqual(['Hidden garden planner']);
+      expect(await titles(ideaListWhere(fixtures.stranger.id, IdeaStatus.HIDDEN))).toEqual([]);
+    });
+
+    it('ignores invitations that were not accepted', async () => {
+      await prisma.ideaCollaborator.updateMany({
+        where: { userId: fixtures.collaborator.id },
+        data: { status: CollaboratorStatus.PENDING }
+      });
+
+      expect(await titles(ideaListWhere(fixtures.collaborator.id, IdeaStatus.DRAFT))).toEqual([]);
+    });
+
+    it('requires a viewer to filter by an unpublished status', () => {
+      expect(() => ideaListWhere(undefined, IdeaStatus.DRAFT)).toThrow(expect.objectContaining({ statusCode: 401 }));
+    });
+  });
+
+  describe('authorIdeasWhere', () => {
+    it('shows the author every status', async () => {
+      expect(await titles(authorIdeasWhere(fixtures.author.id, fixtures.author.id))).toEqual([
+        'Draft garden planner',
+        'Hidden garden planner',
+        'Published garden planner'
+      ]);
+      expect(await titles(authorIdeasWhere(fixtures.author.id, fixtures.author.id, IdeaStatus.DRAFT))).toEqual(['Draft garden planner']);
+    });
+
+    it('shows everyone else only published ideas', async () => {
+      expect(await titles(authorIdeasWhere(fixtures.author.id))).toEqual(['Published garden planner']);
+      expect(await titles(authorIdeasWhere(fixtures.author.id, fixtures.stranger.id))).toEqual(['Published garden planner']);
+    });
+
+    it('refuses unpublished statuses to anyone but the author', () => {
+      expect(() => authorIdeasWhere(fixtures.author.id, fixtures.stranger.id, IdeaStatus.DRAFT))
+        .toThrow(expect.objectContaining({ statusCode: 403 }));
+      expect(() => authorIdeasWhere(fixtures.author.id, undefined, IdeaStatus.HIDDEN))
+        .toThrow(expect.objectContaining({ statusCode: 403 }));
+    });
+  });
+
+  describe('canViewIdea and assertCanViewIdea', () => {
+    it('shows published ideas to everyone', async () => {
+      const published = await withAccess(fixtures.published.id);
+
+      expect(canViewIdea(published)).toBe(true);
+      expect(canViewIdea(published, fixtures.stranger.id)).toBe(true);
+    });
+
+    it('shows drafts and hidden ideas only to the author and collaborators', async () => {
+      for (const id of [fixtures.draft.id, fixtures.hidden.id]) {
+        const idea = await withAccess(id);
+
+        expect(canViewIdea(idea)).toBe(false);
+        expect(canViewIdea(idea, fixtures.stranger.id)).toBe(false);
+        expect(canViewIdea(idea, fixtures.author.id)).toBe(true);
+        expect(canViewIdea(idea, fixtures.collaborator.id)).toBe(true);
+      }
+    });
+
+    it('answers 404 for ideas the viewer may not see, and for missing ones', async () => {
+      const draft = await withAccess(fixtures.draft.id);
+
+      expect(() => assertCanViewIdea(draft, fixtures.stranger.id)).toThrow(expect.objectContaining({ statusCode: 404 }));
+      expect(() => assertCanViewIdea(draft)).toThrow(expect.objectContaining({ statusCode: 404 }));
+      expect(() => assertCanViewIdea(null, fixtures.author.id)).toThrow(expect.objectContaining({ statusCode: 404 }));
+      expect(() => assertCanViewIdea(draft, fixtures.author.id)).not.toThrow();
+    });
+  });
+
+  describe('visibleIdeaRelationWhere', () => {
+    it('keeps saved drafts out of other people\'s collections', async () => {
+      const collection = await prisma.bookmarkCollection.create({
+        data: { name: 'Gardening', userId: fixtures.stranger.id }
+      });
+      for (const idea of [fixtures.draft, fixtures.published, fixtures.hidden]) {
+        await prisma.bookmarkCollectionItem.create({ data: { collectionId: collection.id, ideaId: idea.id } });
+      }
+
+      const visibleTo = async (viewerId?: string) => (await prisma.bookmarkCollectionItem.findMany({
+        where: { collectionId: collection.id, idea: visibleIdeaRelationWhere(viewerId) },
+        select: { idea: { select: { title: true } } },
+        orderBy: { idea: { title: 'asc' } }
+      })).map(item => item.idea.title);
+
+      expect(await visibleTo()).toEqual(['Published garden planner']);
+      expect(await visibleTo(fixtures.stranger.id)).toEqual(['Published garden planner']);
+      expect(await visibleTo(fixtures.author.id)).toEqual([
+        'Draft garden planner',
+        'Hidden garden planner',
+        'Published garden planner'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { CollaboratorStatus, IdeaStatus, Prisma } from '@prisma/client';
+import { CustomError } from '../middleware/errorHandler';
+
+// Single source of truth for who may see which ideas. Published ideas are
+// public; drafts and archived ideas are only visible to their author and to
+// collaborators who accepted an invitation (any role).
+
+export interface IdeaVisibilityFields {
+  status: IdeaStatus | string;
+  authorId: string;
+  // Only needed for unpublished ideas; without it collaborators are not considered
+  collaborators?: { userId: string; status: CollaboratorStatus | string }[];
+}
+
+export const PUBLIC_IDEA_WHERE: Prisma.IdeaWhereInput = { status: IdeaStatus.PUBLISHED };
+
+// Select to pass along with an idea so collaborators are recognised
+export const IDEA_ACCESS_SELECT = {
+  collaborators: {
+    where: { status: CollaboratorStatus.ACCEPTED },
+    select: { userId: true, role: true, status: true }
+  }
+} satisfies Prisma.IdeaSelect;
+
+// Ideas the viewer authored or co-authors
+export function ownOrSharedIdeaWhere(viewerId: string): Prisma.IdeaWhereInput {
+  return {
+    OR: [
+      { authorId: viewerId },
+      { collaborators: { some: { userId: viewerId, status: CollaboratorStatus.ACCEPTED } } }
+    ]
+  };
+}
+
+export function canViewIdea(idea: IdeaVisibilityFields, viewerId?: string): boolean {
+  if (idea.status === IdeaStatus.PUBLISHED) return true;
+  if (!viewerId) return false;
+  return idea.authorId === viewerId || !!idea.collaborators?.some(
+    collaborator => collaborator.userId === viewerId && collaborator.status === CollaboratorStatus.ACCEPTED
+  );
+}
+
+// Hidden ideas answer 404 rather than 403 so their existence isn't leaked
+export function assertCanViewIdea(idea: IdeaVisibilityFields | null, viewerId?: string): void {
+  if (!idea || !canViewIdea(idea, viewerId)) {
+    throw new CustomError('Idea not found', 404);
+  }
+}
+
+// `where` for an idea listing. Without a status (or with PUBLISHED) everyone
+// gets published ideas; any other status is limited to ideas the viewer
+// authored or co-authors.
+export function ideaListWhere(viewerId?: string, status?: IdeaStatus | string): Prisma.IdeaWhereInput {
+  if (!status || status === IdeaStatus.PUBLISHED) {
+    return { ...PUBLIC_IDEA_WHERE };
+  }
+
+  if (!viewerId) {
+    throw new CustomError('Authentication required to filter by status', 401);
+  }
+
+  return { status: status as IdeaStatus, ...ownOrSharedIdeaWhere(viewerId) };
+}
+
+// `where` for one author's ideas: the author can filter by any status,
+// everyone else only ever sees the published ones
+export function authorIdeasWhere(authorId: string, viewerId?: string, status?: IdeaStatus | string): Prisma.IdeaWhereInput {
+  if (viewerId === authorId) {
+    return status ? { authorId, status: status as IdeaStatus } : { authorId };
+  }
+
+  if (status && status !== IdeaStatus.PUBLISHED) {
+    throw new CustomError('Only the author can view unpublished ideas', 403);
+  }
+
+  return { authorId, ...PUBLIC_IDEA_WHERE };
+}
+
+// Relation filter for records that point at an idea (bookmarks, collection items)
+export function visibleIdeaRelationWhere(viewerId?: string): { is: Prisma.IdeaWhereInput } {
+  return viewerId
+    ? { is: { OR: [PUBLIC_IDEA_WHERE, ownOrSharedIdeaWhere(viewerId)] } }
+    : { is: PUBLIC_IDEA_WHERE };
+}
@@ -0,0 +1,31 @@
+import { UserRole } from '@prisma/client';
+import { hasPermission, PERMISSIONS, permissionsFor, ROLE_PERMISSIONS } from './permissions';
+
+describe('role permissions', () => {
+  it('gives plain users no permissions', () => {
+    expect(permissionsFor(UserRole.USER)).toEqual([]);
+    PERMISSIONS.forEach(permission => {
+      expect(hasPermission({ role: UserRole.USER }, permission)).toBe(false);
+    });
+  });
+
+  it('lets moderators moderate but not administer', () => {
+    const moderator = { role: UserRole.MODERATOR };
+
+    expect(hasPermission(moderator, 'ideas:merge')).toBe(true);
+    expect(hasPermission(moderator, 'content:moderate')).toBe(true);
+    expect(hasPermission(moderator, 'users:suspend')).toBe(true);
+    expect(hasPermission(moderator, 'users:manage-roles')).toBe(false);
+    expect(hasPermission(moderator, 'audit:read')).toBe(false);
+    expect(hasPermission(moderator, 'stats:read')).toBe(false);
+  });
+
+  it('gives admins every permission', () => {
+    expect([...ROLE_PERMISSIONS[UserRole.ADMIN]].sort()).toEqual([...PERMISSIONS].sort());
+  });
+
+  it('denies anonymous users and unknown roles', () => {
+    expect(hasPermission(undefined, 'ideas:merge')).toBe(false);
+    expect(hasPermission({ role: 'SUPERUSER' as UserRole }, 'ideas:merge')).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+import { UserRole } from '@prisma/client';
+
+// Site-wide permissions. Roles are granted by admins, never earned: karma can
+// be farmed through votes, so it must not unlock anything privileged.
+
+export const PERMISSIONS = [
+  // Merge duplicate ideas
+  'ideas:merge',
+  // Act on reported content
+  'content:moderate',
+  // Suspend and reinstate user accounts
+  'users:suspend',
+  // Assign roles to other users
+  'users:manage-roles',
+  // Read the audit log
+  'audit:read',
+  // Read platform analytics
+  'stats:read'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const MODERATOR_PERMISSIONS: Permission[] = ['ideas:merge', 'content:moderate', 'users:suspend'];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.USER]: [],
+  [UserRole.MODERATOR]: MODERATOR_PERMISSIONS,
+  [UserRole.ADMIN]: [...MODERATOR_PERMISSIONS, 'users:manage-roles', 'audit:read', 'stats:read']
+};
+
+export function permissionsFor(role: UserRole): Permission[] {
+  return ROLE_PERMISSIONS[role] || [];
+}
+
+export function hasPermission(user: { role: UserRole } | undefined, permission: Permission): boolean {
+  return !!user && permissionsFor(user.role).includes(permission);
+}
@@ -0,0 +1,141 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { AuditAction, Prisma, UserRole } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validation';
+import { authenticateJWT, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { changeUserRole } from '../services/roleService';
+import { listAuditLog } from '../services/auditLogService';
+import {
+  getAIUsageStats,
+  getCategoryEngagement,
+  getDailyStats,
+  getOverview,
+  getRetentionCohorts
+} from '../services/statsService';
+
+const router = express.Router();
+
+router.use(authenticateJWT);
+
+// Users with their roles, for assigning them
+router.get('/users', requirePermission('users:manage-roles'), validate([
+  query('role').optional().isIn(Object.values(UserRole)).withMessage('Invalid role'),
+  query('q').optional().isString().trim(),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be 1-100')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const prisma = getDatabase();
+  const role = req.query.role as UserRole | undefined;
+  const q = req.query.q as string | undefined;
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+
+  const where: Prisma.UserWhereInput = {
+    ...(role && { role }),
+    ...(q && {
+      OR: [
+        { username: { contains: q, mode: 'insensitive' } },
+        { email: { contains: q, mode: 'insensitive' } }
+      ]
+    })
+  };
+
+  const [users, total] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        avatar: true,
+        role: true,
+        karmaScore: true,
+        isActive: true,
+        createdAt: true
+      },
+      orderBy: [{ role: 'desc' }, { createdAt: 'asc' }],
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.user.count({ where })
+  ]);
+
+  res.json({
+    users,
+    pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+  });
+}));
+
+// Assign a role; every change is written to the audit log
+router.put('/users/:id/role', requirePermission('users:manage-roles'), validate([
+  param('id').isMongoId().withMessage('Invalid user ID'),
+  body('role').isIn(Object.values(UserRole)).withMessage('Role must be USER, MODERATOR or ADMIN'),
+  body('reason').optional().isString().trim().isLength({ max: 500 }).withMessage('Reason must be at most 500 characters')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { user, changed } = await changeUserRole({
+    targetUserId: req.params.id,
+    role: req.body.role,
+    actorId: req.user!.id,
+    reason: req.body.reason
+  });
+
+  res.json({
+    message: changed ? `${user.username} is now ${user.role.toLowerCase()}` : 'Role unchanged',
+    user
+  });
+}));
+
+router.get('/audit-log', requirePermission('audit:read'), validate([
+  query('action').optional().isIn(Object.values(AuditAction)).withMessage('Invalid action'),
+  query('targetUserId').optional().isMongoId().withMessage('Invalid user ID'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be 1-100')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 50;
+
+  const { entries, total } = await listAuditLog({
+    action: req.query.action as AuditAction | undefined,
+    targetUserId: req.query.targetUserId as string | undefined,
+    offset: (page - 1) * limit,
+    limit
+  });
+
+  res.json({
+    entries,
+    pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+  });
+}));
+
+// Platform analytics. Every range ends today; days defaults to 30.
+const statsRange = validate([
+  query('days').optional().isInt({ min: 1, max: 365 }).withMessage('Days must be 1-365')
+]);
+const rangeDays = (req: AuthenticatedRequest) => parseInt(req.query.days as string) || 30;
+
+router.get('/stats/overview', requirePermission('stats:read'), statsRange, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  res.json(await getOverview(rangeDays(req)));
+}));
+
+router.get('/stats/daily', requirePermission('stats:read'), statsRange, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  res.json({ days: await getDailyStats(rangeDays(req)) });
+}));
+
+router.get('/stats/categories', requirePermission('stats:read'), statsRange, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  res.json({ categories: await getCategoryEngagement(rangeDays(req)) });
+}));
+
+router.get('/stats/ai-usage', requirePermission('stats:read'), statsRange, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  res.json(await getAIUsageStats(rangeDays(req)));
+}));
+
+router.get('/stats/retention', requirePermission('stats:read'), validate([
+  query('weeks').optional().isInt({ min: 1, max: 26 }).withMessage('Weeks must be 1-26')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const weeks = parseInt(req.query.weeks as string) || 8;
+  res.json({ cohorts: await getRetentionCohorts(weeks) });
+}));
+
+export default router;
@@ -1,46 +1,196 @@
-import { Router } from 'express';
+import { NextFunction, Router } from 'express';
 import { body } from 'express-validator';
 import { AuthenticatedRequest, Response } from '../types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { getDatabase } from '../config/database';
 import { asyncHandler } from '../middleware/errorHandler';
 import { validate } from '../middleware/validation';
 import { authenticateJWT } from '../middleware/auth';
 import { aiRateLimiter } from '../middleware/rateLimiter';
+import { aiQuota } from '../middleware/aiQuota';
+import { aiQuotaService } from '../services/aiQuotaService';
 import { CustomError } from '../middleware/errorHandler';
 import { logger } from '../config/logger';
+import { aiService, AIOutputError, AIStreamHandlers, AIStructuredResult } from '../services/aiProvider';
+import { extractCompletedSections } from '../services/aiOutput';
+import {
+  AnalysisOutcome,
+  DEFAULT_FEASIBILITY_TIMEFRAME,
+  findCachedAnalysis,
+  hashAnalysisInput,
+  runAnalysis
+} from '../services/aiAnalysisService';
+import { findSimilarIdeas } from '../services/similarityService';
+import { IDEA_ACCESS_SELECT } from '../policies/ideaVisibility';
+import { canEditIdea } from '../policies/ideaPermissions';
+import { AIAnalysisKind } from '@prisma/client';
 
 const router = Router();
 
-// Initialize Gemini AI
-let genAI: GoogleGenerativeAI | null = null;
-if (process.env['GEMINI_API_KEY']) {
-  genAI = new GoogleGenerativeAI(process.env['GEMINI_API_KEY']);
-  console.log('✅ Gemini AI initialized successfully');
-} else {
-  console.log('❌ Gemini API key not found');
+// Feature flags reported by /usage; all of them need a configured provider
+const FEATURES = [
+  'enhanceDescription',
+  'generateIdeas',
+  'analyzeFeasibility',
+  'suggestImprovements',
+  'analyzeIdea',
+  'recommendTechStack',
+  'generateTags',
+  'suggestDescription'
+];
+
+// Invalid model output is an upstream failure, not a server bug
+const toAIError = (error: unknown, message: string) =>
+  error instanceof AIOutputError
+    ? new CustomError('The AI returned an unusable response, please try again', 502)
+    : new CustomError(message, 500);
+
+// Lets the client tell real AI output from a fallback
+const degradation = (result: AIStructuredResult<unknown>) => ({
+  degraded: result.degraded,
+  ...(result.degradedReason ? { degradedReason: result.degradedReason } : {})
+});
+
+// Identifies the stored analysis behind an idea-bound response
+const analysisMeta = (outcome: AnalysisOutcome<unknown>) => outcome.analysis
+  ? {
+      analysisId: outcome.analysis.id,
+      version: outcome.analysis.version,
+      analyzedAt: outcome.analysis.createdAt,
+      cached: outcome.cached
+    }
+  : {};
+
+// Analyses stored on an idea are for the people working on it. The idea is
+// analysed as stored: its fields replace whatever the body sent, so a stored
+// analysis always describes the idea it is attached to.
+async function loadAnalysisTarget(req: AuthenticatedRequest): Promise<void> {
+  const { ideaId } = req.body;
+  if (!ideaId) return;
+
+  const prisma = getDatabase();
+  const idea = await prisma.idea.findUnique({
+    where: { id: ideaId },
+    select: { title: true, description: true, category: true, tags: true, authorId: true, ...IDEA_ACCESS_SELECT }
+  });
+
+  if (!idea) {
+    throw new CustomError('Idea not found', 404);
+  }
+
+  if (!canEditIdea(idea, req.user!.id)) {
+    throw new CustomError('Not authorized to analyze this idea', 403);
+  }
+
+  Object.assign(req.body, {
+    title: idea.title,
+    description: idea.description,
+    category: idea.category,
+    tags: idea.tags
+  });
 }
 
-// Enhance idea description
-router.post('/enhance-description',
-  aiRateLimiter,
-  authenticateJWT,
-  validate([
-    body('title').isLength({ min: 5, max: 200 }).withMessage('Title must be 5-200 characters'),
-    body('description').isLength({ min: 10, max: 500 }).withMessage('Description must be 10-500 characters'),
-    body('category').optional().isString().withMessage('Category must be a string')
-  ]),
-  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    if (!genAI) {
-      throw new CustomError('AI service not available', 503);
+// Takes the place of aiQuota on idea-bound analyses. A stored analysis that
+// will answer the request costs nothing, so it's served even when the budget
+// is used up.
+const analysisQuota = (kind: AIAnalysisKind) => asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  await loadAnalysisTarget(req);
+
+  const { ideaId, refresh } = req.body;
+  if (ideaId && !refresh && await findCachedAnalysis(ideaId, kind, hashAnalysisInput(kind, req.body))) {
+    return next();
+  }
+
+  return aiQuota(req, res, next);
+});
+
+const ideaAnalysisValidation = [
+  body('ideaId').optional().isMongoId().withMessage('Invalid idea ID'),
+  body('refresh').optional().isBoolean().withMessage('Refresh must be a boolean')
+];
+
+// JSON paths streamed as "section" events, mapped to the section names clients see
+const ANALYSIS_SECTIONS: Record<string, string> = {
+  'enhancement.improvements': 'improvements',
+  'enhancement.missingFeatures': 'missingFeatures',
+  'enhancement.challenges': 'challenges',
+  'enhancement.opportunities': 'opportunities',
+  techStack: 'techStack',
+  feasibility: 'feasibility',
+  autoTags: 'autoTags'
+};
+
+const ENHANCE_SECTIONS: Record<string, string> = {
+  enhancedDescription: 'enhancedDescription',
+  techStack: 'techStack',
+  complexity: 'complexity',
+  keyFeatures: 'keyFeatures',
+  challenges: 'challenges'
+};
+
+// Runs an AI handler over Server-Sent Events: a "section" event as each part of
+// the model's JSON arrives, then "done" with the body the JSON endpoint would
+// return, or "error". Sections are unvalidated previews; "done" is
+// authoritative. Closing the connection cancels the provider request.
+async function streamAIResponse(
+  res: Response,
+  sections: Record<string, string>,
+  run: (stream: AIStreamHandlers) => Promise<object>
+) {
+  const controller = new AbortController();
+  const sent = new Set<string>();
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    // no-transform keeps the compression middleware from buffering events
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  try {
+    const body = await run({
+      signal: controller.signal,
+      onText: text => {
+        for (const [path, data] of extractCompletedSections(text, Object.keys(sections))) {
+          if (sent.has(path)) continue;
+          sent.add(path);
+          send('section', { section: sections[path], data });
+        }
+      }
+    });
+    send('done', body);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      logger.info('AI stream cancelled by client');
+      return;
     }
+    const status = error instanceof CustomError ? error.statusCode : 500;
+    send('error', { message: error instanceof CustomError ? error.message : 'AI request failed', status });
+  } finally {
+    res.end();
+  }
+}
 
-    const { title, description, category } = req.body;
+const enhanceValidation = [
+  body('title').isLength({ min: 5, max: 200 }).withMessage('Title must be 5-200 characters'),
+  body('description').isLength({ min: 10, max: 500 }).withMessage('Description must be 10-500 characters'),
+  body('category').optional().isString().withMessage('Category must be a string')
+];
 
-    try {
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro-latest' });
+// Shared by the JSON and streaming endpoints
+async function enhanceDescription(req: AuthenticatedRequest, stream?: AIStreamHandlers) {
+  const { title, description, category } = req.body;
 
-      const prompt = `
+  try {
+    const prompt = `
 As an expert in hackathons and tech innovation, enhance this project idea:
 
 Title: ${title}
@@ -54,38 +204,64 @@ Please provide:
 4. Key features to implement
 5. Potential challenges and solutions
 
-Format your response as JSON with these keys: enhancedDescription, techStack, complexity, keyFeatures, challenges
+Format your response as JSON with these keys: enhancedDescription (string), techStack (array of strings), complexity (Beginner, Intermediate or Advanced), keyFeatures (array of strings), challenges (array of strings)
 `;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-
-      // Try to parse JSON response
-      let aiResponse;
-      try {
-        aiResponse = JSON.parse(text);
-      } catch (parseError) {
-        // If JSON parsing fails, create structured response
-        aiResponse = {
-          enhancedDescription: text,
-          techStack: [],
-          complexity: 'Intermediate',
-          keyFeatures: [],
-          challenges: []
-        };
-      }
+    // The fallback keeps the user's own text rather than inventing one
+    const result = await aiService.generateStructured(prompt, {
+      task: 'enhance-description',
+      userId: req.user!.id,
+      stream,
+      fallback: () => ({
+        enhancedDescription: description,
+        techStack: [],
+        complexity: 'Intermediate',
+        keyFeatures: [],
+        challenges: []
+      })
+    });
 
-      logger.info(`AI enhancement generated for user: ${req.user!.username}`);
+    logger.info(`AI enhancement generated for user: ${req.user!.username}`);
+
+    return {
+      message: result.degraded ? 'AI enhancement unavailable' : 'Description enhanced successfully',
+      enhancement: result.data,
+      ...degradation(result)
+    };
+  } catch (error) {
+    if (stream?.signal?.aborted) throw error;
+    logger.error('AI enhancement error:', error);
+    throw toAIError(error, 'Failed to enhance description');
+  }
+}
 
-      res.json({
-        message: 'Description enhanced successfully',
-        enhancement: aiResponse
-      });
-    } catch (error) {
-      logger.error('AI enhancement error:', error);
-      throw new CustomError('Failed to enhance description', 500);
+// Enhance idea description
+router.post('/enhance-description',
+  aiRateLimiter,
+  authenticateJWT,
+  aiQuota,
+  validate(enhanceValidation),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!aiService.isAvailable()) {
+      throw new CustomError('AI service not available', 503);
     }
+
+    res.json(await enhanceDescription(req));
+  })
+);
+
+// Same as /enhance-description, streamed
+router.post('/enhance-description/stream',
+  aiRateLimiter,
+  authenticateJWT,
+  aiQuota,
+  validate(enhanceValidation),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!aiService.isAvailable()) {
+      throw new CustomError('AI service not available', 503);
+    }
+
+    await streamAIResponse(res, ENHANCE_SECTIONS, stream => enhanceDescription(req, stream));
   })
 );
 
@@ -93,6 +269,7 @@ Format your response as JSON with these keys: enhancedDescription, techStack, co
 router.post('/generate-ideas',
   aiRateLimiter,
   authenticateJWT,
+  aiQuota,
   validate([
     body('category').optional().isString().withMessage('Category must be a string'),
     body('keywords').optional().isArray().withMessage('Keywords must be an array'),
@@ -100,15 +277,13 @@ router.post('/generate-ideas',
     body('count').optional().isInt({ min: 1, max: 5 }).withMessage('Count must be 1-5')
   ]),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    if (!genAI) {
+    if (!aiService.isAvailable()) {
       throw new CustomError('AI service not available', 503);
     }
 
     const { category, keywords = [], difficulty = 'Intermediate', count = 3 } = req.body;
 
     try {
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro-latest' });
-
       const prompt = `
 Generate ${count} innovative hackathon project ideas with these specifications:
 
@@ -127,34 +302,18 @@ For each idea, provide:
 Format as JSON array with objects containing: title, description, features, techStack, timeEstimate, audience
 `;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-
-      let ideas;
-      try {
-        ideas = JSON.parse(text);
-      } catch (parseError) {
-        // Fallback if JSON parsing fails
-        ideas = [{
-          title: 'AI-Generated Project Idea',
-          description: text.substring(0, 200),
-          features: ['Feature extraction from AI response'],
-          techStack: ['To be determined'],
-          timeEstimate: '1-2 weeks',
-          audience: 'General developers'
-        }];
-      }
+      const result = await aiService.generateStructured(prompt, { task: 'generate-ideas', userId: req.user!.id });
 
       logger.info(`${count} AI ideas generated for user: ${req.user!.username}`);
 
       res.json({
         message: 'Ideas generated successfully',
-        ideas: Array.isArray(ideas) ? ideas : [ideas]
+        ideas: result.data,
+        ...degradation(result)
       });
     } catch (error) {
       logger.error('AI idea generation error:', error);
-      throw new CustomError('Failed to generate ideas', 500);
+      throw toAIError(error, 'Failed to generate ideas');
     }
   })
 );
@@ -166,18 +325,18 @@ router.post('/analyze-feasibility',
   validate([
     body('title').isLength({ min: 5, max: 200 }).withMessage('Title must be 5-200 characters'),
     body('description').isLength({ min: 10 }).withMessage('Description must be at least 10 characters'),
-    body('timeframe').optional().isString().withMessage('Timeframe must be a string')
+    body('timeframe').optional().isString().withMessage('Timeframe must be a string'),
+    ...ideaAnalysisValidation
   ]),
+  analysisQuota(AIAnalysisKind.FEASIBILITY),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    if (!genAI) {
+    if (!aiService.isAvailable()) {
       throw new CustomError('AI service not available', 503);
     }
 
-    const { title, description, timeframe = '48 hours' } = req.body;
+    const { title, description, timeframe = DEFAULT_FEASIBILITY_TIMEFRAME, ideaId, refresh } = req.body;
 
     try {
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro-latest' });
-
       const prompt = `
 Analyze the feasibility of this hackathon project idea:
 
@@ -195,37 +354,29 @@ Provide analysis on:
 7. Recommendations for success
 
 Format as JSON with keys: technicalFeasibility, scopeScore, innovationScore, marketPotential, requiredSkills, roadblocks, recommendations
-Include numerical scores and detailed explanations.
+Scores are numbers from 1 to 10; every other key is an array of strings.
 `;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-
-      let analysis;
-      try {
-        analysis = JSON.parse(text);
-      } catch (parseError) {
-        analysis = {
-          technicalFeasibility: 7,
-          scopeScore: 6,
-          innovationScore: 8,
-          marketPotential: 7,
-          requiredSkills: ['Programming', 'Problem-solving'],
-          roadblocks: ['Time constraints', 'Technical complexity'],
-          recommendations: [text.substring(0, 200)]
-        };
-      }
+      // No fallback: made-up scores would read as a real assessment
+      const result = await runAnalysis({
+        ideaId,
+        kind: AIAnalysisKind.FEASIBILITY,
+        input: { title, description, timeframe },
+        refresh,
+        generate: () => aiService.generateStructured(prompt, { task: 'analyze-feasibility', userId: req.user!.id })
+      });
 
-      logger.info(`AI feasibility analysis for user: ${req.user!.username}`);
+      logger.info(`AI feasibility analysis for user: ${req.user!.username}${result.cached ? ' (cached)' : ''}`);
 
       res.json({
         message: 'Feasibility analysis completed',
-        analysis
+        analysis: result.data,
+        ...analysisMeta(result),
+        ...degradation(result)
       });
     } catch (error) {
       logger.error('AI feasibility analysis error:', error);
-      throw new CustomError('Failed to analyze feasibility', 500);
+      throw toAIError(error, 'Failed to analyze feasibility');
     }
   })
 );
@@ -234,11 +385,12 @@ Include numerical scores and detailed explanations.
 router.post('/suggest-improvements',
   aiRateLimiter,
   authenticateJWT,
+  aiQuota,
   validate([
     body('ideaId').isString().withMessage('Idea ID is required')
   ]),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    if (!genAI) {
+    if (!aiService.isAvailable()) {
       throw new CustomError('AI service not available', 503);
     }
 
@@ -269,8 +421,6 @@ router.post('/suggest-improvements',
     }
 
     try {
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro-latest' });
-
       const content = idea.content;
       const challenges = content.split('\n').filter((c: string) => c.trim().startsWith('-')).map((c: string) => c.trim().substring(1).trim());
       
@@ -297,84 +447,256 @@ Format as JSON with keys: technical, features, userExperience, marketing, implem
 Each should be an array of specific, actionable suggestions.
 `;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-
-      let suggestions;
-      try {
-        suggestions = JSON.parse(text);
-      } catch (parseError) {
-        suggestions = {
+      const result = await aiService.generateStructured(prompt, {
+        task: 'suggest-improvements',
+        userId: req.user!.id,
+        fallback: () => ({
           technical: ['Review technical architecture'],
           features: ['Consider additional features'],
           userExperience: ['Improve user interface'],
           marketing: ['Define target audience'],
           implementation: ['Plan development phases'],
           presentation: ['Create compelling demo']
-        };
-      }
-
-      // Store AI suggestions in the idea
-      await prisma.idea.update({
-        where: { id: ideaId },
-        data: {
-          aiEnhancedDescription: JSON.stringify(suggestions)
-        }
+        })
       });
 
+      // Store AI suggestions in the idea; generic fallbacks are not worth keeping
+      if (!result.degraded) {
+        await prisma.idea.update({
+          where: { id: ideaId },
+          data: {
+            aiEnhancedDescription: JSON.stringify(result.data)
+          }
+        });
+      }
+
       logger.info(`AI improvement suggestions for idea: ${idea.title}`);
 
       res.json({
-        message: 'Improvement suggestions generated',
-        suggestions
+        message: result.degraded ? 'AI suggestions unavailable, showing general tips' : 'Improvement suggestions generated',
+        suggestions: result.data,
+        ...degradation(result)
       });
     } catch (error) {
       logger.error('AI improvement suggestions error:', error);
-      throw new CustomError('Failed to generate suggestions', 500);
+      throw toAIError(error, 'Failed to generate suggestions');
     }
   })
 );
 
 // Check AI service status
 router.get('/usage', async (_req: any, res: Response) => {
+  const provider = aiService.getProvider();
+  const available = !!provider;
+
   res.json({
-    available: !!genAI,
-    features: {
-      enhanceDescription: !!genAI,
-      generateIdeas: !!genAI,
-      analyzeFeasibility: !!genAI,
-      suggestImprovements: !!genAI,
-      analyzeIdea: !!genAI,
-      recommendTechStack: !!genAI,
-      generateTags: !!genAI
-    }
+    available,
+    provider: provider ? { name: provider.name, model: provider.model } : null,
+    features: Object.fromEntries(FEATURES.map(feature => [feature, available]))
   });
 });
 
-// Comprehensive AI analysis endpoint
-router.post('/analyze',
-  aiRateLimiter,
+// Published ideas that look like a draft. TF-IDF based, so it needs neither a
+// provider nor AI quota and can run as the author types.
+router.post('/similar',
   authenticateJWT,
   validate([
-    body('title').isLength({ min: 5, max: 200 }).withMessage('Title must be 5-200 characters'),
-    body('description').isLength({ min: 10, max: 5000 }).withMessage('Description must be 10-5000 characters'),
-    body('category').optional().isString(),
-    body('tags').optional().isArray()
+    body('title').isString().isLength({ max: 200 }).withMessage('Title must be at most 200 characters'),
+    body('description').optional().isString().isLength({ max: 5000 }).withMessage('Description must be at most 5000 characters'),
+    body('tags').optional().isArray({ max: 10 }).withMessage('Maximum 10 tags allowed'),
+    body('excludeId').optional().isMongoId().withMessage('Invalid idea ID'),
+    body('limit').optional().isInt({ min: 1, max: 10 }).withMessage('Limit must be 1-10')
   ]),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    if (!genAI) {
-      throw new CustomError('AI service not available', 503);
+    const { title, description = '', tags, excludeId, limit } = req.body;
+
+    const similar = await findSimilarIdeas({ title, description, tags }, { excludeId, limit });
+
+    res.json({
+      similar,
+      hasLikelyDuplicate: similar.some(idea => idea.isLikelyDuplicate)
+    });
+  })
+);
+
+// Current user's AI budget and recent usage
+router.get('/usage/me',
+  authenticateJWT,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const [summary, history] = await Promise.all([
+      aiQuotaService.getSummary(req.user!),
+      aiQuotaService.getHistory(req.user!.id)
+    ]);
+
+    res.json({
+      available: aiService.isAvailable(),
+      ...summary,
+      history
+    });
+  })
+);
+
+// Generic, category-based analysis used when the model gives nothing usable.
+// Always returned with degraded: true so it is never mistaken for real advice.
+function buildFallbackAnalysis({ title, description, category, tags }: {
+  title: string;
+  description: string;
+  category?: string;
+  tags?: string[];
+}) {
+  // Pick category-specific defaults from the idea text
+  let selectedCategory = 'default';
+  const descLower = description.toLowerCase();
+  const catLower = (category || '').toLowerCase();
+  
+  if (catLower.includes('web') || descLower.includes('website') || descLower.includes('web app') || descLower.includes('webapp')) {
+    selectedCategory = 'web';
+  } else if (catLower.includes('mobile') || descLower.includes('mobile') || descLower.includes('android') || descLower.includes('ios')) {
+    selectedCategory = 'mobile';
+  } else if (catLower.includes('ai') || catLower.includes('ml') || descLower.includes('machine learning') || descLower.includes('artificial intelligence') || descLower.includes('neural network')) {
+    selectedCategory = 'ai';
+  } else if (catLower.includes('game') || descLower.includes('game') || descLower.includes('gaming')) {
+    selectedCategory = 'game';
+  } else if (catLower.includes('iot') || descLower.includes('iot') || descLower.includes('hardware') || descLower.includes('sensor')) {
+    selectedCategory = 'iot';
+  }
+  
+  const categoryConfigurations = {
+    web: {
+      techStack: [
+        { category: "Frontend", technology: "React", reason: `For "${title}", React provides component reusability and excellent ecosystem`, difficulty: "intermediate", alternatives: ["Vue.js", "Angular", "Svelte"] },
+        { category: "Backend", technology: "Node.js with Express", reason: "JavaScript full-stack for faster development and consistency", difficulty: "beginner", alternatives: ["Python Flask", "Django", "NestJS"] },
+        { category: "Database", technology: "PostgreSQL", reason: "Reliable relational database for structured data", difficulty: "intermediate", alternatives: ["MongoDB", "MySQL", "Supabase"] },
+        { category: "Deployment", technology: "Vercel", reason: "Easy deployment with automatic CI/CD", difficulty: "beginner", alternatives: ["Netlify", "AWS", "Railway"] }
+      ],
+      complexity: 5,
+      timeEstimate: "3-4 weeks for MVP, 2-3 months for full version"
+    },
+    mobile: {
+      techStack: [
+        { category: "Mobile Framework", technology: "React Native", reason: `Cross-platform development for "${title}" saves time and resources`, difficulty: "intermediate", alternatives: ["Flutter", "Swift/Kotlin", "Ionic"] },
+        { category: "Backend", technology: "Firebase", reason: "Real-time database and auth out of the box", difficulty: "beginner", alternatives: ["AWS Amplify", "Supabase", "Custom API"] },
+        { category: "State Management", technology: "Redux", reason: "Predictable state management for complex apps", difficulty: "intermediate", alternatives: ["MobX", "Zustand", "Context API"] }
+      ],
+      complexity: 6,
+      timeEstimate: "4-6 weeks for MVP, 3-4 months for full version"
+    },
+    ai: {
+      techStack: [
+        { category: "ML Framework", technology: "TensorFlow", reason: `For "${title}", TensorFlow offers comprehensive ML capabilities`, difficulty: "advanced", alternatives: ["PyTorch", "Scikit-learn", "Hugging Face"] },
+        { category: "Backend", technology: "Python with FastAPI", reason: "Best ecosystem for AI/ML with modern async support", difficulty: "intermediate", alternatives: ["Flask", "Django", "Node.js"] },
+        { category: "Database", technology: "MongoDB", reason: "Flexible schema for ML model data and results", difficulty: "beginner", alternatives: ["PostgreSQL", "Redis", "Elasticsearch"] },
+        { category: "Cloud", technology: "Google Cloud AI", reason: "Pre-trained models and ML infrastructure", difficulty: "intermediate", alternatives: ["AWS SageMaker", "Azure ML", "Self-hosted"] }
+      ],
+      complexity: 8,
+      timeEstimate: "6-8 weeks for MVP, 4-6 months for production"
+    },
+    game: {
+      techStack: [
+        { category: "Game Engine", technology: "Unity", reason: `For "${title}", Unity provides great tools and cross-platform support`, difficulty: "intermediate", alternatives: ["Unreal Engine", "Godot", "Phaser"] },
+        { category: "Backend", technology: "Photon", reason: "Multiplayer networking made easy", difficulty: "intermediate", alternatives: ["Nakama", "PlayFab", "Custom Server"] },
+        { category: "Database", technology: "PlayFab", reason: "Game-specific backend services", difficulty: "beginner", alternatives: ["Firebase", "MongoDB", "PostgreSQL"] }
+      ],
+      complexity: 7,
+      timeEstimate: "8-12 weeks for MVP, 6+ months for full game"
+    },
+    iot: {
+      techStack: [
+        { category: "Hardware", technology: "Raspberry Pi / Arduino", reason: `For "${title}", these boards provide flexibility and community support`, difficulty: "intermediate", alternatives: ["ESP32", "BeagleBone", "Custom PCB"] },
+        { category: "Backend", technology: "Node.js with MQTT", reason: "Lightweight messaging for IoT devices", difficulty: "intermediate", alternatives: ["Python", "C++", "Java"] },
+        { category: "Database", technology: "InfluxDB", reason: "Time-series data for sensor readings", difficulty: "intermediate", alternatives: ["MongoDB", "PostgreSQL", "TimescaleDB"] },
+        { category: "Cloud", technology: "AWS IoT Core", reason: "Scalable IoT infrastructure", difficulty: "advanced", alternatives: ["Azure IoT", "Google Cloud IoT", "Self-hosted"] }
+      ],
+      complexity: 8,
+      timeEstimate: "6-10 weeks for prototype, 4-6 months for production"
+    },
+    default: {
+      techStack: [
+        { category: "Frontend", technology: "React", reason: `For "${title}", React offers flexibility and extensive libraries`, difficulty: "intermediate", alternatives: ["Vue.js", "Angular", "Svelte"] },
+        { category: "Backend", technology: "Node.js", reason: "JavaScript ecosystem consistency", difficulty: "beginner", alternatives: ["Python", "Java", "Go"] },
+        { category: "Database", technology: "MongoDB", reason: "Flexible schema for rapid development", difficulty: "beginner", alternatives: ["PostgreSQL", "MySQL", "Firebase"] }
+      ],
+      complexity: 5,
+      timeEstimate: "4-6 weeks for MVP, 2-3 months for full version"
     }
+  };
+  
+  const config = categoryConfigurations[selectedCategory] || categoryConfigurations.default;
+  
+  return {
+    enhancement: {
+      improvements: [
+        `Refine the core concept of "${title}" with clearer objectives and success metrics`,
+        `Add user authentication and role-based access control for security`,
+        `Implement comprehensive error handling and user feedback mechanisms`,
+        `Consider accessibility (WCAG) standards for inclusive design`,
+        `Add analytics to track user behavior and engagement`
+      ],
+      missingFeatures: [
+        `Real-time notifications and updates for user engagement`,
+        `Advanced search and filtering capabilities`,
+        `User profile management and customization options`,
+        `Social features like sharing, comments, or collaboration`,
+        `Mobile app or responsive design for on-the-go access`,
+        `Export/import functionality for data portability`
+      ],
+      challenges: [
+        `Scaling architecture as "${title}" grows in users and data`,
+        `Ensuring data security, privacy, and compliance (GDPR, etc.)`,
+        `Managing development complexity while maintaining code quality`,
+        `User acquisition and retention in a competitive market`,
+        `Balancing feature richness with development timeline and resources`
+      ],
+      opportunities: [
+        `${selectedCategory !== 'default' ? `Growing demand in the ${selectedCategory} space` : 'Emerging market opportunity'}`,
+        `Potential for premium features and subscription model`,
+        `Partnership opportunities with complementary platforms`,
+        `Building a community around "${title}"`,
+        `Future expansion into adjacent markets and use cases`
+      ]
+    },
+    techStack: config.techStack,
+    feasibility: {
+      overall: 7,
+      technical: 7,
+      market: 7,
+      complexity: config.complexity,
+      timeEstimate: config.timeEstimate,
+      reasoning: `"${title}" is a ${selectedCategory !== 'default' ? selectedCategory : ''} project with good potential. ${description.length > 150 ? 'Your detailed description shows thoughtful planning.' : 'Consider expanding your description with specific features and target users.'} The technical complexity is ${config.complexity >= 7 ? 'higher due to specialized requirements' : 'moderate with standard technologies'}. ${selectedCategory !== 'default' ? `${selectedCategory.charAt(0).toUpperCase() + selectedCategory.slice(1)} projects typically require ${config.timeEstimate.toLowerCase()}.` : ''} Focus on building a solid MVP to validate the concept before expanding.`,
+      recommendations: [
+        `Start with a minimal viable product (MVP) focusing on 2-3 core features of "${title}"`,
+        `Conduct user interviews and surveys to validate assumptions`,
+        `Use agile development with 2-week sprints for rapid iteration`,
+        `Set up CI/CD pipeline early for consistent deployments`,
+        `Plan for proper testing: unit tests, integration tests, and user testing`,
+        `Document architecture decisions and API specifications`
+      ]
+    },
+    autoTags: [
+      { tag: selectedCategory, confidence: 0.85, category: "domain" },
+      { tag: "mvp-ready", confidence: 0.75, category: "type" },
+      { tag: config.complexity >= 7 ? "advanced" : config.complexity >= 5 ? "intermediate" : "beginner", confidence: 0.8, category: "difficulty" },
+      ...(tags || []).slice(0, 4).map((tag: string) => ({ tag, confidence: 0.65, category: "technology" as const }))
+    ].filter(tag => tag.tag)
+  };
+}
 
-    const { title, description, category, tags } = req.body;
+const analyzeValidation = [
+  body('title').isLength({ min: 5, max: 200 }).withMessage('Title must be 5-200 characters'),
+  body('description').isLength({ min: 10, max: 5000 }).withMessage('Description must be 10-5000 characters'),
+  body('category').optional().isString(),
+  body('tags').optional().isArray(),
+  ...ideaAnalysisValidation
+];
 
-    try {
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-      
-      logger.info(`Starting AI analysis for idea: "${title}"`);
+// Shared by the JSON and streaming endpoints; access to ideaId is checked by analysisQuota
+async function analyzeIdea(req: AuthenticatedRequest, stream?: AIStreamHandlers) {
+  const { title, description, category, tags, ideaId, refresh } = req.body;
 
-      const prompt = `You are an expert tech innovation advisor analyzing a project idea. Analyze this SPECIFIC project idea and provide DETAILED, UNIQUE insights based on its specific content.
+  try {
+    logger.info(`Starting AI analysis for idea: "${title}"`);
+
+    const prompt = `You are an expert tech innovation advisor analyzing a project idea. Analyze this SPECIFIC project idea and provide DETAILED, UNIQUE insights based on its specific content.
 
 PROJECT IDEA:
 Title: ${title}
@@ -477,286 +799,71 @@ IMPORTANT:
 5. Different projects should get DIFFERENT responses
 6. Base tech stack recommendations on the ACTUAL requirements mentioned`;
 
-      logger.info('Sending prompt to Gemini...');
-      const result = await model.generateContent(prompt);
-      logger.info('Received response from Gemini');
-      const responseText = result.response.text();
-      logger.info('Response text length:', responseText.length);
-      
-      // Clean up the response text to extract JSON
-      let cleanedText = responseText.trim();
-      
-      // Remove markdown code blocks if present
-      if (cleanedText.startsWith('```json')) {
-        cleanedText = cleanedText.replace(/^```json\s*\n?/, '').replace(/\n?```\s*$/, '');
-      } else if (cleanedText.startsWith('```')) {
-        cleanedText = cleanedText.replace(/^```\s*\n?/, '').replace(/\n?```\s*$/, '');
-      }
-      
-      logger.info('Cleaned text length:', cleanedText.length);
-      
-      let analysis;
-      try {
-        analysis = JSON.parse(cleanedText);
-        logger.info('Successfully parsed AI response as JSON');
-      } catch (parseError) {
-        logger.error('Failed to parse JSON from AI response:', parseError);
-        logger.error('Raw response:', cleanedText.substring(0, 500));
-        
-        // Generate category-specific fallback based on the actual idea
-        const categoryBasedSuggestions = {
-          'web': {
-            techStack: [
-              { category: "Frontend", technology: "React", reason: "Modern UI development with component reusability", difficulty: "intermediate", alternatives: ["Vue.js", "Angular", "Svelte"] },
-              { category: "Backend", technology: "Node.js", reason: "JavaScript full-stack development", difficulty: "beginner", alternatives: ["Python Flask", "Django", "Express"] },
-              { category: "Database", technology: "PostgreSQL", reason: "Reliable relational data storage", difficulty: "intermediate", alternatives: ["MongoDB", "MySQL", "SQLite"] }
-            ]
-          },
-          'mobile': {
-            techStack: [
-              { category: "Mobile", technology: "React Native", reason: "Cross-platform mobile development", difficulty: "intermediate", alternatives: ["Flutter", "Swift", "Kotlin"] },
-              { category: "Backend", technology: "Firebase", reason: "Quick backend setup with real-time features", difficulty: "beginner", alternatives: ["AWS Amplify", "Supabase", "Node.js"] }
-            ]
-          },
-          'ai': {
-            techStack: [
-              { category: "AI/ML", technology: "TensorFlow", reason: "Comprehensive ML framework", difficulty: "advanced", alternatives: ["PyTorch", "Scikit-learn", "Keras"] },
-              { category: "Backend", technology: "Python", reason: "Best ecosystem for AI/ML development", difficulty: "intermediate", alternatives: ["R", "Julia", "Java"] },
-              { category: "Database", technology: "MongoDB", reason: "Flexible schema for unstructured data", difficulty: "beginner", alternatives: ["PostgreSQL", "Cassandra", "Redis"] }
-            ]
-          },
-          'default': {
-            techStack: [
-              { category: "Frontend", technology: "React", reason: "Popular and well-supported framework", difficulty: "intermediate", alternatives: ["Vue.js", "Angular", "Svelte"] },
-              { category: "Backend", technology: "Node.js", reason: "JavaScript ecosystem consistency", difficulty: "beginner", alternatives: ["Python", "Java", "Go"] },
-              { category: "Database", technology: "MongoDB", reason: "Flexible schema for rapid development", difficulty: "beginner", alternatives: ["PostgreSQL", "MySQL", "Firebase"] }
-            ]
-          }
-        };
-        
-        // Determine category-specific recommendations
-        let selectedCategory = 'default';
-        if (category?.toLowerCase().includes('web') || description.toLowerCase().includes('website') || description.toLowerCase().includes('web app')) {
-          selectedCategory = 'web';
-        } else if (category?.toLowerCase().includes('mobile') || description.toLowerCase().includes('mobile') || description.toLowerCase().includes('app')) {
-          selectedCategory = 'mobile';
-        } else if (category?.toLowerCase().includes('ai') || category?.toLowerCase().includes('ml') || description.toLowerCase().includes('machine learning') || description.toLowerCase().includes('artificial intelligence')) {
-          selectedCategory = 'ai';
-        }
-        
-        // Create idea-specific fallback response
-        analysis = {
-          enhancement: {
-            improvements: [
-              `Enhance the core functionality of "${title}" with more detailed feature specifications`,
-              `Add user authentication and authorization for secure access`,
-              `Implement comprehensive error handling and user feedback mechanisms`,
-              `Consider accessibility features to reach a wider audience`
-            ],
-            missingFeatures: [
-              `Real-time updates and notifications for better user engagement`,
-              `Analytics dashboard to track key metrics and user behavior`,
-              `Search and filtering capabilities for better content discovery`,
-              `Mobile-responsive design or native mobile app support`,
-              `API integration for third-party services`
-            ],
-            challenges: [
-              `Scalability considerations as user base grows`,
-              `Ensuring data security and privacy compliance`,
-              `Managing technical complexity while maintaining code quality`,
-              `Balancing feature richness with development timeline`,
-              `User acquisition and retention strategies`
-            ],
-            opportunities: [
-              `Growing market demand in this domain`,
-              `Potential for monetization through premium features`,
-              `Partnership opportunities with complementary services`,
-              `Community building and user-generated content`,
-              `Future expansion into related areas`
-            ]
-          },
-          techStack: categoryBasedSuggestions[selectedCategory].techStack,
-          feasibility: {
-            overall: 7,
-            technical: 7,
-            market: 7,
-            complexity: 6,
-            timeEstimate: "4-6 weeks for MVP, 2-3 months for full version",
-            reasoning: `The project "${title}" shows promise with moderate technical complexity. ${description.length > 100 ? 'The detailed description indicates good planning.' : 'Consider expanding the description with more specific features.'} ${selectedCategory !== 'default' ? `As a ${selectedCategory} project, it aligns well with current market trends.` : ''} Focus on building an MVP first to validate the concept before expanding features.`,
-            recommendations: [
-              `Start with a minimal viable product focusing on core features`,
-              `Conduct user research and gather feedback early`,
-              `Use agile development methodology for iterative improvements`,
-              `Plan for proper testing and quality assurance`,
-              `Document your code and architecture decisions`
-            ]
-          },
-          autoTags: [
-            { tag: selectedCategory, confidence: 0.8, category: "domain" },
-            { tag: "mvp-ready", confidence: 0.75, category: "type" },
-            { tag: "intermediate", confidence: 0.7, category: "difficulty" },
-            ...(tags || []).slice(0, 3).map(tag => ({ tag, confidence: 0.6, category: "technology" as const }))
-          ]
-        };
-        
-        logger.info('Using enhanced fallback analysis with idea-specific suggestions');
-      }
+    const startedAt = Date.now();
+    logger.info(`Sending prompt to ${aiService.getProvider()?.name}...`);
+    const result = await runAnalysis({
+      ideaId,
+      kind: AIAnalysisKind.ANALYSIS,
+      input: { title, description, category, tags },
+      refresh,
+      generate: () => aiService.generateStructured(prompt, {
+        task: 'analyze',
+        userId: req.user!.id,
+        stream,
+        fallback: () => buildFallbackAnalysis({ title, description, category, tags })
+      })
+    });
 
-      // Add processing time
-      analysis.processingTime = Math.random() * 2 + 1; // 1-3 seconds
-
-      logger.info(`AI comprehensive analysis for: ${title}`);
-      res.json(analysis);
-    } catch (error: any) {
-      logger.error('AI analysis error:', {
-        message: error.message,
-        stack: error.stack,
-        apiKey: process.env.GEMINI_API_KEY ? 'Present' : 'Missing',
-        modelInitialized: !!genAI
-      });
-      
-      // Determine category-specific recommendations based on the actual idea
-      let selectedCategory = 'default';
-      const descLower = description.toLowerCase();
-      const catLower = (category || '').toLowerCase();
-      
-      if (catLower.includes('web') || descLower.includes('website') || descLower.includes('web app') || descLower.includes('webapp')) {
-        selectedCategory = 'web';
-      } else if (catLower.includes('mobile') || descLower.includes('mobile') || descLower.includes('android') || descLower.includes('ios')) {
-        selectedCategory = 'mobile';
-      } else if (catLower.includes('ai') || catLower.includes('ml') || descLower.includes('machine learning') || descLower.includes('artificial intelligence') || descLower.includes('neural network')) {
-        selectedCategory = 'ai';
-      } else if (catLower.includes('game') || descLower.includes('game') || descLower.includes('gaming')) {
-        selectedCategory = 'game';
-      } else if (catLower.includes('iot') || descLower.includes('iot') || descLower.includes('hardware') || descLower.includes('sensor')) {
-        selectedCategory = 'iot';
-      }
-      
-      const categoryConfigurations = {
-        web: {
-          techStack: [
-            { category: "Frontend", technology: "React", reason: `For "${title}", React provides component reusability and excellent ecosystem`, difficulty: "intermediate", alternatives: ["Vue.js", "Angular", "Svelte"] },
-            { category: "Backend", technology: "Node.js with Express", reason: "JavaScript full-stack for faster development and consistency", difficulty: "beginner", alternatives: ["Python Flask", "Django", "NestJS"] },
-            { category: "Database", technology: "PostgreSQL", reason: "Reliable relational database for structured data", difficulty: "intermediate", alternatives: ["MongoDB", "MySQL", "Supabase"] },
-            { category: "Deployment", technology: "Vercel", reason: "Easy deployment with automatic CI/CD", difficulty: "beginner", alternatives: ["Netlify", "AWS", "Railway"] }
-          ],
-          complexity: 5,
-          timeEstimate: "3-4 weeks for MVP, 2-3 months for full version"
-        },
-        mobile: {
-          techStack: [
-            { category: "Mobile Framework", technology: "React Native", reason: `Cross-platform development for "${title}" saves time and resources`, difficulty: "intermediate", alternatives: ["Flutter", "Swift/Kotlin", "Ionic"] },
-            { category: "Backend", technology: "Firebase", reason: "Real-time database and auth out of the box", difficulty: "beginner", alternatives: ["AWS Amplify", "Supabase", "Custom API"] },
-            { category: "State Management", technology: "Redux", reason: "Predictable state management for complex apps", difficulty: "intermediate", alternatives: ["MobX", "Zustand", "Context API"] }
-          ],
-          complexity: 6,
-          timeEstimate: "4-6 weeks for MVP, 3-4 months for full version"
-        },
-        ai: {
-          techStack: [
-            { category: "ML Framework", technology: "TensorFlow", reason: `For "${title}", TensorFlow offers comprehensive ML capabilities`, difficulty: "advanced", alternatives: ["PyTorch", "Scikit-learn", "Hugging Face"] },
-            { category: "Backend", technology: "Python with FastAPI", reason: "Best ecosystem for AI/ML with modern async support", difficulty: "intermediate", alternatives: ["Flask", "Django", "Node.js"] },
-            { category: "Database", technology: "MongoDB", reason: "Flexible schema for ML model data and results", difficulty: "beginner", alternatives: ["PostgreSQL", "Redis", "Elasticsearch"] },
-            { category: "Cloud", technology: "Google Cloud AI", reason: "Pre-trained models and ML infrastructure", difficulty: "intermediate", alternatives: ["AWS SageMaker", "Azure ML", "Self-hosted"] }
-          ],
-          complexity: 8,
-          timeEstimate: "6-8 weeks for MVP, 4-6 months for production"
-        },
-        game: {
-          techStack: [
-            { category: "Game Engine", technology: "Unity", reason: `For "${title}", Unity provides great tools and cross-platform support`, difficulty: "intermediate", alternatives: ["Unreal Engine", "Godot", "Phaser"] },
-            { category: "Backend", technology: "Photon", reason: "Multiplayer networking made easy", difficulty: "intermediate", alternatives: ["Nakama", "PlayFab", "Custom Server"] },
-            { category: "Database", technology: "PlayFab", reason: "Game-specific backend services", difficulty: "beginner", alternatives: ["Firebase", "MongoDB", "PostgreSQL"] }
-          ],
-          complexity: 7,
-          timeEstimate: "8-12 weeks for MVP, 6+ months for full game"
-        },
-        iot: {
-          techStack: [
-            { category: "Hardware", technology: "Raspberry Pi / Arduino", reason: `For "${title}", these boards provide flexibility and community support`, difficulty: "intermediate", alternatives: ["ESP32", "BeagleBone", "Custom PCB"] },
-            { category: "Backend", technology: "Node.js with MQTT", reason: "Lightweight messaging for IoT devices", difficulty: "intermediate", alternatives: ["Python", "C++", "Java"] },
-            { category: "Database", technology: "InfluxDB", reason: "Time-series data for sensor readings", difficulty: "intermediate", alternatives: ["MongoDB", "PostgreSQL", "TimescaleDB"] },
-            { category: "Cloud", technology: "AWS IoT Core", reason: "Scalable IoT infrastructure", difficulty: "advanced", alternatives: ["Azure IoT", "Google Cloud IoT", "Self-hosted"] }
-          ],
-          complexity: 8,
-          timeEstimate: "6-10 weeks for prototype, 4-6 months for production"
-        },
-        default: {
-          techStack: [
-            { category: "Frontend", technology: "React", reason: `For "${title}", React offers flexibility and extensive libraries`, difficulty: "intermediate", alternatives: ["Vue.js", "Angular", "Svelte"] },
-            { category: "Backend", technology: "Node.js", reason: "JavaScript ecosystem consistency", difficulty: "beginner", alternatives: ["Python", "Java", "Go"] },
-            { category: "Database", technology: "MongoDB", reason: "Flexible schema for rapid development", difficulty: "beginner", alternatives: ["PostgreSQL", "MySQL", "Firebase"] }
-          ],
-          complexity: 5,
-          timeEstimate: "4-6 weeks for MVP, 2-3 months for full version"
-        }
-      };
-      
-      const config = categoryConfigurations[selectedCategory] || categoryConfigurations.default;
-      
-      // Return idea-specific fallback response
-      const fallbackAnalysis = {
-        enhancement: {
-          improvements: [
-            `Refine the core concept of "${title}" with clearer objectives and success metrics`,
-            `Add user authentication and role-based access control for security`,
-            `Implement comprehensive error handling and user feedback mechanisms`,
-            `Consider accessibility (WCAG) standards for inclusive design`,
-            `Add analytics to track user behavior and engagement`
-          ],
-          missingFeatures: [
-            `Real-time notifications and updates for user engagement`,
-            `Advanced search and filtering capabilities`,
-            `User profile management and customization options`,
-            `Social features like sharing, comments, or collaboration`,
-            `Mobile app or responsive design for on-the-go access`,
-            `Export/import functionality for data portability`
-          ],
-          challenges: [
-            `Scaling architecture as "${title}" grows in users and data`,
-            `Ensuring data security, privacy, and compliance (GDPR, etc.)`,
-            `Managing development complexity while maintaining code quality`,
-            `User acquisition and retention in a competitive market`,
-            `Balancing feature richness with development timeline and resources`
-          ],
-          opportunities: [
-            `${selectedCategory !== 'default' ? `Growing demand in the ${selectedCategory} space` : 'Emerging market opportunity'}`,
-            `Potential for premium features and subscription model`,
-            `Partnership opportunities with complementary platforms`,
-            `Building a community around "${title}"`,
-            `Future expansion into adjacent markets and use cases`
-          ]
-        },
-        techStack: config.techStack,
-        feasibility: {
-          overall: 7,
-          technical: 7,
-          market: 7,
-          complexity: config.complexity,
-          timeEstimate: config.timeEstimate,
-          reasoning: `"${title}" is a ${selectedCategory !== 'default' ? selectedCategory : ''} project with good potential. ${description.length > 150 ? 'Your detailed description shows thoughtful planning.' : 'Consider expanding your description with specific features and target users.'} The technical complexity is ${config.complexity >= 7 ? 'higher due to specialized requirements' : 'moderate with standard technologies'}. ${selectedCategory !== 'default' ? `${selectedCategory.charAt(0).toUpperCase() + selectedCategory.slice(1)} projects typically require ${config.timeEstimate.toLowerCase()}.` : ''} Focus on building a solid MVP to validate the concept before expanding.`,
-          recommendations: [
-            `Start with a minimal viable product (MVP) focusing on 2-3 core features of "${title}"`,
-            `Conduct user interviews and surveys to validate assumptions`,
-            `Use agile development with 2-week sprints for rapid iteration`,
-            `Set up CI/CD pipeline early for consistent deployments`,
-            `Plan for proper testing: unit tests, integration tests, and user testing`,
-            `Document architecture decisions and API specifications`
-          ]
-        },
-        autoTags: [
-          { tag: selectedCategory, confidence: 0.85, category: "domain" },
-          { tag: "mvp-ready", confidence: 0.75, category: "type" },
-          { tag: config.complexity >= 7 ? "advanced" : config.complexity >= 5 ? "intermediate" : "beginner", confidence: 0.8, category: "difficulty" },
-          ...(tags || []).slice(0, 4).map((tag: string) => ({ tag, confidence: 0.65, category: "technology" as const }))
-        ].filter(tag => tag.tag),
-        processingTime: 1.5,
-        note: "AI service temporarily unavailable - showing intelligent fallback analysis based on your idea"
-      };
-
-      logger.info(`Idea-specific fallback analysis provided for: ${title} (category: ${selectedCategory})`);
-      res.json(fallbackAnalysis);
+    if (result.degraded) {
+      logger.info(`Fallback analysis provided for: ${title} (${result.degradedReason})`);
+    } else {
+      logger.info(`AI comprehensive analysis for: ${title}${result.cached ? ' (cached)' : ''}`);
+    }
+
+    return {
+      ...result.data,
+      processingTime: (Date.now() - startedAt) / 1000,
+      ...analysisMeta(result),
+      ...degradation(result)
+    };
+  } catch (error: any) {
+    if (stream?.signal?.aborted) throw error;
+    logger.error('AI analysis error:', {
+      message: error.message,
+      stack: error.stack,
+      provider: aiService.getProvider()?.name || 'none'
+    });
+    throw toAIError(error, 'Failed to analyze idea');
+  }
+}
+
+// Comprehensive AI analysis endpoint
+router.post('/analyze',
+  aiRateLimiter,
+  authenticateJWT,
+  validate(analyzeValidation),
+  analysisQuota(AIAnalysisKind.ANALYSIS),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!aiService.isAvailable()) {
+      throw new CustomError('AI service not available', 503);
     }
+
+    res.json(await analyzeIdea(req));
+  })
+);
+
+// Same as /analyze, streamed section by section
+router.post('/analyze/stream',
+  aiRateLimiter,
+  authenticateJWT,
+  validate(analyzeValidation),
+  analysisQuota(AIAnalysisKind.ANALYSIS),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!aiService.isAvailable()) {
+      throw new CustomError('AI service not available', 503);
+    }
+
+    await streamAIResponse(res, ANALYSIS_SECTIONS, stream => analyzeIdea(req, stream));
   })
 );
 
@@ -767,18 +874,18 @@ router.post('/tech-stack',
   validate([
     body('title').isLength({ min: 5, max: 200 }),
     body('description').isLength({ min: 10, max: 5000 }),
-    body('category').optional().isString()
+    body('category').optional().isString(),
+    ...ideaAnalysisValidation
   ]),
+  analysisQuota(AIAnalysisKind.TECH_STACK),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    if (!genAI) {
+    if (!aiService.isAvailable()) {
       throw new CustomError('AI service not available', 503);
     }
 
-    const { title, description, category } = req.body;
+    const { title, description, category, ideaId, refresh } = req.body;
 
     try {
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro-latest' });
-
       const prompt = `
 Based on this project idea, recommend a comprehensive tech stack:
 
@@ -799,73 +906,58 @@ Return a JSON array of technology recommendations in this format:
 
 Include categories like Frontend, Backend, Database, Deployment, Testing, etc. as appropriate.`;
 
-      const result = await model.generateContent(prompt);
-      const text = result.response.text();
-      
-      let techStack;
-      try {
-        techStack = JSON.parse(text);
-      } catch (parseError) {
-        techStack = [
+      const generate = () => aiService.generateStructured(prompt, {
+        task: 'tech-stack',
+        userId: req.user!.id,
+        fallback: () => [
           {
             category: "Frontend",
             technology: "React",
-            reason: "Component-based architecture perfect for interactive UIs",
+            reason: "Popular, well-documented, and has excellent community support",
             difficulty: "intermediate",
             alternatives: ["Vue.js", "Angular", "Svelte"]
           },
           {
             category: "Backend",
             technology: "Node.js",
-            reason: "JavaScript runtime for full-stack development",
+            reason: "JavaScript ecosystem consistency and extensive npm packages",
+            difficulty: "beginner",
+            alternatives: ["Python", "Java", "Go"]
+          },
+          {
+            category: "Database",
+            technology: "MongoDB",
+            reason: "Flexible schema for rapid development and easy scaling",
             difficulty: "beginner",
-            alternatives: ["Python Django", "Ruby on Rails", "Go"]
+            alternatives: ["PostgreSQL", "MySQL", "Firebase"]
+          },
+          {
+            category: "Deployment",
+            technology: "Vercel",
+            reason: "Simple deployment with automatic CI/CD and excellent performance",
+            difficulty: "beginner",
+            alternatives: ["Netlify", "AWS", "Heroku"]
           }
-        ];
-      }
+        ]
+      });
 
-      logger.info(`AI tech stack recommendations for: ${title}`);
-      res.json(techStack);
-    } catch (error) {
-      logger.error('AI tech stack error:', error);
-      
-      // Fallback tech stack recommendations
-      const fallbackTechStack = [
-        {
-          category: "Frontend",
-          technology: "React",
-          reason: "Popular, well-documented, and has excellent community support",
-          difficulty: "intermediate",
-          alternatives: ["Vue.js", "Angular", "Svelte"]
-        },
-        {
-          category: "Backend",
-          technology: "Node.js",
-          reason: "JavaScript ecosystem consistency and extensive npm packages",
-          difficulty: "beginner",
-          alternatives: ["Python", "Java", "Go"]
-        },
-        {
-          category: "Database",
-          technology: "MongoDB",
-          reason: "Flexible schema for rapid development and easy scaling",
-          difficulty: "beginner",
-          alternatives: ["PostgreSQL", "MySQL", "Firebase"]
-        },
-        {
-          category: "Deployment",
-          technology: "Vercel",
-          reason: "Simple deployment with automatic CI/CD and excellent performance",
-          difficulty: "beginner",
-          alternatives: ["Netlify", "AWS", "Heroku"]
-        }
-      ];
+      const result = await runAnalysis({
+        ideaId,
+        kind: AIAnalysisKind.TECH_STACK,
+        input: { title, description, category },
+        refresh,
+        generate
+      });
 
-      logger.info(`Fallback tech stack provided for: ${title}`);
+      logger.info(`${result.degraded ? 'Fallback' : 'AI'} tech stack recommendations for: ${title}`);
       res.json({
-        recommendations: fallbackTechStack,
-        note: "AI service temporarily unavailable - showing fallback recommendations"
+        techStack: result.data,
+        ...analysisMeta(result),
+        ...degradation(result)
       });
+    } catch (error) {
+      logger.error('AI tech stack error:', error);
+      throw toAIError(error, 'Failed to recommend a tech stack');
     }
   })
 );
@@ -874,21 +966,20 @@ Include categories like Frontend, Backend, Database, Deployment, Testing, etc. a
 router.post('/tags',
   aiRateLimiter,
   authenticateJWT,
+  aiQuota,
   validate([
     body('title').isLength({ min: 5, max: 200 }),
     body('description').isLength({ min: 10, max: 5000 }),
     body('category').optional().isString()
   ]),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    if (!genAI) {
+    if (!aiService.isAvailable()) {
       throw new CustomError('AI service not available', 503);
     }
 
     const { title, description, category } = req.body;
 
     try {
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro-latest' });
-
       const prompt = `
 Generate relevant tags for this project idea:
 
@@ -909,25 +1000,14 @@ Categories should be: technology, domain, difficulty, type
 Confidence should be 0-1 (higher = more relevant)
 Generate 5-10 highly relevant tags.`;
 
-      const result = await model.generateContent(prompt);
-      const text = result.response.text();
-      
-      let autoTags;
-      try {
-        autoTags = JSON.parse(text);
-      } catch (parseError) {
-        autoTags = [
-          { tag: "web-development", confidence: 0.8, category: "technology" },
-          { tag: "user-interface", confidence: 0.7, category: "technology" },
-          { tag: "beginner-friendly", confidence: 0.6, category: "difficulty" }
-        ];
-      }
+      // No fallback: generic tags would end up applied to the idea
+      const result = await aiService.generateStructured(prompt, { task: 'tags', userId: req.user!.id });
 
       logger.info(`AI tag generation for: ${title}`);
-      res.json(autoTags);
+      res.json(result.data);
     } catch (error) {
       logger.error('AI tag generation error:', error);
-      throw new CustomError('Failed to generate tags', 500);
+      throw toAIError(error, 'Failed to generate tags');
     }
   })
 );
@@ -936,20 +1016,19 @@ Generate 5-10 highly relevant tags.`;
 router.post('/suggest-description',
   aiRateLimiter,
   authenticateJWT,
+  aiQuota,
   validate([
     body('title').isLength({ min: 1, max: 200 }),
     body('description').isLength({ min: 1, max: 5000 })
   ]),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    if (!genAI) {
+    if (!aiService.isAvailable()) {
       throw new CustomError('AI service not available', 503);
     }
 
     const { title, description } = req.body;
 
     try {
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro-latest' });
-
       const prompt = `
 Given this project idea, suggest 3-5 specific additions or improvements to the description:
 
@@ -967,42 +1046,28 @@ Return a JSON object:
 
 Focus on missing details, target audience, technical specifics, or unique value propositions.`;
 
-      const result = await model.generateContent(prompt);
-      const text = result.response.text();
-      
-      let response;
-      try {
-        response = JSON.parse(text);
-      } catch (parseError) {
-        response = {
+      const result = await aiService.generateStructured(prompt, {
+        task: 'suggest-description',
+        userId: req.user!.id,
+        fallback: () => ({
           suggestions: [
             "Consider explaining the target audience and their specific needs",
-            "Add details about the unique value proposition",
-            "Include information about core features and user workflow",
-            "Describe the technical approach or innovative aspects"
+            "Add details about the unique value proposition that sets this apart from competitors",
+            "Include information about core features and expected user workflow",
+            "Describe the technical approach or innovative aspects that make this feasible",
+            "Mention potential challenges and how they might be addressed"
           ]
-        };
-      }
+        })
+      });
 
-      logger.info(`AI description suggestions for: ${title}`);
-      res.json(response);
+      logger.info(`${result.degraded ? 'Fallback' : 'AI'} description suggestions for: ${title}`);
+      res.json({
+        ...result.data,
+        ...degradation(result)
+      });
     } catch (error) {
       logger.error('AI description suggestions error:', error);
-      
-      // Fallback response
-      const fallbackResponse = {
-        suggestions: [
-          "Consider explaining the target audience and their specific needs",
-          "Add details about the unique value proposition that sets this apart from competitors",
-          "Include information about core features and expected user workflow",
-          "Describe the technical approach or innovative aspects that make this feasible",
-          "Mention potential challenges and how they might be addressed"
-        ],
-        note: "AI service temporarily unavailable - showing fallback suggestions"
-      };
-
-      logger.info(`Fallback description suggestions provided for: ${title}`);
-      res.json(fallbackResponse);
+      throw toAIError(error, 'Failed to suggest description improvements');
     }
   })
 );
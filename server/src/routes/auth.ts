@@ -11,6 +11,8 @@ import { validate } from '../middleware/validation';
 import { strictRateLimiter } from '../middleware/rateLimiter';
 import { authenticateJWT, generateTokens, verifyRefreshToken } from '../middleware/auth';
 import { CustomError } from '../middleware/errorHandler';
+import { emailService } from '../services/emailService';
+import { permissionsFor } from '../policies/permissions';
 
 const router = express.Router();
 
@@ -30,6 +32,9 @@ const forgotPasswordValidation = [
   body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
 ];
 
+// Password reset links stay valid for this long
+const RESET_TOKEN_TTL_MINUTES = 60;
+
 // Register
 router.post('/register', strictRateLimiter, validate(registerValidation), asyncHandler(async (req: any, res: any) => {
   const prisma = getDatabase();
@@ -81,16 +86,19 @@ router.post('/register', strictRateLimiter, validate(registerValidation), asyncH
       username: true,
       avatar: true,
       emailVerified: true,
+      role: true,
       createdAt: true
     }
   });
 
   // Generate tokens
-  const { accessToken, refreshToken } = generateTokens(user.id);
+  const { accessToken, refreshToken } = generateTokens(user);
 
   // Store refresh token in cache
   await cacheService.set(`refresh_token:${user.id}`, refreshToken, 7 * 24 * 60 * 60); // 7 days
 
+  await emailService.sendVerificationEmail(user, emailVerifyToken);
+
   logger.info(`User registered: ${user.username}`);
 
   res.status(201).json({
@@ -117,7 +125,7 @@ router.post('/login', strictRateLimiter, validate(loginValidation), asyncHandler
     }
 
     // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(user.id);
+    const { accessToken, refreshToken } = generateTokens(user);
 
     // Store refresh token in cache
     await cacheService.set(`refresh_token:${user.id}`, refreshToken, 7 * 24 * 60 * 60);
@@ -125,7 +133,8 @@ router.post('/login', strictRateLimiter, validate(loginValidation), asyncHandler
     logger.info(`User logged in: ${user.username} (${user.email})`);
 
     res.json({
-      message: 'Login successful',
+      message: user.accountRestored ? 'Welcome back! Your account has been restored' : 'Login successful',
+      accountRestored: !!user.accountRestored,
       user: {
         id: user.id,
         email: user.email,
@@ -133,6 +142,8 @@ router.post('/login', strictRateLimiter, validate(loginValidation), asyncHandler
         avatar: user.avatar,
         emailVerified: user.emailVerified,
         karmaScore: user.karmaScore,
+        role: user.role,
+        permissions: permissionsFor(user.role),
         createdAt: user.createdAt
       },
       tokens: {
@@ -164,7 +175,7 @@ router.post('/refresh', asyncHandler(async (req: any, res: any) => {
   // Get user from database
   const user = await prisma.user.findUnique({
     where: { id: decoded.userId },
-    select: { id: true, isActive: true }
+    select: { id: true, isActive: true, role: true }
   });
 
   if (!user || !user.isActive) {
@@ -172,7 +183,8 @@ router.post('/refresh', asyncHandler(async (req: any, res: any) => {
   }
 
   // Generate new tokens
-  const tokens = generateTokens(user.id);
+  // Picks up any role change since the last token
+  const tokens = generateTokens(user);
 
   // Update refresh token in cache
   await cacheService.set(`refresh_token:${user.id}`, tokens.refreshToken, 7 * 24 * 60 * 60);
@@ -202,13 +214,26 @@ router.get('/google', passport.authenticate('google', {
   scope: ['profile', 'email']
 }));
 
-router.get('/google/callback', 
-  passport.authenticate('google', { session: false }),
+router.get('/google/callback',
+  // Refused sign-ins (e.g. suspended accounts) go back to the client with the reason
+  (req: any, res: any, next: any) => {
+    passport.authenticate('google', { session: false }, (err: any, user: any, info: any) => {
+      if (err) {
+        return next(err);
+      }
+      if (!user) {
+        const message = encodeURIComponent(info?.message || 'Authentication failed');
+        return res.redirect(`${process.env['CLIENT_URL']}/auth/callback?success=false&error=${message}`);
+      }
+      req.user = user;
+      next();
+    })(req, res, next);
+  },
   asyncHandler(async (req: any, res: any) => {
     const user = req.user;
     
     // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(user.id);
+    const { accessToken, refreshToken } = generateTokens(user);
     
     // Store refresh token
     await cacheService.set(`refresh_token:${user.id}`, refreshToken, 7 * 24 * 60 * 60);
@@ -222,12 +247,16 @@ router.get('/google/callback',
       avatar: user.avatar,
       emailVerified: user.emailVerified,
       karmaScore: user.karmaScore,
+      role: user.role,
+      permissions: permissionsFor(user.role),
       createdAt: user.createdAt
     }));
     const accessTokenQuery = encodeURIComponent(accessToken);
     const refreshTokenQuery = encodeURIComponent(refreshToken);
 
-    res.redirect(`${clientUrl}/auth/callback?success=true&user=${userQuery}&accessToken=${accessTokenQuery}&refreshToken=${refreshTokenQuery}`);
+    const restoredQuery = user.accountRestored ? '&restored=true' : '';
+
+    res.redirect(`${clientUrl}/auth/callback?success=true&user=${userQuery}&accessToken=${accessTokenQuery}&refreshToken=${refreshTokenQuery}${restoredQuery}`);
   })
 );
 
@@ -260,6 +289,33 @@ router.post('/verify-email', asyncHandler(async (req: any, res: any) => {
   });
 }));
 
+// Resend verification email
+router.post('/resend-verification', strictRateLimiter, validate(forgotPasswordValidation), asyncHandler(async (req: any, res: any) => {
+  const prisma = getDatabase();
+  const { email } = req.body;
+
+  const user = await prisma.user.findUnique({
+    where: { email }
+  });
+
+  // Don't reveal whether the email exists or is already verified
+  if (user && !user.emailVerified) {
+    const emailVerifyToken = uuidv4();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerifyToken }
+    });
+
+    await emailService.sendVerificationEmail(user, emailVerifyToken);
+    logger.info(`Verification email resent for: ${user.email}`);
+  }
+
+  res.json({
+    message: 'If the email is registered and unverified, a verification link has been sent'
+  });
+}));
+
 // Forgot password
 router.post('/forgot-password', strictRateLimiter, validate(forgotPasswordValidation), asyncHandler(async (req: any, res: any) => {
   const prisma = getDatabase();
@@ -279,7 +335,7 @@ router.post('/forgot-password', strictRateLimiter, validate(forgotPasswordValida
   }
 
   const resetToken = uuidv4();
-  const resetExpires = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
+  const resetExpires = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
 
   await prisma.user.update({
     where: { id: user.id },
@@ -289,7 +345,7 @@ router.post('/forgot-password', strictRateLimiter, validate(forgotPasswordValida
     }
   });
 
-  // TODO: Send email with reset link
+  await emailService.sendPasswordResetEmail(user, resetToken, RESET_TOKEN_TTL_MINUTES);
   logger.info(`Password reset requested for: ${user.email}`);
 
   res.json({
@@ -350,6 +406,7 @@ router.get('/me', authenticateJWT as any, asyncHandler(async (req: any, res: any
       skills: true,
       socialLinks: true,
       karmaScore: true,
+      role: true,
       emailVerified: true,
       createdAt: true,
       updatedAt: true,
@@ -362,7 +419,7 @@ router.get('/me', authenticateJWT as any, asyncHandler(async (req: any, res: any
   });
 
   res.json({
-    user
+    user: user && { ...user, permissions: permissionsFor(user.role) }
   });
 }));
 
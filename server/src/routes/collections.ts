@@ -5,6 +5,7 @@ import { logger } from '../config/logger';
 import { asyncHandler } from '../middleware/errorHandler';
 import { validate } from '../middleware/validation';
 import { authenticateJWT, AuthenticatedRequest } from '../middleware/auth';
+import { canViewIdea, IDEA_ACCESS_SELECT, visibleIdeaRelationWhere } from '../policies/ideaVisibility';
 
 const router = express.Router();
 
@@ -26,6 +27,8 @@ router.get('/', authenticateJWT, asyncHandler(async (req: AuthenticatedRequest,
       where: { userId },
       include: {
         items: {
+          // Ideas unpublished since they were saved drop out of the collection view
+          where: { idea: visibleIdeaRelationWhere(userId) },
           include: {
             idea: {
               include: {
@@ -50,7 +53,7 @@ router.get('/', authenticateJWT, asyncHandler(async (req: AuthenticatedRequest,
         },
         _count: {
           select: {
-            items: true
+            items: { where: { idea: visibleIdeaRelationWhere(userId) } }
           }
         }
       },
@@ -279,10 +282,11 @@ router.post('/:id/ideas', authenticateJWT, validate([
 
     // Check if idea exists
     const idea = await prisma.idea.findUnique({
-      where: { id: ideaId }
+      where: { id: ideaId },
+      include: IDEA_ACCESS_SELECT
     });
 
-    if (!idea) {
+    if (!idea || !canViewIdea(idea, userId)) {
       return res.status(404).json({
         success: false,
         message: 'Idea not found'
@@ -475,6 +479,7 @@ router.get('/public', validate([
             }
           },
           items: {
+            where: { idea: visibleIdeaRelationWhere() },
             include: {
               idea: {
                 include: {
@@ -493,7 +498,7 @@ router.get('/public', validate([
           },
           _count: {
             select: {
-              items: true
+              items: { where: { idea: visibleIdeaRelationWhere() } }
             }
           }
         },
@@ -0,0 +1,59 @@
+import request from 'supertest';
+import { notificationService } from '../services/notificationService';
+import { createFakePrisma } from '../test/fakePrisma';
+import { authHeader, createTestApp } from '../test/testApp';
+import { seedVisibilityFixtures } from '../test/visibilityFixtures';
+import commentRoutes from './comments';
+
+const mockPrisma = createFakePrisma();
+jest.mock('../config/database', () => ({ getDatabase: () => mockPrisma }));
+
+const app = createTestApp({ '/api/comments': commentRoutes });
+
+describe('comment mentions', () => {
+  let fixtures: Awaited<ReturnType<typeof seedVisibilityFixtures>>;
+
+  const mentionedIds = () => (notificationService.notifyMentions as jest.Mock).mock.calls
+    .flatMap(([mentions]) => mentions.map((mention: { userId: string }) => mention.userId));
+
+  const comment = (ideaId: string, content: string) => request(app)
+    .post('/api/comments')
+    .set(authHeader(fixtures.author))
+    .send({ ideaId, content });
+
+  beforeEach(async () => {
+    mockPrisma.$reset();
+    fixtures = await seedVisibilityFixtures(mockPrisma);
+    jest.spyOn(notificationService, 'notifyComment').mockResolvedValue(undefined);
+    jest.spyOn(notificationService, 'notifyMentions').mockResolvedValue([]);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('notifies everyone mentioned on a published idea', async () => {
+    const response = await comment(fixtures.published.id, 'What do @collaborator and @stranger think?');
+
+    expect(response.status).toBe(201);
+    expect(mentionedIds().sort()).toEqual([fixtures.collaborator.id, fixtures.stranger.id].sort());
+  });
+
+  it('only notifies people who can open a draft', async () => {
+    const response = await comment(fixtures.draft.id, 'What do @collaborator and @stranger think?');
+
+    expect(response.status).toBe(201);
+    expect(mentionedIds()).toEqual([fixtures.collaborator.id]);
+  });
+
+  it('only notifies people who can open a draft when a comment is edited', async () => {
+    const created = await comment(fixtures.draft.id, 'What does everyone think?');
+    (notificationService.notifyMentions as jest.Mock).mockClear();
+
+    const response = await request(app)
+      .put(`/api/comments/${created.body.comment.id}`)
+      .set(authHeader(fixtures.author))
+      .send({ content: 'What do @collaborator and @stranger think?' });
+
+    expect(response.status).toBe(200);
+    expect(mentionedIds()).toEqual([fixtures.collaborator.id]);
+  });
+});
@@ -4,13 +4,23 @@ import { getDatabase } from '../config/database';
 import { logger } from '../config/logger';
 import { asyncHandler } from '../middleware/errorHandler';
 import { validate } from '../middleware/validation';
-import { authenticateJWT, AuthenticatedRequest } from '../middleware/auth';
+import { authenticateJWT, optionalAuth, AuthenticatedRequest } from '../middleware/auth';
 import { CustomError } from '../middleware/errorHandler';
+import { notificationService } from '../services/notificationService';
+import { resolveMentions, getAddedMentions, ResolvedMention } from '../services/mentionService';
+import { assertCanViewIdea, canViewIdea, IDEA_ACCESS_SELECT, IdeaVisibilityFields } from '../policies/ideaVisibility';
+import { reportContent } from '../services/moderationService';
+import { recordHeldContent, screenContent } from '../services/contentScreeningService';
+import { ReportReason, ReportTargetType, ScreeningAction } from '@prisma/client';
 
 const router = express.Router();
 
+// Comments on drafts and archived ideas only notify mentioned users who can open the idea
+const mentionsWhoCanView = (idea: IdeaVisibilityFields, mentions: ResolvedMention[]) =>
+  mentions.filter(mention => canViewIdea(idea, mention.userId));
+
 // Get comments for an idea
-router.get('/', validate([
+router.get('/', optionalAuth, validate([
   query('ideaId').isString().withMessage('Idea ID is required'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50'),
@@ -26,12 +36,10 @@ router.get('/', validate([
   // Verify idea exists
   const idea = await prisma.idea.findUnique({
     where: { id: ideaId as string },
-    select: { id: true }
+    select: { id: true, status: true, authorId: true, ...IDEA_ACCESS_SELECT }
   });
 
-  if (!idea) {
-    throw new CustomError('Idea not found', 404);
-  }
+  assertCanViewIdea(idea, req.user?.id);
 
   // Always sort by newest first for reliability
   let orderBy: any = { createdAt: 'desc' };
@@ -135,7 +143,7 @@ router.get('/', validate([
 }));
 
 // Get replies for a comment
-router.get('/:commentId/replies', validate([
+router.get('/:commentId/replies', optionalAuth, validate([
   param('commentId').isString().withMessage('Comment ID is required'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50')
@@ -146,6 +154,13 @@ router.get('/:commentId/replies', validate([
   const limit = parseInt(req.query.limit as string) || 20;
   const offset = (page - 1) * limit;
 
+  const parent = await prisma.comment.findUnique({
+    where: { id: commentId },
+    select: { idea: { select: { status: true, authorId: true, ...IDEA_ACCESS_SELECT } } }
+  });
+
+  assertCanViewIdea(parent?.idea || null, req.user?.id);
+
   const [replies, total] = await Promise.all([
     prisma.comment.findMany({
       where: {
@@ -207,18 +222,17 @@ router.post('/', authenticateJWT, validate([
   // Verify idea exists
   const idea = await prisma.idea.findUnique({
     where: { id: ideaId },
-    select: { id: true, authorId: true }
+    select: { id: true, authorId: true, title: true, status: true, ...IDEA_ACCESS_SELECT }
   });
 
-  if (!idea) {
-    throw new CustomError('Idea not found', 404);
-  }
+  assertCanViewIdea(idea, userId);
 
   // Verify parent comment exists if provided
+  let parentComment: { id: string; ideaId: string; authorId: string } | null = null;
   if (parentCommentId) {
-    const parentComment = await prisma.comment.findUnique({
+    parentComment = await prisma.comment.findUnique({
       where: { id: parentCommentId },
-      select: { id: true, ideaId: true }
+      select: { id: true, ideaId: true, authorId: true }
     });
 
     if (!parentComment || parentComment.ideaId !== ideaId) {
@@ -226,12 +240,26 @@ router.post('/', authenticateJWT, validate([
     }
   }
 
+  const screening = await screenContent({
+    type: ReportTargetType.COMMENT,
+    author: req.user!,
+    text: content,
+    isEdit: false,
+    ideaId
+  });
+  const isHeld = screening.action === ScreeningAction.HOLD;
+
+  const mentions = await resolveMentions(content);
+
+  // Held comments are saved hidden, the same way moderators hide comments
   const comment = await prisma.comment.create({
     data: {
       content,
       authorId: userId,
       ideaId,
-      parentCommentId
+      parentCommentId,
+      mentions,
+      ...(isHeld && { isDeleted: true, hiddenAt: new Date() })
     },
     include: {
       author: {
@@ -245,6 +273,22 @@ router.post('/', authenticateJWT, validate([
     }
   });
 
+  if (isHeld) {
+    await recordHeldContent(screening, { ideaId, commentId: comment.id });
+    logger.info(`Comment by ${req.user!.username} on idea ${ideaId} held for review`);
+
+    res.status(201).json({
+      message: 'Your comment is awaiting moderator review',
+      comment: {
+        ...comment,
+        userVote: null,
+        replyCount: 0
+      },
+      held: true
+    });
+    return;
+  }
+
   // Update idea comment count
   await prisma.idea.update({
     where: { id: ideaId },
@@ -261,6 +305,19 @@ router.post('/', authenticateJWT, validate([
     }
   });
 
+  // Notify the parent comment's author about replies, and the idea author
+  // about any new discussion they are not already being told about
+  if (parentComment) {
+    await notificationService.notifyReply(parentComment, comment, req.user!);
+  }
+  if (!parentComment || parentComment.authorId !== idea.authorId) {
+    await notificationService.notifyComment(idea, comment, req.user!);
+  }
+  await notificationService.notifyMentions(mentionsWhoCanView(idea, mentions), req.user!, {
+    ideaId,
+    ideaTitle: idea.title,
+    commentId: comment.id
+  });
 
   // Emit real-time update
   const io = req.app.get('io');
@@ -306,7 +363,14 @@ router.put('/:id', authenticateJWT, validate([
 
   const existingComment = await prisma.comment.findUnique({
     where: { id },
-    select: { id: true, authorId: true, isDeleted: true, ideaId: true }
+    select: {
+      id: true,
+      authorId: true,
+      isDeleted: true,
+      ideaId: true,
+      mentions: true,
+      idea: { select: { title: true, status: true, authorId: true, ...IDEA_ACCESS_SELECT } }
+    }
   });
 
   if (!existingComment) {
@@ -321,9 +385,21 @@ router.put('/:id', authenticateJWT, validate([
     throw new CustomError('Not authorized to update this comment', 403);
   }
 
+  const screening = await screenContent({
+    type: ReportTargetType.COMMENT,
+    author: req.user!,
+    text: content,
+    isEdit: true,
+    ideaId: existingComment.ideaId,
+    commentId: id
+  });
+  const isHeld = screening.action === ScreeningAction.HOLD;
+
+  const mentions = await resolveMentions(content);
+
   const comment = await prisma.comment.update({
     where: { id },
-    data: { content },
+    data: { content, mentions, ...(isHeld && { isDeleted: true, hiddenAt: new Date() }) },
     include: {
       author: {
         select: {
@@ -343,6 +419,30 @@ router.put('/:id', authenticateJWT, validate([
     }
   });
 
+  if (isHeld) {
+    await prisma.idea.update({
+      where: { id: existingComment.ideaId },
+      data: { commentCount: { decrement: 1 } }
+    });
+    await recordHeldContent(screening, { ideaId: existingComment.ideaId, commentId: id });
+    req.app.get('io')?.broadcastToIdea(existingComment.ideaId, 'comment:deleted', { commentId: id });
+
+    res.json({
+      message: 'Your comment is awaiting moderator review',
+      comment,
+      held: true
+    });
+    return;
+  }
+
+  // Only users newly mentioned by the edit get notified
+  const addedMentions = getAddedMentions(existingComment.mentions, mentions);
+  await notificationService.notifyMentions(mentionsWhoCanView(existingComment.idea, addedMentions), req.user!, {
+    ideaId: existingComment.ideaId,
+    ideaTitle: existingComment.idea.title,
+    commentId: id
+  });
+
   // Emit real-time update for comment edit
   const io = req.app.get('io');
   if (io) {
@@ -413,6 +513,23 @@ router.delete('/:id', authenticateJWT, validate([
   });
 }));
 
+// Report a comment to the moderators
+router.post('/:id/report', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid comment ID'),
+  body('reason').isIn(Object.values(ReportReason)).withMessage('Invalid report reason'),
+  body('details').optional().isString().trim().isLength({ max: 1000 }).withMessage('Details must be at most 1000 characters')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  await reportContent({
+    type: ReportTargetType.COMMENT,
+    id: req.params.id,
+    reporterId: req.user!.id,
+    reason: req.body.reason,
+    details: req.body.details
+  });
+
+  res.status(201).json({ message: 'Thanks for reporting. Moderators will review this comment.' });
+}));
+
 // Vote on comment
 router.post('/:id/vote', authenticateJWT, validate([
   param('id').isString().withMessage('Comment ID is required'),
@@ -425,10 +542,17 @@ router.post('/:id/vote', authenticateJWT, validate([
 
   const comment = await prisma.comment.findUnique({
     where: { id },
-    select: { id: true, authorId: true, voteScore: true, isDeleted: true, ideaId: true }
+    select: {
+      id: true,
+      authorId: true,
+      voteScore: true,
+      isDeleted: true,
+      ideaId: true,
+      idea: { select: { status: true, authorId: true, ...IDEA_ACCESS_SELECT } }
+    }
   });
 
-  if (!comment) {
+  if (!comment || !canViewIdea(comment.idea, userId)) {
     throw new CustomError('Comment not found', 404);
   }
 
@@ -502,6 +626,10 @@ router.post('/:id/vote', authenticateJWT, validate([
     }
   });
 
+  if (type === 'UP' && voteScoreChange > 0) {
+    await notificationService.notifyCommentVote(comment, req.user!);
+  }
+
   const io = req.app.get('io');
   if (io) {
     io.broadcastToIdea(comment.ideaId, 'comment:vote_updated', {
@@ -0,0 +1,196 @@
+import request from 'supertest';
+import { ActivityType, TrendingPeriod } from '@prisma/client';
+import { createFakePrisma } from '../test/fakePrisma';
+import { authHeader, createTestApp } from '../test/testApp';
+import { seedVisibilityFixtures } from '../test/visibilityFixtures';
+import ideaRoutes from './ideas';
+import searchRoutes from './search';
+import recommendationsRoutes from './recommendations';
+import feedRoutes from './feed';
+import collectionsRoutes from './collections';
+
+const mockPrisma = createFakePrisma();
+jest.mock('../config/database', () => ({ getDatabase: () => mockPrisma }));
+
+const app = createTestApp({
+  '/api/ideas': ideaRoutes,
+  '/api/search': searchRoutes,
+  '/api/recommendations': recommendationsRoutes,
+  '/api/feed': feedRoutes,
+  '/api/collections': collectionsRoutes
+});
+
+// Every listing below must show the published idea and nothing else to
+// anyone but the author and collaborators
+describe('drafts and hidden ideas never leak', () => {
+  let fixtures: Awaited<ReturnType<typeof seedVisibilityFixtures>>;
+  let unpublishedIds: string[];
+
+  const titles = (ideas: { title: string }[]) => ideas.map(idea => idea.title).sort();
+
+  beforeEach(async () => {
+    mockPrisma.$reset();
+    fixtures = await seedVisibilityFixtures(mockPrisma);
+    unpublishedIds = [fixtures.draft.id, fixtures.hidden.id];
+  });
+
+  describe('GET /api/ideas', () => {
+    it('lists only the published idea, signed in or not', async () => {
+      const anonymous = await request(app).get('/api/ideas');
+      const stranger = await request(app).get('/api/ideas').set(authHeader(fixtures.stranger));
+      const author = await request(app).get('/api/ideas').set(authHeader(fixtures.author));
+
+      for (const response of [anonymous, stranger, author]) {
+        expect(response.status).toBe(200);
+        expect(titles(response.body.ideas)).toEqual(['Published garden planner']);
+        expect(response.body.pagination.total).toBe(1);
+      }
+    });
+
+    it('lists drafts only to their author and collaborators', async () => {
+      const anonymous = await request(app).get('/api/ideas?status=DRAFT');
+      const stranger = await request(app).get('/api/ideas?status=DRAFT').set(authHeader(fixtures.stranger));
+      const author = await request(app).get('/api/ideas?status=DRAFT').set(authHeader(fixtures.author));
+      const collaborator = await request(app).get('/api/ideas?status=DRAFT').set(authHeader(fixtures.collaborator));
+
+      expect(anonymous.status).toBe(401);
+      expect(stranger.body.ideas).toEqual([]);
+      expect(titles(author.body.ideas)).toEqual(['Draft garden planner']);
+      expect(titles(collaborator.body.ideas)).toEqual(['Draft garden planner']);
+    });
+
+    it('keeps drafts out of text searches and facet counts', async () => {
+      const response = await request(app).get('/api/ideas?search=garden&facets=true').set(authHeader(fixtures.stranger));
+
+      expect(titles(response.body.ideas)).toEqual(['Published garden planner']);
+      expect(response.body.facets.category).toContainEqual({ value: 'WEB', count: 1 });
+    });
+  });
+
+  describe('GET /api/ideas/:id', () => {
+    it('answers 404 to everyone but the author and collaborators', async () => {
+      for (const id of unpublishedIds) {
+        expect((await request(app).get(`/api/ideas/${id}`)).status).toBe(404);
+        expect((await request(app).get(`/api/ideas/${id}`).set(authHeader(fixtures.stranger))).status).toBe(404);
+        expect((await request(app).get(`/api/ideas/${id}`).set(authHeader(fixtures.author))).status).toBe(200);
+        expect((await request(app).get(`/api/ideas/${id}`).set(authHeader(fixtures.collaborator))).status).toBe(200);
+      }
+    });
+
+    it('shows the published idea to everyone', async () => {
+      const response = await request(app).get(`/api/ideas/${fixtures.published.id}`).set(authHeader(fixtures.stranger));
+
+      expect(response.status).toBe(200);
+      expect(response.body.idea.title).toBe('Published garden planner');
+    });
+  });
+
+  describe('GET /api/search', () => {
+    it('finds only the published idea by keyword', async () => {
+      const response = await request(app).get('/api/search?q=garden').set(authHeader(fixtures.author));
+
+      expect(response.status).toBe(200);
+      expect(titles(response.body.ideas)).toEqual(['Published garden planner']);
+      expect(response.body.pagination.total).toBe(1);
+    });
+
+    it('browses only the published idea without a query', async () => {
+      const response = await request(app).get('/api/search?category=WEB');
+
+      expect(titles(response.body.ideas)).toEqual(['Published garden planner']);
+    });
+  });
+
+  describe('GET /api/recommendations', () => {
+    it('recommends only published ideas', async () => {
+      await mockPrisma.userPreferences.create({
+        data: { userId: fixtures.stranger.id, preferredCategories: ['WEB'] }
+      });
+
+      const response = await request(app).get('/api/recommendations/ideas').set(authHeader(fixtures.stranger));
+
+      expect(response.status).toBe(200);
+      expect(titles(response.body.data.recommendations)).toEqual(['Published garden planner']);
+    });
+
+    it('ranks only published ideas as trending', async () => {
+      for (const idea of [fixtures.draft, fixtures.published, fixtures.hidden]) {
+        await mockPrisma.trendingIdea.create({ data: { ideaId: idea.id, period: TrendingPeriod.DAILY, score: 10 } });
+      }
+
+      const response = await request(app).get('/api/recommendations/trending?period=DAILY');
+
+      expect(response.status).toBe(200);
+      expect(titles(response.body.data.ideas)).toEqual(['Published garden planner']);
+    });
+  });
+
+  describe('GET /api/feed', () => {
+    it('shows followers activity on the published idea only', async () => {
+      await mockPrisma.follow.create({ data: { followerId: fixtures.stranger.id, followingId: fixtures.author.id } });
+      for (const idea of [fixtures.draft, fixtures.published, fixtures.hidden]) {
+        await mockPrisma.activity.create({ data: { type: ActivityType.IDEA_UPDATED, userId: fixtures.author.id, ideaId: idea.id } });
+      }
+
+      const response = await request(app).get('/api/feed').set(authHeader(fixtures.stranger));
+
+      expect(response.status).toBe(200);
+      expect(response.body.activities.map((activity: { idea: { title: string } }) => activity.idea.title))
+        .toEqual(['Published garden planner']);
+      expect(response.body.pagination.total).toBe(1);
+    });
+
+    it('still shows activity that has no idea, like follows', async () => {
+      await mockPrisma.follow.create({ data: { followerId: fixtures.stranger.id, followingId: fixtures.author.id } });
+      await mockPrisma.activity.create({
+        data: { type: ActivityType.USER_FOLLOWED, userId: fixtures.author.id, data: { followingId: fixtures.collaborator.id } }
+      });
+
+      const all = await request(app).get('/api/feed').set(authHeader(fixtures.stranger));
+      const follows = await request(app).get('/api/feed?type=USER_FOLLOWED').set(authHeader(fixtures.stranger));
+
+      expect(all.body.activities.map((activity: { type: ActivityType }) => activity.type)).toEqual([ActivityType.USER_FOLLOWED]);
+      expect(follows.body.pagination.total).toBe(1);
+    });
+  });
+
+  describe('collections', () => {
+    // Saved while all three were public, then two were unpublished
+    const saveAll = async (userId: string, isPublic: boolean) => {
+      const collection = await mockPrisma.bookmarkCollection.create({ data: { name: 'Gardening', userId, isPublic } });
+      for (const idea of [fixtures.draft, fixtures.published, fixtures.hidden]) {
+        await mockPrisma.bookmarkCollectionItem.create({ data: { collectionId: collection.id, ideaId: idea.id } });
+      }
+    };
+    const itemTitles = (collection: { items: { idea: { title: string } }[] }) =>
+      titles(collection.items.map(item => item.idea));
+
+    it('drops unpublished ideas from the owner\'s collections', async () => {
+      await saveAll(fixtures.stranger.id, false);
+
+      const response = await request(app).get('/api/collections').set(authHeader(fixtures.stranger));
+
+      expect(response.status).toBe(200);
+      expect(itemTitles(response.body.data[0])).toEqual(['Published garden planner']);
+      expect(response.body.data[0]._count.items).toBe(1);
+    });
+
+    it('keeps the author\'s own drafts in their collections', async () => {
+      await saveAll(fixtures.author.id, false);
+
+      const response = await request(app).get('/api/collections').set(authHeader(fixtures.author));
+
+      expect(itemTitles(response.body.data[0])).toHaveLength(3);
+    });
+
+    it('drops unpublished ideas from public collections', async () => {
+      await saveAll(fixtures.author.id, true);
+
+      const response = await request(app).get('/api/collections/public');
+
+      expect(response.status).toBe(200);
+      expect(itemTitles(response.body.data.collections[0])).toEqual(['Published garden planner']);
+      expect(response.body.data.collections[0]._count.items).toBe(1);
+    });
+  });
+});
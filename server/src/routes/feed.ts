@@ -0,0 +1,113 @@
+import express from 'express';
+import { query } from 'express-validator';
+import { ActivityType } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validation';
+import { authenticateJWT, AuthenticatedRequest } from '../middleware/auth';
+import { PUBLIC_IDEA_WHERE } from '../policies/ideaVisibility';
+
+const router = express.Router();
+
+// Activity types that are safe to show to followers (votes, bookmarks and
+// drafts stay private)
+const FEED_ACTIVITY_TYPES: ActivityType[] = [
+  ActivityType.IDEA_PUBLISHED,
+  ActivityType.IDEA_UPDATED,
+  ActivityType.COMMENT_CREATED,
+  ActivityType.USER_FOLLOWED
+];
+
+// Get recent activity from followed users
+router.get('/', authenticateJWT, validate([
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50'),
+  query('type').optional().isIn(FEED_ACTIVITY_TYPES).withMessage('Invalid activity type')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.id;
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  const offset = (page - 1) * limit;
+  const type = req.query.type as ActivityType;
+  const prisma = getDatabase();
+
+  const follows = await prisma.follow.findMany({
+    where: { followerId: userId },
+    select: { followingId: true }
+  });
+
+  const followingIds = follows.map(follow => follow.followingId);
+
+  if (followingIds.length === 0) {
+    return res.json({
+      activities: [],
+      pagination: {
+        page,
+        limit,
+        total: 0,
+        pages: 0
+      }
+    });
+  }
+
+  const where: any = {
+    userId: { in: followingIds },
+    type: type ? type : { in: FEED_ACTIVITY_TYPES },
+    // Never surface activity on ideas that are not public. Activity without an
+    // idea, like follows, was stored without the field, which null doesn't match.
+    OR: [
+      { ideaId: null },
+      { ideaId: { isSet: false } },
+      { idea: { is: PUBLIC_IDEA_WHERE } }
+    ]
+  };
+
+  const [activities, total] = await Promise.all([
+    prisma.activity.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: offset,
+      take: limit,
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            avatar: true,
+            karmaScore: true
+          }
+        },
+        idea: {
+          select: {
+            id: true,
+            title: true,
+            description: true,
+            category: true,
+            voteScore: true,
+            commentCount: true
+          }
+        },
+        comment: {
+          select: {
+            id: true,
+            content: true,
+            isDeleted: true
+          }
+        }
+      }
+    }),
+    prisma.activity.count({ where })
+  ]);
+
+  res.json({
+    activities,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+}));
+
+export default router;
@@ -0,0 +1,235 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { AIAnalysisKind } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { logger } from '../config/logger';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { validate } from '../middleware/validation';
+import { authenticateJWT, AuthenticatedRequest } from '../middleware/auth';
+import { IDEA_ACCESS_SELECT } from '../policies/ideaVisibility';
+import { assertCanEditIdea, canEditIdea } from '../policies/ideaPermissions';
+import { recordRevision } from '../services/revisionService';
+import { scheduleIdeaEmbedding } from '../services/embeddingService';
+import {
+  getSuggestedDifficulty,
+  getSuggestedTags,
+  getSuggestedTechStack,
+  hashAnalysisInput
+} from '../services/aiAnalysisService';
+
+// Mounted at /api/ideas alongside the idea routes
+const router = express.Router();
+
+// Stored AI analyses for an idea, newest first. isCurrent tells whether the
+// idea's saved content still matches what was analyzed.
+router.get('/:id/ai-analyses', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  query('kind').optional().isIn(Object.values(AIAnalysisKind)).withMessage('Invalid analysis kind'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const kind = req.query.kind as AIAnalysisKind | undefined;
+  const prisma = getDatabase();
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  const offset = (page - 1) * limit;
+
+  const idea = await prisma.idea.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      authorId: true,
+      title: true,
+      description: true,
+      category: true,
+      tags: true,
+      ...IDEA_ACCESS_SELECT
+    }
+  });
+
+  if (!idea) {
+    throw new CustomError('Idea not found', 404);
+  }
+
+  if (!canEditIdea(idea, req.user!.id)) {
+    throw new CustomError('Not authorized to view analyses for this idea', 403);
+  }
+
+  const where = { ideaId: id, ...(kind ? { kind } : {}) };
+
+  const [analyses, total] = await Promise.all([
+    prisma.ideaAIAnalysis.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: offset,
+      take: limit
+    }),
+    prisma.ideaAIAnalysis.count({ where })
+  ]);
+
+  res.json({
+    analyses: analyses.map(analysis => ({
+      ...analysis,
+      isCurrent: analysis.contentHash === hashAnalysisInput(analysis.kind, idea)
+    })),
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+}));
+
+// Copy selected suggestions from a stored analysis into the idea's own fields
+router.post('/:id/ai-analyses/:analysisId/apply', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  param('analysisId').isMongoId().withMessage('Invalid analysis ID'),
+  body('tags').optional().isArray().withMessage('Tags must be an array'),
+  body('techStack').optional().isArray().withMessage('Tech stack must be an array'),
+  body('difficulty').optional().isBoolean().withMessage('Difficulty must be a boolean')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id, analysisId } = req.params;
+  const { tags = [], techStack = [], difficulty = false } = req.body;
+  const userId = req.user!.id;
+  const prisma = getDatabase();
+
+  const existingIdea = await prisma.idea.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      authorId: true,
+      title: true,
+      description: true,
+      content: true,
+      category: true,
+      tags: true,
+      techStack: true,
+      createdAt: true,
+      ...IDEA_ACCESS_SELECT
+    }
+  });
+
+  if (!existingIdea) {
+    throw new CustomError('Idea not found', 404);
+  }
+
+  assertCanEditIdea(existingIdea, userId);
+
+  const analysis = await prisma.ideaAIAnalysis.findFirst({
+    where: { id: analysisId, ideaId: id }
+  });
+
+  if (!analysis) {
+    throw new CustomError('Analysis not found', 404);
+  }
+
+  // Only values the analysis actually suggested, in the analysis' spelling
+  const pick = (requested: string[], suggested: string[], label: string) => {
+    const byKey = new Map(suggested.map(value => [value.toLowerCase(), value]));
+    return requested.map(value => {
+      const match = byKey.get(String(value).toLowerCase());
+      if (!match) {
+        throw new CustomError(`"${value}" is not one of the suggested ${label}`, 400);
+      }
+      return match;
+    });
+  };
+
+  // Append without duplicating entries the idea already has
+  const merge = (current: string[], additions: string[]) => {
+    const merged = [...current];
+    const seen = new Set(current.map(value => value.toLowerCase()));
+    for (const value of additions) {
+      if (!seen.has(value.toLowerCase())) {
+        seen.add(value.toLowerCase());
+        merged.push(value);
+      }
+    }
+    return merged;
+  };
+
+  const updateData: any = {};
+  const appliedFields: string[] = [];
+
+  if (tags.length > 0) {
+    updateData.tags = merge(existingIdea.tags, pick(tags, getSuggestedTags(analysis), 'tags'));
+    if (updateData.tags.length > 10) {
+      throw new CustomError('Maximum 10 tags allowed', 400);
+    }
+    appliedFields.push('tags');
+  }
+
+  if (techStack.length > 0) {
+    updateData.techStack = merge(existingIdea.techStack, pick(techStack, getSuggestedTechStack(analysis), 'technologies'));
+    if (updateData.techStack.length > 20) {
+      throw new CustomError('Maximum 20 technologies allowed', 400);
+    }
+    appliedFields.push('techStack');
+  }
+
+  if (difficulty) {
+    const suggestedDifficulty = getSuggestedDifficulty(analysis);
+    if (!suggestedDifficulty) {
+      throw new CustomError('This analysis has no difficulty suggestion', 400);
+    }
+    updateData.difficulty = suggestedDifficulty;
+    appliedFields.push('difficulty');
+  }
+
+  if (appliedFields.length === 0) {
+    throw new CustomError('Choose at least one suggestion to apply', 400);
+  }
+
+  const idea = await prisma.idea.update({
+    where: { id },
+    data: updateData,
+    include: {
+      author: {
+        select: {
+          id: true,
+          username: true,
+          avatar: true,
+          karmaScore: true
+        }
+      }
+    }
+  });
+
+  await recordRevision({
+    ideaId: id,
+    editorId: userId,
+    snapshot: idea,
+    summary: 'Applied AI suggestions',
+    previous: {
+      snapshot: existingIdea,
+      authorId: existingIdea.authorId,
+      createdAt: existingIdea.createdAt
+    }
+  });
+
+  const updatedAnalysis = await prisma.ideaAIAnalysis.update({
+    where: { id: analysis.id },
+    data: {
+      appliedFields: Array.from(new Set([...analysis.appliedFields, ...appliedFields])),
+      appliedAt: new Date()
+    }
+  });
+  scheduleIdeaEmbedding(id);
+
+  logger.info(`AI suggestions (${appliedFields.join(', ')}) applied to ${idea.title} by ${req.user!.username}`);
+
+  const io = req.app.get('io');
+  if (io) {
+    io.emit('idea:updated', { idea });
+  }
+
+  res.json({
+    message: 'Suggestions applied',
+    idea,
+    analysis: updatedAnalysis
+  });
+}));
+
+export default router;
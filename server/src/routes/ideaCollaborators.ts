@@ -0,0 +1,237 @@
+import express from 'express';
+import { body, param } from 'express-validator';
+import { CollaboratorRole, CollaboratorStatus } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../config/database';
+import { logger } from '../config/logger';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { validate } from '../middleware/validation';
+import { authenticateJWT, optionalAuth, AuthenticatedRequest } from '../middleware/auth';
+import { notificationService } from '../services/notificationService';
+import { assertCanViewIdea, IDEA_ACCESS_SELECT } from '../policies/ideaVisibility';
+import { assertCanManageIdea, getIdeaRole } from '../policies/ideaPermissions';
+
+// Mounted at /api/ideas alongside the idea routes
+const router = express.Router();
+
+const collaboratorUserSelect = {
+  id: true,
+  username: true,
+  avatar: true
+};
+
+// OWNER makes a co-owner, who manages the idea (collaborators, status,
+// recruitment, deletion) alongside the author
+const INVITABLE_ROLES = [CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER];
+
+const collaboratorDetailSelect = {
+  id: true,
+  userId: true,
+  role: true,
+  status: true,
+  inviteToken: true,
+  respondedAt: true,
+  createdAt: true,
+  user: { select: collaboratorUserSelect },
+  invitedBy: { select: collaboratorUserSelect }
+};
+
+// List an idea's collaborators. Pending and declined invitations (and their
+// links) are only shown to the owner.
+router.get('/:id/collaborators', optionalAuth, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const prisma = getDatabase();
+
+  const idea = await prisma.idea.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      status: true,
+      authorId: true,
+      author: { select: collaboratorUserSelect },
+      ...IDEA_ACCESS_SELECT
+    }
+  });
+
+  assertCanViewIdea(idea, req.user?.id);
+
+  const isOwner = getIdeaRole(idea, req.user?.id) === CollaboratorRole.OWNER;
+
+  const collaborators = await prisma.ideaCollaborator.findMany({
+    where: isOwner ? { ideaId: id } : { ideaId: id, status: CollaboratorStatus.ACCEPTED },
+    orderBy: { createdAt: 'asc' },
+    select: collaboratorDetailSelect
+  });
+
+  res.json({
+    owner: { ...idea.author, role: CollaboratorRole.OWNER },
+    collaborators: collaborators.map(({ inviteToken, ...collaborator }) => ({
+      ...collaborator,
+      ...(isOwner && collaborator.status === CollaboratorStatus.PENDING
+        ? { inviteLink: `/invitations/${inviteToken}` }
+        : {})
+    }))
+  });
+}));
+
+// Invite a user to collaborate on an idea
+router.post('/:id/collaborators', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  body('username').isString().trim().isLength({ min: 3, max: 30 }).withMessage('Invalid username'),
+  body('role').optional().isIn(INVITABLE_ROLES).withMessage('Role must be OWNER, EDITOR or VIEWER')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const { username, role = CollaboratorRole.EDITOR } = req.body;
+  const userId = req.user!.id;
+  const prisma = getDatabase();
+
+  const idea = await prisma.idea.findUnique({
+    where: { id },
+    select: { id: true, title: true, authorId: true, ...IDEA_ACCESS_SELECT }
+  });
+
+  if (!idea) {
+    throw new CustomError('Idea not found', 404);
+  }
+
+  assertCanManageIdea(idea, userId, 'Only the owner can invite collaborators');
+
+  const invitee = await prisma.user.findUnique({
+    where: { username },
+    select: { id: true, username: true, isActive: true }
+  });
+
+  if (!invitee || !invitee.isActive) {
+    throw new CustomError('User not found', 404);
+  }
+
+  if (invitee.id === idea.authorId) {
+    throw new CustomError('The author is already the owner of this idea', 400);
+  }
+
+  const existing = await prisma.ideaCollaborator.findUnique({
+    where: { ideaId_userId: { ideaId: id, userId: invitee.id } }
+  });
+
+  if (existing?.status === CollaboratorStatus.ACCEPTED) {
+    throw new CustomError(`${invitee.username} is already a collaborator`, 409);
+  }
+
+  if (existing?.status === CollaboratorStatus.PENDING) {
+    throw new CustomError(`${invitee.username} already has a pending invitation`, 409);
+  }
+
+  // A declined invitation can be sent again; it gets a fresh link
+  const data = {
+    role,
+    status: CollaboratorStatus.PENDING,
+    invitedById: userId,
+    inviteToken: uuidv4(),
+    respondedAt: null
+  };
+
+  const collaborator = existing
+    ? await prisma.ideaCollaborator.update({
+        where: { id: existing.id },
+        data,
+        select: collaboratorDetailSelect
+      })
+    : await prisma.ideaCollaborator.create({
+        data: { ...data, ideaId: id, userId: invitee.id },
+        select: collaboratorDetailSelect
+      });
+
+  await notificationService.notifyCollaborationInvite(collaborator, idea, req.user!);
+
+  logger.info(`${req.user!.username} invited ${invitee.username} to collaborate on ${idea.title}`);
+
+  const { inviteToken, ...rest } = collaborator;
+  res.status(201).json({
+    message: `Invitation sent to ${invitee.username}`,
+    collaborator: { ...rest, inviteLink: `/invitations/${inviteToken}` }
+  });
+}));
+
+// Change a collaborator's role
+router.patch('/:id/collaborators/:userId', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  param('userId').isMongoId().withMessage('Invalid user ID'),
+  body('role').isIn(INVITABLE_ROLES).withMessage('Role must be OWNER, EDITOR or VIEWER')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id, userId: collaboratorId } = req.params;
+  const { role } = req.body;
+  const prisma = getDatabase();
+
+  const idea = await prisma.idea.findUnique({
+    where: { id },
+    select: { id: true, authorId: true, ...IDEA_ACCESS_SELECT }
+  });
+
+  if (!idea) {
+    throw new CustomError('Idea not found', 404);
+  }
+
+  assertCanManageIdea(idea, req.user!.id, 'Only the owner can change collaborator roles');
+
+  const existing = await prisma.ideaCollaborator.findUnique({
+    where: { ideaId_userId: { ideaId: id, userId: collaboratorId } },
+    select: { id: true }
+  });
+
+  if (!existing) {
+    throw new CustomError('Collaborator not found', 404);
+  }
+
+  const { inviteToken: _inviteToken, ...collaborator } = await prisma.ideaCollaborator.update({
+    where: { id: existing.id },
+    data: { role },
+    select: collaboratorDetailSelect
+  });
+
+  res.json({
+    message: 'Collaborator role updated',
+    collaborator
+  });
+}));
+
+// Remove a collaborator or cancel an invitation. Collaborators can also
+// remove themselves to leave an idea.
+router.delete('/:id/collaborators/:userId', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  param('userId').isMongoId().withMessage('Invalid user ID')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id, userId: collaboratorId } = req.params;
+  const userId = req.user!.id;
+  const prisma = getDatabase();
+
+  const idea = await prisma.idea.findUnique({
+    where: { id },
+    select: { id: true, title: true, authorId: true, ...IDEA_ACCESS_SELECT }
+  });
+
+  if (!idea) {
+    throw new CustomError('Idea not found', 404);
+  }
+
+  if (collaboratorId !== userId) {
+    assertCanManageIdea(idea, userId, 'Only the owner can remove collaborators');
+  }
+
+  const { count } = await prisma.ideaCollaborator.deleteMany({
+    where: { ideaId: id, userId: collaboratorId }
+  });
+
+  if (count === 0) {
+    throw new CustomError('Collaborator not found', 404);
+  }
+
+  logger.info(`Collaborator ${collaboratorId} removed from ${idea.title} by ${req.user!.username}`);
+
+  res.json({
+    message: collaboratorId === userId ? 'You left this idea' : 'Collaborator removed'
+  });
+}));
+
+export default router;
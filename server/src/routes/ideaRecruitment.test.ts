@@ -0,0 +1,75 @@
+import request from 'supertest';
+import { CollaboratorRole, CollaboratorStatus, JoinRequestStatus, UserRole } from '@prisma/client';
+import { notificationService } from '../services/notificationService';
+import { createFakePrisma } from '../test/fakePrisma';
+import { authHeader, createTestApp } from '../test/testApp';
+import { seedVisibilityFixtures } from '../test/visibilityFixtures';
+import ideaRecruitmentRoutes from './ideaRecruitment';
+
+const mockPrisma = createFakePrisma();
+jest.mock('../config/database', () => ({ getDatabase: () => mockPrisma }));
+
+const app = createTestApp({ '/api/ideas': ideaRecruitmentRoutes });
+
+describe('PATCH /api/ideas/:id/join-requests/:requestId', () => {
+  let fixtures: Awaited<ReturnType<typeof seedVisibilityFixtures>>;
+
+  const requestToJoin = (userId: string, roleId?: string) => mockPrisma.joinRequest.create({
+    data: { ideaId: fixtures.published.id, userId, roleId, message: 'I would love to help with this.' }
+  });
+
+  const respond = (requestId: string, status: JoinRequestStatus) => request(app)
+    .patch(`/api/ideas/${fixtures.published.id}/join-requests/${requestId}`)
+    .set(authHeader(fixtures.author))
+    .send({ status });
+
+  beforeEach(async () => {
+    mockPrisma.$reset();
+    fixtures = await seedVisibilityFixtures(mockPrisma);
+    await mockPrisma.idea.update({
+      where: { id: fixtures.published.id },
+      data: { isRecruiting: true, openRoles: [{ id: 'designer', title: 'Designer', skills: ['figma'], filled: false }] }
+    });
+    jest.spyOn(notificationService, 'notifyJoinRequestResponse').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('makes the approved user an editor, whatever a declined invitation offered', async () => {
+    await mockPrisma.ideaCollaborator.create({
+      data: {
+        ideaId: fixtures.published.id,
+        userId: fixtures.stranger.id,
+        invitedById: fixtures.author.id,
+        role: CollaboratorRole.OWNER,
+        status: CollaboratorStatus.DECLINED,
+        inviteToken: 'declined-invite'
+      }
+    });
+    const joinRequest = await requestToJoin(fixtures.stranger.id, 'designer');
+
+    const response = await respond(joinRequest.id, JoinRequestStatus.APPROVED);
+
+    expect(response.status).toBe(200);
+    expect(await mockPrisma.ideaCollaborator.findUnique({
+      where: { ideaId_userId: { ideaId: fixtures.published.id, userId: fixtures.stranger.id } }
+    })).toMatchObject({ role: CollaboratorRole.EDITOR, status: CollaboratorStatus.ACCEPTED });
+    expect((await mockPrisma.idea.findUniqueOrThrow({ where: { id: fixtures.published.id } })).openRoles)
+      .toEqual([expect.objectContaining({ id: 'designer', filled: true })]);
+  });
+
+  it('refuses to fill the same role twice', async () => {
+    const other = await mockPrisma.user.create({ data: { email: 'other@example.com', username: 'other', role: UserRole.USER } });
+    const first = await requestToJoin(fixtures.stranger.id, 'designer');
+    const second = await requestToJoin(other.id, 'designer');
+    await respond(first.id, JoinRequestStatus.APPROVED);
+
+    const response = await respond(second.id, JoinRequestStatus.APPROVED);
+
+    expect(response.status).toBe(409);
+    expect(await mockPrisma.joinRequest.findUnique({ where: { id: second.id } })).toMatchObject({ status: JoinRequestStatus.PENDING });
+    expect(await mockPrisma.ideaCollaborator.findUnique({
+      where: { ideaId_userId: { ideaId: fixtures.published.id, userId: other.id } }
+    })).toBeNull();
+  });
+});
@@ -0,0 +1,313 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { CollaboratorRole, CollaboratorStatus, IdeaStatus, JoinRequestStatus } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase } from '../config/database';
+import { logger } from '../config/logger';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { validate } from '../middleware/validation';
+import { authenticateJWT, AuthenticatedRequest } from '../middleware/auth';
+import { notificationService } from '../services/notificationService';
+import { matchUserToRoles, normalizeOpenRoles } from '../services/recruitmentService';
+import { assertCanViewIdea, IDEA_ACCESS_SELECT } from '../policies/ideaVisibility';
+import { assertCanManageIdea, getIdeaRole } from '../policies/ideaPermissions';
+
+// Mounted at /api/ideas alongside the idea routes
+const router = express.Router();
+
+const joinRequestUserSelect = {
+  id: true,
+  username: true,
+  avatar: true,
+  skills: true,
+  karmaScore: true
+};
+
+// Turn recruitment on or off and set the open roles
+router.put('/:id/recruitment', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  body('isRecruiting').isBoolean().withMessage('isRecruiting must be true or false'),
+  body('openRoles').optional().isArray({ max: 10 }).withMessage('Maximum 10 open roles allowed'),
+  body('openRoles.*.id').optional().isString().withMessage('Invalid role ID'),
+  body('openRoles.*.title').isString().trim().isLength({ min: 2, max: 60 }).withMessage('Role title must be 2-60 characters'),
+  body('openRoles.*.skills').optional().isArray({ max: 10 }).withMessage('Maximum 10 skills per role'),
+  body('openRoles.*.skills.*').isString().trim().isLength({ min: 1, max: 30 }).withMessage('Each skill must be 1-30 characters'),
+  body('openRoles.*.filled').optional().isBoolean().withMessage('filled must be true or false')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const { isRecruiting, openRoles } = req.body;
+  const prisma = getDatabase();
+
+  const existingIdea = await prisma.idea.findUnique({
+    where: { id },
+    select: { id: true, title: true, authorId: true, openRoles: true, ...IDEA_ACCESS_SELECT }
+  });
+
+  if (!existingIdea) {
+    throw new CustomError('Idea not found', 404);
+  }
+
+  assertCanManageIdea(existingIdea, req.user!.id, 'Only the owner can manage recruitment');
+
+  const roles = openRoles !== undefined
+    ? normalizeOpenRoles(openRoles, existingIdea.openRoles)
+    : existingIdea.openRoles;
+
+  if (isRecruiting && roles.every(role => role.filled)) {
+    throw new CustomError('Add at least one open role to start recruiting', 400);
+  }
+
+  const idea = await prisma.idea.update({
+    where: { id },
+    data: { isRecruiting, openRoles: roles },
+    select: { id: true, isRecruiting: true, openRoles: true }
+  });
+
+  logger.info(`Recruitment ${isRecruiting ? 'opened' : 'closed'} for ${existingIdea.title} by ${req.user!.username}`);
+
+  res.json({
+    message: isRecruiting ? 'Recruitment is open' : 'Recruitment is closed',
+    isRecruiting: idea.isRecruiting,
+    openRoles: idea.openRoles
+  });
+}));
+
+// List join requests. The owner sees everyone's; other users only their own.
+router.get('/:id/join-requests', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  query('status').optional().isIn(Object.values(JoinRequestStatus)).withMessage('Invalid status'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const userId = req.user!.id;
+  const prisma = getDatabase();
+  const status = req.query.status as JoinRequestStatus | undefined;
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  const offset = (page - 1) * limit;
+
+  const idea = await prisma.idea.findUnique({
+    where: { id },
+    select: { id: true, status: true, authorId: true, openRoles: true, ...IDEA_ACCESS_SELECT }
+  });
+
+  assertCanViewIdea(idea, userId);
+
+  const isOwner = getIdeaRole(idea, userId) === CollaboratorRole.OWNER;
+  const where = {
+    ideaId: id,
+    ...(isOwner ? {} : { userId }),
+    ...(status ? { status } : {})
+  };
+
+  const [requests, total] = await Promise.all([
+    prisma.joinRequest.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: offset,
+      take: limit,
+      include: {
+        user: { select: joinRequestUserSelect }
+      }
+    }),
+    prisma.joinRequest.count({ where })
+  ]);
+
+  const formattedRequests = requests.map(request => ({
+    ...request,
+    role: idea.openRoles.find(role => role.id === request.roleId) || null,
+    skillMatch: matchUserToRoles(request.user.skills, idea.openRoles, request.roleId)
+  }));
+
+  res.json({
+    joinRequests: formattedRequests,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+}));
+
+// Ask to join an idea's team
+router.post('/:id/join-requests', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  body('roleId').optional().isString().withMessage('Invalid role ID'),
+  body('message').isString().trim().isLength({ min: 10, max: 1000 }).withMessage('Message must be 10-1000 characters')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const { roleId, message } = req.body;
+  const userId = req.user!.id;
+  const prisma = getDatabase();
+
+  const idea = await prisma.idea.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      authorId: true,
+      isRecruiting: true,
+      openRoles: true,
+      ...IDEA_ACCESS_SELECT
+    }
+  });
+
+  assertCanViewIdea(idea, userId);
+
+  if (idea.status !== IdeaStatus.PUBLISHED || !idea.isRecruiting) {
+    throw new CustomError('This idea is not looking for collaborators', 400);
+  }
+
+  if (getIdeaRole(idea, userId)) {
+    throw new CustomError('You are already on this team', 400);
+  }
+
+  const role = roleId ? idea.openRoles.find(openRole => openRole.id === roleId) : undefined;
+  if (roleId && (!role || role.filled)) {
+    throw new CustomError('That role is no longer open', 400);
+  }
+
+  const existing = await prisma.joinRequest.findUnique({
+    where: { ideaId_userId: { ideaId: id, userId } },
+    select: { id: true, status: true }
+  });
+
+  if (existing?.status === JoinRequestStatus.PENDING) {
+    throw new CustomError('You already have a pending request for this idea', 409);
+  }
+
+  // Rejected, withdrawn or stale approved requests are reopened rather than duplicated
+  const data = {
+    roleId: role?.id || null,
+    message,
+    status: JoinRequestStatus.PENDING,
+    respondedAt: null
+  };
+
+  const joinRequest = existing
+    ? await prisma.joinRequest.update({ where: { id: existing.id }, data })
+    : await prisma.joinRequest.create({ data: { ...data, ideaId: id, userId } });
+
+  await notificationService.notifyJoinRequest(idea, { id: joinRequest.id, roleTitle: role?.title }, req.user!);
+
+  logger.info(`${req.user!.username} asked to join ${idea.title}`);
+
+  res.status(201).json({
+    message: 'Join request sent',
+    joinRequest
+  });
+}));
+
+// Approve or reject a join request. Approved users become editors.
+router.patch('/:id/join-requests/:requestId', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  param('requestId').isMongoId().withMessage('Invalid request ID'),
+  body('status').isIn([JoinRequestStatus.APPROVED, JoinRequestStatus.REJECTED]).withMessage('Status must be APPROVED or REJECTED')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id, requestId } = req.params;
+  const { status } = req.body;
+  const userId = req.user!.id;
+  const prisma = getDatabase();
+
+  const idea = await prisma.idea.findUnique({
+    where: { id },
+    select: { id: true, title: true, authorId: true, openRoles: true, ...IDEA_ACCESS_SELECT }
+  });
+
+  if (!idea) {
+    throw new CustomError('Idea not found', 404);
+  }
+
+  assertCanManageIdea(idea, userId, 'Only the owner can respond to join requests');
+
+  const existing = await prisma.joinRequest.findFirst({
+    where: { id: requestId, ideaId: id }
+  });
+
+  if (!existing) {
+    throw new CustomError('Join request not found', 404);
+  }
+
+  if (existing.status !== JoinRequestStatus.PENDING) {
+    throw new CustomError(`Join request already ${existing.status.toLowerCase()}`, 400);
+  }
+
+  const approved = status === JoinRequestStatus.APPROVED;
+
+  // The requested role is taken once someone is approved for it. It is only
+  // claimed while still open, so two approvals cannot fill the same role; a
+  // role the owner has since removed doesn't stop the approval.
+  if (approved && existing.roleId) {
+    const { count } = await prisma.idea.updateMany({
+      where: { id, openRoles: { some: { id: existing.roleId, filled: false } } },
+      data: {
+        openRoles: idea.openRoles.map(role => (role.id === existing.roleId ? { ...role, filled: true } : role))
+      }
+    });
+    if (count === 0 && idea.openRoles.some(role => role.id === existing.roleId)) {
+      throw new CustomError('That role has already been filled', 409);
+    }
+  }
+
+  const joinRequest = await prisma.joinRequest.update({
+    where: { id: requestId },
+    data: { status, respondedAt: new Date() },
+    include: { user: { select: joinRequestUserSelect } }
+  });
+
+  if (approved) {
+    await prisma.ideaCollaborator.upsert({
+      where: { ideaId_userId: { ideaId: id, userId: existing.userId } },
+      create: {
+        ideaId: id,
+        userId: existing.userId,
+        invitedById: userId,
+        role: CollaboratorRole.EDITOR,
+        status: CollaboratorStatus.ACCEPTED,
+        inviteToken: uuidv4(),
+        respondedAt: new Date()
+      },
+      // A declined invitation may have offered another role
+      update: {
+        role: CollaboratorRole.EDITOR,
+        status: CollaboratorStatus.ACCEPTED,
+        respondedAt: new Date()
+      }
+    });
+  }
+
+  await notificationService.notifyJoinRequestResponse({ userId: existing.userId, approved }, idea, req.user!);
+
+  logger.info(`Join request ${requestId} for ${idea.title} ${approved ? 'approved' : 'rejected'} by ${req.user!.username}`);
+
+  res.json({
+    message: approved ? `${joinRequest.user.username} joined the team` : 'Join request rejected',
+    joinRequest
+  });
+}));
+
+// Withdraw your own pending join request
+router.delete('/:id/join-requests/mine', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const prisma = getDatabase();
+
+  const { count } = await prisma.joinRequest.updateMany({
+    where: { ideaId: id, userId: req.user!.id, status: JoinRequestStatus.PENDING },
+    data: { status: JoinRequestStatus.WITHDRAWN, respondedAt: new Date() }
+  });
+
+  if (count === 0) {
+    throw new CustomError('No pending join request found', 404);
+  }
+
+  res.json({
+    message: 'Join request withdrawn'
+  });
+}));
+
+export default router;
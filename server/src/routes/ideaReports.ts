@@ -0,0 +1,29 @@
+import express from 'express';
+import { body, param } from 'express-validator';
+import { ReportReason, ReportTargetType } from '@prisma/client';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validation';
+import { authenticateJWT, AuthenticatedRequest } from '../middleware/auth';
+import { reportContent } from '../services/moderationService';
+
+// Mounted at /api/ideas alongside the idea routes
+const router = express.Router();
+
+// Report an idea to the moderators
+router.post('/:id/report', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  body('reason').isIn(Object.values(ReportReason)).withMessage('Invalid report reason'),
+  body('details').optional().isString().trim().isLength({ max: 1000 }).withMessage('Details must be at most 1000 characters')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  await reportContent({
+    type: ReportTargetType.IDEA,
+    id: req.params.id,
+    reporterId: req.user!.id,
+    reason: req.body.reason,
+    details: req.body.details
+  });
+
+  res.status(201).json({ message: 'Thanks for reporting. Moderators will review this idea.' });
+}));
+
+export default router;
@@ -0,0 +1,120 @@
+import request from 'supertest';
+import { ActivityType, IdeaStatus, ScreeningAction } from '@prisma/client';
+import { notificationService } from '../services/notificationService';
+import * as savedSearchService from '../services/savedSearchService';
+import { createFakePrisma } from '../test/fakePrisma';
+import { authHeader, createTestApp } from '../test/testApp';
+import { seedVisibilityFixtures } from '../test/visibilityFixtures';
+import ideaRoutes from './ideas';
+
+const mockPrisma = createFakePrisma();
+jest.mock('../config/database', () => ({ getDatabase: () => mockPrisma }));
+
+const app = createTestApp({ '/api/ideas': ideaRoutes });
+
+const SPAM = 'Plan shared garden beds with your neighbours. Buy now, click here for seeds!';
+
+let fixtures: Awaited<ReturnType<typeof seedVisibilityFixtures>>;
+
+beforeEach(async () => {
+  mockPrisma.$reset();
+  fixtures = await seedVisibilityFixtures(mockPrisma);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('PUT /api/ideas/:id', () => {
+  beforeEach(() => {
+    jest.spyOn(notificationService, 'notifyIdeaPublished').mockResolvedValue(undefined);
+    jest.spyOn(savedSearchService, 'scheduleSavedSearchAlerts').mockReturnValue(undefined);
+  });
+
+  const publish = (id: string, content = fixtures.draft.content) => request(app)
+    .put(`/api/ideas/${id}`)
+    .set(authHeader(fixtures.author))
+    .send({
+      title: fixtures.draft.title,
+      description: fixtures.draft.description,
+      content,
+      category: fixtures.draft.category,
+      tags: fixtures.draft.tags,
+      status: IdeaStatus.PUBLISHED,
+      acknowledgeSimilar: true
+    });
+
+  it('announces a published draft', async () => {
+    const response = await publish(fixtures.draft.id);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ held: false, idea: { status: IdeaStatus.PUBLISHED } });
+    expect(mockPrisma.$rows('Activity')).toEqual([
+      expect.objectContaining({ type: ActivityType.IDEA_PUBLISHED, ideaId: fixtures.draft.id })
+    ]);
+    expect(notificationService.notifyIdeaPublished).toHaveBeenCalledTimes(1);
+    expect(savedSearchService.scheduleSavedSearchAlerts).toHaveBeenCalledWith(fixtures.draft.id);
+  });
+
+  it('refuses to republish an idea merged into another', async () => {
+    await mockPrisma.idea.update({
+      where: { id: fixtures.draft.id },
+      data: { status: IdeaStatus.ARCHIVED, mergedIntoId: fixtures.published.id }
+    });
+
+    const response = await publish(fixtures.draft.id);
+
+    expect(response.status).toBe(409);
+    expect(await mockPrisma.idea.findUnique({ where: { id: fixtures.draft.id } })).toMatchObject({ status: IdeaStatus.ARCHIVED });
+  });
+
+  it('holds a spam draft without announcing it', async () => {
+    const response = await publish(fixtures.draft.id, SPAM);
+
+    expect(response.body).toMatchObject({ held: true, idea: { status: IdeaStatus.HIDDEN } });
+    expect(mockPrisma.$rows('Activity')).toEqual([]);
+    expect(notificationService.notifyIdeaPublished).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/ideas/:id/revisions/:revisionId/restore', () => {
+  const createRevision = (revision: number, content: string) => mockPrisma.ideaRevision.create({
+    data: {
+      ideaId: fixtures.published.id,
+      editorId: fixtures.author.id,
+      revision,
+      title: fixtures.published.title,
+      description: fixtures.published.description,
+      content,
+      category: fixtures.published.category,
+      tags: fixtures.published.tags,
+      techStack: [],
+      changedFields: ['content']
+    }
+  });
+
+  it('restores a clean revision', async () => {
+    const original = await createRevision(1, fixtures.published.content);
+    await createRevision(2, `${fixtures.published.content} Now with a rota generator.`);
+
+    const response = await request(app)
+      .post(`/api/ideas/${fixtures.published.id}/revisions/${original.id}/restore`)
+      .set(authHeader(fixtures.collaborator));
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ held: false, idea: { status: IdeaStatus.PUBLISHED } });
+  });
+
+  it('screens the restored content and holds spam for review', async () => {
+    const spam = await createRevision(1, SPAM);
+    await createRevision(2, fixtures.published.content);
+
+    const response = await request(app)
+      .post(`/api/ideas/${fixtures.published.id}/revisions/${spam.id}/restore`)
+      .set(authHeader(fixtures.collaborator));
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ held: true, idea: { content: SPAM, status: IdeaStatus.HIDDEN } });
+    expect(mockPrisma.$rows('ScreeningVerdict')).toEqual([
+      expect.objectContaining({ ideaId: fixtures.published.id, action: ScreeningAction.HOLD, authorId: fixtures.collaborator.id })
+    ]);
+  });
+});
@@ -4,9 +4,29 @@ import { getDatabase } from '../config/database';
 import { logger } from '../config/logger';
 import { asyncHandler } from '../middleware/errorHandler';
 import { validate } from '../middleware/validation';
-import { authenticateJWT, optionalAuth, AuthenticatedRequest } from '../middleware/auth';
+import { authenticateJWT, optionalAuth, requirePermission, AuthenticatedRequest } from '../middleware/auth';
 import { CustomError } from '../middleware/errorHandler';
-import { IdeaCategory, IdeaStatus } from '@prisma/client';
+import { notificationService } from '../services/notificationService';
+import { resolveMentions, getAddedMentions } from '../services/mentionService';
+import { assertCanViewIdea, canViewIdea, ideaListWhere, IDEA_ACCESS_SELECT } from '../policies/ideaVisibility';
+import { assertCanEditIdea, assertCanManageIdea, getIdeaRole } from '../policies/ideaPermissions';
+import { recordRevision, diffSnapshots, toSnapshot } from '../services/revisionService';
+import { findSimilarIdeas, IdeaDraft, invalidateSimilarityCorpus } from '../services/similarityService';
+import { scheduleIdeaEmbedding } from '../services/embeddingService';
+import { facetFiltersFromQuery, facetFiltersWhere, loadIdeaFacets } from '../services/facetService';
+import { mergeIdeas } from '../services/ideaMergeService';
+import { recordIdeaView } from '../services/trendingService';
+import { announcePublishedIdea } from '../services/ideaPublishService';
+import { recordHeldContent, screenContent } from '../services/contentScreeningService';
+import { annotateOpenRoles } from '../services/recruitmentService';
+import {
+  CollaboratorRole,
+  CollaboratorStatus,
+  IdeaCategory,
+  IdeaStatus,
+  ReportTargetType,
+  ScreeningAction
+} from '@prisma/client';
 
 const router = express.Router();
 
@@ -18,8 +38,49 @@ const createIdeaValidation = [
   body('category').isIn(Object.values(IdeaCategory)).withMessage('Invalid category'),
   body('tags').isArray({ max: 10 }).withMessage('Maximum 10 tags allowed'),
   body('tags.*').isLength({ min: 2, max: 30 }).withMessage('Each tag must be 2-30 characters'),
+  body('acknowledgeSimilar').optional().isBoolean().withMessage('acknowledgeSimilar must be a boolean'),
 ];
 
+const collaboratorUserSelect = {
+  id: true,
+  username: true,
+  avatar: true
+};
+
+// Accepted co-authors shown next to the author on cards and the detail page
+const acceptedCollaborators = {
+  where: { status: CollaboratorStatus.ACCEPTED },
+  orderBy: { createdAt: 'asc' as const },
+  select: {
+    userId: true,
+    role: true,
+    status: true,
+    user: { select: collaboratorUserSelect }
+  }
+};
+
+// Creating or publishing something that looks like an existing idea needs the
+// author to confirm they've seen it. Returns the 409 body, or null when clear.
+async function duplicateConflict(draft: IdeaDraft, excludeId?: string) {
+  const similar = await findSimilarIdeas(draft, { excludeId });
+  if (!similar.some(idea => idea.isLikelyDuplicate)) {
+    return null;
+  }
+
+  return {
+    error: 'Possible duplicate',
+    message: `This looks like "${similar[0].title}". Check the similar ideas, then confirm to continue.`,
+    similar
+  };
+}
+
+// Everything content screening looks at for an idea
+const screeningText = (idea: { title: string; description: string; content: string; tags: string[] }) =>
+  [idea.title, idea.description, idea.content, idea.tags.join(' ')].join('\n');
+
+const formatCollaborators = (collaborators: { role: CollaboratorRole; user: { id: string; username: string; avatar: string | null } }[]) =>
+  collaborators.map(collaborator => ({ ...collaborator.user, role: collaborator.role }));
+
 
 // Get all ideas with filtering and pagination
 router.get('/', optionalAuth, validate([
@@ -31,7 +92,11 @@ router.get('/', optionalAuth, validate([
   query('sort').optional().isIn(['newest', 'oldest', 'popular', 'trending', 'hot']).withMessage('Invalid sort option'),
   query('difficulty').optional().isIn(['BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'EXPERT']).withMessage('Invalid difficulty level'),
   query('timeCommitment').optional().isIn(['QUICK', 'SHORT', 'MEDIUM', 'LONG', 'EXTENDED']).withMessage('Invalid time commitment'),
-  query('techStack').optional().isString().withMessage('Tech stack must be a string')
+  query('techStack').optional().isString().withMessage('Tech stack must be a string'),
+  query('status').optional().isIn(Object.values(IdeaStatus)).withMessage('Invalid status'),
+  query('recruiting').optional().isBoolean().withMessage('Recruiting must be true or false'),
+  // Facet counts cost an extra scan, so only filter UIs ask for them
+  query('facets').optional().isBoolean().withMessage('Facets must be true or false')
 ]), asyncHandler(async (req: AuthenticatedRequest, res) => {
   const prisma = getDatabase();
   
@@ -46,64 +111,36 @@ router.get('/', optionalAuth, validate([
   const page = parseInt(req.query.page as string) || 1;
   const limit = parseInt(req.query.limit as string) || 20;
   const offset = (page - 1) * limit;
-  const category = req.query.category as IdeaCategory;
+  const filters = facetFiltersFromQuery(req.query);
   const sort = req.query.sort as string || 'hot';
-  const tags = req.query.tags as string;
   const search = req.query.search as string;
-  const difficulty = req.query.difficulty as string;
-  const timeCommitment = req.query.timeCommitment as string;
-  const techStack = req.query.techStack as string;
-
-  // Build where clause (include all ideas regardless of status)
-  const where: any = {};
+  const status = req.query.status as IdeaStatus;
+  const recruiting = req.query.recruiting === 'true';
+  const withFacets = req.query.facets === 'true';
 
-  if (category) {
-    where.category = category;
-  }
-
-  if (tags) {
-    const tagArray = tags.split(',').map(tag => tag.trim());
-    where.tags = {
-      hasSome: tagArray
-    };
-  }
+  // Only published ideas unless the viewer asks for drafts/archive they own or co-author
+  const visibilityWhere = ideaListWhere(req.user?.id, status);
 
-  if (difficulty) {
-    where.difficulty = difficulty;
-  }
-
-  if (timeCommitment) {
-    where.timeCommitment = timeCommitment;
-  }
+  // Build where clause; facet filters are added separately so facets can be
+  // counted without their own filter
+  const where: any = {};
 
-  if (techStack) {
-    const techStackArray = techStack.split(',').map(tech => tech.trim());
-    where.OR = where.OR || [];
-    where.OR.push(
-      { techStack: { hasSome: techStackArray } },
-      { aiTechStack: { hasSome: techStackArray } }
-    );
+  if (recruiting) {
+    where.isRecruiting = true;
+    where.openRoles = { some: { filled: false } };
   }
 
   if (search) {
-    const searchConditions = [
+    where.OR = [
       { title: { contains: search, mode: 'insensitive' } },
       { description: { contains: search, mode: 'insensitive' } },
       { content: { contains: search, mode: 'insensitive' } }
     ];
-    
-    if (where.OR) {
-      // If we already have OR conditions from techStack, combine them
-      where.AND = [
-        { OR: where.OR },
-        { OR: searchConditions }
-      ];
-      delete where.OR;
-    } else {
-      where.OR = searchConditions;
-    }
   }
 
+  const baseWhere = { AND: [visibilityWhere, where] };
+  const listWhere = { AND: [visibilityWhere, where, ...facetFiltersWhere(filters)] };
+
   // Build order by clause
   let orderBy: any = {};
   switch (sort) {
@@ -117,8 +154,9 @@ router.get('/', optionalAuth, validate([
       orderBy = { voteScore: 'desc' };
       break;
     case 'trending':
-      // Simple trending algorithm based on recent activity
+      // trendingScore is kept up to date by the trending job
       orderBy = [
+        { trendingScore: 'desc' },
         { voteScore: 'desc' },
         { createdAt: 'desc' }
       ];
@@ -131,9 +169,9 @@ router.get('/', optionalAuth, validate([
       ];
   }
 
-  const [ideas, total] = await Promise.all([
+  const [ideas, total, facets] = await Promise.all([
     prisma.idea.findMany({
-      where,
+      where: listWhere,
       orderBy,
       skip: offset,
       take: limit,
@@ -150,6 +188,7 @@ router.get('/', optionalAuth, validate([
           where: { userId: req.user.id },
           select: { type: true }
         } : false,
+        collaborators: { ...acceptedCollaborators, take: 5 },
         _count: {
           select: {
             votes: true,
@@ -159,7 +198,8 @@ router.get('/', optionalAuth, validate([
         }
       }
     }),
-    prisma.idea.count({ where })
+    prisma.idea.count({ where: listWhere }),
+    withFacets ? loadIdeaFacets(baseWhere, filters) : undefined
   ]);
 
   // Format response
@@ -170,6 +210,9 @@ router.get('/', optionalAuth, validate([
     category: idea.category,
     tags: idea.tags,
     author: idea.author,
+    collaborators: formatCollaborators(idea.collaborators),
+    isRecruiting: idea.isRecruiting,
+    openRoles: idea.isRecruiting ? annotateOpenRoles(idea.openRoles, req.user?.skills) : [],
     voteScore: idea.voteScore,
     viewCount: idea.viewCount,
     commentCount: idea.commentCount,
@@ -189,11 +232,12 @@ router.get('/', optionalAuth, validate([
       pages: Math.ceil(total / limit)
     },
     filters: {
-      category,
-      tags: tags?.split(','),
+      ...filters,
       search,
-      sort
-    }
+      sort,
+      recruiting
+    },
+    ...(facets && { facets })
   });
 }));
 
@@ -225,6 +269,11 @@ router.get('/:id', optionalAuth, validate([
         where: { userId: req.user.id },
         select: { id: true }
       } : false,
+      collaborators: acceptedCollaborators,
+      joinRequests: req.user ? {
+        where: { userId: req.user.id },
+        select: { id: true, roleId: true, status: true, createdAt: true }
+      } : false,
       _count: {
         select: {
           votes: true,
@@ -235,26 +284,35 @@ router.get('/:id', optionalAuth, validate([
     }
   });
 
-  if (!idea) {
-    throw new CustomError('Idea not found', 404);
-  }
+  const mergedInto = idea?.mergedIntoId
+    ? await prisma.idea.findUnique({ where: { id: idea.mergedIntoId }, select: { id: true, title: true } })
+    : null;
 
-  if (idea.status !== IdeaStatus.PUBLISHED && (!req.user || req.user.id !== idea.authorId)) {
-    throw new CustomError('Idea not found', 404);
+  // A merged duplicate points everyone else at the idea it was merged into
+  if (idea && mergedInto && !canViewIdea(idea, req.user?.id)) {
+    res.status(404).json({
+      error: 'Idea merged',
+      message: `This idea was merged into "${mergedInto.title}"`,
+      mergedInto
+    });
+    return;
   }
 
-  // Increment view count (only once per user per session)
+  assertCanViewIdea(idea, req.user?.id);
+
   if (req.user && req.user.id !== idea.authorId) {
-    await prisma.idea.update({
-      where: { id },
-      data: { viewCount: { increment: 1 } }
-    });
+    await recordIdeaView(id, req.user.id);
   }
 
   const formattedIdea = {
     ...idea,
+    collaborators: formatCollaborators(idea.collaborators),
+    userRole: getIdeaRole(idea, req.user?.id),
+    openRoles: annotateOpenRoles(idea.openRoles, req.user?.skills),
+    userJoinRequest: req.user && idea.joinRequests.length > 0 ? idea.joinRequests[0] : null,
     userVote: req.user && idea.votes.length > 0 ? idea.votes[0].type : null,
     isBookmarked: req.user && idea.bookmarks.length > 0,
+    mergedInto,
     counts: idea._count
   };
 
@@ -263,10 +321,28 @@ router.get('/:id', optionalAuth, validate([
 
 // Create new idea
 router.post('/', authenticateJWT, validate(createIdeaValidation), asyncHandler(async (req: AuthenticatedRequest, res) => {
-  const { title, description, content, category, tags } = req.body;
+  const { title, description, content, category, tags, acknowledgeSimilar } = req.body;
   const authorId = req.user!.id;
   const prisma = getDatabase();
 
+  if (!acknowledgeSimilar) {
+    const conflict = await duplicateConflict({ title, description, tags });
+    if (conflict) {
+      res.status(409).json(conflict);
+      return;
+    }
+  }
+
+  // New ideas are drafts, so there is nothing to hold until they are published
+  await screenContent({
+    type: ReportTargetType.IDEA,
+    author: req.user!,
+    text: screeningText({ title, description, content, tags: tags || [] }),
+    isEdit: false
+  });
+
+  const mentions = await resolveMentions(description, content);
+
   const idea = await prisma.idea.create({
     data: {
       title,
@@ -275,6 +351,7 @@ router.post('/', authenticateJWT, validate(createIdeaValidation), asyncHandler(a
       category,
       tags: tags || [],
       authorId,
+      mentions,
       publishedAt: null
     },
     include: {
@@ -298,6 +375,9 @@ router.post('/', authenticateJWT, validate(createIdeaValidation), asyncHandler(a
     }
   });
 
+  await recordRevision({ ideaId: idea.id, editorId: authorId, snapshot: idea });
+  scheduleIdeaEmbedding(idea.id);
+
   logger.info(`New idea created: ${idea.title} by ${req.user!.username}`);
 
   res.status(201).json({
@@ -309,39 +389,108 @@ router.post('/', authenticateJWT, validate(createIdeaValidation), asyncHandler(a
 // Update idea
 router.put('/:id', authenticateJWT, validate([
   param('id').isString().withMessage('Invalid idea ID'),
-  ...createIdeaValidation
+  ...createIdeaValidation,
+  body('techStack').optional().isArray({ max: 20 }).withMessage('Maximum 20 technologies allowed'),
+  body('changeSummary').optional().isLength({ max: 200 }).withMessage('Change summary must be at most 200 characters')
 ]), asyncHandler(async (req: AuthenticatedRequest, res) => {
   const { id } = req.params;
-  const { title, description, content, category, tags, status } = req.body;
+  const { title, description, content, category, tags, techStack, status, changeSummary, acknowledgeSimilar } = req.body;
   const userId = req.user!.id;
   const prisma = getDatabase();
 
   const existingIdea = await prisma.idea.findUnique({
     where: { id },
-    select: { id: true, authorId: true, status: true }
+    select: {
+      id: true,
+      authorId: true,
+      status: true,
+      title: true,
+      description: true,
+      content: true,
+      category: true,
+      tags: true,
+      techStack: true,
+      mentions: true,
+      mergedIntoId: true,
+      createdAt: true,
+      ...IDEA_ACCESS_SELECT
+    }
   });
 
   if (!existingIdea) {
     throw new CustomError('Idea not found', 404);
   }
 
-  if (existingIdea.authorId !== userId) {
-    throw new CustomError('Not authorized to update this idea', 403);
+  assertCanEditIdea(existingIdea, userId);
+
+  // Editors can change the content; publishing and archiving stay with the owner
+  if (status !== undefined && status !== existingIdea.status) {
+    assertCanManageIdea(existingIdea, userId, 'Only the owner can change the idea status');
+
+    // Its votes and comments moved to the target, so bringing it back would undo the merge
+    if (existingIdea.mergedIntoId) {
+      throw new CustomError('This idea was merged into another idea', 409);
+    }
+
+    // Only moderation hides ideas and brings them back
+    if (existingIdea.status === IdeaStatus.HIDDEN) {
+      throw new CustomError('This idea is hidden pending moderator review', 403);
+    }
+    if (status === IdeaStatus.HIDDEN) {
+      throw new CustomError('Invalid status', 400);
+    }
   }
 
+  const isPublishing = status === IdeaStatus.PUBLISHED && existingIdea.status !== IdeaStatus.PUBLISHED;
+  if (isPublishing && !acknowledgeSimilar) {
+    const conflict = await duplicateConflict({
+      title: title ?? existingIdea.title,
+      description: description ?? existingIdea.description,
+      tags: tags ?? existingIdea.tags
+    }, id);
+    if (conflict) {
+      res.status(409).json(conflict);
+      return;
+    }
+  }
+
+  const screening = await screenContent({
+    type: ReportTargetType.IDEA,
+    author: req.user!,
+    text: screeningText({
+      title: title ?? existingIdea.title,
+      description: description ?? existingIdea.description,
+      content: content ?? existingIdea.content,
+      tags: tags ?? existingIdea.tags
+    }),
+    isEdit: true,
+    ideaId: id
+  });
+  // Held ideas stay out of sight, like ideas hidden by moderators
+  const isHeld = screening.action === ScreeningAction.HOLD && (status ?? existingIdea.status) === IdeaStatus.PUBLISHED;
+
   const updateData: any = {};
   if (title !== undefined) updateData.title = title;
   if (description !== undefined) updateData.description = description;
   if (content !== undefined) updateData.content = content;
   if (category !== undefined) updateData.category = category;
   if (tags !== undefined) updateData.tags = tags;
-  if (status !== undefined) {
+  if (techStack !== undefined) updateData.techStack = techStack;
+  if (isHeld) {
+    updateData.status = IdeaStatus.HIDDEN;
+  } else if (status !== undefined) {
     updateData.status = status;
     if (status === IdeaStatus.PUBLISHED && existingIdea.status !== IdeaStatus.PUBLISHED) {
       updateData.publishedAt = new Date();
     }
   }
 
+  const mentions = await resolveMentions(
+    description !== undefined ? description : existingIdea.description,
+    content !== undefined ? content : existingIdea.content
+  );
+  updateData.mentions = mentions;
+
   const idea = await prisma.idea.update({
     where: { id },
     data: updateData,
@@ -357,34 +506,235 @@ router.put('/:id', authenticateJWT, validate([
     }
   });
 
-  // Create activity record and broadcast if published
-  if (status === IdeaStatus.PUBLISHED && existingIdea.status !== IdeaStatus.PUBLISHED) {
-    await prisma.activity.create({
-      data: {
-        type: 'IDEA_PUBLISHED',
-        userId,
-        ideaId: idea.id
-      }
+  await recordRevision({
+    ideaId: idea.id,
+    editorId: userId,
+    snapshot: idea,
+    summary: changeSummary,
+    previous: {
+      snapshot: existingIdea,
+      authorId: existingIdea.authorId,
+      createdAt: existingIdea.createdAt
+    }
+  });
+  scheduleIdeaEmbedding(id);
+
+  if (isHeld) {
+    await recordHeldContent(screening, { ideaId: id });
+  }
+
+  // Mentions only notify once the idea is visible: publishing notifies
+  // everyone mentioned, later edits only the newly added ones
+  if (isPublishing && !isHeld) {
+    await announcePublishedIdea(idea, req.user!);
+  } else if (idea.status === IdeaStatus.PUBLISHED) {
+    await notificationService.notifyMentions(getAddedMentions(existingIdea.mentions, mentions), req.user!, {
+      ideaId: idea.id,
+      ideaTitle: idea.title
     });
+  }
 
-    // Emit a global event for the new idea
-    const io = req.app.get('io');
-    if (io) {
-      io.emit('idea:new', { idea });
+  logger.info(`Idea updated: ${idea.title} by ${req.user!.username}`);
+
+  // Emit socket event for idea update; a held idea leaves live lists instead
+  const io = req.app.get('io');
+  if (isHeld) {
+    if (existingIdea.status === IdeaStatus.PUBLISHED) {
+      invalidateSimilarityCorpus();
+      io?.emit('idea:deleted', { ideaId: idea.id, title: idea.title });
     }
+  } else if (io) {
+    io.emit('idea:updated', { idea });
   }
 
-  logger.info(`Idea updated: ${idea.title} by ${req.user!.username}`);
+  res.json({
+    message: isHeld ? 'Your idea is awaiting moderator review' : 'Idea updated successfully',
+    idea,
+    held: isHeld
+  });
+}));
+
+// Get revision history for an idea
+router.get('/:id/revisions', optionalAuth, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const prisma = getDatabase();
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  const offset = (page - 1) * limit;
+
+  const idea = await prisma.idea.findUnique({
+    where: { id },
+    select: { id: true, status: true, authorId: true, ...IDEA_ACCESS_SELECT }
+  });
+
+  assertCanViewIdea(idea, req.user?.id);
+
+  // One extra row so the oldest revision on the page can be diffed against its predecessor
+  const [revisions, total] = await Promise.all([
+    prisma.ideaRevision.findMany({
+      where: { ideaId: id },
+      orderBy: { revision: 'desc' },
+      skip: offset,
+      take: limit + 1,
+      include: {
+        editor: {
+          select: {
+            id: true,
+            username: true,
+            avatar: true
+          }
+        }
+      }
+    }),
+    prisma.ideaRevision.count({ where: { ideaId: id } })
+  ]);
+
+  const formattedRevisions = revisions.slice(0, limit).map((revision, index) => ({
+    ...revision,
+    changes: diffSnapshots(revisions[index + 1] || null, revision)
+  }));
+
+  res.json({
+    revisions: formattedRevisions,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+}));
+
+// Restore an idea to an earlier revision
+router.post('/:id/revisions/:revisionId/restore', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  param('revisionId').isMongoId().withMessage('Invalid revision ID')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id, revisionId } = req.params;
+  const userId = req.user!.id;
+  const prisma = getDatabase();
+
+  const existingIdea = await prisma.idea.findUnique({
+    where: { id },
+    select: { id: true, authorId: true, status: true, ...IDEA_ACCESS_SELECT }
+  });
+
+  if (!existingIdea) {
+    throw new CustomError('Idea not found', 404);
+  }
+
+  assertCanEditIdea(existingIdea, userId);
+
+  const revision = await prisma.ideaRevision.findFirst({
+    where: { id: revisionId, ideaId: id }
+  });
+
+  if (!revision) {
+    throw new CustomError('Revision not found', 404);
+  }
+
+  const snapshot = toSnapshot(revision);
+
+  // Old revisions include held edits, so a restore is screened like any other edit
+  const screening = await screenContent({
+    type: ReportTargetType.IDEA,
+    author: req.user!,
+    text: screeningText(snapshot),
+    isEdit: true,
+    ideaId: id
+  });
+  const isHeld = screening.action === ScreeningAction.HOLD && existingIdea.status === IdeaStatus.PUBLISHED;
+
+  const mentions = await resolveMentions(snapshot.description, snapshot.content);
+
+  const idea = await prisma.idea.update({
+    where: { id },
+    data: { ...snapshot, mentions, ...(isHeld && { status: IdeaStatus.HIDDEN }) },
+    include: {
+      author: {
+        select: {
+          id: true,
+          username: true,
+          avatar: true,
+          karmaScore: true
+        }
+      }
+    }
+  });
+
+  const restored = await recordRevision({
+    ideaId: id,
+    editorId: userId,
+    snapshot,
+    summary: `Restored revision #${revision.revision}`,
+    restoredFromId: revision.id
+  });
+
+  await prisma.activity.create({
+    data: {
+      type: 'IDEA_UPDATED',
+      userId,
+      ideaId: id,
+      data: { restoredRevision: revision.revision }
+    }
+  });
+  scheduleIdeaEmbedding(id);
+
+  if (isHeld) {
+    await recordHeldContent(screening, { ideaId: id });
+  }
+
+  logger.info(`Idea ${idea.title} restored to revision ${revision.revision} by ${req.user!.username}`);
 
-  // Emit socket event for idea update
   const io = req.app.get('io');
-  if (io) {
+  if (isHeld) {
+    invalidateSimilarityCorpus();
+    io?.emit('idea:deleted', { ideaId: idea.id, title: idea.title });
+  } else if (io) {
     io.emit('idea:updated', { idea });
   }
 
   res.json({
-    message: 'Idea updated successfully',
-    idea
+    message: isHeld ? 'Your idea is awaiting moderator review' : `Restored revision #${revision.revision}`,
+    idea,
+    revision: restored,
+    held: isHeld
+  });
+}));
+
+// Merge a duplicate into the idea it duplicates (moderators only)
+router.post('/:id/merge', authenticateJWT, requirePermission('ideas:merge'), validate([
+  param('id').isMongoId().withMessage('Invalid idea ID'),
+  body('targetId').isMongoId().withMessage('Invalid target idea ID')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const { targetId } = req.body;
+  const prisma = getDatabase();
+
+  const summary = await mergeIdeas(id, targetId, req.user!.id);
+
+  const [source, target] = await Promise.all([
+    prisma.idea.findUniqueOrThrow({ where: { id }, select: { id: true, title: true, authorId: true } }),
+    prisma.idea.findUniqueOrThrow({ where: { id: targetId }, select: { id: true, title: true } })
+  ]);
+
+  await notificationService.notifyIdeaMerged(source, target, req.user!);
+
+  logger.info(`Idea ${id} merged into ${targetId} by ${req.user!.username}`, summary);
+
+  const io = req.app.get('io');
+  if (io) {
+    io.broadcastToIdea(id, 'idea:merged', { ideaId: id, mergedInto: target });
+  }
+
+  res.json({
+    message: `Merged into "${target.title}"`,
+    mergedInto: target,
+    summary
   });
 }));
 
@@ -405,9 +755,7 @@ router.delete('/:id', authenticateJWT, validate([
     throw new CustomError('Idea not found', 404);
   }
 
-  if (idea.authorId !== userId) {
-    throw new CustomError('Not authorized to delete this idea', 403);
-  }
+  assertCanManageIdea(idea, userId, 'Not authorized to delete this idea');
 
   await prisma.idea.delete({
     where: { id }
@@ -438,12 +786,10 @@ router.post('/:id/vote', authenticateJWT, validate([
 
   const idea = await prisma.idea.findUnique({
     where: { id },
-    select: { id: true, authorId: true, voteScore: true }
+    select: { id: true, authorId: true, title: true, voteScore: true, status: true, ...IDEA_ACCESS_SELECT }
   });
 
-  if (!idea) {
-    throw new CustomError('Idea not found', 404);
-  }
+  assertCanViewIdea(idea, userId);
 
   if (idea.authorId === userId) {
     throw new CustomError('Cannot vote on your own idea', 400);
@@ -511,6 +857,11 @@ router.post('/:id/vote', authenticateJWT, validate([
     }
   });
 
+  // Let the author know about new upvotes (removals and downvotes stay silent)
+  if (type === 'UP' && voteScoreChange > 0) {
+    await notificationService.notifyIdeaVote(idea, req.user!);
+  }
+
   // Emit real-time update
   const io = req.app.get('io');
   if (io) {
@@ -538,12 +889,10 @@ router.post('/:id/bookmark', authenticateJWT, validate([
 
   const idea = await prisma.idea.findUnique({
     where: { id },
-    select: { id: true }
+    select: { id: true, status: true, authorId: true, ...IDEA_ACCESS_SELECT }
   });
 
-  if (!idea) {
-    throw new CustomError('Idea not found', 404);
-  }
+  assertCanViewIdea(idea, userId);
 
   const existingBookmark = await prisma.bookmark.findUnique({
     where: {
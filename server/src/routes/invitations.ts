@@ -0,0 +1,127 @@
+import express from 'express';
+import { param } from 'express-validator';
+import { CollaboratorStatus } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { logger } from '../config/logger';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
+import { validate } from '../middleware/validation';
+import { authenticateJWT, AuthenticatedRequest } from '../middleware/auth';
+import { notificationService } from '../services/notificationService';
+
+const router = express.Router();
+
+const invitationSelect = {
+  id: true,
+  userId: true,
+  invitedById: true,
+  role: true,
+  status: true,
+  inviteToken: true,
+  respondedAt: true,
+  createdAt: true,
+  idea: {
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      status: true
+    }
+  },
+  invitedBy: {
+    select: {
+      id: true,
+      username: true,
+      avatar: true
+    }
+  }
+};
+
+const tokenValidation = [
+  param('token').isUUID().withMessage('Invalid invitation link')
+];
+
+// Invitations are only visible to the invited user; anyone else holding the
+// link gets a 404
+async function findInvitation(token: string, userId: string) {
+  const prisma = getDatabase();
+  const invitation = await prisma.ideaCollaborator.findUnique({
+    where: { inviteToken: token },
+    select: invitationSelect
+  });
+
+  if (!invitation || invitation.userId !== userId) {
+    throw new CustomError('Invitation not found', 404);
+  }
+
+  return invitation;
+}
+
+async function respond(req: AuthenticatedRequest, accepted: boolean) {
+  const invitation = await findInvitation(req.params.token, req.user!.id);
+
+  if (invitation.status !== CollaboratorStatus.PENDING) {
+    throw new CustomError(`Invitation already ${invitation.status.toLowerCase()}`, 400);
+  }
+
+  const prisma = getDatabase();
+  const updated = await prisma.ideaCollaborator.update({
+    where: { id: invitation.id },
+    data: {
+      status: accepted ? CollaboratorStatus.ACCEPTED : CollaboratorStatus.DECLINED,
+      respondedAt: new Date()
+    },
+    select: invitationSelect
+  });
+
+  await notificationService.notifyCollaborationResponse(
+    { invitedById: invitation.invitedById, accepted },
+    invitation.idea,
+    req.user!
+  );
+
+  logger.info(`${req.user!.username} ${accepted ? 'accepted' : 'declined'} invitation to ${invitation.idea.title}`);
+
+  return updated;
+}
+
+// Get the current user's pending invitations
+router.get('/', authenticateJWT, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const prisma = getDatabase();
+
+  const invitations = await prisma.ideaCollaborator.findMany({
+    where: {
+      userId: req.user!.id,
+      status: CollaboratorStatus.PENDING
+    },
+    orderBy: { createdAt: 'desc' },
+    select: invitationSelect
+  });
+
+  res.json({ invitations });
+}));
+
+// Get a single invitation by its link token
+router.get('/:token', authenticateJWT, validate(tokenValidation), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const invitation = await findInvitation(req.params.token, req.user!.id);
+  res.json({ invitation });
+}));
+
+// Accept an invitation
+router.post('/:token/accept', authenticateJWT, validate(tokenValidation), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const invitation = await respond(req, true);
+  res.json({
+    message: `You are now collaborating on "${invitation.idea.title}"`,
+    invitation
+  });
+}));
+
+// Decline an invitation
+router.post('/:token/decline', authenticateJWT, validate(tokenValidation), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const invitation = await respond(req, false);
+  res.json({
+    message: 'Invitation declined',
+    invitation
+  });
+}));
+
+export default router;
@@ -0,0 +1,143 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { ModerationAction, ReportStatus, ReportTargetType, ScreeningAction, ScreeningStatus } from '@prisma/client';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validate } from '../middleware/validation';
+import { authenticateJWT, requirePermission, AuthenticatedRequest } from '../middleware/auth';
+import { getModerationQueue, moderateContent } from '../services/moderationService';
+import { liftSuspension, listSuspendedUsers, suspendUser } from '../services/accountService';
+import { listScreeningVerdicts, reviewScreeningVerdict } from '../services/contentScreeningService';
+
+const router = express.Router();
+
+router.use(authenticateJWT);
+
+// Reported ideas and comments awaiting review (or, with status, past decisions)
+router.get('/queue', requirePermission('content:moderate'), validate([
+  query('type').optional().isIn(Object.values(ReportTargetType)).withMessage('Type must be IDEA or COMMENT'),
+  query('status').optional().isIn(Object.values(ReportStatus)).withMessage('Invalid report status'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+
+  const { items, total } = await getModerationQueue({
+    type: req.query.type as ReportTargetType | undefined,
+    status: (req.query.status as ReportStatus) || ReportStatus.OPEN,
+    offset: (page - 1) * limit,
+    limit
+  });
+
+  res.json({
+    items,
+    pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+  });
+}));
+
+const actionValidation = [
+  param('id').isMongoId().withMessage('Invalid ID'),
+  body('action').isIn(Object.values(ModerationAction)).withMessage('Action must be DISMISS, HIDE, DELETE or WARN'),
+  // Shown to the author along with the action
+  body('note').optional().isString().trim().isLength({ max: 500 }).withMessage('Note must be at most 500 characters')
+];
+
+const actOn = (type: ReportTargetType) => asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const result = await moderateContent({
+    type,
+    id: req.params.id,
+    action: req.body.action,
+    moderatorId: req.user!.id,
+    note: req.body.note
+  });
+
+  res.json({ message: 'Moderation action applied', ...result });
+});
+
+router.post('/ideas/:id/actions', requirePermission('content:moderate'), validate(actionValidation), actOn(ReportTargetType.IDEA));
+router.post('/comments/:id/actions', requirePermission('content:moderate'), validate(actionValidation), actOn(ReportTargetType.COMMENT));
+
+// Content held or rejected by automatic screening
+router.get('/screening', requirePermission('content:moderate'), validate([
+  query('status').optional().isIn(Object.values(ScreeningStatus)).withMessage('Invalid screening status'),
+  query('action').optional().isIn([ScreeningAction.HOLD, ScreeningAction.REJECT]).withMessage('Action must be HOLD or REJECT'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+
+  const { verdicts, total } = await listScreeningVerdicts({
+    status: (req.query.status as ScreeningStatus) || ScreeningStatus.PENDING,
+    action: req.query.action as ScreeningAction | undefined,
+    offset: (page - 1) * limit,
+    limit
+  });
+
+  res.json({
+    verdicts,
+    pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+  });
+}));
+
+router.post('/screening/:id/review', requirePermission('content:moderate'), validate([
+  param('id').isMongoId().withMessage('Invalid ID'),
+  body('decision').isIn(['APPROVE', 'REMOVE']).withMessage('Decision must be APPROVE or REMOVE'),
+  body('note').optional().isString().trim().isLength({ max: 500 }).withMessage('Note must be at most 500 characters')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const result = await reviewScreeningVerdict({
+    id: req.params.id,
+    decision: req.body.decision,
+    moderatorId: req.user!.id,
+    note: req.body.note
+  });
+
+  res.json({ message: 'Verdict reviewed', ...result });
+}));
+
+router.get('/users/suspended', requirePermission('users:suspend'), validate([
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+
+  const { users, total } = await listSuspendedUsers({ offset: (page - 1) * limit, limit });
+
+  res.json({
+    users,
+    pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+  });
+}));
+
+// Suspend a user; without `until` the suspension is permanent. Suspending an
+// already suspended user replaces the previous suspension.
+router.post('/users/:id/suspension', requirePermission('users:suspend'), validate([
+  param('id').isMongoId().withMessage('Invalid user ID'),
+  body('reason').isString().trim().isLength({ min: 1, max: 500 }).withMessage('Reason is required (max 500 characters)'),
+  body('until').optional({ values: 'null' }).isISO8601().withMessage('Until must be a date')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const user = await suspendUser({
+    targetUserId: req.params.id,
+    actorId: req.user!.id,
+    reason: req.body.reason,
+    until: req.body.until ? new Date(req.body.until) : null
+  });
+
+  res.json({ message: `${user.username} has been suspended`, user });
+}));
+
+router.delete('/users/:id/suspension', requirePermission('users:suspend'), validate([
+  param('id').isMongoId().withMessage('Invalid user ID'),
+  body('reason').optional().isString().trim().isLength({ max: 500 }).withMessage('Reason must be at most 500 characters')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const user = await liftSuspension({
+    targetUserId: req.params.id,
+    actorId: req.user!.id,
+    reason: req.body.reason
+  });
+
+  res.json({ message: `${user.username} has been reinstated`, user });
+}));
+
+export default router;
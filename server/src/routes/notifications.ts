@@ -23,7 +23,7 @@ router.get('/', authenticateJWT, validate([
 
   const where: any = { userId };
   if (unread) {
-    where.read = false;
+    where.isRead = false;
   }
 
   const [notifications, total, unreadCount] = await Promise.all([
@@ -1,10 +1,11 @@
 import express from 'express';
-import { body } from 'express-validator';
+import { body, query } from 'express-validator';
 import { getDatabase } from '../config/database';
 import { logger } from '../config/logger';
 import { asyncHandler } from '../middleware/errorHandler';
 import { validate } from '../middleware/validation';
 import { authenticateJWT, AuthenticatedRequest } from '../middleware/auth';
+import { verifyUnsubscribeToken } from '../services/digestService';
 
 const router = express.Router();
 
@@ -70,7 +71,9 @@ router.get('/', authenticateJWT, asyncHandler(async (req: AuthenticatedRequest,
         preferredTimeCommitment: [],
         enableRecommendations: true,
         enableTrending: true,
-        recommendationWeight: {}
+        recommendationWeight: {},
+        digestDaily: false,
+        digestWeekly: false
       };
 
       res.json({
@@ -106,7 +109,9 @@ router.put('/', authenticateJWT, validate([
   body('preferredTimeCommitment.*').optional().isIn(Object.values(TimeCommitment)).withMessage('Invalid time commitment'),
   body('enableRecommendations').optional().isBoolean().withMessage('Enable recommendations must be boolean'),
   body('enableTrending').optional().isBoolean().withMessage('Enable trending must be boolean'),
-  body('recommendationWeight').optional().isObject().withMessage('Recommendation weight must be an object')
+  body('recommendationWeight').optional().isObject().withMessage('Recommendation weight must be an object'),
+  body('digestDaily').optional().isBoolean().withMessage('Daily digest must be boolean'),
+  body('digestWeekly').optional().isBoolean().withMessage('Weekly digest must be boolean')
 ]), asyncHandler(async (req: AuthenticatedRequest, res) => {
   const prisma = getDatabase();
   
@@ -125,7 +130,9 @@ router.put('/', authenticateJWT, validate([
     preferredTimeCommitment,
     enableRecommendations,
     enableTrending,
-    recommendationWeight
+    recommendationWeight,
+    digestDaily,
+    digestWeekly
   } = req.body;
 
   try {
@@ -138,7 +145,9 @@ router.put('/', authenticateJWT, validate([
         ...(preferredTimeCommitment !== undefined && { preferredTimeCommitment }),
         ...(enableRecommendations !== undefined && { enableRecommendations }),
         ...(enableTrending !== undefined && { enableTrending }),
-        ...(recommendationWeight !== undefined && { recommendationWeight })
+        ...(recommendationWeight !== undefined && { recommendationWeight }),
+        ...(digestDaily !== undefined && { digestDaily }),
+        ...(digestWeekly !== undefined && { digestWeekly })
       },
       create: {
         userId,
@@ -148,7 +157,9 @@ router.put('/', authenticateJWT, validate([
         preferredTimeCommitment: preferredTimeCommitment || [],
         enableRecommendations: enableRecommendations !== undefined ? enableRecommendations : true,
         enableTrending: enableTrending !== undefined ? enableTrending : true,
-        recommendationWeight: recommendationWeight || {}
+        recommendationWeight: recommendationWeight || {},
+        digestDaily: digestDaily === true,
+        digestWeekly: digestWeekly === true
       }
     });
 
@@ -199,6 +210,80 @@ router.delete('/', authenticateJWT, asyncHandler(async (req: AuthenticatedReques
   }
 }));
 
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const unsubscribePage = (body: string) =>
+  `<!doctype html><html><head><meta charset="utf-8"><title>Email digest</title></head>` +
+  `<body style="font-family:sans-serif;max-width:32rem;margin:4rem auto;padding:0 1rem;">${body}</body></html>`;
+
+const readUnsubscribeToken = (req: express.Request) =>
+  verifyUnsubscribeToken(((req.query.token || req.body?.token) as string) || '');
+
+// The link in the digest email. Only asks for confirmation: mail scanners and
+// link prefetchers open links, and must not unsubscribe anyone by doing so.
+router.get('/digest/unsubscribe', validate([
+  query('token').notEmpty().withMessage('Token is required')
+]), (req, res) => {
+  const payload = readUnsubscribeToken(req);
+  if (!payload) {
+    res.status(400).type('html').send(unsubscribePage('<p>This unsubscribe link is invalid.</p>'));
+    return;
+  }
+
+  res.type('html').send(unsubscribePage(
+    `<p>Stop receiving the ${payload.frequency} digest?</p>` +
+    '<form method="post">' +
+    `<input type="hidden" name="token" value="${escapeHtml(req.query.token as string)}">` +
+    '<input type="hidden" name="confirm" value="1">' +
+    '<button type="submit">Unsubscribe</button>' +
+    '</form>'
+  ));
+});
+
+// Does the unsubscribing: the confirmation form above, and mail clients
+// posting List-Unsubscribe=One-Click for the List-Unsubscribe-Post header (RFC 8058)
+router.post('/digest/unsubscribe', asyncHandler(async (req, res) => {
+  const prisma = getDatabase();
+  const payload = readUnsubscribeToken(req);
+  const fromForm = req.body?.confirm === '1';
+
+  if (!payload) {
+    if (fromForm) {
+      res.status(400).type('html').send(unsubscribePage('<p>This unsubscribe link is invalid.</p>'));
+      return;
+    }
+    res.status(400).json({
+      success: false,
+      message: 'Invalid unsubscribe link'
+    });
+    return;
+  }
+
+  await prisma.userPreferences.updateMany({
+    where: { userId: payload.userId },
+    data: payload.frequency === 'daily' ? { digestDaily: false } : { digestWeekly: false }
+  });
+
+  logger.info(`User ${payload.userId} unsubscribed from the ${payload.frequency} digest`);
+
+  if (fromForm) {
+    res.type('html').send(unsubscribePage(
+      `<p>You have been unsubscribed from the ${payload.frequency} digest. ` +
+      'You can re-enable it from your notification settings at any time.</p>'
+    ));
+    return;
+  }
+
+  res.json({
+    success: true,
+    message: `Unsubscribed from the ${payload.frequency} digest`
+  });
+}));
+
 // Get available options for preferences
 router.get('/options', asyncHandler(async (_req, res) => {
   res.json({
@@ -1,29 +1,38 @@
 import express from 'express';
-import { query } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { getDatabase } from '../config/database';
 import { cacheService } from '../config/redis';
-import { asyncHandler } from '../middleware/errorHandler';
+import { asyncHandler, CustomError } from '../middleware/errorHandler';
 import { validate } from '../middleware/validation';
-import { optionalAuth, AuthenticatedRequest } from '../middleware/auth';
-import { IdeaCategory } from '@prisma/client';
+import { authenticateJWT, optionalAuth, AuthenticatedRequest } from '../middleware/auth';
+import { DifficultyLevel, IdeaCategory, SavedSearchAlert, TimeCommitment } from '@prisma/client';
+import { PUBLIC_IDEA_WHERE } from '../policies/ideaVisibility';
+import { searchIdeas, SearchResultItem, SearchMode, SearchSort } from '../services/searchService';
+import { facetFiltersFromQuery, facetFiltersWhere, IdeaFacets, loadIdeaFacets } from '../services/facetService';
+import { MAX_SAVED_SEARCHES } from '../services/savedSearchService';
 
 const router = express.Router();
 
 // Advanced search
 router.get('/', optionalAuth, validate([
+  // Supports "quoted phrases" and -excluded words
   query('q').optional().isString().isLength({ min: 2 }).withMessage('Query must be at least 2 characters'),
   query('category').optional().isIn(Object.values(IdeaCategory)).withMessage('Invalid category'),
   query('tags').optional().isString().withMessage('Tags must be a string'),
+  query('difficulty').optional().isIn(Object.values(DifficultyLevel)).withMessage('Invalid difficulty level'),
+  query('timeCommitment').optional().isIn(Object.values(TimeCommitment)).withMessage('Invalid time commitment'),
+  query('techStack').optional().isString().withMessage('Tech stack must be a string'),
   query('author').optional().isString().withMessage('Author must be a string'),
   query('sort').optional().isIn(['relevance', 'newest', 'oldest', 'popular']).withMessage('Invalid sort option'),
+  query('mode').optional().isIn(['keyword', 'semantic', 'hybrid']).withMessage('Mode must be keyword, semantic or hybrid'),
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50')
 ]), asyncHandler(async (req: AuthenticatedRequest, res) => {
   const q = req.query.q as string;
-  const category = req.query.category as string;
-  const tags = req.query.tags as string;
+  const filters = facetFiltersFromQuery(req.query);
   const author = req.query.author as string;
-  const sort = req.query.sort as string || 'relevance';
+  const sort = (req.query.sort as SearchSort) || 'relevance';
+  const mode = (req.query.mode as SearchMode) || 'keyword';
   const page = parseInt(req.query.page as string) || 1;
   const limit = parseInt(req.query.limit as string) || 20;
   const offset = (page - 1) * limit;
@@ -31,7 +40,7 @@ router.get('/', optionalAuth, validate([
 
   // Generate cache key
   const cacheKey = `search:${JSON.stringify({
-    q, category, tags, author, sort, page, limit
+    q, filters, author, sort, mode, page, limit
   })}`;
 
   try {
@@ -44,28 +53,9 @@ router.get('/', optionalAuth, validate([
     // Cache error, continue without cache
   }
 
-  // Build where clause
-  const where: any = {
-    status: 'PUBLISHED'
-  };
-
-  if (q) {
-    where.OR = [
-      { title: { contains: q, mode: 'insensitive' } },
-      { description: { contains: q, mode: 'insensitive' } },
-      { content: { contains: q, mode: 'insensitive' } },
-      { tags: { hasSome: [q] } }
-    ];
-  }
-
-  if (category) {
-    where.category = category;
-  }
-
-  if (tags) {
-    const tagArray = tags.split(',').map(tag => tag.trim());
-    where.tags = { hasSome: tagArray };
-  }
+  // Build where clause. The query is matched by the search service, and facet
+  // filters are left out so facets can count the values they'd exclude.
+  const where: any = { ...PUBLIC_IDEA_WHERE };
 
   if (author) {
     where.author = {
@@ -73,7 +63,7 @@ router.get('/', optionalAuth, validate([
     };
   }
 
-  // Build orderBy clause
+  // Build orderBy clause; without a query there is nothing to rank by but votes
   let orderBy: any = {};
   switch (sort) {
     case 'newest':
@@ -89,41 +79,69 @@ router.get('/', optionalAuth, validate([
       orderBy = { voteScore: 'desc' };
   }
 
-  const [ideas, total] = await Promise.all([
-    prisma.idea.findMany({
-      where,
-      orderBy,
-      skip: offset,
-      take: limit,
-      include: {
-        author: {
-          select: {
-            id: true,
-            username: true,
-            avatar: true,
-            karmaScore: true
-          }
-        },
-        votes: req.user ? {
-          where: { userId: req.user.id },
-          select: { type: true }
-        } : false,
-        _count: {
-          select: {
-            votes: true,
-            comments: true,
-            bookmarks: true
-          }
-        }
+  const include = {
+    author: {
+      select: {
+        id: true,
+        username: true,
+        avatar: true,
+        karmaScore: true
       }
-    }),
-    prisma.idea.count({ where })
-  ]);
+    },
+    votes: req.user ? {
+      where: { userId: req.user.id },
+      select: { type: true }
+    } : false,
+    _count: {
+      select: {
+        votes: true,
+        comments: true,
+        bookmarks: true
+      }
+    }
+  } as const;
+
+  let ideas;
+  let total: number;
+  let results = new Map<string, SearchResultItem>();
+  let facets: IdeaFacets;
+  let degraded = false;
+
+  if (q) {
+    // Scored in memory, then only the requested page is loaded in full
+    const search = await searchIdeas({ q, where, filters, mode, sort, offset, limit });
+    const pageIdeas = await prisma.idea.findMany({
+      where: { id: { in: search.results.map(result => result.id) } },
+      include
+    });
+    const byId = new Map(pageIdeas.map(idea => [idea.id, idea]));
+
+    ideas = search.results.map(result => byId.get(result.id)!).filter(Boolean);
+    total = search.total;
+    results = new Map(search.results.map(result => [result.id, result]));
+    facets = search.facets;
+    degraded = search.degraded;
+  } else {
+    const filteredWhere = { AND: [where, ...facetFiltersWhere(filters)] };
+    [ideas, total, facets] = await Promise.all([
+      prisma.idea.findMany({
+        where: filteredWhere,
+        orderBy,
+        skip: offset,
+        take: limit,
+        include
+      }),
+      prisma.idea.count({ where: filteredWhere }),
+      loadIdeaFacets(where, filters)
+    ]);
+  }
 
   const formattedIdeas = ideas.map(idea => ({
     ...idea,
     userVote: req.user && idea.votes.length > 0 ? idea.votes[0].type : null,
-    counts: idea._count
+    counts: idea._count,
+    match: results.get(idea.id)?.match || null,
+    highlights: results.get(idea.id)?.highlights || []
   }));
 
   const result = {
@@ -136,11 +154,14 @@ router.get('/', optionalAuth, validate([
     },
     filters: {
       query: q,
-      category,
-      tags: tags?.split(','),
+      ...filters,
       author,
-      sort
-    }
+      sort,
+      mode
+    },
+    facets,
+    // True when semantic scoring was unavailable and results are keyword matches only
+    degraded
   };
 
   // Cache result for 5 minutes
@@ -149,6 +170,117 @@ router.get('/', optionalAuth, validate([
   res.json(result);
 }));
 
+// Fields shared by creating and updating a saved search; on update every one is optional
+const savedSearchValidation = (optional: boolean) => {
+  const field = (name: string) => optional ? body(name).optional() : body(name);
+  return [
+    field('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be 1-100 characters'),
+    body('query').optional().isString().trim().isLength({ max: 200 }).withMessage('Query must be at most 200 characters'),
+    body('mode').optional().isIn(['keyword', 'semantic', 'hybrid']).withMessage('Mode must be keyword, semantic or hybrid'),
+    body('category').optional({ values: 'null' }).isIn(Object.values(IdeaCategory)).withMessage('Invalid category'),
+    body('difficulty').optional({ values: 'null' }).isIn(Object.values(DifficultyLevel)).withMessage('Invalid difficulty level'),
+    body('timeCommitment').optional({ values: 'null' }).isIn(Object.values(TimeCommitment)).withMessage('Invalid time commitment'),
+    body('techStack').optional().isArray({ max: 10 }).withMessage('Maximum 10 technologies allowed'),
+    body('techStack.*').isString().trim().isLength({ min: 1, max: 30 }).withMessage('Each technology must be 1-30 characters'),
+    body('tags').optional().isArray({ max: 10 }).withMessage('Maximum 10 tags allowed'),
+    body('tags.*').isString().trim().isLength({ min: 1, max: 30 }).withMessage('Each tag must be 1-30 characters'),
+    body('alerts').optional().isIn(Object.values(SavedSearchAlert)).withMessage('Alerts must be INSTANT, DIGEST or OFF')
+  ];
+};
+
+// The search fields present in a create or update body
+function savedSearchData(input: Record<string, any>) {
+  const unique = (values?: string[]) => values && [...new Set(values)];
+  return {
+    ...(input.name !== undefined && { name: input.name }),
+    ...(input.query !== undefined && { query: input.query }),
+    ...(input.mode !== undefined && { mode: input.mode }),
+    ...(input.category !== undefined && { category: input.category }),
+    ...(input.difficulty !== undefined && { difficulty: input.difficulty }),
+    ...(input.timeCommitment !== undefined && { timeCommitment: input.timeCommitment }),
+    ...(input.techStack !== undefined && { techStack: unique(input.techStack) }),
+    ...(input.tags !== undefined && { tags: unique(input.tags) }),
+    ...(input.alerts !== undefined && { alerts: input.alerts })
+  };
+}
+
+// A search with neither a query nor a filter would alert on every new idea
+function assertHasCriteria(search: {
+  query?: string; category?: string | null; difficulty?: string | null;
+  timeCommitment?: string | null; techStack?: string[]; tags?: string[];
+}) {
+  const hasCriteria = Boolean(search.query?.trim() || search.category || search.difficulty || search.timeCommitment
+    || search.techStack?.length || search.tags?.length);
+  if (!hasCriteria) {
+    throw new CustomError('A saved search needs a query or at least one filter', 400);
+  }
+}
+
+async function findOwnSavedSearch(id: string, userId: string) {
+  const savedSearch = await getDatabase().savedSearch.findFirst({ where: { id, userId } });
+  if (!savedSearch) {
+    throw new CustomError('Saved search not found', 404);
+  }
+  return savedSearch;
+}
+
+// List the current user's saved searches
+router.get('/saved', authenticateJWT, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const savedSearches = await getDatabase().savedSearch.findMany({
+    where: { userId: req.user!.id },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  res.json({ savedSearches, limit: MAX_SAVED_SEARCHES });
+}));
+
+// Save a search; new ideas matching it notify the user unless alerts are off
+router.post('/saved', authenticateJWT, validate(savedSearchValidation(false)), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const prisma = getDatabase();
+  const userId = req.user!.id;
+  const data = savedSearchData(req.body);
+
+  assertHasCriteria(data);
+
+  const count = await prisma.savedSearch.count({ where: { userId } });
+  if (count >= MAX_SAVED_SEARCHES) {
+    throw new CustomError(`You can save up to ${MAX_SAVED_SEARCHES} searches; delete one to save another`, 400);
+  }
+
+  const savedSearch = await prisma.savedSearch.create({
+    data: { ...data, name: req.body.name, userId }
+  });
+
+  res.status(201).json({ message: 'Search saved', savedSearch });
+}));
+
+// Rename a saved search, change its criteria or its alerts
+router.patch('/saved/:id', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid saved search ID'),
+  ...savedSearchValidation(true)
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const existing = await findOwnSavedSearch(req.params.id, req.user!.id);
+  const data = savedSearchData(req.body);
+
+  assertHasCriteria({ ...existing, ...data });
+
+  const savedSearch = await getDatabase().savedSearch.update({
+    where: { id: existing.id },
+    data
+  });
+
+  res.json({ message: 'Saved search updated', savedSearch });
+}));
+
+router.delete('/saved/:id', authenticateJWT, validate([
+  param('id').isMongoId().withMessage('Invalid saved search ID')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const existing = await findOwnSavedSearch(req.params.id, req.user!.id);
+  await getDatabase().savedSearch.delete({ where: { id: existing.id } });
+
+  res.json({ message: 'Saved search deleted' });
+}));
+
 // Search suggestions
 router.get('/suggestions', validate([
   query('q').isString().isLength({ min: 2 }).withMessage('Query must be at least 2 characters')
@@ -166,7 +298,7 @@ router.get('/suggestions', validate([
     // Title suggestions
     prisma.idea.findMany({
       where: {
-        status: 'PUBLISHED',
+        ...PUBLIC_IDEA_WHERE,
         title: { contains: q, mode: 'insensitive' }
       },
       select: { title: true },
@@ -177,7 +309,7 @@ router.get('/suggestions', validate([
     // Tag suggestions
     prisma.idea.findMany({
       where: {
-        status: 'PUBLISHED',
+        ...PUBLIC_IDEA_WHERE,
         tags: { hasSome: [q] }
       },
       select: { tags: true },
@@ -231,7 +363,7 @@ router.get('/trending', asyncHandler(async (_req, res) => {
   // Get trending tags (most used in last 7 days)
   const trendingTags = await prisma.idea.findMany({
     where: {
-      status: 'PUBLISHED',
+      ...PUBLIC_IDEA_WHERE,
       createdAt: {
         gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
       }
@@ -255,7 +387,7 @@ router.get('/trending', asyncHandler(async (_req, res) => {
   const trendingCategories = await prisma.idea.groupBy({
     by: ['category'],
     where: {
-      status: 'PUBLISHED',
+      ...PUBLIC_IDEA_WHERE,
       createdAt: {
         gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
       }
@@ -291,7 +423,7 @@ router.get('/popular', asyncHandler(async (_req, res) => {
 
   // Get most popular ideas (by vote score and views)
   const popularIdeas = await prisma.idea.findMany({
-    where: { status: 'PUBLISHED' },
+    where: PUBLIC_IDEA_WHERE,
     select: {
       id: true,
       title: true,
@@ -6,9 +6,47 @@ import { asyncHandler } from '../middleware/errorHandler';
 import { validate } from '../middleware/validation';
 import { authenticateJWT, optionalAuth, AuthenticatedRequest } from '../middleware/auth';
 import { CustomError } from '../middleware/errorHandler';
+import { notificationService } from '../services/notificationService';
+import { authorIdeasWhere } from '../policies/ideaVisibility';
+import { ACCOUNT_DELETION_GRACE_DAYS, deactivateAccount, scheduleAccountDeletion } from '../services/accountService';
+import { AccountDeletionMode } from '@prisma/client';
 
 const router = express.Router();
 
+const followUserSelect = {
+  id: true,
+  username: true,
+  avatar: true,
+  bio: true,
+  karmaScore: true
+};
+
+// Look up users by username prefix (used for @mention autocomplete)
+router.get('/lookup', authenticateJWT, validate([
+  query('q').isString().trim().isLength({ min: 1, max: 30 }).withMessage('Query must be 1-30 characters'),
+  query('limit').optional().isInt({ min: 1, max: 20 }).withMessage('Limit must be 1-20')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const q = req.query.q as string;
+  const limit = parseInt(req.query.limit as string) || 8;
+  const prisma = getDatabase();
+
+  const users = await prisma.user.findMany({
+    where: {
+      username: { startsWith: q, mode: 'insensitive' },
+      isActive: true
+    },
+    select: {
+      id: true,
+      username: true,
+      avatar: true
+    },
+    orderBy: { username: 'asc' },
+    take: limit
+  });
+
+  res.json({ users });
+}));
+
 // Get user profile
 router.get('/:username', optionalAuth, validate([
   param('username').isLength({ min: 3, max: 30 }).withMessage('Invalid username')
@@ -26,27 +64,249 @@ router.get('/:username', optionalAuth, validate([
       skills: true,
       socialLinks: true,
       karmaScore: true,
+      isActive: true,
       createdAt: true,
       _count: {
         select: {
-          ideas: { where: { status: 'PUBLISHED' } }
+          ideas: { where: { status: 'PUBLISHED' } },
+          followers: true,
+          following: true
         }
       }
     }
   });
 
-  if (!user) {
+  // Suspended, deactivated and deleted accounts have no public profile
+  if (!user || !user.isActive) {
     throw new CustomError('User not found', 404);
   }
 
+  const isFollowing = req.user && req.user.id !== user.id
+    ? !!(await prisma.follow.findUnique({
+        where: {
+          followerId_followingId: {
+            followerId: req.user.id,
+            followingId: user.id
+          }
+        },
+        select: { id: true }
+      }))
+    : false;
+
   res.json({
     user: {
       ...user,
+      followerCount: user._count.followers,
+      followingCount: user._count.following,
+      isFollowing,
       isOwnProfile: req.user?.id === user.id
     }
   });
 }));
 
+// Follow a user
+router.post('/:username/follow', authenticateJWT, validate([
+  param('username').isLength({ min: 3, max: 30 }).withMessage('Invalid username')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { username } = req.params;
+  const followerId = req.user!.id;
+  const prisma = getDatabase();
+
+  const user = await prisma.user.findUnique({
+    where: { username },
+    select: { id: true, username: true, isActive: true }
+  });
+
+  if (!user || !user.isActive) {
+    throw new CustomError('User not found', 404);
+  }
+
+  if (user.id === followerId) {
+    throw new CustomError('Cannot follow yourself', 400);
+  }
+
+  const existingFollow = await prisma.follow.findUnique({
+    where: {
+      followerId_followingId: {
+        followerId,
+        followingId: user.id
+      }
+    }
+  });
+
+  if (!existingFollow) {
+    await prisma.follow.create({
+      data: {
+        followerId,
+        followingId: user.id
+      }
+    });
+
+    await prisma.activity.create({
+      data: {
+        type: 'USER_FOLLOWED',
+        userId: followerId,
+        data: { followingId: user.id, username: user.username }
+      }
+    });
+
+    await notificationService.notifyFollow(user.id, req.user!);
+
+    logger.info(`${req.user!.username} followed ${user.username}`);
+  }
+
+  const followerCount = await prisma.follow.count({
+    where: { followingId: user.id }
+  });
+
+  res.json({
+    message: `You are now following ${user.username}`,
+    isFollowing: true,
+    followerCount
+  });
+}));
+
+// Unfollow a user
+router.delete('/:username/follow', authenticateJWT, validate([
+  param('username').isLength({ min: 3, max: 30 }).withMessage('Invalid username')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { username } = req.params;
+  const followerId = req.user!.id;
+  const prisma = getDatabase();
+
+  const user = await prisma.user.findUnique({
+    where: { username },
+    select: { id: true, username: true }
+  });
+
+  if (!user) {
+    throw new CustomError('User not found', 404);
+  }
+
+  await prisma.follow.deleteMany({
+    where: {
+      followerId,
+      followingId: user.id
+    }
+  });
+
+  const followerCount = await prisma.follow.count({
+    where: { followingId: user.id }
+  });
+
+  res.json({
+    message: `You unfollowed ${user.username}`,
+    isFollowing: false,
+    followerCount
+  });
+}));
+
+// Get a user's followers
+router.get('/:username/followers', optionalAuth, validate([
+  param('username').isLength({ min: 3, max: 30 }).withMessage('Invalid username'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { username } = req.params;
+  const prisma = getDatabase();
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  const offset = (page - 1) * limit;
+
+  const user = await prisma.user.findUnique({
+    where: { username },
+    select: { id: true }
+  });
+
+  if (!user) {
+    throw new CustomError('User not found', 404);
+  }
+
+  const where = { followingId: user.id };
+
+  const [follows, total] = await Promise.all([
+    prisma.follow.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: offset,
+      take: limit,
+      include: {
+        follower: { select: followUserSelect }
+      }
+    }),
+    prisma.follow.count({ where })
+  ]);
+
+  const users = follows.map(follow => follow.follower);
+  const followedIds = await getFollowedIds(req.user?.id, users.map(u => u.id));
+
+  res.json({
+    followers: users.map(u => ({
+      ...u,
+      isFollowing: followedIds.has(u.id)
+    })),
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+}));
+
+// Get the users someone follows
+router.get('/:username/following', optionalAuth, validate([
+  param('username').isLength({ min: 3, max: 30 }).withMessage('Invalid username'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be 1-50')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { username } = req.params;
+  const prisma = getDatabase();
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  const offset = (page - 1) * limit;
+
+  const user = await prisma.user.findUnique({
+    where: { username },
+    select: { id: true }
+  });
+
+  if (!user) {
+    throw new CustomError('User not found', 404);
+  }
+
+  const where = { followerId: user.id };
+
+  const [follows, total] = await Promise.all([
+    prisma.follow.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: offset,
+      take: limit,
+      include: {
+        following: { select: followUserSelect }
+      }
+    }),
+    prisma.follow.count({ where })
+  ]);
+
+  const users = follows.map(follow => follow.following);
+  const followedIds = await getFollowedIds(req.user?.id, users.map(u => u.id));
+
+  res.json({
+    following: users.map(u => ({
+      ...u,
+      isFollowing: followedIds.has(u.id)
+    })),
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+}));
+
 // Get user's ideas
 router.get('/:username/ideas', optionalAuth, validate([
   param('username').isLength({ min: 3, max: 30 }).withMessage('Invalid username'),
@@ -70,14 +330,8 @@ router.get('/:username/ideas', optionalAuth, validate([
     throw new CustomError('User not found', 404);
   }
 
-  const where: any = { authorId: user.id };
-  
   // Only show published ideas to non-owners
-  if (!req.user || req.user.id !== user.id) {
-    where.status = 'PUBLISHED';
-  } else if (status) {
-    where.status = status;
-  }
+  const where = authorIdeasWhere(user.id, req.user?.id, status);
 
   const [ideas, total] = await Promise.all([
     prisma.idea.findMany({
@@ -166,4 +420,48 @@ router.put('/profile', authenticateJWT, validate([
   });
 }));
 
+// Deactivate the signed-in account; signing in again reactivates it
+router.post('/account/deactivate', authenticateJWT, validate([
+  body('password').optional().isString()
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  await deactivateAccount(req.user!.id, req.body.password);
+
+  res.json({ message: 'Your account has been deactivated. Sign in again any time to reactivate it.' });
+}));
+
+// Schedule the signed-in account for deletion after a grace period, during
+// which signing in cancels it
+router.post('/account/deletion', authenticateJWT, validate([
+  body('password').optional().isString(),
+  body('mode').isIn(Object.values(AccountDeletionMode)).withMessage('Mode must be ANONYMIZE or REMOVE')
+]), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const deleteAt = await scheduleAccountDeletion(req.user!.id, {
+    password: req.body.password,
+    mode: req.body.mode
+  });
+
+  res.json({
+    message: `Your account will be deleted in ${ACCOUNT_DELETION_GRACE_DAYS} days. Sign in before then to cancel.`,
+    deleteAt
+  });
+}));
+
+// Which of the given users the viewer already follows
+async function getFollowedIds(viewerId: string | undefined, userIds: string[]): Promise<Set<string>> {
+  if (!viewerId || userIds.length === 0) {
+    return new Set();
+  }
+
+  const prisma = getDatabase();
+  const follows = await prisma.follow.findMany({
+    where: {
+      followerId: viewerId,
+      followingId: { in: userIds }
+    },
+    select: { followingId: true }
+  });
+
+  return new Set(follows.map(follow => follow.followingId));
+}
+
 export default router;
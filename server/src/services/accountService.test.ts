@@ -0,0 +1,234 @@
+import bcrypt from 'bcryptjs';
+import { AccountDeletionMode, AuditAction, IdeaCategory, IdeaStatus, UserRole } from '@prisma/client';
+import { logger } from '../config/logger';
+import { createFakePrisma } from '../test/fakePrisma';
+import { emailService } from './emailService';
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  checkSignIn,
+  liftExpiredSuspensions,
+  purgeDeletedAccounts,
+  scheduleAccountDeletion,
+  suspendUser
+} from './accountService';
+
+const mockPrisma = createFakePrisma();
+jest.mock('../config/database', () => ({ getDatabase: () => mockPrisma }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const inDays = (days: number) => new Date(Date.now() + days * DAY_MS);
+
+const createUser = (username: string, data: Record<string, unknown> = {}) =>
+  mockPrisma.user.create({ data: { email: `${username}@example.com`, username, role: UserRole.USER, ...data } });
+
+const findUser = (id: string) => mockPrisma.user.findUniqueOrThrow({ where: { id } });
+
+beforeEach(() => {
+  mockPrisma.$reset();
+  jest.spyOn(emailService, 'sendAccountSuspendedEmail').mockResolvedValue(true);
+  jest.spyOn(emailService, 'sendAccountDeletionScheduledEmail').mockResolvedValue(true);
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('suspendUser', () => {
+  it('deactivates the account, audits and emails the user', async () => {
+    const moderator = await createUser('moderator', { role: UserRole.MODERATOR });
+    const user = await createUser('member');
+    const until = inDays(7);
+
+    await suspendUser({ targetUserId: user.id, actorId: moderator.id, reason: 'Spam', until });
+
+    expect(await findUser(user.id)).toMatchObject({ isActive: false, suspendedUntil: until, suspensionReason: 'Spam' });
+    expect(mockPrisma.$rows('AuditLog')).toEqual([
+      expect.objectContaining({ action: AuditAction.USER_SUSPENDED, actorId: moderator.id, targetUserId: user.id, reason: 'Spam' })
+    ]);
+    expect(emailService.sendAccountSuspendedEmail).toHaveBeenCalledWith(expect.objectContaining({ id: user.id }), 'Spam', until);
+  });
+
+  it('refuses to suspend yourself, staff, deleted accounts or until a past date', async () => {
+    const moderator = await createUser('moderator', { role: UserRole.MODERATOR });
+    const admin = await createUser('admin', { role: UserRole.ADMIN });
+    const deleted = await createUser('deleted', { deletedAt: new Date() });
+    const user = await createUser('member');
+    const suspend = (targetUserId: string, until: Date | null = null) =>
+      suspendUser({ targetUserId, actorId: moderator.id, reason: 'Spam', until });
+
+    await expect(suspend(moderator.id)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(suspend(admin.id)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(suspend(deleted.id)).rejects.toMatchObject({ statusCode: 404 });
+    await expect(suspend(user.id, inDays(-1))).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockPrisma.$rows('AuditLog')).toEqual([]);
+  });
+});
+
+describe('liftExpiredSuspensions', () => {
+  it('lifts suspensions that ran out and keeps the rest', async () => {
+    const expired = await createUser('expired', { isActive: false, suspendedAt: inDays(-8), suspendedUntil: inDays(-1) });
+    const current = await createUser('current', { isActive: false, suspendedAt: inDays(-1), suspendedUntil: inDays(6) });
+    const permanent = await createUser('permanent', { isActive: false, suspendedAt: inDays(-1), suspendedUntil: null });
+
+    await liftExpiredSuspensions();
+
+    expect(await findUser(expired.id)).toMatchObject({ isActive: true, suspendedAt: null, suspendedUntil: null });
+    expect(await findUser(current.id)).toMatchObject({ isActive: false, suspendedUntil: current.suspendedUntil });
+    expect(await findUser(permanent.id)).toMatchObject({ isActive: false, suspendedAt: permanent.suspendedAt });
+    expect(mockPrisma.$rows('AuditLog')).toEqual([
+      expect.objectContaining({ action: AuditAction.USER_UNSUSPENDED, actorId: undefined, targetUserId: expired.id })
+    ]);
+  });
+
+  it('keeps accounts their owner deactivated inactive', async () => {
+    const user = await createUser('member', {
+      isActive: false,
+      suspendedAt: inDays(-8),
+      suspendedUntil: inDays(-1),
+      deactivatedAt: inDays(-2)
+    });
+
+    await liftExpiredSuspensions();
+
+    expect(await findUser(user.id)).toMatchObject({ isActive: false, suspendedAt: null });
+  });
+
+  it('skips deleted accounts and carries on past failures', async () => {
+    const tombstone = await createUser('tombstone', { suspendedAt: inDays(-8), suspendedUntil: inDays(-1), deletedAt: inDays(-2) });
+    // Not suspended, so lifting it fails
+    const broken = await createUser('broken', { suspendedUntil: inDays(-1) });
+    const expired = await createUser('expired', { isActive: false, suspendedAt: inDays(-8), suspendedUntil: inDays(-1) });
+    const logError = jest.spyOn(logger, 'error');
+
+    await liftExpiredSuspensions();
+
+    expect(logError).toHaveBeenCalledTimes(1);
+    expect(logError).toHaveBeenCalledWith(`Failed to lift expired suspension of ${broken.id}:`, expect.anything());
+    expect(await findUser(tombstone.id)).toMatchObject({ suspendedAt: tombstone.suspendedAt });
+    expect(await findUser(broken.id)).toMatchObject({ suspendedUntil: broken.suspendedUntil });
+    expect(await findUser(expired.id)).toMatchObject({ isActive: true, suspendedAt: null });
+  });
+});
+
+describe('checkSignIn', () => {
+  it('refuses suspended users and says until when', async () => {
+    const until = inDays(3);
+    const user = await createUser('member', { isActive: false, suspendedAt: new Date(), suspendedUntil: until, suspensionReason: 'Spam' });
+
+    expect(await checkSignIn(user.id)).toEqual({
+      allowed: false,
+      restored: false,
+      message: `Your account is suspended until ${until.toUTCString()}. Reason: Spam`
+    });
+  });
+
+  it('ends a suspension that ran out', async () => {
+    const user = await createUser('member', { isActive: false, suspendedAt: inDays(-8), suspendedUntil: inDays(-1) });
+
+    expect(await checkSignIn(user.id)).toEqual({ allowed: true, restored: false });
+    expect(await findUser(user.id)).toMatchObject({ isActive: true, suspendedAt: null });
+  });
+
+  it('cancels a pending deletion', async () => {
+    const user = await createUser('member', {
+      isActive: false,
+      deletionScheduledAt: inDays(10),
+      deletionMode: AccountDeletionMode.REMOVE
+    });
+
+    expect(await checkSignIn(user.id)).toEqual({ allowed: true, restored: true });
+    expect(await findUser(user.id)).toMatchObject({ isActive: true, deletionScheduledAt: null, deletionMode: null });
+  });
+
+  it('refuses deleted accounts', async () => {
+    const user = await createUser('member', { isActive: false, deletedAt: new Date() });
+
+    expect(await checkSignIn(user.id)).toMatchObject({ allowed: false, message: 'Invalid email or password' });
+  });
+});
+
+describe('account deletion', () => {
+  const createIdea = (authorId: string, commentCount = 0) => mockPrisma.idea.create({
+    data: {
+      title: 'Community garden planner',
+      description: 'Plan shared garden beds',
+      content: 'Plan shared garden beds, watering rotas and harvest swaps with your neighbours.',
+      category: IdeaCategory.WEB,
+      tags: [],
+      status: IdeaStatus.PUBLISHED,
+      authorId,
+      commentCount
+    }
+  });
+
+  it('schedules deletion after the grace period once the password is confirmed', async () => {
+    const user = await createUser('member', { password: await bcrypt.hash('correct horse', 4) });
+
+    await expect(scheduleAccountDeletion(user.id, { password: 'wrong', mode: AccountDeletionMode.ANONYMIZE }))
+      .rejects.toMatchObject({ statusCode: 403 });
+
+    const deleteAt = await scheduleAccountDeletion(user.id, { password: 'correct horse', mode: AccountDeletionMode.ANONYMIZE });
+
+    expect(deleteAt.getTime()).toBeGreaterThan(inDays(ACCOUNT_DELETION_GRACE_DAYS - 1).getTime());
+    expect(await findUser(user.id)).toMatchObject({ isActive: false, deletionScheduledAt: deleteAt });
+  });
+
+  it('anonymises due accounts, clearing any suspension, and keeps their ideas', async () => {
+    const user = await createUser('member', {
+      isActive: false,
+      bio: 'Gardener',
+      deletionScheduledAt: inDays(-1),
+      deletionMode: AccountDeletionMode.ANONYMIZE,
+      suspendedAt: inDays(-3),
+      suspendedUntil: inDays(30),
+      suspensionReason: 'Spam'
+    });
+    const idea = await createIdea(user.id);
+    const notDue = await createUser('not-due', { isActive: false, deletionScheduledAt: inDays(5) });
+
+    await purgeDeletedAccounts();
+
+    expect(await findUser(user.id)).toMatchObject({
+      username: `deleted_${user.id}`,
+      email: `deleted+${user.id}@deleted.invalid`,
+      bio: null,
+      isActive: false,
+      deletionScheduledAt: null,
+      suspendedAt: null,
+      suspendedUntil: null,
+      suspensionReason: null,
+      deletedAt: expect.any(Date)
+    });
+    expect(await mockPrisma.idea.findUnique({ where: { id: idea.id } })).not.toBeNull();
+    expect(await findUser(notDue.id)).toMatchObject({ username: 'not-due', deletedAt: null });
+  });
+
+  it('removes the content of accounts deleted with REMOVE', async () => {
+    const user = await createUser('member', { isActive: false, deletionScheduledAt: inDays(-1), deletionMode: AccountDeletionMode.REMOVE });
+    const other = await createUser('other');
+    const ownIdea = await createIdea(user.id);
+    const otherIdea = await createIdea(other.id, 1);
+    const comment = await mockPrisma.comment.create({
+      data: { content: 'Count me in', authorId: user.id, ideaId: otherIdea.id }
+    });
+
+    await purgeDeletedAccounts();
+
+    expect(await mockPrisma.idea.findUnique({ where: { id: ownIdea.id } })).toBeNull();
+    expect(await mockPrisma.comment.findUnique({ where: { id: comment.id } })).toMatchObject({ isDeleted: true, content: '[deleted]' });
+    expect(await mockPrisma.idea.findUnique({ where: { id: otherIdea.id } })).toMatchObject({ commentCount: 0 });
+  });
+
+  it('leaves a deleted account alone when its suspension later expires', async () => {
+    const user = await createUser('member', {
+      isActive: false,
+      deletionScheduledAt: inDays(-1),
+      suspendedAt: inDays(-3),
+      suspendedUntil: inDays(-1)
+    });
+
+    await purgeDeletedAccounts();
+    await liftExpiredSuspensions();
+
+    expect(await findUser(user.id)).toMatchObject({ isActive: false, deletedAt: expect.any(Date) });
+    expect(mockPrisma.$rows('AuditLog').map(entry => entry.action)).toEqual([AuditAction.ACCOUNT_DELETED]);
+  });
+});
@@ -0,0 +1,361 @@
+import bcrypt from 'bcryptjs';
+import { AccountDeletionMode, AuditAction, Prisma, UserRole } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { cacheService } from '../config/redis';
+import { getSocketServer } from '../config/socket';
+import { logger } from '../config/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { recordAudit } from './auditLogService';
+import { emailService } from './emailService';
+import { invalidateSimilarityCorpus } from './similarityService';
+
+// Days between a deletion request and the account actually being anonymised
+export const ACCOUNT_DELETION_GRACE_DAYS = parseInt(process.env['ACCOUNT_DELETION_GRACE_DAYS'] || '14', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const accountSelect = {
+  id: true,
+  username: true,
+  email: true,
+  role: true,
+  isActive: true,
+  suspendedAt: true,
+  suspendedUntil: true,
+  suspensionReason: true,
+  deactivatedAt: true,
+  deletionScheduledAt: true,
+  deletedAt: true
+} as const;
+
+type AccountState = Prisma.UserGetPayload<{ select: typeof accountSelect }>;
+
+// Self-service states a suspension must not undo when it ends
+const isSelfDisabled = (user: Pick<AccountState, 'deactivatedAt' | 'deletionScheduledAt'>) =>
+  !!user.deactivatedAt || !!user.deletionScheduledAt;
+
+// Refresh tokens are revoked and live sockets dropped. Access tokens stop
+// working on their next request, since the JWT strategy checks isActive.
+async function endSessions(userId: string, reason: string): Promise<void> {
+  await cacheService.del(`refresh_token:${userId}`);
+  getSocketServer()?.disconnectUser(userId, reason);
+}
+
+export async function suspendUser(params: {
+  targetUserId: string;
+  actorId: string;
+  reason: string;
+  // Null for a permanent ban
+  until: Date | null;
+}) {
+  const prisma = getDatabase();
+
+  if (params.targetUserId === params.actorId) {
+    throw new CustomError('You cannot suspend yourself', 400);
+  }
+  if (params.until && params.until.getTime() <= Date.now()) {
+    throw new CustomError('Suspension end must be in the future', 400);
+  }
+
+  const target = await prisma.user.findUnique({ where: { id: params.targetUserId }, select: accountSelect });
+  if (!target || target.deletedAt) {
+    throw new CustomError('User not found', 404);
+  }
+  // Staff would keep their permissions through a suspension; demote them first
+  if (target.role !== UserRole.USER) {
+    throw new CustomError('Moderators and admins cannot be suspended; change their role first', 400);
+  }
+
+  const user = await prisma.user.update({
+    where: { id: target.id },
+    data: {
+      isActive: false,
+      suspendedAt: new Date(),
+      suspendedUntil: params.until,
+      suspensionReason: params.reason
+    },
+    select: accountSelect
+  });
+
+  await endSessions(target.id, 'suspended');
+  await recordAudit({
+    action: AuditAction.USER_SUSPENDED,
+    actorId: params.actorId,
+    targetUserId: target.id,
+    data: { until: params.until?.toISOString() ?? null, previouslySuspended: !!target.suspendedAt },
+    reason: params.reason
+  });
+  await emailService.sendAccountSuspendedEmail(target, params.reason, params.until);
+
+  logger.info(`User ${target.username} suspended ${params.until ? `until ${params.until.toISOString()}` : 'permanently'} by ${params.actorId}`);
+  return user;
+}
+
+// Without an actor the suspension is being lifted because it ran out
+export async function liftSuspension(params: { targetUserId: string; actorId?: string; reason?: string }) {
+  const prisma = getDatabase();
+
+  const target = await prisma.user.findUnique({ where: { id: params.targetUserId }, select: accountSelect });
+  if (!target || target.deletedAt) {
+    throw new CustomError('User not found', 404);
+  }
+  if (!target.suspendedAt) {
+    throw new CustomError('User is not suspended', 400);
+  }
+
+  const user = await prisma.user.update({
+    where: { id: target.id },
+    data: {
+      isActive: !isSelfDisabled(target),
+      suspendedAt: null,
+      suspendedUntil: null,
+      suspensionReason: null
+    },
+    select: accountSelect
+  });
+
+  await recordAudit({
+    action: AuditAction.USER_UNSUSPENDED,
+    actorId: params.actorId,
+    targetUserId: target.id,
+    data: { suspendedAt: target.suspendedAt.toISOString(), until: target.suspendedUntil?.toISOString() ?? null },
+    reason: params.reason
+  });
+
+  logger.info(`Suspension of ${target.username} lifted${params.actorId ? ` by ${params.actorId}` : ''}`);
+  return user;
+}
+
+// Same as purgeDeletedAccounts: one failure doesn't hold up the rest. Accounts
+// from before deletion existed have no deletedAt at all, which null doesn't match.
+export async function liftExpiredSuspensions(): Promise<void> {
+  const prisma = getDatabase();
+  const expired = await prisma.user.findMany({
+    where: {
+      suspendedUntil: { lte: new Date() },
+      OR: [{ deletedAt: null }, { deletedAt: { isSet: false } }]
+    },
+    select: { id: true }
+  });
+
+  for (const user of expired) {
+    try {
+      await liftSuspension({ targetUserId: user.id, reason: 'Suspension expired' });
+    } catch (error) {
+      logger.error(`Failed to lift expired suspension of ${user.id}:`, error);
+    }
+  }
+}
+
+export async function listSuspendedUsers(params: { offset: number; limit: number }) {
+  const prisma = getDatabase();
+  const where: Prisma.UserWhereInput = { suspendedAt: { not: null } };
+
+  const [users, total] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      select: {
+        id: true,
+        username: true,
+        avatar: true,
+        suspendedAt: true,
+        suspendedUntil: true,
+        suspensionReason: true
+      },
+      orderBy: { suspendedAt: 'desc' },
+      skip: params.offset,
+      take: params.limit
+    }),
+    prisma.user.count({ where })
+  ]);
+
+  return { users, total };
+}
+
+export interface SignInCheck {
+  allowed: boolean;
+  // The sign-in undid a deactivation or pending deletion
+  restored: boolean;
+  // Why the sign-in was refused
+  message?: string;
+}
+
+// Called after credentials check out, for every way of signing in. Ends
+// expired suspensions and undoes a deactivation or pending deletion.
+export async function checkSignIn(userId: string): Promise<SignInCheck> {
+  const prisma = getDatabase();
+  let user = await prisma.user.findUnique({ where: { id: userId }, select: accountSelect });
+
+  if (!user || user.deletedAt) {
+    return { allowed: false, restored: false, message: 'Invalid email or password' };
+  }
+
+  if (user.suspendedAt) {
+    if (!user.suspendedUntil || user.suspendedUntil.getTime() > Date.now()) {
+      const until = user.suspendedUntil ? `until ${user.suspendedUntil.toUTCString()}` : 'permanently';
+      const reason = user.suspensionReason ? ` Reason: ${user.suspensionReason}` : '';
+      return { allowed: false, restored: false, message: `Your account is suspended ${until}.${reason}` };
+    }
+    user = await liftSuspension({ targetUserId: user.id, reason: 'Suspension expired' });
+  }
+
+  if (isSelfDisabled(user)) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { isActive: true, deactivatedAt: null, deletionScheduledAt: null, deletionMode: null }
+    });
+    logger.info(`Account of ${user.username} restored on sign-in`);
+    return { allowed: true, restored: true };
+  }
+
+  if (!user.isActive) {
+    return { allowed: false, restored: false, message: 'Account is deactivated' };
+  }
+
+  return { allowed: true, restored: false };
+}
+
+// Accounts with a password must confirm it; OAuth-only accounts have none
+async function confirmPassword(userId: string, password: string | undefined): Promise<void> {
+  const prisma = getDatabase();
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { password: true } });
+  if (!user) {
+    throw new CustomError('User not found', 404);
+  }
+  // 403 rather than 401, which the client treats as an expired session
+  if (user.password && (!password || !(await bcrypt.compare(password, user.password)))) {
+    throw new CustomError('Incorrect password', 403);
+  }
+}
+
+export async function deactivateAccount(userId: string, password?: string): Promise<void> {
+  const prisma = getDatabase();
+  await confirmPassword(userId, password);
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { isActive: false, deactivatedAt: new Date() }
+  });
+  await endSessions(userId, 'deactivated');
+  logger.info(`Account ${userId} deactivated by its owner`);
+}
+
+export async function scheduleAccountDeletion(userId: string, params: { password?: string; mode: AccountDeletionMode }): Promise<Date> {
+  const prisma = getDatabase();
+  await confirmPassword(userId, params.password);
+
+  const deleteAt = new Date(Date.now() + ACCOUNT_DELETION_GRACE_DAYS * DAY_MS);
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { isActive: false, deletionScheduledAt: deleteAt, deletionMode: params.mode },
+    select: { id: true, username: true, email: true }
+  });
+
+  await endSessions(userId, 'deleted');
+  await emailService.sendAccountDeletionScheduledEmail(user, deleteAt);
+  logger.info(`Account ${user.username} scheduled for deletion on ${deleteAt.toISOString()}`);
+  return deleteAt;
+}
+
+// REMOVE deletes the user's ideas and soft-deletes their comments the same way
+// authors delete their own; ANONYMIZE leaves both credited to the tombstone
+async function removeContent(userId: string) {
+  const prisma = getDatabase();
+  const io = getSocketServer();
+
+  const ideas = await prisma.idea.findMany({ where: { authorId: userId }, select: { id: true, title: true } });
+  for (const idea of ideas) {
+    await prisma.idea.delete({ where: { id: idea.id } });
+    io?.emit('idea:deleted', { ideaId: idea.id, title: idea.title });
+  }
+  if (ideas.length) {
+    invalidateSimilarityCorpus();
+  }
+
+  const comments = await prisma.comment.findMany({
+    where: { authorId: userId, isDeleted: false },
+    select: { id: true, ideaId: true }
+  });
+  await prisma.comment.updateMany({
+    where: { id: { in: comments.map(comment => comment.id) } },
+    data: { isDeleted: true, content: '[deleted]' }
+  });
+
+  const perIdea = new Map<string, number>();
+  comments.forEach(comment => perIdea.set(comment.ideaId, (perIdea.get(comment.ideaId) || 0) + 1));
+  for (const [ideaId, count] of perIdea) {
+    await prisma.idea.update({ where: { id: ideaId }, data: { commentCount: { decrement: count } } });
+  }
+  comments.forEach(comment => io?.broadcastToIdea(comment.ideaId, 'comment:deleted', { commentId: comment.id }));
+
+  return { ideasRemoved: ideas.length, commentsRemoved: comments.length };
+}
+
+// The user row is kept as an anonymous tombstone instead of being deleted, so
+// ideas, comments, votes and audit entries still point at a valid user
+async function anonymizeAccount(user: { id: string; username: string; deletionMode: AccountDeletionMode | null }) {
+  const prisma = getDatabase();
+  const mode = user.deletionMode || AccountDeletionMode.ANONYMIZE;
+  const removed = mode === AccountDeletionMode.REMOVE ? await removeContent(user.id) : null;
+
+  await Promise.all([
+    prisma.follow.deleteMany({ where: { OR: [{ followerId: user.id }, { followingId: user.id }] } }),
+    prisma.bookmark.deleteMany({ where: { userId: user.id } }),
+    prisma.bookmarkCollection.deleteMany({ where: { userId: user.id } }),
+    prisma.notification.deleteMany({ where: { userId: user.id } }),
+    prisma.savedSearch.deleteMany({ where: { userId: user.id } }),
+    prisma.userPreferences.deleteMany({ where: { userId: user.id } }),
+    prisma.oAuthProvider.deleteMany({ where: { userId: user.id } }),
+    prisma.session.deleteMany({ where: { userId: user.id } }),
+    prisma.joinRequest.deleteMany({ where: { userId: user.id } }),
+    prisma.ideaCollaborator.deleteMany({ where: { userId: user.id } })
+  ]);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      username: `deleted_${user.id}`,
+      email: `deleted+${user.id}@deleted.invalid`,
+      password: null,
+      avatar: null,
+      bio: null,
+      skills: [],
+      socialLinks: null,
+      emailVerifyToken: null,
+      resetPasswordToken: null,
+      resetPasswordExpires: null,
+      isActive: false,
+      deactivatedAt: null,
+      deletionScheduledAt: null,
+      suspendedAt: null,
+      suspendedUntil: null,
+      suspensionReason: null,
+      deletedAt: new Date()
+    }
+  });
+
+  await recordAudit({
+    action: AuditAction.ACCOUNT_DELETED,
+    targetUserId: user.id,
+    data: { mode, ...removed }
+  });
+  logger.info(`Account ${user.username} (${user.id}) deleted, content ${mode === AccountDeletionMode.REMOVE ? 'removed' : 'anonymized'}`);
+}
+
+// Deletes accounts whose grace period is over. One failure doesn't hold up
+// the rest; that account is retried on the next run.
+export async function purgeDeletedAccounts(): Promise<void> {
+  const prisma = getDatabase();
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledAt: { lte: new Date() } },
+    select: { id: true, username: true, deletionMode: true }
+  });
+
+  for (const user of due) {
+    try {
+      await anonymizeAccount(user);
+    } catch (error) {
+      logger.error(`Failed to delete account ${user.id}:`, error);
+    }
+  }
+}
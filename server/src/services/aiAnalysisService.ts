@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import { AIAnalysisKind, DifficultyLevel, IdeaAIAnalysis, Prisma } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { AIAnalysisOutput, AITechRecommendation, parseAIOutput } from './aiOutput';
+import { aiService, AIStructuredResult } from './aiProvider';
+
+export interface AnalysisInput {
+  title: string;
+  description: string;
+  category?: string | null;
+  tags?: string[];
+  timeframe?: string;
+}
+
+export interface AnalysisOutcome<T> extends AIStructuredResult<T> {
+  // Null when the result was degraded and therefore not stored
+  analysis: IdeaAIAnalysis | null;
+  cached: boolean;
+}
+
+export const DEFAULT_FEASIBILITY_TIMEFRAME = '48 hours';
+
+// Only the fields each kind's prompt actually uses, so e.g. retagging an idea
+// doesn't invalidate its tech stack recommendations
+function hashFields(kind: AIAnalysisKind, input: AnalysisInput) {
+  const base = {
+    title: input.title.trim(),
+    description: input.description.trim()
+  };
+
+  switch (kind) {
+    case AIAnalysisKind.ANALYSIS:
+      return {
+        ...base,
+        category: input.category || null,
+        tags: (input.tags || []).map(tag => tag.trim().toLowerCase()).sort()
+      };
+    case AIAnalysisKind.TECH_STACK:
+      return { ...base, category: input.category || null };
+    case AIAnalysisKind.FEASIBILITY:
+      return { ...base, timeframe: input.timeframe || DEFAULT_FEASIBILITY_TIMEFRAME };
+  }
+}
+
+export function hashAnalysisInput(kind: AIAnalysisKind, input: AnalysisInput): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(hashFields(kind, input)))
+    .digest('hex');
+}
+
+// Stored results were validated when generated; parsing them again types them
+// and skips any that no longer match the schema
+const parseFullAnalysis = (analysis: Pick<IdeaAIAnalysis, 'kind' | 'result'>) =>
+  analysis.kind === AIAnalysisKind.ANALYSIS ? parseAIOutput<AIAnalysisOutput>('analyze', analysis.result) : null;
+
+// Technologies named in an ANALYSIS or TECH_STACK result
+export function getSuggestedTechStack(analysis: Pick<IdeaAIAnalysis, 'kind' | 'result'>): string[] {
+  const techStack = analysis.kind === AIAnalysisKind.TECH_STACK
+    ? parseAIOutput<AITechRecommendation[]>('tech-stack', analysis.result)
+    : parseFullAnalysis(analysis)?.techStack;
+  return techStack ? techStack.map(tech => tech.technology) : [];
+}
+
+export function getSuggestedTags(analysis: Pick<IdeaAIAnalysis, 'kind' | 'result'>): string[] {
+  return parseFullAnalysis(analysis)?.autoTags.map(tag => tag.tag) || [];
+}
+
+// Maps the 1-10 complexity score of a full analysis onto the idea's difficulty.
+// EXPERT is left for authors to pick themselves.
+export function getSuggestedDifficulty(analysis: Pick<IdeaAIAnalysis, 'kind' | 'result'>): DifficultyLevel | null {
+  const complexity = parseFullAnalysis(analysis)?.feasibility.complexity;
+  if (complexity === undefined) {
+    return null;
+  }
+  if (complexity <= 3) return DifficultyLevel.BEGINNER;
+  if (complexity <= 6) return DifficultyLevel.INTERMEDIATE;
+  return DifficultyLevel.ADVANCED;
+}
+
+const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  BEGINNER: 'Beginner',
+  INTERMEDIATE: 'Intermediate',
+  ADVANCED: 'Advanced',
+  EXPERT: 'Expert'
+};
+
+// Keep the idea's ai* columns in step with the newest stored analysis
+function denormalizedFields(analysis: IdeaAIAnalysis): Prisma.IdeaUpdateInput | null {
+  const data: Prisma.IdeaUpdateInput = {};
+
+  const techStack = getSuggestedTechStack(analysis);
+  if (techStack.length > 0) {
+    data.aiTechStack = techStack;
+  }
+
+  const difficulty = getSuggestedDifficulty(analysis);
+  if (difficulty) {
+    data.aiComplexity = DIFFICULTY_LABELS[difficulty];
+  }
+
+  return Object.keys(data).length > 0 ? data : null;
+}
+
+export async function findCachedAnalysis(ideaId: string, kind: AIAnalysisKind, contentHash: string) {
+  const prisma = getDatabase();
+  return prisma.ideaAIAnalysis.findFirst({
+    where: { ideaId, kind, contentHash },
+    orderBy: { version: 'desc' }
+  });
+}
+
+interface StoreAnalysisInput {
+  ideaId: string;
+  kind: AIAnalysisKind;
+  contentHash: string;
+  result: unknown;
+}
+
+// Concurrent analyses of an idea can read the same latest version; the loser
+// hits @@unique([ideaId, kind, version]) and tries again rather than throwing
+// away a result that was already paid for
+const MAX_VERSION_ATTEMPTS = 5;
+
+const isVersionTaken = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+export async function storeAnalysis(input: StoreAnalysisInput): Promise<IdeaAIAnalysis> {
+  const prisma = getDatabase();
+
+  let analysis: IdeaAIAnalysis;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      analysis = await createNextVersion(input);
+      break;
+    } catch (error) {
+      if (!isVersionTaken(error) || attempt >= MAX_VERSION_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+
+  const ideaData = denormalizedFields(analysis);
+  if (ideaData) {
+    await prisma.idea.update({ where: { id: input.ideaId }, data: ideaData });
+  }
+
+  return analysis;
+}
+
+async function createNextVersion(input: StoreAnalysisInput): Promise<IdeaAIAnalysis> {
+  const prisma = getDatabase();
+  const provider = aiService.getProvider();
+
+  const latest = await prisma.ideaAIAnalysis.findFirst({
+    where: { ideaId: input.ideaId, kind: input.kind },
+    orderBy: { version: 'desc' },
+    select: { version: true }
+  });
+
+  return prisma.ideaAIAnalysis.create({
+    data: {
+      ideaId: input.ideaId,
+      kind: input.kind,
+      version: (latest?.version || 0) + 1,
+      contentHash: input.contentHash,
+      result: input.result as Prisma.InputJsonValue,
+      provider: provider?.name || 'unknown',
+      model: provider?.model || 'unknown'
+    }
+  });
+}
+
+// For an idea, reuse the newest stored analysis of identical input unless a
+// refresh is requested; otherwise generate and store the next version. Degraded
+// results are returned but never stored, so a fallback is never served from
+// cache. Without an idea (e.g. a draft) this only generates.
+export async function runAnalysis<T>(options: {
+  ideaId?: string | null;
+  kind: AIAnalysisKind;
+  input: AnalysisInput;
+  refresh?: boolean;
+  generate: () => Promise<AIStructuredResult<T>>;
+}): Promise<AnalysisOutcome<T>> {
+  if (!options.ideaId) {
+    return { ...(await options.generate()), analysis: null, cached: false };
+  }
+
+  const contentHash = hashAnalysisInput(options.kind, options.input);
+
+  if (!options.refresh) {
+    const cached = await findCachedAnalysis(options.ideaId, options.kind, contentHash);
+    if (cached) {
+      return { data: cached.result as T, degraded: false, analysis: cached, cached: true };
+    }
+  }
+
+  const result = await options.generate();
+  if (result.degraded) {
+    return { ...result, analysis: null, cached: false };
+  }
+
+  const analysis = await storeAnalysis({
+    ideaId: options.ideaId,
+    kind: options.kind,
+    contentHash,
+    result: result.data
+  });
+
+  return { ...result, analysis, cached: false };
+}
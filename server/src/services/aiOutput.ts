@@ -0,0 +1,269 @@
+import Joi from 'joi';
+import type { AITask } from './aiProvider';
+
+// Why a response is degraded: the model never produced usable JSON, or the
+// provider call itself failed
+export type AIDegradedReason = 'invalid_output' | 'provider_error';
+
+export interface AIOutputValidation<T> {
+  value?: T;
+  errors: string[];
+}
+
+// Shapes of the validated output, for code that reads stored results
+export interface AITechRecommendation {
+  category: string;
+  technology: string;
+  reason: string;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  alternatives: string[];
+}
+
+export interface AIAutoTag {
+  tag: string;
+  confidence: number;
+  category: 'technology' | 'domain' | 'difficulty' | 'type';
+}
+
+export interface AIAnalysisOutput {
+  enhancement: {
+    improvements: string[];
+    missingFeatures: string[];
+    challenges: string[];
+    opportunities: string[];
+  };
+  techStack: AITechRecommendation[];
+  feasibility: {
+    overall: number;
+    technical: number;
+    market: number;
+    complexity: number;
+    timeEstimate: string;
+    reasoning: string;
+    recommendations: string[];
+  };
+  autoTags: AIAutoTag[];
+}
+
+const text = Joi.string().trim().min(1);
+const textList = Joi.array().items(text).default([]);
+const score = Joi.number().min(1).max(10);
+
+const difficulty = Joi.string().lowercase().valid('beginner', 'intermediate', 'advanced');
+
+const techRecommendation = Joi.object({
+  category: text.required(),
+  technology: text.required(),
+  reason: text.required(),
+  difficulty: difficulty.required(),
+  alternatives: textList
+});
+
+const autoTag = Joi.object({
+  tag: text.lowercase().max(50).required(),
+  confidence: Joi.number().min(0).max(1).required(),
+  category: Joi.string().lowercase().valid('technology', 'domain', 'difficulty', 'type').required()
+});
+
+const generatedIdea = Joi.object({
+  title: text.required(),
+  description: text.required(),
+  features: textList,
+  techStack: textList,
+  timeEstimate: text.required(),
+  audience: text.required()
+});
+
+// One schema per AI task. Unknown keys are stripped, so the routes only ever
+// pass on fields the client knows about.
+export const AI_OUTPUT_SCHEMAS: Record<AITask, Joi.Schema> = {
+  'enhance-description': Joi.object({
+    enhancedDescription: text.required(),
+    techStack: textList,
+    complexity: Joi.string().valid('Beginner', 'Intermediate', 'Advanced').required(),
+    keyFeatures: textList,
+    challenges: textList
+  }),
+  'generate-ideas': Joi.array().items(generatedIdea).single().min(1),
+  'analyze-feasibility': Joi.object({
+    technicalFeasibility: score.required(),
+    scopeScore: score.required(),
+    innovationScore: score.required(),
+    marketPotential: score.required(),
+    requiredSkills: textList,
+    roadblocks: textList,
+    recommendations: textList
+  }),
+  'suggest-improvements': Joi.object({
+    technical: textList,
+    features: textList,
+    userExperience: textList,
+    marketing: textList,
+    implementation: textList,
+    presentation: textList
+  }),
+  analyze: Joi.object({
+    enhancement: Joi.object({
+      improvements: textList,
+      missingFeatures: textList,
+      challenges: textList,
+      opportunities: textList
+    }).required(),
+    techStack: Joi.array().items(techRecommendation).min(1).required(),
+    feasibility: Joi.object({
+      overall: score.required(),
+      technical: score.required(),
+      market: score.required(),
+      complexity: score.required(),
+      timeEstimate: text.required(),
+      reasoning: text.required(),
+      recommendations: textList
+    }).required(),
+    autoTags: Joi.array().items(autoTag).default([])
+  }),
+  'tech-stack': Joi.array().items(techRecommendation).min(1),
+  tags: Joi.array().items(autoTag).min(1),
+  'suggest-description': Joi.object({
+    suggestions: Joi.array().items(text).min(1).required()
+  }),
+  'screen-content': Joi.object({
+    spam: Joi.number().min(0).max(1).required(),
+    toxicity: Joi.number().min(0).max(1).required(),
+    reasons: textList
+  })
+};
+
+// Models like to wrap JSON in markdown fences or add a sentence around it.
+// Returns undefined when nothing in the text parses.
+export function parseAIJson(raw: string): unknown {
+  const trimmed = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const start = trimmed.search(/[[{]/);
+    const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+    if (start === -1 || end <= start) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(trimmed.substring(start, end + 1));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// Index of the quote closing the string that opens at `start`, or -1 if the
+// string hasn't fully arrived yet
+function findStringEnd(raw: string, start: number): number {
+  for (let i = start + 1; i < raw.length; i++) {
+    if (raw[i] === '\\') {
+      i++;
+    } else if (raw[i] === '"') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Values of a partially received JSON object that have fully arrived, keyed by
+// dotted path (e.g. "enhancement.challenges"). Used to preview streamed output
+// section by section; the values are not validated.
+export function extractCompletedSections(raw: string, paths: readonly string[]): Map<string, unknown> {
+  const wanted = new Set(paths);
+  const found = new Map<string, unknown>();
+  const stack: { path: string; start: number; isObject: boolean; key: string | null }[] = [];
+
+  const pathOfNextValue = () => {
+    const parent = stack[stack.length - 1];
+    const segment = parent.isObject ? parent.key || '' : '[]';
+    return parent.path ? `${parent.path}.${segment}` : segment;
+  };
+
+  const collect = (path: string, start: number, end: number) => {
+    if (!wanted.has(path) || found.has(path)) return;
+    try {
+      found.set(path, JSON.parse(raw.substring(start, end + 1)));
+    } catch {
+      // Not valid JSON after all; the final validation will report it
+    }
+  };
+
+  for (let i = raw.indexOf('{'); i !== -1 && i < raw.length; i++) {
+    const char = raw[i];
+    const top = stack[stack.length - 1];
+
+    if (char === '"') {
+      const end = findStringEnd(raw, i);
+      if (end === -1 || !top) break;
+
+      if (top.isObject && top.key === null) {
+        try {
+          top.key = JSON.parse(raw.substring(i, end + 1));
+        } catch {
+          break;
+        }
+      } else {
+        collect(pathOfNextValue(), i, end);
+      }
+      i = end;
+    } else if (char === '{' || char === '[') {
+      stack.push({ path: top ? pathOfNextValue() : '', start: i, isObject: char === '{', key: null });
+    } else if (char === '}' || char === ']') {
+      const frame = stack.pop();
+      if (!frame) break;
+      collect(frame.path, frame.start, i);
+      if (stack.length === 0) break;
+    } else if (char === ',' && top?.isObject) {
+      top.key = null;
+    }
+  }
+
+  return found;
+}
+
+export function validateAIOutput<T>(task: AITask, raw: string): AIOutputValidation<T> {
+  const parsed = parseAIJson(raw);
+  if (parsed === undefined) {
+    return { errors: ['the response is not valid JSON'] };
+  }
+
+  return validateParsedOutput<T>(task, parsed);
+}
+
+// For output that is already JSON, e.g. a stored analysis. Null when it
+// doesn't match the task's schema.
+export function parseAIOutput<T>(task: AITask, parsed: unknown): T | null {
+  const { value, errors } = validateParsedOutput<T>(task, parsed);
+  return errors.length === 0 ? value! : null;
+}
+
+function validateParsedOutput<T>(task: AITask, parsed: unknown): AIOutputValidation<T> {
+  const { value, error } = AI_OUTPUT_SCHEMAS[task].validate(parsed, {
+    abortEarly: false,
+    stripUnknown: true,
+    convert: true
+  });
+
+  if (error) {
+    return { errors: error.details.map(detail => detail.message) };
+  }
+
+  return { value: value as T, errors: [] };
+}
+
+// The original prompt plus what was wrong with the last answer; providers are
+// stateless so the model needs the full task again
+export function buildRepairPrompt(prompt: string, previous: string, errors: string[]): string {
+  return `${prompt}
+
+Your previous reply could not be used because:
+${errors.slice(0, 10).map(error => `- ${error}`).join('\n')}
+
+Previous reply:
+${previous.substring(0, 2000)}
+
+Reply again with ONLY the corrected JSON. No markdown, no code blocks, no commentary.`;
+}
@@ -0,0 +1,101 @@
+import { AIOutputError, AIService, FakeAIProvider } from './aiProvider';
+
+describe('AIService with FakeAIProvider', () => {
+  let provider: FakeAIProvider;
+  let service: AIService;
+
+  beforeEach(() => {
+    provider = new FakeAIProvider();
+    service = new AIService();
+    service.setProvider(provider);
+  });
+
+  it('returns the canned response for a task', async () => {
+    const result = await service.generateStructured('Suggest tags', { task: 'tags' });
+
+    expect(result.degraded).toBe(false);
+    expect(result.data.map((tag: any) => tag.tag)).toEqual(['web-development', 'productivity', 'beginner-friendly']);
+    expect(provider.calls).toHaveLength(1);
+    expect(provider.calls[0].options.task).toBe('tags');
+  });
+
+  it('sends invalid output back with a repair prompt', async () => {
+    provider.respondWith('tags', 'not json', JSON.stringify([{ tag: 'ai', confidence: 0.5, category: 'technology' }]));
+
+    const result = await service.generateStructured('Suggest tags', { task: 'tags' });
+
+    expect(result.data).toEqual([{ tag: 'ai', confidence: 0.5, category: 'technology' }]);
+    expect(provider.calls).toHaveLength(2);
+    expect(provider.calls[1].options.isRepair).toBe(true);
+    expect(provider.calls[1].prompt).toContain('not json');
+  });
+
+  it('uses the fallback when the output never validates', async () => {
+    provider.respondWith('tags', 'still not json');
+
+    const result = await service.generateStructured('Suggest tags', { task: 'tags', fallback: () => [] });
+
+    expect(result).toEqual({ data: [], degraded: true, degradedReason: 'invalid_output' });
+  });
+
+  it('throws without a fallback when the output never validates', async () => {
+    provider.respondWith('tags', 'still not json');
+
+    await expect(service.generateStructured('Suggest tags', { task: 'tags' })).rejects.toBeInstanceOf(AIOutputError);
+  });
+
+  it('streams the completion in pieces', async () => {
+    const seen: string[] = [];
+
+    const text = await service.streamText('Describe', { task: 'suggest-description' }, { onText: received => seen.push(received) });
+
+    expect(seen.length).toBeGreaterThan(1);
+    expect(seen[seen.length - 1]).toBe(text);
+    expect(JSON.parse(text).suggestions).toHaveLength(3);
+  });
+
+  it('stops streaming once aborted', async () => {
+    const controller = new AbortController();
+
+    const streaming = service.streamText('Describe', { task: 'suggest-description' }, {
+      onText: () => controller.abort(),
+      signal: controller.signal
+    });
+
+    await expect(streaming).rejects.toThrow('AI stream cancelled');
+  });
+});
+
+describe('OpenAI-compatible streaming', () => {
+  const env = { ...process.env };
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    process.env['AI_PROVIDER'] = 'openai';
+    process.env['AI_BASE_URL'] = 'http://localhost:11434/v1';
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    global.fetch = originalFetch;
+  });
+
+  it('skips malformed events instead of ending the stream', async () => {
+    const events = [
+      'data: {"choices":[{"delta":{"content":"Hello"}}]}\n',
+      'data: {not json\n',
+      'data: {"choices":[{"delta":{"content":" world"}}]}\n',
+      'data: [DONE]\n'
+    ];
+    global.fetch = jest.fn().mockResolvedValue(new Response(new ReadableStream({
+      start(controller) {
+        events.forEach(event => controller.enqueue(new TextEncoder().encode(event)));
+        controller.close();
+      }
+    })));
+
+    const text = await new AIService().streamText('Say hello', { task: 'suggest-description' }, { onText: () => undefined });
+
+    expect(text).toBe('Hello world');
+  });
+});
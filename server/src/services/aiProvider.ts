@@ -0,0 +1,575 @@
+import { GoogleGenerativeAI, RequestOptions, TaskType } from '@google/generative-ai';
+import { logger } from '../config/logger';
+import { AIDegradedReason, buildRepairPrompt, validateAIOutput } from './aiOutput';
+import { aiQuotaService } from './aiQuotaService';
+import { hashedEmbedding } from './similarityService';
+
+// Every AI feature, so providers (and the fake) can tell requests apart
+export type AITask =
+  | 'enhance-description'
+  | 'generate-ideas'
+  | 'analyze-feasibility'
+  | 'suggest-improvements'
+  | 'analyze'
+  | 'tech-stack'
+  | 'tags'
+  | 'suggest-description'
+  | 'screen-content';
+
+export interface AIGenerateOptions {
+  task: AITask;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Who the call is for; usage is only recorded when set
+  userId?: string;
+  isRepair?: boolean;
+}
+
+export interface AICompletion {
+  text: string;
+  // Reported by the provider; estimated from the text when missing
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+// Some models embed documents and search queries differently
+export type AIEmbeddingPurpose = 'document' | 'query';
+
+export interface AIProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(prompt: string, options: AIGenerateOptions): Promise<AICompletion>;
+  // Calls onChunk with each new piece of text as it arrives. Optional: without
+  // it the whole completion is delivered as a single chunk.
+  stream?(prompt: string, options: AIGenerateOptions, onChunk: (text: string) => void, signal?: AbortSignal): Promise<AICompletion>;
+  // One vector per text, in order. Optional: search falls back to a local model.
+  readonly embeddingModel?: string;
+  embed?(texts: string[], purpose: AIEmbeddingPurpose): Promise<number[][]>;
+}
+
+export interface AIStreamHandlers {
+  // Called with all text received so far, after every chunk
+  onText: (text: string) => void;
+  // Aborting stops reading from the provider
+  signal?: AbortSignal;
+}
+
+export interface AIStructuredOptions<T> extends AIGenerateOptions {
+  // Used when the model never returns valid output; without it the error is thrown
+  fallback?: (reason: AIDegradedReason) => T;
+  // Streams the first attempt; repair attempts are never streamed
+  stream?: AIStreamHandlers;
+}
+
+export interface AIStructuredResult<T> {
+  data: T;
+  // True when data came from the fallback instead of the model
+  degraded: boolean;
+  degradedReason?: AIDegradedReason;
+}
+
+export class AIOutputError extends Error {
+  constructor(readonly task: AITask, readonly errors: string[]) {
+    super(`AI returned invalid output for ${task}: ${errors.join('; ')}`);
+    this.name = 'AIOutputError';
+  }
+}
+
+export type AIProviderName = 'gemini' | 'openai' | 'fake';
+
+const DEFAULT_MODELS: Record<AIProviderName, string> = {
+  gemini: 'gemini-pro-latest',
+  openai: 'gpt-4o-mini',
+  fake: 'fake-1'
+};
+
+const DEFAULT_EMBEDDING_MODELS: Record<AIProviderName, string> = {
+  gemini: 'text-embedding-004',
+  openai: 'text-embedding-3-small',
+  fake: 'fake-embedding-1'
+};
+
+const REQUEST_TIMEOUT_MS = parseInt(process.env['AI_TIMEOUT_MS'] || '30000', 10);
+const REPAIR_ATTEMPTS = Math.max(0, parseInt(process.env['AI_REPAIR_ATTEMPTS'] || '1', 10) || 0);
+
+class GeminiProvider implements AIProvider {
+  readonly name = 'gemini';
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey: string, readonly model: string, readonly embeddingModel: string) {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  // The SDK aborts the request itself after requestOptions.timeout
+  async generate(prompt: string, options: AIGenerateOptions): Promise<AICompletion> {
+    const result = await this.getModel(options, { timeout: REQUEST_TIMEOUT_MS }).generateContent(prompt);
+    return { text: result.response.text() };
+  }
+
+  // As with OpenAI, the timeout only covers waiting for the response to start.
+  // The SDK's own timeout would also cut off long streams, so race it instead.
+  async stream(prompt: string, options: AIGenerateOptions, onChunk: (text: string) => void, signal?: AbortSignal): Promise<AICompletion> {
+    let timeout: NodeJS.Timeout | undefined;
+    const result = await Promise.race([
+      this.getModel(options).generateContentStream(prompt),
+      new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => reject(new Error('AI provider timed out')), REQUEST_TIMEOUT_MS);
+      })
+    ]).finally(() => clearTimeout(timeout));
+    let text = '';
+
+    for await (const chunk of result.stream) {
+      // This SDK version can't abort the request, so stop reading instead
+      if (signal?.aborted) {
+        throw new Error('AI stream cancelled');
+      }
+      const piece = chunk.text();
+      text += piece;
+      onChunk(piece);
+    }
+
+    return { text };
+  }
+
+  async embed(texts: string[], purpose: AIEmbeddingPurpose): Promise<number[][]> {
+    const result = await this.client.getGenerativeModel({ model: this.embeddingModel }).batchEmbedContents({
+      requests: texts.map(text => ({
+        content: { role: 'user', parts: [{ text }] },
+        taskType: purpose === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT
+      }))
+    });
+    return result.embeddings.map(embedding => embedding.values);
+  }
+
+  private getModel(options: AIGenerateOptions, requestOptions?: RequestOptions) {
+    return this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: options.temperature,
+        maxOutputTokens: options.maxOutputTokens
+      }
+    }, requestOptions);
+  }
+}
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself,
+// Ollama (http://localhost:11434/v1), LM Studio, vLLM, OpenRouter...
+class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai';
+
+  constructor(private baseUrl: string, readonly model: string, readonly embeddingModel: string, private apiKey?: string) {}
+
+  async generate(prompt: string, options: AIGenerateOptions): Promise<AICompletion> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await this.post(prompt, options, false, controller.signal);
+      const data: any = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('AI provider returned no message content');
+      }
+
+      return { text: content, usage: toUsage(data?.usage) };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // The timeout only covers waiting for the response to start; after that the
+  // caller's signal decides how long to keep reading
+  async stream(prompt: string, options: AIGenerateOptions, onChunk: (text: string) => void, signal?: AbortSignal): Promise<AICompletion> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    const timeout = setTimeout(abort, REQUEST_TIMEOUT_MS);
+    signal?.addEventListener('abort', abort);
+
+    try {
+      const response = await this.post(prompt, options, true, controller.signal);
+      clearTimeout(timeout);
+
+      if (!response.body) {
+        throw new Error('AI provider returned no response body');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let text = '';
+      let usage: AICompletion['usage'];
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const payload = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || payload === '[DONE]') continue;
+
+          // Skip a malformed event rather than lose the rest of the stream
+          let data: any;
+          try {
+            data = JSON.parse(payload);
+          } catch {
+            logger.warn(`Skipping malformed AI stream event: ${payload.substring(0, 100)}`);
+            continue;
+          }
+          const piece = data?.choices?.[0]?.delta?.content;
+          if (typeof piece === 'string' && piece) {
+            text += piece;
+            onChunk(piece);
+          }
+          usage = toUsage(data?.usage) || usage;
+        }
+      }
+
+      return { text, usage };
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await this.request('/embeddings', { model: this.embeddingModel, input: texts }, controller.signal);
+      const data: any = await response.json();
+      return [...data.data]
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private post(prompt: string, options: AIGenerateOptions, stream: boolean, signal: AbortSignal) {
+    return this.request('/chat/completions', {
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: options.temperature,
+      max_tokens: options.maxOutputTokens,
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+    }, signal);
+  }
+
+  private async request(path: string, body: unknown, signal: AbortSignal) {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`AI provider responded with ${response.status}: ${detail.substring(0, 200)}`);
+    }
+
+    return response;
+  }
+}
+
+const toUsage = (usage: any): AICompletion['usage'] => usage
+  ? { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 }
+  : undefined;
+
+const FAKE_RESPONSES: Record<AITask, unknown> = {
+  'enhance-description': {
+    enhancedDescription: 'A focused, well-scoped project with a clear audience and a demo-ready core feature.',
+    techStack: ['React', 'Node.js', 'MongoDB'],
+    complexity: 'Intermediate',
+    keyFeatures: ['User accounts', 'Core workflow', 'Sharing'],
+    challenges: ['Scoping the MVP', 'Onboarding new users']
+  },
+  'generate-ideas': [
+    {
+      title: 'Study Buddy Matcher',
+      description: 'Pairs students with study partners based on courses and schedules.',
+      features: ['Course import', 'Schedule matching', 'Group chat'],
+      techStack: ['React', 'Node.js', 'PostgreSQL'],
+      timeEstimate: '48 hours',
+      audience: 'University students'
+    }
+  ],
+  'analyze-feasibility': {
+    technicalFeasibility: 7,
+    scopeScore: 6,
+    innovationScore: 7,
+    marketPotential: 6,
+    requiredSkills: ['Full-stack web development'],
+    roadblocks: ['Limited time for polish'],
+    recommendations: ['Cut scope to one core flow']
+  },
+  'suggest-improvements': {
+    technical: ['Add input validation on every form'],
+    features: ['Let users export their data'],
+    userExperience: ['Add an onboarding checklist'],
+    marketing: ['Pick one target audience for the launch'],
+    implementation: ['Ship the core flow first'],
+    presentation: ['Open the demo with the problem, not the stack']
+  },
+  analyze: {
+    enhancement: {
+      improvements: ['Clarify the primary user'],
+      missingFeatures: ['Notifications'],
+      challenges: ['Cold start'],
+      opportunities: ['Partnerships with communities']
+    },
+    techStack: [
+      { category: 'Frontend', technology: 'React', reason: 'Component model suits the UI', difficulty: 'intermediate', alternatives: ['Vue.js'] },
+      { category: 'Backend', technology: 'Node.js', reason: 'Same language end to end', difficulty: 'beginner', alternatives: ['Python'] }
+    ],
+    feasibility: {
+      overall: 7,
+      technical: 7,
+      market: 6,
+      complexity: 5,
+      timeEstimate: '3-4 weeks for MVP',
+      reasoning: 'Standard web stack with a well-bounded scope.',
+      recommendations: ['Validate with five users before building more']
+    },
+    autoTags: [
+      { tag: 'web', confidence: 0.9, category: 'technology' },
+      { tag: 'mvp-ready', confidence: 0.7, category: 'type' }
+    ]
+  },
+  'tech-stack': [
+    { category: 'Frontend', technology: 'React', reason: 'Component model suits the UI', difficulty: 'intermediate', alternatives: ['Vue.js', 'Svelte'] },
+    { category: 'Backend', technology: 'Node.js', reason: 'Same language end to end', difficulty: 'beginner', alternatives: ['Python', 'Go'] },
+    { category: 'Database', technology: 'MongoDB', reason: 'Flexible schema while iterating', difficulty: 'beginner', alternatives: ['PostgreSQL'] }
+  ],
+  tags: [
+    { tag: 'web-development', confidence: 0.9, category: 'technology' },
+    { tag: 'productivity', confidence: 0.8, category: 'domain' },
+    { tag: 'beginner-friendly', confidence: 0.6, category: 'difficulty' }
+  ],
+  'suggest-description': {
+    suggestions: [
+      'Describe who the project is for',
+      'Explain what makes it different from existing tools',
+      'List the one feature the demo must show'
+    ]
+  },
+  'screen-content': {
+    spam: 0.02,
+    toxicity: 0.01,
+    reasons: []
+  }
+};
+
+const FAKE_CHUNK_SIZE = 40;
+const FAKE_CHUNK_DELAY_MS = 25;
+
+// Offline, deterministic provider for tests and local development. Returns
+// canned JSON per task unless a test overrides it.
+export class FakeAIProvider implements AIProvider {
+  readonly name = 'fake';
+  readonly model = DEFAULT_MODELS.fake;
+  readonly embeddingModel = DEFAULT_EMBEDDING_MODELS.fake;
+  readonly calls: { prompt: string; options: AIGenerateOptions }[] = [];
+  private overrides = new Map<AITask, string[]>();
+
+  // Queue raw responses for a task; each call consumes one, the last one sticks
+  respondWith(task: AITask, ...responses: string[]): this {
+    this.overrides.set(task, responses);
+    return this;
+  }
+
+  async generate(prompt: string, options: AIGenerateOptions): Promise<AICompletion> {
+    this.calls.push({ prompt, options });
+
+    const queued = this.overrides.get(options.task);
+    if (queued && queued.length > 0) {
+      return { text: queued.length > 1 ? queued.shift()! : queued[0] };
+    }
+
+    return { text: JSON.stringify(FAKE_RESPONSES[options.task]) };
+  }
+
+  // Replays the same text in small pieces so streaming can be tried offline
+  async stream(prompt: string, options: AIGenerateOptions, onChunk: (text: string) => void, signal?: AbortSignal): Promise<AICompletion> {
+    const completion = await this.generate(prompt, options);
+
+    for (let i = 0; i < completion.text.length; i += FAKE_CHUNK_SIZE) {
+      if (signal?.aborted) {
+        throw new Error('AI stream cancelled');
+      }
+      await new Promise(resolve => setTimeout(resolve, FAKE_CHUNK_DELAY_MS));
+      onChunk(completion.text.substring(i, i + FAKE_CHUNK_SIZE));
+    }
+
+    return completion;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => hashedEmbedding(text));
+  }
+}
+
+// AI_PROVIDER wins; otherwise Gemini when its key is set, then an
+// OpenAI-compatible server when AI_BASE_URL is set. Null means AI is disabled.
+function createProvider(): AIProvider | null {
+  const configured = process.env['AI_PROVIDER'] as AIProviderName | undefined;
+  const geminiKey = process.env['GEMINI_API_KEY'];
+  const baseUrl = process.env['AI_BASE_URL'];
+
+  const name: AIProviderName | null = configured
+    || (geminiKey ? 'gemini' : baseUrl ? 'openai' : null);
+
+  if (!name) {
+    return null;
+  }
+
+  const model = process.env['AI_MODEL'] || DEFAULT_MODELS[name];
+  const embeddingModel = process.env['AI_EMBEDDING_MODEL'] || DEFAULT_EMBEDDING_MODELS[name];
+
+  switch (name) {
+    case 'gemini':
+      if (!geminiKey) {
+        logger.warn('AI_PROVIDER is gemini but GEMINI_API_KEY is missing - AI features disabled');
+        return null;
+      }
+      return new GeminiProvider(geminiKey, model, embeddingModel);
+    case 'openai':
+      return new OpenAICompatibleProvider(
+        baseUrl || 'https://api.openai.com/v1',
+        model,
+        embeddingModel,
+        process.env['AI_API_KEY']
+      );
+    case 'fake':
+      return new FakeAIProvider();
+    default:
+      logger.warn(`Unknown AI_PROVIDER "${name}" - AI features disabled`);
+      return null;
+  }
+}
+
+export class AIService {
+  private provider: AIProvider | null | undefined;
+
+  getProvider(): AIProvider | null {
+    if (this.provider === undefined) {
+      this.provider = createProvider();
+      logger.info(this.provider
+        ? `AI provider: ${this.provider.name} (${this.provider.model})`
+        : 'AI provider: none configured');
+    }
+    return this.provider;
+  }
+
+  // Swap the provider at runtime (e.g. a FakeAIProvider in tests)
+  setProvider(provider: AIProvider | null): void {
+    this.provider = provider;
+  }
+
+  isAvailable(): boolean {
+    return !!this.getProvider();
+  }
+
+  async generateText(prompt: string, options: AIGenerateOptions): Promise<string> {
+    const provider = this.requireProvider();
+    const completion = await provider.generate(prompt, options);
+    await this.recordUsage(provider, prompt, options, completion);
+    return completion.text;
+  }
+
+  async streamText(prompt: string, options: AIGenerateOptions, handlers: AIStreamHandlers): Promise<string> {
+    const provider = this.requireProvider();
+    let received = '';
+    const onChunk = (text: string) => {
+      received += text;
+      handlers.onText(received);
+    };
+
+    let completion: AICompletion;
+    try {
+      if (provider.stream) {
+        completion = await provider.stream(prompt, options, onChunk, handlers.signal);
+      } else {
+        completion = await provider.generate(prompt, options);
+        onChunk(completion.text);
+      }
+    } catch (error) {
+      // A cancelled stream still spent tokens on what was already sent
+      if (handlers.signal?.aborted && received) {
+        await this.recordUsage(provider, prompt, options, { text: received });
+      }
+      throw error;
+    }
+
+    await this.recordUsage(provider, prompt, options, completion);
+    return completion.text;
+  }
+
+  // Generate JSON for a task and validate it against the task's schema. Invalid
+  // output is sent back with a repair prompt up to AI_REPAIR_ATTEMPTS times.
+  async generateStructured<T = any>(prompt: string, options: AIStructuredOptions<T>): Promise<AIStructuredResult<T>> {
+    const { fallback, stream, ...generateOptions } = options;
+    let currentPrompt = prompt;
+
+    for (let attempt = 0; attempt <= REPAIR_ATTEMPTS; attempt++) {
+      let text: string;
+      try {
+        text = stream && attempt === 0
+          ? await this.streamText(currentPrompt, generateOptions, stream)
+          : await this.generateText(currentPrompt, { ...generateOptions, isRepair: attempt > 0 });
+      } catch (error) {
+        // A cancelled stream has nobody left to send a fallback to
+        if (!fallback || stream?.signal?.aborted) throw error;
+        logger.error(`AI ${options.task} request failed, using fallback:`, error);
+        return { data: fallback('provider_error'), degraded: true, degradedReason: 'provider_error' };
+      }
+
+      const { value, errors } = validateAIOutput<T>(options.task, text);
+      if (errors.length === 0) {
+        return { data: value as T, degraded: false };
+      }
+
+      logger.warn(`AI ${options.task} output invalid (attempt ${attempt + 1}): ${errors.join('; ')}`);
+
+      if (attempt === REPAIR_ATTEMPTS) {
+        if (!fallback) throw new AIOutputError(options.task, errors);
+        return { data: fallback('invalid_output'), degraded: true, degradedReason: 'invalid_output' };
+      }
+
+      currentPrompt = buildRepairPrompt(prompt, text, errors);
+    }
+
+    // Unreachable: the last attempt always returns or throws
+    throw new AIOutputError(options.task, []);
+  }
+
+  private requireProvider(): AIProvider {
+    const provider = this.getProvider();
+    if (!provider) {
+      throw new Error('No AI provider configured');
+    }
+    return provider;
+  }
+
+  private async recordUsage(provider: AIProvider, prompt: string, options: AIGenerateOptions, completion: AICompletion) {
+    if (!options.userId) return;
+
+    await aiQuotaService.recordUsage({
+      userId: options.userId,
+      task: options.task,
+      provider,
+      prompt,
+      completion,
+      isRepair: !!options.isRepair
+    });
+  }
+}
+
+export const aiService = new AIService();
@@ -0,0 +1,199 @@
+import { getDatabase } from '../config/database';
+import { logger } from '../config/logger';
+import type { AICompletion, AIProvider } from './aiProvider';
+
+export interface QuotaLimits {
+  requests: number;
+  tokens: number;
+}
+
+export interface QuotaTier {
+  name: string;
+  minKarma: number;
+  daily: QuotaLimits;
+  monthly: QuotaLimits;
+}
+
+// Budgets grow with karma. Ordered from the lowest tier up.
+export const AI_QUOTA_TIERS: QuotaTier[] = [
+  {
+    name: 'Starter',
+    minKarma: 0,
+    daily: { requests: 20, tokens: 50000 },
+    monthly: { requests: 200, tokens: 500000 }
+  },
+  {
+    name: 'Contributor',
+    minKarma: 100,
+    daily: { requests: 50, tokens: 125000 },
+    monthly: { requests: 600, tokens: 1500000 }
+  },
+  {
+    name: 'Trusted',
+    minKarma: 500,
+    daily: { requests: 100, tokens: 250000 },
+    monthly: { requests: 1500, tokens: 4000000 }
+  }
+];
+
+export interface QuotaCounter {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface QuotaWindow {
+  requests: QuotaCounter;
+  tokens: QuotaCounter;
+  resetsAt: Date;
+  exhausted: boolean;
+}
+
+export interface AIUsageSummary {
+  tier: Pick<QuotaTier, 'name' | 'minKarma'>;
+  nextTier: Pick<QuotaTier, 'name' | 'minKarma'> | null;
+  daily: QuotaWindow;
+  monthly: QuotaWindow;
+}
+
+export interface AIUsageDay {
+  date: string;
+  requests: number;
+  tokens: number;
+}
+
+interface RecordUsageInput {
+  userId: string;
+  task: string;
+  provider: Pick<AIProvider, 'name' | 'model'>;
+  prompt: string;
+  completion: AICompletion;
+  isRepair: boolean;
+}
+
+// Rough but provider-independent: about four characters per token
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Quota windows follow UTC calendar days and months
+const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const startOfUtcMonth = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+const counter = (used: number, limit: number): QuotaCounter => ({
+  used,
+  limit,
+  remaining: Math.max(0, limit - used)
+});
+
+export class AIQuotaService {
+  getTier(karmaScore: number): QuotaTier {
+    return [...AI_QUOTA_TIERS].reverse().find(tier => karmaScore >= tier.minKarma) || AI_QUOTA_TIERS[0];
+  }
+
+  async getSummary(user: { id: string; karmaScore: number }): Promise<AIUsageSummary> {
+    const now = new Date();
+    const dayStart = startOfUtcDay(now);
+    const monthStart = startOfUtcMonth(now);
+    const tier = this.getTier(user.karmaScore);
+    const next = AI_QUOTA_TIERS.find(candidate => candidate.minKarma > tier.minKarma);
+
+    const [daily, monthly] = await Promise.all([
+      this.countSince(user.id, dayStart),
+      this.countSince(user.id, monthStart)
+    ]);
+
+    const window = (used: QuotaLimits, limits: QuotaLimits, resetsAt: Date): QuotaWindow => {
+      const requests = counter(used.requests, limits.requests);
+      const tokens = counter(used.tokens, limits.tokens);
+      return {
+        requests,
+        tokens,
+        resetsAt,
+        exhausted: requests.remaining === 0 || tokens.remaining === 0
+      };
+    };
+
+    return {
+      tier: { name: tier.name, minKarma: tier.minKarma },
+      nextTier: next ? { name: next.name, minKarma: next.minKarma } : null,
+      daily: window(daily, tier.daily, new Date(dayStart.getTime() + 24 * 60 * 60 * 1000)),
+      monthly: window(monthly, tier.monthly, new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)))
+    };
+  }
+
+  // Daily totals and per-task totals over the last `days` days, oldest day first
+  async getHistory(userId: string, days = 30): Promise<{ days: AIUsageDay[]; tasks: { task: string; requests: number; tokens: number }[] }> {
+    const prisma = getDatabase();
+    const since = startOfUtcDay(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+
+    const records = await prisma.aIUsage.findMany({
+      where: { userId, createdAt: { gte: since } },
+      select: { task: true, totalTokens: true, isRepair: true, createdAt: true }
+    });
+
+    const byDay = new Map<string, AIUsageDay>();
+    for (let i = 0; i < days; i++) {
+      const date = new Date(since.getTime() + i * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+      byDay.set(date, { date, requests: 0, tokens: 0 });
+    }
+
+    const byTask = new Map<string, { task: string; requests: number; tokens: number }>();
+
+    for (const record of records) {
+      const day = byDay.get(record.createdAt.toISOString().substring(0, 10));
+      const task = byTask.get(record.task) || { task: record.task, requests: 0, tokens: 0 };
+      const requests = record.isRepair ? 0 : 1;
+
+      if (day) {
+        day.requests += requests;
+        day.tokens += record.totalTokens;
+      }
+      task.requests += requests;
+      task.tokens += record.totalTokens;
+      byTask.set(record.task, task);
+    }
+
+    return {
+      days: Array.from(byDay.values()),
+      tasks: Array.from(byTask.values()).sort((a, b) => b.tokens - a.tokens)
+    };
+  }
+
+  // Never fails the AI call: losing one usage row beats losing the response
+  async recordUsage(input: RecordUsageInput): Promise<void> {
+    const promptTokens = input.completion.usage?.promptTokens ?? estimateTokens(input.prompt);
+    const completionTokens = input.completion.usage?.completionTokens ?? estimateTokens(input.completion.text);
+
+    try {
+      const prisma = getDatabase();
+      await prisma.aIUsage.create({
+        data: {
+          userId: input.userId,
+          task: input.task,
+          provider: input.provider.name,
+          model: input.provider.model,
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+          isRepair: input.isRepair
+        }
+      });
+    } catch (error) {
+      logger.error(`Failed to record AI usage for user ${input.userId}:`, error);
+    }
+  }
+
+  // Repair calls count towards tokens but not towards the request budget
+  private async countSince(userId: string, since: Date): Promise<QuotaLimits> {
+    const prisma = getDatabase();
+    const where = { userId, createdAt: { gte: since } };
+
+    const [tokens, requests] = await Promise.all([
+      prisma.aIUsage.aggregate({ where, _sum: { totalTokens: true } }),
+      prisma.aIUsage.count({ where: { ...where, isRepair: false } })
+    ]);
+
+    return { requests, tokens: tokens._sum.totalTokens || 0 };
+  }
+}
+
+export const aiQuotaService = new AIQuotaService();
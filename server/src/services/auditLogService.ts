@@ -0,0 +1,53 @@
+import { AuditAction, AuditLog, Prisma } from '@prisma/client';
+import { getDatabase } from '../config/database';
+
+export interface AuditEntryInput {
+  action: AuditAction;
+  // Omitted for actions the system takes on its own
+  actorId?: string;
+  targetUserId?: string;
+  data?: Record<string, any>;
+  reason?: string;
+}
+
+// Unlike notifications, a failed audit write fails the action it records
+export async function recordAudit(input: AuditEntryInput): Promise<AuditLog> {
+  const prisma = getDatabase();
+  return prisma.auditLog.create({
+    data: {
+      action: input.action,
+      actorId: input.actorId,
+      targetUserId: input.targetUserId,
+      data: input.data as Prisma.InputJsonValue,
+      reason: input.reason
+    }
+  });
+}
+
+const userSummary = { select: { id: true, username: true, avatar: true } } as const;
+
+export async function listAuditLog(params: {
+  action?: AuditAction;
+  targetUserId?: string;
+  offset: number;
+  limit: number;
+}) {
+  const prisma = getDatabase();
+  const where: Prisma.AuditLogWhereInput = {
+    ...(params.action && { action: params.action }),
+    ...(params.targetUserId && { targetUserId: params.targetUserId })
+  };
+
+  const [entries, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: params.offset,
+      take: params.limit,
+      include: { actor: userSummary, targetUser: userSummary }
+    }),
+    prisma.auditLog.count({ where })
+  ]);
+
+  return { entries, total };
+}
@@ -0,0 +1,292 @@
+import {
+  ActivityType,
+  IdeaCategory,
+  IdeaStatus,
+  ReportTargetType,
+  ScreeningAction,
+  ScreeningStatus,
+  UserRole
+} from '@prisma/client';
+import { createFakePrisma } from '../test/fakePrisma';
+import { notificationService } from './notificationService';
+import * as savedSearchService from './savedSearchService';
+import {
+  actionForScore,
+  heuristicScreener,
+  recordHeldContent,
+  registerScreener,
+  reviewScreeningVerdict,
+  screenContent,
+  ScreeningInput,
+  ScreenerResult,
+  SCREENING_HOLD_SCORE,
+  SCREENING_REJECT_SCORE,
+  velocityScreener
+} from './contentScreeningService';
+
+const mockPrisma = createFakePrisma();
+jest.mock('../config/database', () => ({ getDatabase: () => mockPrisma }));
+
+// A screener the tests control, alongside the built-in ones
+let testScreener: () => Promise<ScreenerResult | null> = async () => null;
+registerScreener({ name: 'test', screen: () => testScreener() });
+
+const CLEAN_TEXT = 'A planner for community gardens: shared beds, watering rotas and harvest swaps between neighbours.';
+
+let author: { id: string; role: UserRole };
+
+const input = (text: string, overrides: Partial<ScreeningInput> = {}): ScreeningInput => ({
+  type: ReportTargetType.IDEA,
+  author,
+  text,
+  isEdit: false,
+  ...overrides
+});
+
+const heuristicScore = async (text: string) => (await heuristicScreener.screen(input(text)))!.score;
+
+const createIdea = (status: IdeaStatus) => mockPrisma.idea.create({
+  data: {
+    title: 'Community garden planner',
+    description: 'Plan shared garden beds',
+    content: CLEAN_TEXT,
+    category: IdeaCategory.WEB,
+    tags: [],
+    status,
+    authorId: author.id
+  }
+});
+
+beforeEach(async () => {
+  mockPrisma.$reset();
+  testScreener = async () => null;
+  author = await mockPrisma.user.create({ data: { email: 'author@example.com', username: 'author', role: UserRole.USER } });
+});
+
+describe('heuristicScreener', () => {
+  it('passes an ordinary idea', async () => {
+    expect(await heuristicScreener.screen(input(CLEAN_TEXT))).toEqual({ score: 0, reasons: [] });
+  });
+
+  it('scores each spam phrase, even with zero-width characters slipped in', async () => {
+    expect(await heuristicScore(`${CLEAN_TEXT} Buy now!`)).toBeCloseTo(0.35);
+    expect(await heuristicScore(`${CLEAN_TEXT} Cli\u200Bck here`)).toBeCloseTo(0.35);
+    expect(await heuristicScore(`${CLEAN_TEXT} Buy now, click here`)).toBeCloseTo(0.7);
+  });
+
+  it('does not match spam phrases inside other words', async () => {
+    expect(await heuristicScore(`${CLEAN_TEXT} Inspired by casinos? No, by occasional casinoesque board games.`)).toBe(0);
+  });
+
+  it('flags link farms and shortened links', async () => {
+    const links = ['https://a.example', 'https://b.example', 'https://c.example', 'https://d.example', 'https://e.example'];
+    const result = await heuristicScreener.screen(input(links.join(' ')));
+
+    expect(result!.reasons).toEqual(['5 links', 'Mostly links']);
+    expect(result!.score).toBeCloseTo(0.7);
+    expect((await heuristicScreener.screen(input(`${CLEAN_TEXT} https://bit.ly/abc`)))!.reasons).toEqual(['Shortened links']);
+  });
+
+  it('flags shouting and repeated characters', async () => {
+    const result = await heuristicScreener.screen(input('THIS IS THE BEST IDEA EVER MADE!!!!!!!!!!'));
+
+    expect(result!.reasons).toEqual(['Mostly capitals', 'Repeated characters']);
+    expect(result!.score).toBeCloseTo(0.4);
+  });
+
+  it('never scores above 1', async () => {
+    expect(await heuristicScore('buy now click here limited offer free money casino')).toBe(1);
+  });
+});
+
+describe('velocityScreener', () => {
+  it('ignores edits', async () => {
+    expect(await velocityScreener.screen(input(CLEAN_TEXT, { isEdit: true }))).toBeNull();
+  });
+
+  it('flags more than ten posts in ten minutes', async () => {
+    for (let i = 0; i < 9; i++) await createIdea(IdeaStatus.PUBLISHED);
+    expect(await velocityScreener.screen(input(CLEAN_TEXT))).toEqual({ score: 0, reasons: [] });
+
+    await createIdea(IdeaStatus.PUBLISHED);
+    const result = await velocityScreener.screen(input(CLEAN_TEXT));
+
+    expect(result!.score).toBeCloseTo(0.55);
+    expect(result!.reasons).toEqual(['11 posts in 10 minutes']);
+  });
+});
+
+describe('actionForScore', () => {
+  it('allows, holds and rejects at the configured thresholds', () => {
+    expect(SCREENING_HOLD_SCORE).toBe(0.5);
+    expect(SCREENING_REJECT_SCORE).toBe(0.9);
+    expect(actionForScore(0)).toBe(ScreeningAction.ALLOW);
+    expect(actionForScore(0.49)).toBe(ScreeningAction.ALLOW);
+    expect(actionForScore(0.5)).toBe(ScreeningAction.HOLD);
+    expect(actionForScore(0.89)).toBe(ScreeningAction.HOLD);
+    expect(actionForScore(0.9)).toBe(ScreeningAction.REJECT);
+    expect(actionForScore(1)).toBe(ScreeningAction.REJECT);
+  });
+});
+
+describe('screenContent', () => {
+  it('allows clean content without recording anything', async () => {
+    const result = await screenContent(input(CLEAN_TEXT));
+
+    expect(result).toMatchObject({ action: ScreeningAction.ALLOW, score: 0 });
+    expect(mockPrisma.$rows('ScreeningVerdict')).toEqual([]);
+  });
+
+  it('combines independent signals so weak ones add up', async () => {
+    testScreener = async () => ({ score: 0.3, reasons: ['Suspicious'] });
+
+    const result = await screenContent(input(`${CLEAN_TEXT} Buy now`));
+
+    // 1 - (1 - 0.35) * (1 - 0.3)
+    expect(result.score).toBeCloseTo(0.545);
+    expect(result.action).toBe(ScreeningAction.HOLD);
+    expect(result.signals.map(signal => signal.screener)).toEqual(['heuristics', 'velocity', 'test']);
+  });
+
+  it('records held content once the caller has saved it', async () => {
+    const result = await screenContent(input(`${CLEAN_TEXT} Buy now, click here`));
+    expect(result.action).toBe(ScreeningAction.HOLD);
+    expect(mockPrisma.$rows('ScreeningVerdict')).toEqual([]);
+
+    const idea = await createIdea(IdeaStatus.HIDDEN);
+    await recordHeldContent(result, { ideaId: idea.id });
+
+    expect(mockPrisma.$rows('ScreeningVerdict')).toEqual([
+      expect.objectContaining({ ideaId: idea.id, action: ScreeningAction.HOLD, status: ScreeningStatus.PENDING, authorId: author.id })
+    ]);
+  });
+
+  it('rejects near-certain spam with a 422 and keeps an excerpt for review', async () => {
+    const text = `${CLEAN_TEXT} Buy now, click here, limited offer`;
+
+    await expect(screenContent(input(text))).rejects.toMatchObject({ statusCode: 422 });
+    expect(mockPrisma.$rows('ScreeningVerdict')).toEqual([
+      expect.objectContaining({ action: ScreeningAction.REJECT, ideaId: undefined, excerpt: text, score: 1 })
+    ]);
+  });
+
+  it('lets staff post without screening', async () => {
+    author = { ...author, role: UserRole.MODERATOR };
+
+    const result = await screenContent(input('Buy now, click here, limited offer'));
+
+    expect(result).toMatchObject({ action: ScreeningAction.ALLOW, score: 0, signals: [] });
+  });
+
+  it('carries on when a screener fails', async () => {
+    testScreener = async () => {
+      throw new Error('Classifier unavailable');
+    };
+
+    const result = await screenContent(input(CLEAN_TEXT));
+
+    expect(result.action).toBe(ScreeningAction.ALLOW);
+    expect(result.signals.map(signal => signal.screener)).toEqual(['heuristics', 'velocity']);
+  });
+});
+
+describe('reviewScreeningVerdict', () => {
+  let moderator: { id: string };
+
+  const holdIdea = async () => {
+    const idea = await createIdea(IdeaStatus.HIDDEN);
+    const result = await screenContent(input(`${CLEAN_TEXT} Buy now, click here`));
+    // An edit held again before anyone reviewed the first version
+    await recordHeldContent(result, { ideaId: idea.id });
+    await recordHeldContent(result, { ideaId: idea.id });
+    return idea;
+  };
+
+  beforeEach(async () => {
+    moderator = await mockPrisma.user.create({ data: { email: 'mod@example.com', username: 'mod', role: UserRole.MODERATOR } });
+    jest.spyOn(notificationService, 'notifyModeration').mockResolvedValue(undefined);
+    jest.spyOn(notificationService, 'notifyIdeaPublished').mockResolvedValue(undefined);
+    jest.spyOn(notificationService, 'notifyMentions').mockResolvedValue([]);
+    jest.spyOn(savedSearchService, 'scheduleSavedSearchAlerts').mockReturnValue(undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('publishes an approved idea and settles every pending verdict on it', async () => {
+    const idea = await holdIdea();
+    const [verdict] = mockPrisma.$rows('ScreeningVerdict');
+
+    const review = await reviewScreeningVerdict({ id: verdict.id, decision: 'APPROVE', moderatorId: moderator.id });
+
+    expect(review).toEqual({ status: ScreeningStatus.APPROVED, contentChanged: true });
+    expect(await mockPrisma.idea.findUnique({ where: { id: idea.id } })).toMatchObject({
+      status: IdeaStatus.PUBLISHED,
+      publishedAt: expect.any(Date)
+    });
+    expect(mockPrisma.$rows('ScreeningVerdict').map(entry => entry.status)).toEqual([ScreeningStatus.APPROVED, ScreeningStatus.APPROVED]);
+  });
+
+  it('announces an approved idea like the owner publishing it', async () => {
+    const idea = await holdIdea();
+    const [verdict] = mockPrisma.$rows('ScreeningVerdict');
+
+    await reviewScreeningVerdict({ id: verdict.id, decision: 'APPROVE', moderatorId: moderator.id });
+
+    expect(mockPrisma.$rows('Activity')).toEqual([
+      expect.objectContaining({ type: ActivityType.IDEA_PUBLISHED, userId: author.id, ideaId: idea.id })
+    ]);
+    expect(notificationService.notifyIdeaPublished).toHaveBeenCalledWith(
+      expect.objectContaining({ id: idea.id }),
+      expect.objectContaining({ id: author.id, username: 'author' })
+    );
+    expect(notificationService.notifyMentions).toHaveBeenCalledWith([], expect.objectContaining({ id: author.id }), expect.anything());
+    expect(savedSearchService.scheduleSavedSearchAlerts).toHaveBeenCalledWith(idea.id);
+  });
+
+  it('does not announce an approved edit of an idea that was already published', async () => {
+    const idea = await holdIdea();
+    await mockPrisma.idea.update({ where: { id: idea.id }, data: { publishedAt: new Date() } });
+    const [verdict] = mockPrisma.$rows('ScreeningVerdict');
+
+    await reviewScreeningVerdict({ id: verdict.id, decision: 'APPROVE', moderatorId: moderator.id });
+
+    expect(await mockPrisma.idea.findUnique({ where: { id: idea.id } })).toMatchObject({ status: IdeaStatus.PUBLISHED });
+    expect(mockPrisma.$rows('Activity')).toEqual([]);
+    expect(notificationService.notifyIdeaPublished).not.toHaveBeenCalled();
+  });
+
+  it('deletes a removed idea', async () => {
+    const idea = await holdIdea();
+    const [verdict] = mockPrisma.$rows('ScreeningVerdict');
+
+    const review = await reviewScreeningVerdict({ id: verdict.id, decision: 'REMOVE', moderatorId: moderator.id });
+
+    expect(review).toEqual({ status: ScreeningStatus.REMOVED, contentChanged: true });
+    expect(await mockPrisma.idea.findUnique({ where: { id: idea.id } })).toBeNull();
+  });
+
+  it('reviews a held comment on a draft, which reports cannot reach', async () => {
+    const idea = await createIdea(IdeaStatus.DRAFT);
+    const result = await screenContent(input(`${CLEAN_TEXT} Buy now, click here`, { type: ReportTargetType.COMMENT, ideaId: idea.id }));
+    const comment = await mockPrisma.comment.create({
+      data: { content: 'Buy now, click here', authorId: author.id, ideaId: idea.id, isDeleted: true, hiddenAt: new Date() }
+    });
+    await recordHeldContent(result, { ideaId: idea.id, commentId: comment.id });
+    const [verdict] = mockPrisma.$rows('ScreeningVerdict');
+
+    const review = await reviewScreeningVerdict({ id: verdict.id, decision: 'APPROVE', moderatorId: moderator.id });
+
+    expect(review).toEqual({ status: ScreeningStatus.APPROVED, contentChanged: true });
+    expect(await mockPrisma.comment.findUnique({ where: { id: comment.id } })).toMatchObject({ isDeleted: false, hiddenAt: null });
+    expect(await mockPrisma.idea.findUnique({ where: { id: idea.id } })).toMatchObject({ status: IdeaStatus.DRAFT, commentCount: 1 });
+  });
+
+  it('refuses to review a verdict twice', async () => {
+    await holdIdea();
+    const [verdict] = mockPrisma.$rows('ScreeningVerdict');
+    await reviewScreeningVerdict({ id: verdict.id, decision: 'APPROVE', moderatorId: moderator.id });
+
+    await expect(reviewScreeningVerdict({ id: verdict.id, decision: 'REMOVE', moderatorId: moderator.id }))
+      .rejects.toMatchObject({ statusCode: 409 });
+  });
+});
@@ -0,0 +1,420 @@
+import {
+  IdeaStatus,
+  ModerationAction,
+  Prisma,
+  ReportTargetType,
+  ScreeningAction,
+  ScreeningSignal,
+  ScreeningStatus,
+  UserRole
+} from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { logger } from '../config/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { hasPermission } from '../policies/permissions';
+import { aiService } from './aiProvider';
+import { announcePublishedIdea } from './ideaPublishService';
+import { moderateContent } from './moderationService';
+
+// Combined scores at or above these are held for review or rejected
+export const SCREENING_HOLD_SCORE = parseFloat(process.env['SCREENING_HOLD_SCORE'] || '0.5');
+export const SCREENING_REJECT_SCORE = parseFloat(process.env['SCREENING_REJECT_SCORE'] || '0.9');
+
+const SCREENING_ENABLED = process.env['SCREENING_ENABLED'] !== 'false';
+const AI_SCREENING_ENABLED = process.env['SCREENING_AI_ENABLED'] === 'true';
+
+// New ideas and comments a user can post within the window before being held
+const VELOCITY_LIMIT = parseInt(process.env['SCREENING_VELOCITY_LIMIT'] || '10', 10);
+const VELOCITY_WINDOW_MINUTES = parseInt(process.env['SCREENING_VELOCITY_WINDOW_MINUTES'] || '10', 10);
+
+const EXCERPT_LENGTH = 2000;
+const AI_INPUT_LENGTH = 4000;
+
+export interface ScreeningInput {
+  type: ReportTargetType;
+  author: { id: string; role: UserRole };
+  // Everything the author wrote, e.g. an idea's title, description and content
+  text: string;
+  isEdit: boolean;
+  // The content being edited, or for a new comment the idea it is on
+  ideaId?: string;
+  commentId?: string;
+}
+
+export interface ScreenerResult {
+  // 0 (clean) to 1 (certainly spam or abuse)
+  score: number;
+  reasons: string[];
+}
+
+// One stage of the pipeline. Returning null means the screener has no opinion,
+// e.g. because it does not apply or its backend is unavailable.
+export interface ContentScreener {
+  name: string;
+  screen(input: ScreeningInput): Promise<ScreenerResult | null>;
+}
+
+export interface ScreeningResult {
+  action: ScreeningAction;
+  score: number;
+  signals: ScreeningSignal[];
+  input: ScreeningInput;
+}
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s)>\]]+|\bwww\.[^\s)>\]]+/gi;
+const SHORTENER_DOMAINS = ['bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly', 'cutt.ly', 'rb.gy'];
+
+// Phrases that show up in spam far more than in project ideas. Abusive terms are
+// left to SCREENING_BLOCKED_TERMS and the AI classifier.
+const SPAM_PHRASES = [
+  'buy now',
+  'click here',
+  'limited offer',
+  'free money',
+  'earn money fast',
+  'make money online',
+  'casino',
+  'crypto giveaway',
+  'viagra',
+  'cialis',
+  'payday loan',
+  'followers for sale',
+  'seo services',
+  'dm me on whatsapp',
+  'telegram me'
+];
+
+const BLOCKED_TERMS = (process.env['SCREENING_BLOCKED_TERMS'] || '')
+  .split(',')
+  .map(term => term.trim().toLowerCase())
+  .filter(Boolean);
+
+const MAX_LINKS = 3;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsTerm = (text: string, term: string) =>
+  new RegExp(`(^|\\W)${escapeRegExp(term)}(\\W|$)`, 'i').test(text);
+
+// Zero-width characters are a common way to slip terms past filters
+const normalize = (text: string) => text.replace(/[\u200B-\u200D\u2060\uFEFF]/g, '').replace(/\s+/g, ' ');
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url.startsWith('www.') ? `http://${url}` : url).hostname.replace(/^www\./, '').toLowerCase();
+  } catch {
+    return '';
+  }
+};
+
+export const heuristicScreener: ContentScreener = {
+  name: 'heuristics',
+  async screen(input) {
+    const text = normalize(input.text);
+    const reasons: string[] = [];
+    let score = 0;
+
+    const links = text.match(URL_PATTERN) || [];
+    const words = text.split(' ').filter(word => word && !/^(https?:\/\/|www\.)/i.test(word));
+
+    if (links.length > MAX_LINKS) {
+      score += Math.min(0.6, 0.2 + (links.length - MAX_LINKS) * 0.1);
+      reasons.push(`${links.length} links`);
+    }
+    if (links.length >= 2 && words.length < links.length * 5) {
+      score += 0.3;
+      reasons.push('Mostly links');
+    }
+    const shortened = links.filter(link => SHORTENER_DOMAINS.includes(hostOf(link)));
+    if (shortened.length > 0) {
+      score += 0.3;
+      reasons.push('Shortened links');
+    }
+
+    for (const phrase of SPAM_PHRASES) {
+      if (containsTerm(text, phrase)) {
+        score += 0.35;
+        reasons.push(`Spam phrase "${phrase}"`);
+      }
+    }
+    for (const term of BLOCKED_TERMS) {
+      if (containsTerm(text, term)) {
+        score += 0.6;
+        reasons.push(`Blocked term "${term}"`);
+      }
+    }
+
+    const letters = text.replace(/[^a-zA-Z]/g, '');
+    if (letters.length >= 20 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.7) {
+      score += 0.2;
+      reasons.push('Mostly capitals');
+    }
+    if (/(.)\1{9,}/.test(text)) {
+      score += 0.2;
+      reasons.push('Repeated characters');
+    }
+
+    return { score: Math.min(1, score), reasons };
+  }
+};
+
+// Flags bursts of new content; edits don't count
+export const velocityScreener: ContentScreener = {
+  name: 'velocity',
+  async screen(input) {
+    if (input.isEdit) return null;
+
+    const prisma = getDatabase();
+    const since = new Date(Date.now() - VELOCITY_WINDOW_MINUTES * 60 * 1000);
+    const [ideas, comments] = await Promise.all([
+      prisma.idea.count({ where: { authorId: input.author.id, createdAt: { gte: since } } }),
+      prisma.comment.count({ where: { authorId: input.author.id, createdAt: { gte: since } } })
+    ]);
+
+    // Including the one being posted
+    const posted = ideas + comments + 1;
+    if (posted <= VELOCITY_LIMIT) {
+      return { score: 0, reasons: [] };
+    }
+
+    return {
+      score: Math.min(1, 0.5 + (posted - VELOCITY_LIMIT) * 0.05),
+      reasons: [`${posted} posts in ${VELOCITY_WINDOW_MINUTES} minutes`]
+    };
+  }
+};
+
+interface AIScreeningOutput {
+  spam: number;
+  toxicity: number;
+  reasons: string[];
+}
+
+// Not charged to the author's AI quota: they didn't ask for it
+export const aiScreener: ContentScreener = {
+  name: 'ai',
+  async screen(input) {
+    if (!AI_SCREENING_ENABLED || !aiService.isAvailable()) return null;
+
+    const prompt = `You are a content moderator for a community where people share hackathon and project ideas.
+Rate the following ${input.type === ReportTargetType.IDEA ? 'idea' : 'comment'} for spam (advertising, scams, link farming, off-topic promotion) and toxicity (harassment, hate, threats, sexual content).
+Ordinary project descriptions, criticism and technical discussion are fine.
+
+Content:
+"""
+${input.text.substring(0, AI_INPUT_LENGTH)}
+"""
+
+Return a JSON object:
+{
+  "spam": 0.0,
+  "toxicity": 0.0,
+  "reasons": ["Short reason for any score above 0.3"]
+}
+
+Scores range from 0 (clearly fine) to 1 (clearly spam or toxic).`;
+
+    const { data } = await aiService.generateStructured<AIScreeningOutput>(prompt, {
+      task: 'screen-content',
+      temperature: 0
+    });
+
+    return {
+      score: Math.max(data.spam, data.toxicity),
+      reasons: [
+        ...(data.spam >= 0.3 ? [`Spam ${data.spam.toFixed(2)}`] : []),
+        ...(data.toxicity >= 0.3 ? [`Toxicity ${data.toxicity.toFixed(2)}`] : []),
+        ...data.reasons
+      ]
+    };
+  }
+};
+
+const screeners: ContentScreener[] = [heuristicScreener, velocityScreener, aiScreener];
+
+// Add a screener to the pipeline, e.g. a third-party classifier
+export function registerScreener(screener: ContentScreener): void {
+  screeners.push(screener);
+}
+
+export function actionForScore(score: number): ScreeningAction {
+  if (score >= SCREENING_REJECT_SCORE) return ScreeningAction.REJECT;
+  if (score >= SCREENING_HOLD_SCORE) return ScreeningAction.HOLD;
+  return ScreeningAction.ALLOW;
+}
+
+async function runScreeners(input: ScreeningInput): Promise<ScreeningSignal[]> {
+  const results = await Promise.all(screeners.map(async screener => {
+    try {
+      const result = await screener.screen(input);
+      return result && { screener: screener.name, score: result.score, reasons: result.reasons };
+    } catch (error) {
+      // A broken screener must not stop people from posting
+      logger.error(`Content screener ${screener.name} failed:`, error);
+      return null;
+    }
+  }));
+
+  return results.filter((signal): signal is ScreeningSignal => !!signal);
+}
+
+async function recordVerdict(result: ScreeningResult): Promise<void> {
+  const { input } = result;
+  await getDatabase().screeningVerdict.create({
+    data: {
+      targetType: input.type,
+      ideaId: input.ideaId,
+      commentId: input.commentId,
+      authorId: input.author.id,
+      action: result.action,
+      score: result.score,
+      signals: result.signals,
+      excerpt: input.text.substring(0, EXCERPT_LENGTH),
+      isEdit: input.isEdit
+    }
+  });
+}
+
+// Screen a new or edited idea or comment before it is saved. Rejected content
+// is recorded and refused with a 422; held content is up to the caller to
+// hide, followed by recordHeldContent once it is saved.
+export async function screenContent(input: ScreeningInput): Promise<ScreeningResult> {
+  // Staff content is reviewed by definition
+  if (!SCREENING_ENABLED || hasPermission(input.author, 'content:moderate')) {
+    return { action: ScreeningAction.ALLOW, score: 0, signals: [], input };
+  }
+
+  const signals = await runScreeners(input);
+  // Independent signals reinforce each other: two 0.5s make 0.75
+  const score = 1 - signals.reduce((clean, signal) => clean * (1 - signal.score), 1);
+  const result = { action: actionForScore(score), score, signals, input };
+
+  if (result.action !== ScreeningAction.ALLOW) {
+    const flagged = signals.filter(signal => signal.score > 0).map(signal => signal.screener).join(', ');
+    logger.warn(`Content by user ${input.author.id} screened as ${result.action} (score ${score.toFixed(2)}; ${flagged})`);
+  }
+
+  if (result.action === ScreeningAction.REJECT) {
+    await recordVerdict(result);
+    throw new CustomError('This looks like spam or abuse and was not posted. If you think that is a mistake, contact the moderators.', 422);
+  }
+
+  return result;
+}
+
+export async function recordHeldContent(result: ScreeningResult, saved: { ideaId: string; commentId?: string }): Promise<void> {
+  await recordVerdict({ ...result, input: { ...result.input, ...saved } });
+}
+
+const userSummary = { select: { id: true, username: true, avatar: true } } as const;
+
+export async function listScreeningVerdicts(params: {
+  status: ScreeningStatus;
+  action?: ScreeningAction;
+  offset: number;
+  limit: number;
+}) {
+  const prisma = getDatabase();
+  const where: Prisma.ScreeningVerdictWhereInput = {
+    status: params.status,
+    ...(params.action && { action: params.action })
+  };
+
+  const [verdicts, total] = await Promise.all([
+    prisma.screeningVerdict.findMany({
+      where,
+      orderBy: { createdAt: params.status === ScreeningStatus.PENDING ? 'asc' : 'desc' },
+      skip: params.offset,
+      take: params.limit,
+      include: {
+        author: userSummary,
+        reviewedBy: userSummary,
+        idea: { select: { id: true, title: true, status: true } }
+      }
+    }),
+    prisma.screeningVerdict.count({ where })
+  ]);
+
+  return { verdicts, total };
+}
+
+// Held content still waiting: moderation or the author may have dealt with it since
+async function isStillHeld(verdict: { targetType: ReportTargetType; ideaId: string | null; commentId: string | null }) {
+  const prisma = getDatabase();
+
+  if (verdict.commentId) {
+    const comment = await prisma.comment.findUnique({ where: { id: verdict.commentId }, select: { hiddenAt: true } });
+    return !!comment?.hiddenAt;
+  }
+  if (verdict.targetType === ReportTargetType.IDEA && verdict.ideaId) {
+    const idea = await prisma.idea.findUnique({ where: { id: verdict.ideaId }, select: { status: true } });
+    return idea?.status === IdeaStatus.HIDDEN;
+  }
+  return false;
+}
+
+// Approve publishes held content; remove deletes it. For rejected content the
+// decision only records whether the rejection was right. Settles every pending
+// verdict on the same content.
+export async function reviewScreeningVerdict(params: {
+  id: string;
+  decision: 'APPROVE' | 'REMOVE';
+  moderatorId: string;
+  note?: string;
+}) {
+  const prisma = getDatabase();
+  const verdict = await prisma.screeningVerdict.findUnique({ where: { id: params.id } });
+
+  if (!verdict) {
+    throw new CustomError('Verdict not found', 404);
+  }
+  if (verdict.status !== ScreeningStatus.PENDING) {
+    throw new CustomError('This verdict has already been reviewed', 409);
+  }
+
+  const approve = params.decision === 'APPROVE';
+  const held = verdict.action === ScreeningAction.HOLD && await isStillHeld(verdict);
+
+  if (held) {
+    const isIdea = verdict.targetType === ReportTargetType.IDEA;
+    await moderateContent({
+      type: verdict.targetType,
+      id: isIdea ? verdict.ideaId! : verdict.commentId!,
+      action: approve ? ModerationAction.DISMISS : ModerationAction.DELETE,
+      moderatorId: params.moderatorId,
+      note: params.note,
+      anyIdeaStatus: true
+    });
+
+    // Held on its way to being published, so it never got a publish date and
+    // nobody was told about it. Seeded and older ideas may have no publishedAt at all.
+    if (approve && isIdea) {
+      const { count } = await prisma.idea.updateMany({
+        where: { id: verdict.ideaId!, OR: [{ publishedAt: null }, { publishedAt: { isSet: false } }] },
+        data: { publishedAt: new Date() }
+      });
+      if (count > 0) {
+        const idea = await prisma.idea.findUniqueOrThrow({
+          where: { id: verdict.ideaId! },
+          include: { author: { select: { id: true, username: true, avatar: true, karmaScore: true } } }
+        });
+        await announcePublishedIdea(idea, idea.author);
+      }
+    }
+  }
+
+  const sameContent: Prisma.ScreeningVerdictWhereInput = verdict.commentId
+    ? { commentId: verdict.commentId }
+    : verdict.targetType === ReportTargetType.IDEA && verdict.ideaId
+      ? { targetType: ReportTargetType.IDEA, ideaId: verdict.ideaId }
+      : { id: verdict.id };
+
+  const status = approve ? ScreeningStatus.APPROVED : ScreeningStatus.REMOVED;
+  // A removed idea takes its verdicts with it, so this may update nothing
+  await prisma.screeningVerdict.updateMany({
+    where: { ...sameContent, status: ScreeningStatus.PENDING },
+    data: { status, reviewedById: params.moderatorId, reviewedAt: new Date() }
+  });
+
+  return { status, contentChanged: held };
+}
@@ -0,0 +1,197 @@
+import jwt from 'jsonwebtoken';
+import { getDatabase } from '../config/database';
+import { logger } from '../config/logger';
+import { emailService, getClientUrl } from './emailService';
+import { DigestItem } from './emailTemplates';
+import { getIdeaRecommendations } from './recommendationService';
+import { buildSavedSearchDigestItems } from './savedSearchService';
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+interface UnsubscribeTokenPayload {
+  userId: string;
+  frequency: DigestFrequency;
+  purpose: 'digest-unsubscribe';
+}
+
+const DIGEST_WINDOW_MS: Record<DigestFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+// A user is due once most of the window has passed, so a job that fires a
+// little early (or a second server instance) doesn't send twice
+const DUE_RATIO = 0.9;
+
+const MAX_NOTIFICATIONS = 10;
+const MAX_COMMENTS = 10;
+const MAX_RECOMMENDATIONS = 3;
+
+// DIGEST_UNSUBSCRIBE_SECRET, else the JWT secret. Never a built-in default:
+// anyone who knows the secret can unsubscribe anyone.
+function getUnsubscribeSecret(): string | null {
+  return process.env['DIGEST_UNSUBSCRIBE_SECRET'] || process.env['JWT_SECRET'] || null;
+}
+
+// Tokens don't expire: an old digest's unsubscribe link must keep working
+export function createUnsubscribeToken(userId: string, frequency: DigestFrequency): string {
+  const secret = getUnsubscribeSecret();
+  if (!secret) {
+    throw new Error('DIGEST_UNSUBSCRIBE_SECRET or JWT_SECRET must be set to sign unsubscribe links');
+  }
+
+  const payload: UnsubscribeTokenPayload = { userId, frequency, purpose: 'digest-unsubscribe' };
+  return jwt.sign(payload, secret);
+}
+
+export function verifyUnsubscribeToken(token: string): UnsubscribeTokenPayload | null {
+  const secret = getUnsubscribeSecret();
+  if (!secret) {
+    return null;
+  }
+
+  try {
+    const decoded = jwt.verify(token, secret) as UnsubscribeTokenPayload;
+    if (decoded.purpose !== 'digest-unsubscribe' || !['daily', 'weekly'].includes(decoded.frequency)) {
+      return null;
+    }
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
+function getUnsubscribeUrl(userId: string, frequency: DigestFrequency): string {
+  const serverUrl = (process.env['SERVER_URL'] || 'https://idea-app-production.up.railway.app').replace(/\/$/, '');
+  return `${serverUrl}/api/preferences/digest/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(userId, frequency))}`;
+}
+
+async function buildDigestItems(userId: string, since: Date): Promise<DigestItem[]> {
+  const prisma = getDatabase();
+  const clientUrl = getClientUrl();
+
+  const [notifications, comments, savedSearchItems, recommendations] = await Promise.all([
+    prisma.notification.findMany({
+      where: { userId, isRead: false, createdAt: { gt: since } },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_NOTIFICATIONS
+    }),
+    prisma.comment.findMany({
+      where: {
+        idea: { is: { authorId: userId } },
+        authorId: { not: userId },
+        isDeleted: false,
+        createdAt: { gt: since }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_COMMENTS,
+      include: {
+        author: { select: { username: true } },
+        idea: { select: { id: true, title: true } }
+      }
+    }),
+    buildSavedSearchDigestItems(userId, since, clientUrl),
+    getIdeaRecommendations(userId, { limit: MAX_RECOMMENDATIONS })
+  ]);
+
+  const items: DigestItem[] = notifications.map(notification => {
+    const data = (notification.data as Record<string, any> | null) || {};
+    const path = data.link || (data.ideaId ? `/ideas/${data.ideaId}` : '/notifications');
+    return {
+      title: notification.title,
+      message: notification.message,
+      link: `${clientUrl}${path}`
+    };
+  });
+
+  for (const comment of comments) {
+    items.push({
+      title: `New comment on "${comment.idea.title}"`,
+      message: `${comment.author.username}: ${comment.content.length > 140 ? `${comment.content.slice(0, 137)}...` : comment.content}`,
+      link: `${clientUrl}/ideas/${comment.idea.id}#comment-${comment.id}`
+    });
+  }
+
+  items.push(...savedSearchItems);
+
+  for (const idea of recommendations?.recommendations || []) {
+    items.push({
+      title: 'Recommended for you',
+      message: idea.title,
+      link: `${clientUrl}/ideas/${idea.id}`
+    });
+  }
+
+  return items;
+}
+
+// Send the given digest to every opted-in user who is due for one
+export async function sendDigests(frequency: DigestFrequency): Promise<{ sent: number; skipped: number }> {
+  // Every digest carries an unsubscribe link, so none go out without a way to sign it
+  if (!getUnsubscribeSecret()) {
+    logger.error(`Not sending ${frequency} digests: set DIGEST_UNSUBSCRIBE_SECRET or JWT_SECRET`);
+    return { sent: 0, skipped: 0 };
+  }
+
+  const prisma = getDatabase();
+  const window = DIGEST_WINDOW_MS[frequency];
+  const now = new Date();
+  const dueBefore = new Date(now.getTime() - window * DUE_RATIO);
+  const optInField = frequency === 'daily' ? 'digestDaily' : 'digestWeekly';
+  const lastSentField = frequency === 'daily' ? 'lastDailyDigestAt' : 'lastWeeklyDigestAt';
+
+  const subscribers = await prisma.userPreferences.findMany({
+    where: {
+      [optInField]: true,
+      OR: [
+        { [lastSentField]: null },
+        { [lastSentField]: { isSet: false } },
+        { [lastSentField]: { lt: dueBefore } }
+      ],
+      user: { is: { isActive: true } }
+    },
+    include: {
+      user: { select: { id: true, email: true, username: true } }
+    }
+  });
+
+  let sent = 0;
+  let skipped = 0;
+
+  for (const subscriber of subscribers) {
+    try {
+      const lastSent = subscriber[lastSentField];
+      const since = lastSent || new Date(now.getTime() - window);
+      const items = await buildDigestItems(subscriber.userId, since);
+
+      // Nothing new is not worth an email, but still counts as this period's digest
+      if (items.length > 0) {
+        const delivered = await emailService.sendDigestEmail(subscriber.user, {
+          username: subscriber.user.username,
+          period: frequency,
+          items,
+          unsubscribeUrl: getUnsubscribeUrl(subscriber.userId, frequency)
+        });
+
+        if (!delivered) {
+          skipped++;
+          continue;
+        }
+        sent++;
+      } else {
+        skipped++;
+      }
+
+      await prisma.userPreferences.update({
+        where: { id: subscriber.id },
+        data: { [lastSentField]: now }
+      });
+    } catch (error) {
+      skipped++;
+      logger.error(`Failed to build ${frequency} digest for user ${subscriber.userId}:`, error);
+    }
+  }
+
+  logger.info(`${frequency} digest run: ${sent} sent, ${skipped} skipped`);
+  return { sent, skipped };
+}
@@ -0,0 +1,207 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sgMail from '@sendgrid/mail';
+import nodemailer from 'nodemailer';
+import { logger } from '../config/logger';
+import {
+  EmailContent,
+  DigestEmailInput,
+  verificationEmail,
+  passwordResetEmail,
+  digestEmail,
+  accountSuspendedEmail,
+  accountDeletionScheduledEmail
+} from './emailTemplates';
+
+export interface EmailMessage extends EmailContent {
+  to: string;
+  from: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export type EmailTransportName = 'sendgrid' | 'smtp' | 'file' | 'console';
+
+class SendGridTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await sgMail.send({
+      to: message.to,
+      from: message.from,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers
+    });
+  }
+}
+
+class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    const port = parseInt(process.env['SMTP_PORT'] || '587', 10);
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env['SMTP_HOST'],
+      port,
+      secure: process.env['SMTP_SECURE'] ? process.env['SMTP_SECURE'] === 'true' : port === 465,
+      auth: process.env['SMTP_USER']
+        ? { user: process.env['SMTP_USER'], pass: process.env['SMTP_PASS'] }
+        : undefined
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      to: message.to,
+      from: message.from,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers
+    });
+  }
+}
+
+// Writes each email to disk so flows can be exercised without a mail provider
+class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const basename = path.join(this.directory, `${Date.now()}-${safeRecipient}`);
+
+    await Promise.all([
+      fs.writeFile(`${basename}.json`, JSON.stringify(message, null, 2)),
+      fs.writeFile(`${basename}.html`, message.html)
+    ]);
+
+    logger.info(`Email "${message.subject}" to ${message.to} written to ${basename}.html`);
+  }
+}
+
+class ConsoleTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<void> {
+    logger.info(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// EMAIL_TRANSPORT wins; otherwise use whichever provider is configured and
+// fall back to logging so local development never needs credentials
+function createTransport(): EmailTransport {
+  const configured = process.env['EMAIL_TRANSPORT'] as EmailTransportName | undefined;
+  const sendGridKey = process.env['SENDGRID_API_KEY'];
+
+  const name: EmailTransportName = configured
+    || (sendGridKey ? 'sendgrid' : process.env['SMTP_HOST'] ? 'smtp' : 'console');
+
+  switch (name) {
+    case 'sendgrid':
+      if (!sendGridKey) {
+        logger.warn('EMAIL_TRANSPORT is sendgrid but SENDGRID_API_KEY is missing - logging emails instead');
+        return new ConsoleTransport();
+      }
+      return new SendGridTransport(sendGridKey);
+    case 'smtp':
+      if (!process.env['SMTP_HOST']) {
+        logger.warn('EMAIL_TRANSPORT is smtp but SMTP_HOST is missing - logging emails instead');
+        return new ConsoleTransport();
+      }
+      return new SmtpTransport();
+    case 'file':
+      return new FileTransport(process.env['EMAIL_FILE_DIR'] || 'tmp/emails');
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      logger.warn(`Unknown EMAIL_TRANSPORT "${name}" - logging emails instead`);
+      return new ConsoleTransport();
+  }
+}
+
+export class EmailService {
+  private transport: EmailTransport | null = null;
+
+  private getTransport(): EmailTransport {
+    if (!this.transport) {
+      this.transport = createTransport();
+      logger.info(`Email transport: ${this.transport.name}`);
+    }
+    return this.transport;
+  }
+
+  // Swap the transport at runtime (e.g. a file transport in local scripts)
+  setTransport(transport: EmailTransport): void {
+    this.transport = transport;
+  }
+
+  // Delivery failures are logged, never thrown: a mail outage must not break
+  // the request that triggered the email
+  async send(to: string, content: EmailContent): Promise<boolean> {
+    const transport = this.getTransport();
+
+    try {
+      await transport.send({
+        ...content,
+        to,
+        from: process.env['EMAIL_FROM'] || 'noreply@hackideas.com'
+      });
+      return true;
+    } catch (error) {
+      logger.error(`Failed to send "${content.subject}" to ${to} via ${transport.name}:`, error);
+      return false;
+    }
+  }
+
+  async sendVerificationEmail(user: { email: string; username: string }, token: string): Promise<boolean> {
+    const verifyUrl = `${getClientUrl()}/auth/verify-email?token=${encodeURIComponent(token)}`;
+    return this.send(user.email, verificationEmail({ username: user.username, verifyUrl }));
+  }
+
+  async sendPasswordResetEmail(
+    user: { email: string; username: string },
+    token: string,
+    expiresInMinutes: number
+  ): Promise<boolean> {
+    const resetUrl = `${getClientUrl()}/auth/reset-password?token=${encodeURIComponent(token)}`;
+    return this.send(user.email, passwordResetEmail({ username: user.username, resetUrl, expiresInMinutes }));
+  }
+
+  async sendDigestEmail(user: { email: string }, input: DigestEmailInput): Promise<boolean> {
+    return this.send(user.email, digestEmail(input));
+  }
+
+  async sendAccountSuspendedEmail(
+    user: { email: string; username: string },
+    reason: string,
+    until: Date | null
+  ): Promise<boolean> {
+    return this.send(user.email, accountSuspendedEmail({ username: user.username, reason, until }));
+  }
+
+  async sendAccountDeletionScheduledEmail(user: { email: string; username: string }, deleteAt: Date): Promise<boolean> {
+    const loginUrl = `${getClientUrl()}/auth/login`;
+    return this.send(user.email, accountDeletionScheduledEmail({ username: user.username, deleteAt, loginUrl }));
+  }
+}
+
+export function getClientUrl(): string {
+  return (process.env['CLIENT_URL'] || 'https://client-indol-theta.vercel.app').replace(/\/$/, '');
+}
+
+export const emailService = new EmailService();
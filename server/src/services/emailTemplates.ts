@@ -0,0 +1,183 @@
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface DigestItem {
+  title: string;
+  message: string;
+  link?: string;
+}
+
+export interface DigestEmailInput {
+  username: string;
+  period: 'daily' | 'weekly';
+  items: DigestItem[];
+  unsubscribeUrl?: string;
+}
+
+const APP_NAME = 'HackIdeas Pro';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function button(label: string, url: string): string {
+  return `<p style="margin:24px 0;">
+    <a href="${escapeHtml(url)}" style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;font-weight:600;display:inline-block;">${escapeHtml(label)}</a>
+  </p>`;
+}
+
+// Shared shell so every email looks the same; `body` is trusted HTML built here
+function layout(title: string, body: string, footer?: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="margin:0;padding:0;background:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#111827;">
+    <div style="max-width:560px;margin:0 auto;padding:32px 16px;">
+      <div style="background:#ffffff;border-radius:8px;padding:32px;">
+        <h1 style="font-size:20px;margin:0 0 16px;">${escapeHtml(title)}</h1>
+        ${body}
+      </div>
+      <p style="font-size:12px;color:#6b7280;text-align:center;margin-top:16px;">
+        ${footer || `You are receiving this email because you have an account on ${APP_NAME}.`}
+      </p>
+    </div>
+  </body>
+</html>`;
+}
+
+export function verificationEmail(input: { username: string; verifyUrl: string }): EmailContent {
+  const subject = `Verify your ${APP_NAME} email`;
+
+  return {
+    subject,
+    html: layout(subject, `
+      <p>Hi ${escapeHtml(input.username)},</p>
+      <p>Thanks for signing up! Please confirm your email address to finish setting up your account.</p>
+      ${button('Verify email', input.verifyUrl)}
+      <p style="font-size:13px;color:#6b7280;">If the button doesn't work, paste this link into your browser:<br />${escapeHtml(input.verifyUrl)}</p>
+    `),
+    text: [
+      `Hi ${input.username},`,
+      '',
+      'Thanks for signing up! Please confirm your email address to finish setting up your account:',
+      input.verifyUrl
+    ].join('\n')
+  };
+}
+
+export function passwordResetEmail(input: { username: string; resetUrl: string; expiresInMinutes: number }): EmailContent {
+  const subject = `Reset your ${APP_NAME} password`;
+
+  return {
+    subject,
+    html: layout(subject, `
+      <p>Hi ${escapeHtml(input.username)},</p>
+      <p>We received a request to reset your password. The link below is valid for ${input.expiresInMinutes} minutes.</p>
+      ${button('Reset password', input.resetUrl)}
+      <p style="font-size:13px;color:#6b7280;">If you didn't request this, you can safely ignore this email.</p>
+    `),
+    text: [
+      `Hi ${input.username},`,
+      '',
+      `We received a request to reset your password. This link is valid for ${input.expiresInMinutes} minutes:`,
+      input.resetUrl,
+      '',
+      "If you didn't request this, you can safely ignore this email."
+    ].join('\n')
+  };
+}
+
+export function accountSuspendedEmail(input: { username: string; reason: string; until: Date | null }): EmailContent {
+  const subject = `Your ${APP_NAME} account has been suspended`;
+  const duration = input.until
+    ? `until ${input.until.toUTCString()}`
+    : 'permanently';
+
+  return {
+    subject,
+    html: layout(subject, `
+      <p>Hi ${escapeHtml(input.username)},</p>
+      <p>A moderator has suspended your account ${escapeHtml(duration)}. You won't be able to sign in during this time.</p>
+      <p><strong>Reason:</strong> ${escapeHtml(input.reason)}</p>
+    `),
+    text: [
+      `Hi ${input.username},`,
+      '',
+      `A moderator has suspended your account ${duration}. You won't be able to sign in during this time.`,
+      '',
+      `Reason: ${input.reason}`
+    ].join('\n')
+  };
+}
+
+export function accountDeletionScheduledEmail(input: { username: string; deleteAt: Date; loginUrl: string }): EmailContent {
+  const subject = `Your ${APP_NAME} account will be deleted`;
+  const date = input.deleteAt.toUTCString();
+
+  return {
+    subject,
+    html: layout(subject, `
+      <p>Hi ${escapeHtml(input.username)},</p>
+      <p>Your account is scheduled for deletion on ${escapeHtml(date)}. Changed your mind? Sign in before then and it will be restored.</p>
+      ${button('Sign in', input.loginUrl)}
+    `),
+    text: [
+      `Hi ${input.username},`,
+      '',
+      `Your account is scheduled for deletion on ${date}. Changed your mind? Sign in before then and it will be restored:`,
+      input.loginUrl
+    ].join('\n')
+  };
+}
+
+export function digestEmail(input: DigestEmailInput): EmailContent {
+  const subject = `Your ${input.period} ${APP_NAME} digest`;
+  const count = input.items.length;
+  const footer = input.unsubscribeUrl
+    ? `Don't want these emails? <a href="${escapeHtml(input.unsubscribeUrl)}" style="color:#6b7280;">Unsubscribe</a>.`
+    : undefined;
+
+  const items = input.items.map(item => `
+      <li style="margin-bottom:12px;">
+        <strong>${escapeHtml(item.title)}</strong><br />
+        ${item.link
+          ? `<a href="${escapeHtml(item.link)}" style="color:#2563eb;">${escapeHtml(item.message)}</a>`
+          : escapeHtml(item.message)}
+      </li>`).join('');
+
+  return {
+    subject,
+    // Lets mail clients offer their own one-click unsubscribe (RFC 8058)
+    headers: input.unsubscribeUrl
+      ? {
+          'List-Unsubscribe': `<${input.unsubscribeUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+        }
+      : undefined,
+    html: layout(subject, `
+      <p>Hi ${escapeHtml(input.username)},</p>
+      <p>Here ${count === 1 ? 'is 1 update' : `are ${count} updates`} since your last digest:</p>
+      <ul style="padding-left:20px;">${items}</ul>
+    `, footer),
+    text: [
+      `Hi ${input.username},`,
+      '',
+      `Here ${count === 1 ? 'is 1 update' : `are ${count} updates`} since your last digest:`,
+      '',
+      ...input.items.map(item => `- ${item.title}: ${item.message}${item.link ? ` (${item.link})` : ''}`),
+      ...(input.unsubscribeUrl ? ['', `Unsubscribe: ${input.unsubscribeUrl}`] : [])
+    ].join('\n')
+  };
+}
@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { logger } from '../config/logger';
+import { AIEmbeddingPurpose, aiService } from './aiProvider';
+import { HASHED_EMBEDDING_DIMENSIONS, hashedEmbedding } from './similarityService';
+
+const LOCAL_MODEL = `local:hashed-${HASHED_EMBEDDING_DIMENSIONS}`;
+
+// Providers cap input length; the title and description come first anyway
+const MAX_INPUT_CHARS = 4000;
+const BATCH_SIZE = 32;
+// Ideas embedded per reindex run, so a model switch doesn't hammer the provider
+const REINDEX_LIMIT = parseInt(process.env['EMBEDDING_REINDEX_LIMIT'] || '500', 10);
+const QUERY_CACHE_SIZE = 200;
+
+interface Embedder {
+  model: string;
+  embed(texts: string[], purpose: AIEmbeddingPurpose): Promise<number[][]>;
+}
+
+// The AI provider when it can embed, unless EMBEDDING_PROVIDER=local; otherwise
+// the local hashed model, which needs no network
+function getEmbedder(): Embedder {
+  const provider = process.env['EMBEDDING_PROVIDER'] === 'local' ? null : aiService.getProvider();
+
+  if (provider?.embed && provider.embeddingModel) {
+    return {
+      model: `${provider.name}:${provider.embeddingModel}`,
+      embed: (texts, purpose) => provider.embed!(texts, purpose)
+    };
+  }
+
+  return {
+    model: LOCAL_MODEL,
+    embed: async texts => texts.map(text => hashedEmbedding(text))
+  };
+}
+
+export function getEmbeddingModel(): string {
+  return getEmbedder().model;
+}
+
+const ideaSelect = {
+  id: true,
+  title: true,
+  description: true,
+  content: true,
+  tags: true,
+  embedding: { select: { model: true, contentHash: true } }
+} satisfies Prisma.IdeaSelect;
+
+type EmbeddableIdea = Prisma.IdeaGetPayload<{ select: typeof ideaSelect }>;
+
+function embeddingInput(idea: EmbeddableIdea): string {
+  return [idea.title, idea.tags.join(', '), idea.description, idea.content]
+    .filter(Boolean)
+    .join('\n\n')
+    .substring(0, MAX_INPUT_CHARS);
+}
+
+// Embeds the ideas whose text or model changed since they were last embedded
+async function embedIdeas(ideas: EmbeddableIdea[]): Promise<number> {
+  const prisma = getDatabase();
+  const embedder = getEmbedder();
+
+  const stale = ideas
+    .map(idea => {
+      const input = embeddingInput(idea);
+      const contentHash = crypto.createHash('sha256').update(input).digest('hex');
+      return { idea, input, contentHash };
+    })
+    .filter(({ idea, contentHash }) =>
+      idea.embedding?.model !== embedder.model || idea.embedding.contentHash !== contentHash
+    );
+
+  for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+    const batch = stale.slice(i, i + BATCH_SIZE);
+    const vectors = await embedder.embed(batch.map(item => item.input), 'document');
+
+    await Promise.all(batch.map(({ idea, contentHash }, index) => {
+      const data = { model: embedder.model, vector: vectors[index], contentHash };
+      return prisma.ideaEmbedding.upsert({
+        where: { ideaId: idea.id },
+        create: { ideaId: idea.id, ...data },
+        update: data
+      });
+    }));
+  }
+
+  return stale.length;
+}
+
+export async function indexIdea(ideaId: string): Promise<void> {
+  const prisma = getDatabase();
+  const idea = await prisma.idea.findUnique({ where: { id: ideaId }, select: ideaSelect });
+  if (idea) {
+    await embedIdeas([idea]);
+  }
+}
+
+// Call after an idea's title, tags, description or content change. Runs in
+// the background; until it finishes search falls back to keyword matching.
+export function scheduleIdeaEmbedding(ideaId: string): void {
+  indexIdea(ideaId).catch(error => logger.warn(`Failed to embed idea ${ideaId}:`, error));
+}
+
+// Embeds ideas that have no embedding yet or one from a different model
+export async function reindexIdeaEmbeddings(): Promise<number> {
+  const prisma = getDatabase();
+  const model = getEmbeddingModel();
+
+  const ideas = await prisma.idea.findMany({
+    where: {
+      OR: [
+        { embedding: { is: null } },
+        { embedding: { is: { model: { not: model } } } }
+      ]
+    },
+    select: ideaSelect,
+    take: REINDEX_LIMIT
+  });
+
+  const embedded = await embedIdeas(ideas);
+  if (embedded > 0) {
+    logger.info(`Embedded ${embedded} ideas with ${model}`);
+  }
+  return embedded;
+}
+
+let reindexing = false;
+
+// Search calls this when it meets ideas it can't score; overlapping calls are dropped
+export function requestReindex(): void {
+  if (reindexing) return;
+
+  reindexing = true;
+  reindexIdeaEmbeddings()
+    .catch(error => logger.warn('Embedding reindex failed:', error))
+    .finally(() => {
+      reindexing = false;
+    });
+}
+
+// Recent search queries, so paging through results doesn't re-embed the query
+const queryCache = new Map<string, number[]>();
+
+export async function embedQuery(text: string): Promise<{ model: string; vector: number[] }> {
+  const embedder = getEmbedder();
+  const key = `${embedder.model}:${text.trim().toLowerCase()}`;
+
+  let vector = queryCache.get(key);
+  if (!vector) {
+    [vector] = await embedder.embed([text], 'query');
+    if (queryCache.size >= QUERY_CACHE_SIZE) {
+      queryCache.delete(queryCache.keys().next().value!);
+    }
+    queryCache.set(key, vector);
+  }
+
+  return { model: embedder.model, vector };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,154 @@
+import { DifficultyLevel, IdeaCategory, Prisma, TimeCommitment } from '@prisma/client';
+import { getDatabase } from '../config/database';
+
+export interface FacetFilters {
+  category?: IdeaCategory;
+  difficulty?: DifficultyLevel;
+  timeCommitment?: TimeCommitment;
+  // An idea matches when it has any of these
+  techStack?: string[];
+  tags?: string[];
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface IdeaFacets {
+  category: FacetBucket[];
+  difficulty: FacetBucket[];
+  timeCommitment: FacetBucket[];
+  techStack: FacetBucket[];
+  tags: FacetBucket[];
+}
+
+type FacetName = keyof IdeaFacets;
+
+// Fields the counts are computed from
+export const FACET_SELECT = {
+  category: true,
+  difficulty: true,
+  timeCommitment: true,
+  techStack: true,
+  aiTechStack: true,
+  tags: true
+} satisfies Prisma.IdeaSelect;
+
+export type FacetableIdea = Prisma.IdeaGetPayload<{ select: typeof FACET_SELECT }>;
+
+// Ideas counted per request; beyond this counts are approximate
+const FACET_SCAN_LIMIT = 5000;
+// Tech and tag values listed, most common first
+const TOP_VALUES = 15;
+
+// Technologies suggested by AI analysis count as the idea's own
+const techOf = (idea: Pick<FacetableIdea, 'techStack' | 'aiTechStack'>) =>
+  [...new Set([...idea.techStack, ...idea.aiTechStack])];
+
+const splitList = (value: unknown) => typeof value === 'string' && value
+  ? value.split(',').map(item => item.trim()).filter(Boolean)
+  : undefined;
+
+// Facet filters from validated query parameters; lists are comma-separated
+export function facetFiltersFromQuery(query: Record<string, unknown>): FacetFilters {
+  return {
+    category: query['category'] as IdeaCategory | undefined,
+    difficulty: query['difficulty'] as DifficultyLevel | undefined,
+    timeCommitment: query['timeCommitment'] as TimeCommitment | undefined,
+    techStack: splitList(query['techStack']),
+    tags: splitList(query['tags'])
+  };
+}
+
+export function facetFiltersWhere(filters: FacetFilters): Prisma.IdeaWhereInput[] {
+  const where: Prisma.IdeaWhereInput[] = [];
+
+  if (filters.category) where.push({ category: filters.category });
+  if (filters.difficulty) where.push({ difficulty: filters.difficulty });
+  if (filters.timeCommitment) where.push({ timeCommitment: filters.timeCommitment });
+  if (filters.techStack?.length) {
+    where.push({
+      OR: [
+        { techStack: { hasSome: filters.techStack } },
+        { aiTechStack: { hasSome: filters.techStack } }
+      ]
+    });
+  }
+  if (filters.tags?.length) where.push({ tags: { hasSome: filters.tags } });
+
+  return where;
+}
+
+// The JS side of facetFiltersWhere; `except` skips one facet's own filter
+export function matchesFacetFilters(idea: FacetableIdea, filters: FacetFilters, except?: FacetName): boolean {
+  if (except !== 'category' && filters.category && idea.category !== filters.category) return false;
+  if (except !== 'difficulty' && filters.difficulty && idea.difficulty !== filters.difficulty) return false;
+  if (except !== 'timeCommitment' && filters.timeCommitment && idea.timeCommitment !== filters.timeCommitment) return false;
+  if (except !== 'techStack' && filters.techStack?.length) {
+    const tech = techOf(idea);
+    if (!filters.techStack.some(value => tech.includes(value))) return false;
+  }
+  if (except !== 'tags' && filters.tags?.length && !filters.tags.some(tag => idea.tags.includes(tag))) return false;
+  return true;
+}
+
+function enumBuckets(values: string[], counts: Map<string, number>): FacetBucket[] {
+  return values.map(value => ({ value, count: counts.get(value) || 0 }));
+}
+
+// Selected values stay listed even when they fall outside the top ones
+function topBuckets(counts: Map<string, number>, selected: string[] = []): FacetBucket[] {
+  const top = [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, TOP_VALUES)
+    .map(([value, count]) => ({ value, count }));
+
+  for (const value of selected) {
+    if (!top.some(bucket => bucket.value === value)) {
+      top.push({ value, count: counts.get(value) || 0 });
+    }
+  }
+  return top;
+}
+
+// Counts per facet value. Each facet is counted with every filter except its
+// own, so picking a category still shows how many ideas the others have.
+export function countFacets(ideas: FacetableIdea[], filters: FacetFilters): IdeaFacets {
+  const counts: Record<FacetName, Map<string, number>> = {
+    category: new Map(),
+    difficulty: new Map(),
+    timeCommitment: new Map(),
+    techStack: new Map(),
+    tags: new Map()
+  };
+  const increment = (facet: FacetName, value: string) => counts[facet].set(value, (counts[facet].get(value) || 0) + 1);
+
+  for (const idea of ideas) {
+    if (matchesFacetFilters(idea, filters, 'category')) increment('category', idea.category);
+    if (matchesFacetFilters(idea, filters, 'difficulty')) increment('difficulty', idea.difficulty);
+    if (matchesFacetFilters(idea, filters, 'timeCommitment')) increment('timeCommitment', idea.timeCommitment);
+    if (matchesFacetFilters(idea, filters, 'techStack')) techOf(idea).forEach(tech => increment('techStack', tech));
+    if (matchesFacetFilters(idea, filters, 'tags')) new Set(idea.tags).forEach(tag => increment('tags', tag));
+  }
+
+  return {
+    category: enumBuckets(Object.values(IdeaCategory), counts.category),
+    difficulty: enumBuckets(Object.values(DifficultyLevel), counts.difficulty),
+    timeCommitment: enumBuckets(Object.values(TimeCommitment), counts.timeCommitment),
+    techStack: topBuckets(counts.techStack, filters.techStack),
+    tags: topBuckets(counts.tags, filters.tags)
+  };
+}
+
+// Facets for ideas matching `where`, which must not include the facet filters themselves
+export async function loadIdeaFacets(where: Prisma.IdeaWhereInput, filters: FacetFilters): Promise<IdeaFacets> {
+  const prisma = getDatabase();
+  const ideas = await prisma.idea.findMany({
+    where,
+    select: FACET_SELECT,
+    orderBy: { createdAt: 'desc' },
+    take: FACET_SCAN_LIMIT
+  });
+  return countFacets(ideas, filters);
+}
@@ -0,0 +1,147 @@
+import { IdeaStatus, VoteType } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { CustomError } from '../middleware/errorHandler';
+import { invalidateSimilarityCorpus } from './similarityService';
+
+export interface MergeSummary {
+  votesMoved: number;
+  commentsMoved: number;
+  bookmarksMoved: number;
+  collectionItemsMoved: number;
+}
+
+// Moving every vote, comment and bookmark of a popular idea takes longer
+// than the default 5s an interactive transaction gets
+const MERGE_TIMEOUT_MS = 30000;
+
+const ideaSelect = {
+  id: true,
+  title: true,
+  authorId: true,
+  status: true,
+  voteScore: true,
+  viewCount: true,
+  commentCount: true,
+  mergedIntoId: true
+};
+
+// Fold a duplicate into the idea it duplicates. Votes, comments, bookmarks and
+// collection entries move to the target unless the same user (or collection)
+// already has one there; the source is archived and points at the target.
+// Collaborators and join requests stay with the source: they belong to its team.
+export async function mergeIdeas(sourceId: string, targetId: string, moderatorId: string): Promise<MergeSummary> {
+  if (sourceId === targetId) {
+    throw new CustomError('An idea cannot be merged into itself', 400);
+  }
+
+  // One transaction, so a failure part way can't leave votes moved but the
+  // source unmerged, and a concurrent merge of the same idea conflicts
+  const prisma = getDatabase();
+  const summary = await prisma.$transaction(async tx => {
+    const [source, target] = await Promise.all([
+      tx.idea.findUnique({ where: { id: sourceId }, select: ideaSelect }),
+      tx.idea.findUnique({ where: { id: targetId }, select: ideaSelect })
+    ]);
+
+    if (!source || !target) {
+      throw new CustomError('Idea not found', 404);
+    }
+    if (source.mergedIntoId) {
+      throw new CustomError('This idea has already been merged', 409);
+    }
+    if (target.mergedIntoId || target.status !== IdeaStatus.PUBLISHED) {
+      throw new CustomError('Ideas can only be merged into a published idea', 400);
+    }
+
+    // Votes: the target's author can't vote on their own idea
+    const [sourceVotes, targetVoters] = await Promise.all([
+      tx.vote.findMany({ where: { ideaId: sourceId }, select: { id: true, userId: true } }),
+      tx.vote.findMany({ where: { ideaId: targetId }, select: { userId: true } })
+    ]);
+    const votersOnTarget = new Set([target.authorId, ...targetVoters.map(vote => vote.userId)]);
+    const movableVotes = sourceVotes.filter(vote => !votersOnTarget.has(vote.userId)).map(vote => vote.id);
+
+    await tx.vote.updateMany({ where: { id: { in: movableVotes } }, data: { ideaId: targetId } });
+    await tx.vote.deleteMany({ where: { ideaId: sourceId } });
+
+    // Bookmarks and collection entries
+    const [sourceBookmarks, targetBookmarkers] = await Promise.all([
+      tx.bookmark.findMany({ where: { ideaId: sourceId }, select: { id: true, userId: true } }),
+      tx.bookmark.findMany({ where: { ideaId: targetId }, select: { userId: true } })
+    ]);
+    const bookmarkedTarget = new Set(targetBookmarkers.map(bookmark => bookmark.userId));
+    const movableBookmarks = sourceBookmarks.filter(bookmark => !bookmarkedTarget.has(bookmark.userId)).map(bookmark => bookmark.id);
+
+    await tx.bookmark.updateMany({ where: { id: { in: movableBookmarks } }, data: { ideaId: targetId } });
+    await tx.bookmark.deleteMany({ where: { ideaId: sourceId } });
+
+    const [sourceItems, targetItems] = await Promise.all([
+      tx.bookmarkCollectionItem.findMany({ where: { ideaId: sourceId }, select: { id: true, collectionId: true } }),
+      tx.bookmarkCollectionItem.findMany({ where: { ideaId: targetId }, select: { collectionId: true } })
+    ]);
+    const collectionsWithTarget = new Set(targetItems.map(item => item.collectionId));
+    const movableItems = sourceItems.filter(item => !collectionsWithTarget.has(item.collectionId)).map(item => item.id);
+
+    await tx.bookmarkCollectionItem.updateMany({ where: { id: { in: movableItems } }, data: { ideaId: targetId } });
+    await tx.bookmarkCollectionItem.deleteMany({ where: { ideaId: sourceId } });
+
+    // Comments keep their threads; replies point at parents that move with them
+    const { count: commentsMoved } = await tx.comment.updateMany({
+      where: { ideaId: sourceId },
+      data: { ideaId: targetId }
+    });
+
+    // Recount the target's score from the votes it now has
+    const [upvotes, downvotes] = await Promise.all([
+      tx.vote.count({ where: { ideaId: targetId, type: VoteType.UP } }),
+      tx.vote.count({ where: { ideaId: targetId, type: VoteType.DOWN } })
+    ]);
+    const targetScore = upvotes - downvotes;
+
+    await tx.idea.update({
+      where: { id: targetId },
+      data: {
+        voteScore: targetScore,
+        viewCount: { increment: source.viewCount },
+        commentCount: { increment: source.commentCount }
+      }
+    });
+
+    await tx.idea.update({
+      where: { id: sourceId },
+      data: {
+        status: IdeaStatus.ARCHIVED,
+        voteScore: 0,
+        commentCount: 0,
+        mergedIntoId: targetId,
+        mergedById: moderatorId,
+        mergedAt: new Date()
+      }
+    });
+
+    // Karma follows the votes: the source's author loses what moved away
+    if (source.voteScore !== 0) {
+      await tx.user.update({
+        where: { id: source.authorId },
+        data: { karmaScore: { decrement: source.voteScore } }
+      });
+    }
+    if (targetScore !== target.voteScore) {
+      await tx.user.update({
+        where: { id: target.authorId },
+        data: { karmaScore: { increment: targetScore - target.voteScore } }
+      });
+    }
+
+    return {
+      votesMoved: movableVotes.length,
+      commentsMoved,
+      bookmarksMoved: movableBookmarks.length,
+      collectionItemsMoved: movableItems.length
+    };
+  }, { timeout: MERGE_TIMEOUT_MS });
+
+  invalidateSimilarityCorpus();
+
+  return summary;
+}
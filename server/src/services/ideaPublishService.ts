@@ -0,0 +1,34 @@
+import { ActivityType, Idea } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { getSocketServer } from '../config/socket';
+import { NotificationActor, notificationService } from './notificationService';
+import { scheduleSavedSearchAlerts } from './savedSearchService';
+import { invalidateSimilarityCorpus } from './similarityService';
+
+// Tell everyone an idea went live: the feed, the author's followers, saved
+// searches, mentioned users and open idea lists. Runs when the owner publishes
+// and when a moderator approves an idea screening held on its way out.
+export async function announcePublishedIdea(
+  idea: Pick<Idea, 'id' | 'title' | 'authorId' | 'mentions'>,
+  publisher: NotificationActor
+): Promise<void> {
+  invalidateSimilarityCorpus();
+
+  await getDatabase().activity.create({
+    data: {
+      type: ActivityType.IDEA_PUBLISHED,
+      userId: publisher.id,
+      ideaId: idea.id
+    }
+  });
+
+  await notificationService.notifyIdeaPublished(idea, publisher);
+  scheduleSavedSearchAlerts(idea.id);
+
+  await notificationService.notifyMentions(idea.mentions, publisher, {
+    ideaId: idea.id,
+    ideaTitle: idea.title
+  });
+
+  getSocketServer()?.emit('idea:new', { idea });
+}
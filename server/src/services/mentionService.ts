@@ -0,0 +1,68 @@
+import { getDatabase } from '../config/database';
+
+export interface ResolvedMention {
+  userId: string;
+  username: string;
+}
+
+// `@name` preceded by start of text or a non-word character, so e-mail
+// addresses like bob@example.com are not picked up
+const MENTION_PATTERN = /(^|[^a-zA-Z0-9_@])@([a-zA-Z0-9_]{3,30})\b/g;
+
+// Upper bound on how many users a single piece of content can ping
+const MAX_MENTIONS = 10;
+
+export function extractMentionUsernames(...texts: (string | undefined | null)[]): string[] {
+  // Keyed by lowercase name: @Alice and @alice are the same mention
+  const usernames = new Map<string, string>();
+
+  for (const text of texts) {
+    if (!text) continue;
+    for (const match of text.matchAll(MENTION_PATTERN)) {
+      const key = match[2].toLowerCase();
+      if (!usernames.has(key)) {
+        usernames.set(key, match[2]);
+      }
+      if (usernames.size >= MAX_MENTIONS) {
+        return [...usernames.values()];
+      }
+    }
+  }
+
+  return [...usernames.values()];
+}
+
+// Resolve @username tokens against existing, active users. Matching ignores
+// case; when usernames differ only in case, the exact spelling wins.
+export async function resolveMentions(...texts: (string | undefined | null)[]): Promise<ResolvedMention[]> {
+  const usernames = extractMentionUsernames(...texts);
+  if (usernames.length === 0) {
+    return [];
+  }
+
+  const prisma = getDatabase();
+  const users = await prisma.user.findMany({
+    where: {
+      OR: usernames.map(username => ({ username: { equals: username, mode: 'insensitive' as const } })),
+      isActive: true
+    },
+    select: { id: true, username: true }
+  });
+
+  const mentions = new Map<string, ResolvedMention>();
+  for (const username of usernames) {
+    const candidates = users.filter(user => user.username.toLowerCase() === username.toLowerCase());
+    const user = candidates.find(candidate => candidate.username === username) || candidates[0];
+    if (user) {
+      mentions.set(user.id, { userId: user.id, username: user.username });
+    }
+  }
+
+  return [...mentions.values()];
+}
+
+// Mentions present in `next` that were not already in `previous`
+export function getAddedMentions(previous: ResolvedMention[], next: ResolvedMention[]): ResolvedMention[] {
+  const previousIds = new Set(previous.map(mention => mention.userId));
+  return next.filter(mention => !previousIds.has(mention.userId));
+}
@@ -0,0 +1,349 @@
+import {
+  AuditAction,
+  IdeaStatus,
+  ModerationAction,
+  Prisma,
+  ReportReason,
+  ReportStatus,
+  ReportTargetType
+} from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { getSocketServer } from '../config/socket';
+import { logger } from '../config/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { recordAudit } from './auditLogService';
+import { notificationService } from './notificationService';
+import { invalidateSimilarityCorpus } from './similarityService';
+
+// Distinct reporters after which content is hidden until a moderator reviews it
+export const AUTO_HIDE_THRESHOLD = parseInt(process.env['REPORT_AUTO_HIDE_THRESHOLD'] || '5', 10);
+
+// Reports listed per queue item; the counts cover all of them
+const REPORTS_PER_ITEM = 10;
+
+interface ModerationTarget {
+  type: ReportTargetType;
+  ideaId: string;
+  ideaTitle: string;
+  commentId?: string;
+  authorId: string;
+  isHidden: boolean;
+}
+
+const AUDIT_ACTIONS: Record<ModerationAction, AuditAction> = {
+  [ModerationAction.DISMISS]: AuditAction.REPORTS_DISMISSED,
+  [ModerationAction.HIDE]: AuditAction.CONTENT_HIDDEN,
+  [ModerationAction.DELETE]: AuditAction.CONTENT_DELETED,
+  [ModerationAction.WARN]: AuditAction.USER_WARNED
+};
+
+// Drafts and archived ideas are private, so there is nothing to report on them
+const isModeratable = (status: IdeaStatus) => status === IdeaStatus.PUBLISHED || status === IdeaStatus.HIDDEN;
+
+// Screening also holds comments on drafts and archived ideas, which only the
+// author and collaborators can see; anyIdeaStatus lets their review load them
+async function loadTarget(type: ReportTargetType, id: string, anyIdeaStatus = false): Promise<ModerationTarget | null> {
+  const prisma = getDatabase();
+
+  if (type === ReportTargetType.IDEA) {
+    const idea = await prisma.idea.findUnique({
+      where: { id },
+      select: { id: true, title: true, authorId: true, status: true }
+    });
+    if (!idea || !isModeratable(idea.status)) return null;
+    return {
+      type,
+      ideaId: idea.id,
+      ideaTitle: idea.title,
+      authorId: idea.authorId,
+      isHidden: idea.status === IdeaStatus.HIDDEN
+    };
+  }
+
+  const comment = await prisma.comment.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      authorId: true,
+      isDeleted: true,
+      hiddenAt: true,
+      idea: { select: { id: true, title: true, status: true } }
+    }
+  });
+  // Deleted comments are gone for good; hidden ones can still be reviewed
+  if (!comment || (comment.isDeleted && !comment.hiddenAt)) return null;
+  if (!anyIdeaStatus && !isModeratable(comment.idea.status)) return null;
+  return {
+    type,
+    ideaId: comment.idea.id,
+    ideaTitle: comment.idea.title,
+    commentId: comment.id,
+    authorId: comment.authorId,
+    isHidden: !!comment.hiddenAt
+  };
+}
+
+const targetReportsWhere = (target: ModerationTarget): Prisma.ReportWhereInput =>
+  target.commentId
+    ? { targetType: ReportTargetType.COMMENT, commentId: target.commentId }
+    : { targetType: ReportTargetType.IDEA, ideaId: target.ideaId };
+
+// Hidden ideas leave every public listing through their status; hidden
+// comments are soft-deleted with hiddenAt set, so their content survives
+async function setHidden(target: ModerationTarget, hidden: boolean): Promise<void> {
+  if (target.isHidden === hidden) return;
+
+  const prisma = getDatabase();
+  const io = getSocketServer();
+
+  if (!target.commentId) {
+    await prisma.idea.update({
+      where: { id: target.ideaId },
+      data: { status: hidden ? IdeaStatus.HIDDEN : IdeaStatus.PUBLISHED }
+    });
+    invalidateSimilarityCorpus();
+    if (hidden) {
+      io?.emit('idea:deleted', { ideaId: target.ideaId, title: target.ideaTitle });
+    }
+  } else {
+    await prisma.comment.update({
+      where: { id: target.commentId },
+      data: hidden ? { isDeleted: true, hiddenAt: new Date() } : { isDeleted: false, hiddenAt: null }
+    });
+    await prisma.idea.update({
+      where: { id: target.ideaId },
+      data: { commentCount: hidden ? { decrement: 1 } : { increment: 1 } }
+    });
+    if (hidden) {
+      io?.broadcastToIdea(target.ideaId, 'comment:deleted', { commentId: target.commentId });
+    }
+  }
+
+  target.isHidden = hidden;
+}
+
+export async function reportContent(params: {
+  type: ReportTargetType;
+  id: string;
+  reporterId: string;
+  reason: ReportReason;
+  details?: string;
+}) {
+  const prisma = getDatabase();
+  const target = await loadTarget(params.type, params.id);
+  const label = params.type === ReportTargetType.IDEA ? 'Idea' : 'Comment';
+
+  // Only what everyone can see can be reported
+  if (!target || target.isHidden) {
+    throw new CustomError(`${label} not found`, 404);
+  }
+  if (target.authorId === params.reporterId) {
+    throw new CustomError('You cannot report your own content', 400);
+  }
+
+  const openWhere = { ...targetReportsWhere(target), status: ReportStatus.OPEN };
+  const existing = await prisma.report.findFirst({
+    where: { ...openWhere, reporterId: params.reporterId },
+    select: { id: true }
+  });
+  if (existing) {
+    throw new CustomError('You have already reported this', 409);
+  }
+
+  const report = await prisma.report.create({
+    data: {
+      targetType: params.type,
+      ideaId: target.ideaId,
+      commentId: target.commentId,
+      reporterId: params.reporterId,
+      reason: params.reason,
+      details: params.details
+    }
+  });
+
+  // One open report per reporter, so this counts distinct people
+  const openReports = await prisma.report.count({ where: openWhere });
+  if (openReports >= AUTO_HIDE_THRESHOLD) {
+    await setHidden(target, true);
+    await recordAudit({
+      action: AuditAction.CONTENT_HIDDEN,
+      targetUserId: target.authorId,
+      data: { targetType: target.type, ideaId: target.ideaId, commentId: target.commentId, reportCount: openReports },
+      reason: `Hidden automatically after ${openReports} reports`
+    });
+    logger.info(`${label} ${params.id} hidden automatically after ${openReports} reports`);
+  }
+
+  return report;
+}
+
+// Act on an idea or comment and resolve its open reports with that action
+export async function moderateContent(params: {
+  type: ReportTargetType;
+  id: string;
+  action: ModerationAction;
+  moderatorId: string;
+  note?: string;
+  anyIdeaStatus?: boolean;
+}) {
+  const prisma = getDatabase();
+  const target = await loadTarget(params.type, params.id, params.anyIdeaStatus);
+  if (!target) {
+    throw new CustomError(params.type === ReportTargetType.IDEA ? 'Idea not found' : 'Comment not found', 404);
+  }
+
+  const openWhere = { ...targetReportsWhere(target), status: ReportStatus.OPEN };
+  const reportCount = await prisma.report.count({ where: openWhere });
+  const wasHidden = target.isHidden;
+
+  // A deleted idea takes its reports with it; the audit entry keeps the count
+  await prisma.report.updateMany({
+    where: openWhere,
+    data: {
+      status: params.action === ModerationAction.DISMISS ? ReportStatus.DISMISSED : ReportStatus.RESOLVED,
+      resolution: params.action,
+      resolvedById: params.moderatorId,
+      resolvedAt: new Date()
+    }
+  });
+
+  const content = { ideaId: target.ideaId, ideaTitle: target.ideaTitle, commentId: target.commentId };
+
+  switch (params.action) {
+    case ModerationAction.DISMISS:
+    case ModerationAction.WARN:
+      await setHidden(target, false);
+      if (params.action === ModerationAction.WARN) {
+        await notificationService.notifyModeration(target.authorId, content, 'WARN', params.note);
+      } else if (wasHidden) {
+        await notificationService.notifyModeration(target.authorId, content, 'RESTORE');
+      }
+      break;
+    case ModerationAction.HIDE:
+      await setHidden(target, true);
+      await notificationService.notifyModeration(target.authorId, content, 'HIDE', params.note);
+      break;
+    case ModerationAction.DELETE:
+      if (target.commentId) {
+        await prisma.comment.update({
+          where: { id: target.commentId },
+          data: { isDeleted: true, hiddenAt: null, content: '[removed by a moderator]' }
+        });
+        if (!wasHidden) {
+          await prisma.idea.update({ where: { id: target.ideaId }, data: { commentCount: { decrement: 1 } } });
+        }
+        getSocketServer()?.broadcastToIdea(target.ideaId, 'comment:deleted', { commentId: target.commentId });
+      } else {
+        await prisma.idea.delete({ where: { id: target.ideaId } });
+        invalidateSimilarityCorpus();
+        getSocketServer()?.emit('idea:deleted', { ideaId: target.ideaId, title: target.ideaTitle });
+      }
+      await notificationService.notifyModeration(target.authorId, content, 'DELETE', params.note);
+      break;
+  }
+
+  await recordAudit({
+    action: AUDIT_ACTIONS[params.action],
+    actorId: params.moderatorId,
+    targetUserId: target.authorId,
+    data: {
+      targetType: target.type,
+      ideaId: target.ideaId,
+      ideaTitle: target.ideaTitle,
+      commentId: target.commentId,
+      reportCount,
+      ...(wasHidden !== target.isHidden && { restored: !target.isHidden })
+    },
+    reason: params.note
+  });
+
+  return { reportCount, isHidden: params.action === ModerationAction.DELETE || target.isHidden };
+}
+
+const userSummary = { select: { id: true, username: true, avatar: true } } as const;
+
+// Reported ideas and comments, one item per target, most reported first
+export async function getModerationQueue(params: {
+  type?: ReportTargetType;
+  status: ReportStatus;
+  offset: number;
+  limit: number;
+}) {
+  const prisma = getDatabase();
+  const where: Prisma.ReportWhereInput = {
+    status: params.status,
+    ...(params.type && { targetType: params.type })
+  };
+
+  const groups = await prisma.report.groupBy({
+    by: ['targetType', 'ideaId', 'commentId'],
+    where,
+    _count: { _all: true },
+    _max: { createdAt: true }
+  });
+
+  groups.sort((a, b) =>
+    b._count._all - a._count._all
+    || (b._max.createdAt?.getTime() ?? 0) - (a._max.createdAt?.getTime() ?? 0)
+  );
+  const page = groups.slice(params.offset, params.offset + params.limit);
+
+  const ideaIds = [...new Set(page.map(group => group.ideaId))];
+  const commentIds = page.flatMap(group => group.commentId ? [group.commentId] : []);
+
+  const [ideas, comments, reports] = await Promise.all([
+    prisma.idea.findMany({
+      where: { id: { in: ideaIds } },
+      select: { id: true, title: true, description: true, status: true, createdAt: true, author: userSummary }
+    }),
+    prisma.comment.findMany({
+      where: { id: { in: commentIds } },
+      select: { id: true, content: true, isDeleted: true, hiddenAt: true, createdAt: true, author: userSummary }
+    }),
+    prisma.report.findMany({
+      where: { ...where, ideaId: { in: ideaIds } },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        targetType: true,
+        commentId: true,
+        ideaId: true,
+        reason: true,
+        details: true,
+        createdAt: true,
+        reporter: userSummary
+      }
+    })
+  ]);
+
+  const ideasById = new Map(ideas.map(idea => [idea.id, idea]));
+  const commentsById = new Map(comments.map(comment => [comment.id, comment]));
+
+  const items = page.map(group => {
+    const targetReports = reports.filter(report =>
+      report.targetType === group.targetType && report.ideaId === group.ideaId && report.commentId === group.commentId
+    );
+    const reasons = new Map<ReportReason, number>();
+    targetReports.forEach(report => reasons.set(report.reason, (reasons.get(report.reason) || 0) + 1));
+
+    const idea = ideasById.get(group.ideaId) || null;
+    const comment = group.commentId ? commentsById.get(group.commentId) || null : null;
+
+    return {
+      targetType: group.targetType,
+      ideaId: group.ideaId,
+      commentId: group.commentId,
+      reportCount: group._count._all,
+      latestReportAt: group._max.createdAt,
+      reasons: [...reasons.entries()]
+        .map(([reason, count]) => ({ reason, count }))
+        .sort((a, b) => b.count - a.count),
+      reports: targetReports.slice(0, REPORTS_PER_ITEM),
+      idea,
+      comment,
+      isHidden: comment ? !!comment.hiddenAt : idea?.status === IdeaStatus.HIDDEN
+    };
+  });
+
+  return { items, total: groups.length };
+}
@@ -0,0 +1,465 @@
+import { Notification, NotificationType, Prisma } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { cacheService } from '../config/redis';
+import { getSocketServer } from '../config/socket';
+import { logger } from '../config/logger';
+
+export interface NotificationActor {
+  id: string;
+  username: string;
+}
+
+export interface CreateNotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, any>;
+  groupKey?: string;
+}
+
+export interface NotifyInput {
+  recipientId: string;
+  actor: NotificationActor;
+  type: NotificationType;
+  title: string;
+  // Builds the message from the (possibly collapsed) actor list, e.g. "alice and 11 others"
+  describe: (actors: string) => string;
+  data?: Record<string, any>;
+  groupKey?: string;
+}
+
+// Number of actor names kept on a collapsed notification
+const MAX_STORED_ACTORS = 5;
+// Most recent actor (or matched idea) ids kept for spotting repeats; the count
+// keeps going past it
+const MAX_TRACKED_IDS = 100;
+const GROUP_LOCK_TTL_MS = 5000;
+
+export function formatActors(actors: NotificationActor[], total: number): string {
+  const [first, second] = actors;
+  if (!first) return 'Someone';
+  if (total <= 1) return first.username;
+  if (total === 2 && second) return `${first.username} and ${second.username}`;
+  const others = total - 1;
+  return `${first.username} and ${others} ${others === 1 ? 'other' : 'others'}`;
+}
+
+export class NotificationService {
+  // Persist a notification as-is and push it to the recipient's socket room
+  async create(input: CreateNotificationInput): Promise<Notification | null> {
+    try {
+      const prisma = getDatabase();
+      const notification = await prisma.notification.create({
+        data: {
+          userId: input.userId,
+          type: input.type,
+          title: input.title,
+          message: input.message,
+          data: input.data as Prisma.InputJsonValue,
+          groupKey: input.groupKey
+        }
+      });
+
+      this.push(notification);
+      return notification;
+    } catch (error) {
+      logger.error(`Failed to create ${input.type} notification for user ${input.userId}:`, error);
+      return null;
+    }
+  }
+
+  // Notify a user about something another user did. Repeated actions sharing a
+  // group key fold into the existing unread notification instead of a new one.
+  async notify(input: NotifyInput): Promise<Notification | null> {
+    if (input.recipientId === input.actor.id) {
+      return null;
+    }
+
+    try {
+      // Folding reads and then writes the notification, so concurrent actions
+      // on one group (a burst of votes) take turns
+      return input.groupKey
+        ? await cacheService.withLock(
+            `notification-group:${input.recipientId}:${input.groupKey}`,
+            GROUP_LOCK_TTL_MS,
+            () => this.fold(input)
+          )
+        : await this.fold(input);
+    } catch (error) {
+      logger.error(`Failed to notify user ${input.recipientId} (${input.type}):`, error);
+      return null;
+    }
+  }
+
+  // Create the notification, or fold the actor into the unread one for its group
+  private async fold(input: NotifyInput): Promise<Notification | null> {
+    const actor = { id: input.actor.id, username: input.actor.username };
+    const prisma = getDatabase();
+    const existing = input.groupKey
+      ? await prisma.notification.findFirst({
+          where: {
+            userId: input.recipientId,
+            groupKey: input.groupKey,
+            isRead: false
+          },
+          orderBy: { createdAt: 'desc' }
+        })
+      : null;
+
+    if (!existing) {
+      return this.create({
+        userId: input.recipientId,
+        type: input.type,
+        title: input.title,
+        message: input.describe(formatActors([actor], 1)),
+        data: { ...input.data, actors: [actor], actorIds: [actor.id], actorCount: 1 },
+        groupKey: input.groupKey
+      });
+    }
+
+    const previous = (existing.data as Record<string, any> | null) || {};
+    const actorIds: string[] = previous.actorIds || [];
+
+    // Same person repeating the action (e.g. toggling a vote) is not news
+    if (actorIds.includes(actor.id)) {
+      return existing;
+    }
+
+    const previousActors: NotificationActor[] = previous.actors || [];
+    const actors = [actor, ...previousActors].slice(0, MAX_STORED_ACTORS);
+    const actorCount = (previous.actorCount ?? actorIds.length) + 1;
+
+    const data: Record<string, any> = {
+      ...previous,
+      ...input.data,
+      actors,
+      actorIds: [...actorIds, actor.id].slice(-MAX_TRACKED_IDS),
+      actorCount
+    };
+
+    const notification = await prisma.notification.update({
+      where: { id: existing.id },
+      data: {
+        title: input.title,
+        message: input.describe(formatActors(actors, actorCount)),
+        data: data as Prisma.InputJsonValue,
+        createdAt: new Date()
+      }
+    });
+
+    this.push(notification);
+    return notification;
+  }
+
+  async notifyIdeaVote(idea: { id: string; title: string; authorId: string }, actor: NotificationActor) {
+    return this.notify({
+      recipientId: idea.authorId,
+      actor,
+      type: NotificationType.VOTE,
+      title: 'New upvote',
+      describe: (actors) => `${actors} upvoted your idea "${idea.title}"`,
+      data: { ideaId: idea.id },
+      groupKey: `idea-vote:${idea.id}`
+    });
+  }
+
+  async notifyCommentVote(
+    comment: { id: string; ideaId: string; authorId: string },
+    actor: NotificationActor
+  ) {
+    return this.notify({
+      recipientId: comment.authorId,
+      actor,
+      type: NotificationType.VOTE,
+      title: 'New upvote',
+      describe: (actors) => `${actors} upvoted your comment`,
+      data: { ideaId: comment.ideaId, commentId: comment.id },
+      groupKey: `comment-vote:${comment.id}`
+    });
+  }
+
+  async notifyComment(
+    idea: { id: string; title: string; authorId: string },
+    comment: { id: string },
+    actor: NotificationActor
+  ) {
+    return this.notify({
+      recipientId: idea.authorId,
+      actor,
+      type: NotificationType.COMMENT,
+      title: 'New comment',
+      describe: (actors) => `${actors} commented on your idea "${idea.title}"`,
+      data: { ideaId: idea.id, commentId: comment.id },
+      groupKey: `idea-comment:${idea.id}`
+    });
+  }
+
+  async notifyReply(
+    parent: { id: string; ideaId: string; authorId: string },
+    reply: { id: string },
+    actor: NotificationActor
+  ) {
+    return this.notify({
+      recipientId: parent.authorId,
+      actor,
+      type: NotificationType.COMMENT,
+      title: 'New reply',
+      describe: (actors) => `${actors} replied to your comment`,
+      data: { ideaId: parent.ideaId, commentId: reply.id, parentCommentId: parent.id },
+      groupKey: `comment-reply:${parent.id}`
+    });
+  }
+
+  async notifyIdeaPublished(
+    idea: { id: string; title: string; authorId: string },
+    author: NotificationActor
+  ) {
+    const notification = await this.create({
+      userId: idea.authorId,
+      type: NotificationType.IDEA_PUBLISHED,
+      title: 'Idea published',
+      message: `Your idea "${idea.title}" is now live`,
+      data: { ideaId: idea.id }
+    });
+
+    try {
+      const prisma = getDatabase();
+      const followers = await prisma.follow.findMany({
+        where: { followingId: idea.authorId },
+        select: { followerId: true }
+      });
+
+      await Promise.all(followers.map(({ followerId }) => this.create({
+        userId: followerId,
+        type: NotificationType.IDEA_PUBLISHED,
+        title: 'New idea from someone you follow',
+        message: `${author.username} published "${idea.title}"`,
+        data: { ideaId: idea.id, actors: [{ id: author.id, username: author.username }] }
+      })));
+    } catch (error) {
+      logger.error(`Failed to notify followers about idea ${idea.id}:`, error);
+    }
+
+    return notification;
+  }
+
+  async notifyFollow(followedUserId: string, actor: NotificationActor) {
+    return this.notify({
+      recipientId: followedUserId,
+      actor,
+      type: NotificationType.FOLLOW,
+      title: 'New follower',
+      describe: (actors) => `${actors} started following you`,
+      data: { username: actor.username },
+      groupKey: `follow:${followedUserId}`
+    });
+  }
+
+  // Tell each mentioned user where they were mentioned. Comment mentions deep
+  // link to the comment anchor on the idea page.
+  async notifyMentions(
+    mentions: { userId: string }[],
+    actor: NotificationActor,
+    target: { ideaId: string; ideaTitle: string; commentId?: string }
+  ) {
+    const link = target.commentId
+      ? `/ideas/${target.ideaId}#comment-${target.commentId}`
+      : `/ideas/${target.ideaId}`;
+
+    return Promise.all(mentions.map(mention => this.notify({
+      recipientId: mention.userId,
+      actor,
+      type: NotificationType.MENTION,
+      title: 'You were mentioned',
+      describe: (actors) => target.commentId
+        ? `${actors} mentioned you in a comment on "${target.ideaTitle}"`
+        : `${actors} mentioned you in the idea "${target.ideaTitle}"`,
+      data: { ideaId: target.ideaId, commentId: target.commentId, link }
+    })));
+  }
+
+  async notifyCollaborationInvite(
+    invitation: { inviteToken: string; userId: string; role: string },
+    idea: { id: string; title: string },
+    actor: NotificationActor
+  ) {
+    return this.notify({
+      recipientId: invitation.userId,
+      actor,
+      type: NotificationType.COLLABORATION_INVITE,
+      title: 'Collaboration invitation',
+      describe: (actors) => `${actors} invited you to collaborate on "${idea.title}" as ${invitation.role.toLowerCase()}`,
+      data: {
+        ideaId: idea.id,
+        invitationToken: invitation.inviteToken,
+        link: `/invitations/${invitation.inviteToken}`
+      }
+    });
+  }
+
+  async notifyCollaborationResponse(
+    invitation: { invitedById: string; accepted: boolean },
+    idea: { id: string; title: string },
+    actor: NotificationActor
+  ) {
+    return this.notify({
+      recipientId: invitation.invitedById,
+      actor,
+      type: NotificationType.COLLABORATION_RESPONSE,
+      title: invitation.accepted ? 'Invitation accepted' : 'Invitation declined',
+      describe: (actors) => invitation.accepted
+        ? `${actors} joined "${idea.title}" as a collaborator`
+        : `${actors} declined to collaborate on "${idea.title}"`,
+      data: { ideaId: idea.id, accepted: invitation.accepted }
+    });
+  }
+
+  async notifyJoinRequest(
+    idea: { id: string; title: string; authorId: string },
+    request: { id: string; roleTitle?: string },
+    actor: NotificationActor
+  ) {
+    return this.notify({
+      recipientId: idea.authorId,
+      actor,
+      type: NotificationType.JOIN_REQUEST,
+      title: 'New join request',
+      describe: (actors) => request.roleTitle
+        ? `${actors} wants to join "${idea.title}" as ${request.roleTitle}`
+        : `${actors} wants to join "${idea.title}"`,
+      data: { ideaId: idea.id, joinRequestId: request.id, link: `/ideas/${idea.id}#team` },
+      groupKey: `join-request:${idea.id}`
+    });
+  }
+
+  async notifyJoinRequestResponse(
+    request: { userId: string; approved: boolean },
+    idea: { id: string; title: string },
+    actor: NotificationActor
+  ) {
+    return this.notify({
+      recipientId: request.userId,
+      actor,
+      type: NotificationType.JOIN_REQUEST_RESPONSE,
+      title: request.approved ? 'Join request approved' : 'Join request declined',
+      describe: (actors) => request.approved
+        ? `${actors} approved your request to join "${idea.title}"`
+        : `${actors} declined your request to join "${idea.title}"`,
+      data: { ideaId: idea.id, approved: request.approved }
+    });
+  }
+
+  async notifyIdeaMerged(
+    source: { id: string; title: string; authorId: string },
+    target: { id: string; title: string },
+    moderator: NotificationActor
+  ) {
+    return this.notify({
+      recipientId: source.authorId,
+      actor: moderator,
+      type: NotificationType.SYSTEM,
+      title: 'Idea merged',
+      describe: () => `Your idea "${source.title}" was merged into "${target.title}", where its votes and comments now live`,
+      data: { ideaId: target.id, mergedIdeaId: source.id }
+    });
+  }
+
+  // Tell an author what moderation did to their idea or comment. Moderators
+  // stay anonymous, so this isn't an actor notification.
+  async notifyModeration(
+    authorId: string,
+    target: { ideaId: string; ideaTitle: string; commentId?: string },
+    action: 'HIDE' | 'DELETE' | 'WARN' | 'RESTORE',
+    note?: string
+  ) {
+    const what = target.commentId ? `Your comment on "${target.ideaTitle}"` : `Your idea "${target.ideaTitle}"`;
+    const messages = {
+      HIDE: { title: 'Content hidden', message: `${what} was hidden by moderators for breaking the community guidelines` },
+      DELETE: { title: 'Content removed', message: `${what} was removed by moderators for breaking the community guidelines` },
+      WARN: { title: 'Warning from moderators', message: `${what} was reported and reviewed. Please follow the community guidelines` },
+      RESTORE: { title: 'Content restored', message: `${what} was reviewed and is visible again` }
+    };
+
+    return this.create({
+      userId: authorId,
+      type: NotificationType.SYSTEM,
+      title: messages[action].title,
+      message: note ? `${messages[action].message}: ${note}` : messages[action].message,
+      data: {
+        // A deleted idea has no page to link to
+        ...(!(action === 'DELETE' && !target.commentId) && { ideaId: target.ideaId }),
+        commentId: target.commentId,
+        moderation: action
+      }
+    });
+  }
+
+  // New ideas for a saved search fold into its unread notification, which then
+  // links to the search instead of a single idea
+  async notifySavedSearchMatch(
+    search: { id: string; userId: string; name: string },
+    idea: { id: string; title: string }
+  ): Promise<Notification | null> {
+    const groupKey = `saved-search:${search.id}`;
+
+    try {
+      return await cacheService.withLock(`notification-group:${search.userId}:${groupKey}`, GROUP_LOCK_TTL_MS, async () => {
+        const prisma = getDatabase();
+        const existing = await prisma.notification.findFirst({
+          where: { userId: search.userId, groupKey, isRead: false },
+          orderBy: { createdAt: 'desc' }
+        });
+
+        if (!existing) {
+          return this.create({
+            userId: search.userId,
+            type: NotificationType.SAVED_SEARCH_MATCH,
+            title: `New match for "${search.name}"`,
+            message: `"${idea.title}" matches your saved search "${search.name}"`,
+            data: { ideaId: idea.id, savedSearchId: search.id, ideaIds: [idea.id], matchCount: 1 },
+            groupKey
+          });
+        }
+
+        const previous = (existing.data as Record<string, any> | null) || {};
+        const ideaIds: string[] = previous.ideaIds || [];
+        if (ideaIds.includes(idea.id)) {
+          return existing;
+        }
+
+        const matchCount = (previous.matchCount ?? ideaIds.length) + 1;
+        const notification = await prisma.notification.update({
+          where: { id: existing.id },
+          data: {
+            title: `${matchCount} new matches for "${search.name}"`,
+            message: `"${idea.title}" and ${matchCount - 1} more ${matchCount === 2 ? 'idea matches' : 'ideas match'} your saved search "${search.name}"`,
+            data: {
+              ...previous,
+              ideaId: idea.id,
+              ideaIds: [...ideaIds, idea.id].slice(-MAX_TRACKED_IDS),
+              matchCount,
+              link: `/search?saved=${search.id}`
+            },
+            createdAt: new Date()
+          }
+        });
+
+        this.push(notification);
+        return notification;
+      });
+    } catch (error) {
+      logger.error(`Failed to notify user ${search.userId} about saved search ${search.id}:`, error);
+      return null;
+    }
+  }
+
+  private push(notification: Notification): void {
+    const io = getSocketServer();
+    if (io) {
+      io.sendNotification(notification.userId, notification);
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
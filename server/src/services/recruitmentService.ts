@@ -0,0 +1,82 @@
+import { OpenRole } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface OpenRoleInput {
+  id?: string;
+  title: string;
+  skills?: string[];
+  filled?: boolean;
+}
+
+export interface SkillMatch {
+  roleId: string | null;
+  matchedSkills: string[];
+  // Share of the role's skills the user has, 0-1
+  score: number;
+}
+
+const normalizeSkill = (skill: string) => skill.trim().toLowerCase();
+
+// Keep ids of roles that already exist so join requests keep pointing at them
+export function normalizeOpenRoles(input: OpenRoleInput[], existing: OpenRole[]): OpenRole[] {
+  const existingIds = new Set(existing.map(role => role.id));
+
+  return input.map(role => {
+    const seen = new Set<string>();
+    const skills = (role.skills || [])
+      .map(skill => skill.trim())
+      .filter(skill => {
+        const key = normalizeSkill(skill);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    return {
+      id: role.id && existingIds.has(role.id) ? role.id : uuidv4(),
+      title: role.title.trim(),
+      skills,
+      filled: !!role.filled
+    };
+  });
+}
+
+// Case-insensitive overlap between a user's skills and a role's required skills
+export function matchSkills(userSkills: string[], required: string[]): { matchedSkills: string[]; score: number } {
+  if (required.length === 0) {
+    return { matchedSkills: [], score: 0 };
+  }
+
+  const owned = new Set(userSkills.map(normalizeSkill));
+  const matchedSkills = required.filter(skill => owned.has(normalizeSkill(skill)));
+
+  return {
+    matchedSkills,
+    score: Math.round((matchedSkills.length / required.length) * 100) / 100
+  };
+}
+
+// How well a user fits a specific role, or the best open role when none is given
+export function matchUserToRoles(userSkills: string[], roles: OpenRole[], roleId?: string | null): SkillMatch | null {
+  const candidates = roleId
+    ? roles.filter(role => role.id === roleId)
+    : roles.filter(role => !role.filled);
+
+  let best: SkillMatch | null = null;
+  for (const role of candidates) {
+    const match = matchSkills(userSkills, role.skills);
+    if (!best || match.score > best.score) {
+      best = { roleId: role.id, ...match };
+    }
+  }
+
+  return best;
+}
+
+// Open roles annotated with which of the viewer's skills they ask for
+export function annotateOpenRoles(roles: OpenRole[], userSkills?: string[]) {
+  return roles.map(role => ({
+    ...role,
+    ...(userSkills ? matchSkills(userSkills, role.skills) : {})
+  }));
+}
@@ -0,0 +1,130 @@
+import { IdeaCategory, IdeaRevision, Prisma } from '@prisma/client';
+import { getDatabase } from '../config/database';
+
+export const REVISION_FIELDS = ['title', 'description', 'content', 'category', 'tags', 'techStack'] as const;
+
+export type RevisionField = typeof REVISION_FIELDS[number];
+
+export interface IdeaSnapshot {
+  title: string;
+  description: string;
+  content: string;
+  category: IdeaCategory;
+  tags: string[];
+  techStack: string[];
+}
+
+export interface FieldChange {
+  field: RevisionField;
+  before: string | string[] | null;
+  after: string | string[];
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => value === b[index]);
+  }
+  return a === b;
+}
+
+export function toSnapshot(source: IdeaSnapshot): IdeaSnapshot {
+  return {
+    title: source.title,
+    description: source.description,
+    content: source.content,
+    category: source.category,
+    tags: [...(source.tags || [])],
+    techStack: [...(source.techStack || [])]
+  };
+}
+
+export function getChangedFields(previous: IdeaSnapshot | null, next: IdeaSnapshot): RevisionField[] {
+  if (!previous) return [...REVISION_FIELDS];
+  return REVISION_FIELDS.filter(field => !isSameValue(previous[field], next[field]));
+}
+
+export function diffSnapshots(previous: IdeaSnapshot | null, next: IdeaSnapshot): FieldChange[] {
+  return getChangedFields(previous, next).map(field => ({
+    field,
+    before: previous ? previous[field] : null,
+    after: next[field]
+  }));
+}
+
+function describeChanges(fields: RevisionField[]): string {
+  if (fields.length === 0) return 'No changes';
+  const labels = fields.map(field => (field === 'techStack' ? 'tech stack' : field));
+  return `Updated ${labels.join(', ')}`;
+}
+
+interface RecordRevisionInput {
+  ideaId: string;
+  editorId: string;
+  snapshot: IdeaSnapshot;
+  summary?: string;
+  restoredFromId?: string;
+  // Editable state before this change; used to seed history for ideas that
+  // predate revision tracking
+  previous?: { snapshot: IdeaSnapshot; authorId: string; createdAt: Date };
+}
+
+// Concurrent edits can read the same latest revision and pick the same
+// number; the loser hits @@unique([ideaId, revision]) and tries again
+const MAX_REVISION_ATTEMPTS = 5;
+
+const isRevisionNumberTaken = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Store a snapshot of the idea if any tracked field changed. Returns null when
+// the update didn't touch tracked fields (e.g. status-only changes).
+export async function recordRevision(input: RecordRevisionInput): Promise<IdeaRevision | null> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await createNextRevision(input);
+    } catch (error) {
+      if (!isRevisionNumberTaken(error) || attempt >= MAX_REVISION_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+async function createNextRevision(input: RecordRevisionInput): Promise<IdeaRevision | null> {
+  const prisma = getDatabase();
+
+  let latest = await prisma.ideaRevision.findFirst({
+    where: { ideaId: input.ideaId },
+    orderBy: { revision: 'desc' }
+  });
+
+  if (!latest && input.previous) {
+    latest = await prisma.ideaRevision.create({
+      data: {
+        ideaId: input.ideaId,
+        editorId: input.previous.authorId,
+        revision: 1,
+        ...toSnapshot(input.previous.snapshot),
+        changedFields: [...REVISION_FIELDS],
+        summary: 'Original version',
+        createdAt: input.previous.createdAt
+      }
+    });
+  }
+
+  const changedFields = getChangedFields(latest, input.snapshot);
+  if (latest && changedFields.length === 0) {
+    return null;
+  }
+
+  return prisma.ideaRevision.create({
+    data: {
+      ideaId: input.ideaId,
+      editorId: input.editorId,
+      revision: (latest?.revision || 0) + 1,
+      ...toSnapshot(input.snapshot),
+      changedFields,
+      summary: input.summary || (latest ? describeChanges(changedFields) : 'Original version'),
+      restoredFromId: input.restoredFromId
+    }
+  });
+}
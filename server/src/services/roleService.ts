@@ -0,0 +1,84 @@
+import { AuditAction, UserRole } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { logger } from '../config/logger';
+import { CustomError } from '../middleware/errorHandler';
+import { recordAudit } from './auditLogService';
+
+const roleUserSelect = {
+  id: true,
+  username: true,
+  email: true,
+  avatar: true,
+  role: true
+} as const;
+
+// Change a user's role on an admin's behalf. Admins can't change their own
+// role, so the last admin can never demote themselves out of the system.
+export async function changeUserRole(params: {
+  targetUserId: string;
+  role: UserRole;
+  actorId: string;
+  reason?: string;
+}) {
+  const prisma = getDatabase();
+
+  if (params.targetUserId === params.actorId) {
+    throw new CustomError('You cannot change your own role', 400);
+  }
+
+  const target = await prisma.user.findUnique({
+    where: { id: params.targetUserId },
+    select: roleUserSelect
+  });
+  if (!target) {
+    throw new CustomError('User not found', 404);
+  }
+
+  if (target.role === params.role) {
+    return { user: target, changed: false };
+  }
+
+  const user = await prisma.user.update({
+    where: { id: target.id },
+    data: { role: params.role },
+    select: roleUserSelect
+  });
+
+  await recordAudit({
+    action: AuditAction.ROLE_CHANGED,
+    actorId: params.actorId,
+    targetUserId: target.id,
+    data: { from: target.role, to: params.role },
+    reason: params.reason
+  });
+
+  logger.info(`Role of ${target.username} changed from ${target.role} to ${params.role} by ${params.actorId}`);
+  return { user, changed: true };
+}
+
+// Promotes the users listed in ADMIN_EMAILS, so a fresh deployment has
+// someone who can assign roles. Runs at startup; already-admins are skipped.
+export async function bootstrapAdmins(): Promise<void> {
+  const emails = (process.env['ADMIN_EMAILS'] || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (emails.length === 0) return;
+
+  const prisma = getDatabase();
+  const users = await prisma.user.findMany({
+    where: { email: { in: emails }, role: { not: UserRole.ADMIN } },
+    select: roleUserSelect
+  });
+
+  for (const user of users) {
+    await prisma.user.update({ where: { id: user.id }, data: { role: UserRole.ADMIN } });
+    await recordAudit({
+      action: AuditAction.ROLE_CHANGED,
+      targetUserId: user.id,
+      data: { from: user.role, to: UserRole.ADMIN },
+      reason: 'Listed in ADMIN_EMAILS'
+    });
+    logger.info(`Promoted ${user.username} to ADMIN from ADMIN_EMAILS`);
+  }
+}
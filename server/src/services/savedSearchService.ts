@@ -0,0 +1,130 @@
+import { Prisma, SavedSearch, SavedSearchAlert } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { logger } from '../config/logger';
+import { PUBLIC_IDEA_WHERE } from '../policies/ideaVisibility';
+import { DigestItem } from './emailTemplates';
+import { FACET_SELECT, FacetFilters, matchesFacetFilters } from './facetService';
+import { notificationService } from './notificationService';
+import { matchesSearchQuery, parseSearchQuery } from './searchService';
+
+export const MAX_SAVED_SEARCHES = parseInt(process.env['MAX_SAVED_SEARCHES'] || '20', 10);
+
+// Ideas listed per saved search in one digest
+const DIGEST_IDEAS_PER_SEARCH = 5;
+// Ideas published since the last digest that are checked against saved searches
+const DIGEST_SCAN_LIMIT = 500;
+
+const matchableSelect = {
+  ...FACET_SELECT,
+  id: true,
+  title: true,
+  description: true,
+  content: true,
+  authorId: true
+} satisfies Prisma.IdeaSelect;
+
+type MatchableIdea = Prisma.IdeaGetPayload<{ select: typeof matchableSelect }>;
+
+export function savedSearchFilters(search: SavedSearch): FacetFilters {
+  return {
+    category: search.category ?? undefined,
+    difficulty: search.difficulty ?? undefined,
+    timeCommitment: search.timeCommitment ?? undefined,
+    techStack: search.techStack.length > 0 ? search.techStack : undefined,
+    tags: search.tags.length > 0 ? search.tags : undefined
+  };
+}
+
+// Alerts use keyword matching whatever the search's mode: a new idea has no
+// embedding yet, and "similar in meaning" is too loose to notify about
+export function matchesSavedSearch(idea: MatchableIdea, search: SavedSearch): boolean {
+  return idea.authorId !== search.userId
+    && matchesFacetFilters(idea, savedSearchFilters(search))
+    && matchesSearchQuery(idea, parseSearchQuery(search.query));
+}
+
+// Where the client re-runs a saved search
+const savedSearchPath = (search: Pick<SavedSearch, 'id'>) => `/search?saved=${search.id}`;
+
+// Notifies everyone with instant alerts whose saved search the idea matches.
+// A user gets one notification per idea, however many of their searches match.
+export async function notifySavedSearchMatches(ideaId: string): Promise<number> {
+  const prisma = getDatabase();
+  const idea = await prisma.idea.findFirst({
+    where: { id: ideaId, ...PUBLIC_IDEA_WHERE },
+    select: matchableSelect
+  });
+  if (!idea) return 0;
+
+  const searches = await prisma.savedSearch.findMany({
+    where: {
+      alerts: SavedSearchAlert.INSTANT,
+      userId: { not: idea.authorId },
+      user: { is: { isActive: true } }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const notified = new Set<string>();
+  for (const search of searches) {
+    if (notified.has(search.userId) || !matchesSavedSearch(idea, search)) continue;
+
+    notified.add(search.userId);
+    await notificationService.notifySavedSearchMatch(search, idea);
+    await prisma.savedSearch.update({
+      where: { id: search.id },
+      data: { lastMatchedAt: new Date() }
+    });
+  }
+
+  return notified.size;
+}
+
+// Call when an idea is published; matching runs in the background
+export function scheduleSavedSearchAlerts(ideaId: string): void {
+  notifySavedSearchMatches(ideaId).catch(error =>
+    logger.warn(`Failed to match idea ${ideaId} against saved searches:`, error)
+  );
+}
+
+// One digest entry per saved search with digest alerts that new ideas matched
+export async function buildSavedSearchDigestItems(userId: string, since: Date, clientUrl: string): Promise<DigestItem[]> {
+  const prisma = getDatabase();
+  const searches = await prisma.savedSearch.findMany({
+    where: { userId, alerts: SavedSearchAlert.DIGEST },
+    orderBy: { createdAt: 'asc' }
+  });
+  if (searches.length === 0) return [];
+
+  const ideas = await prisma.idea.findMany({
+    where: { ...PUBLIC_IDEA_WHERE, publishedAt: { gt: since } },
+    select: matchableSelect,
+    orderBy: { publishedAt: 'desc' },
+    take: DIGEST_SCAN_LIMIT
+  });
+
+  const items: DigestItem[] = [];
+  const matched: string[] = [];
+  for (const search of searches) {
+    const matches = ideas.filter(idea => matchesSavedSearch(idea, search));
+    if (matches.length === 0) continue;
+
+    matched.push(search.id);
+    const titles = matches.slice(0, DIGEST_IDEAS_PER_SEARCH).map(idea => `"${idea.title}"`).join(', ');
+    const more = matches.length - DIGEST_IDEAS_PER_SEARCH;
+    items.push({
+      title: `${matches.length} new ${matches.length === 1 ? 'idea' : 'ideas'} for "${search.name}"`,
+      message: more > 0 ? `${titles} and ${more} more` : titles,
+      link: matches.length === 1 ? `${clientUrl}/ideas/${matches[0].id}` : `${clientUrl}${savedSearchPath(search)}`
+    });
+  }
+
+  if (matched.length > 0) {
+    await prisma.savedSearch.updateMany({
+      where: { id: { in: matched } },
+      data: { lastMatchedAt: new Date() }
+    });
+  }
+
+  return items;
+}
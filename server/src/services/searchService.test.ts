@@ -0,0 +1,143 @@
+import { DifficultyLevel, IdeaCategory, TimeCommitment } from '@prisma/client';
+import { createFakePrisma } from '../test/fakePrisma';
+import { Candidate, isEmptyQuery, parseSearchQuery, scoreKeywords, stem } from './searchService';
+
+const mockPrisma = createFakePrisma();
+jest.mock('../config/database', () => ({ getDatabase: () => mockPrisma }));
+
+let nextId = 1;
+
+const candidate = (overrides: Partial<Candidate> = {}): Candidate => ({
+  id: `idea-${nextId++}`,
+  title: 'Weekend project',
+  description: 'Something to build',
+  content: 'A small app for friends.',
+  tags: [],
+  techStack: [],
+  aiTechStack: [],
+  category: IdeaCategory.WEB,
+  difficulty: DifficultyLevel.INTERMEDIATE,
+  timeCommitment: TimeCommitment.MEDIUM,
+  voteScore: 0,
+  createdAt: new Date('2026-01-01'),
+  ...overrides
+});
+
+const score = (candidates: Candidate[], q: string) => scoreKeywords(candidates, parseSearchQuery(q));
+
+describe('stem', () => {
+  it('brings the forms of a word to one stem', () => {
+    expect(['planning', 'planned', 'planner'].map(stem)).toEqual(['plan', 'plan', 'plan']);
+    expect([stem('study'), stem('studie')]).toEqual(['studi', 'studi']);
+    expect([stem('manage'), stem('management')]).toEqual(['manag', 'manag']);
+    expect([stem('create'), stem('creation')]).toEqual(['creat', 'creat']);
+    expect([stem('happy'), stem('happily')]).toEqual(['happi', 'happi']);
+  });
+
+  it('keeps an "ed" that belongs to the word', () => {
+    expect(stem('need')).toBe('need');
+    expect(stem('speed')).toBe('speed');
+    expect(stem('seeded')).toBe('seed');
+  });
+
+  it('only strips "ion" from -tion and -sion', () => {
+    expect(stem('champion')).toBe('champion');
+    expect(stem('onion')).toBe('onion');
+    expect(stem('expression')).toBe('express');
+  });
+
+  it('undoubles consonants except l, s and z', () => {
+    expect(stem('running')).toBe('run');
+    expect(stem('less')).toBe('less');
+    expect(stem('buzz')).toBe('buzz');
+  });
+
+  it('leaves short words and numbers alone', () => {
+    expect(stem('app')).toBe('app');
+    expect(stem('3d')).toBe('3d');
+    expect(stem('2024')).toBe('2024');
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('splits words, phrases and exclusions', () => {
+    expect(parseSearchQuery('Gardening "real time" -ads -"user tracking"')).toEqual({
+      terms: [{ word: 'gardening', stem: 'garden' }],
+      phrases: ['real time'],
+      excludedStems: ['ads'],
+      excludedPhrases: ['user tracking'],
+      text: 'gardening real time'
+    });
+  });
+
+  it('treats hyphenated words as phrases', () => {
+    const query = parseSearchQuery('react-native app -dark-mode');
+
+    expect(query.terms).toEqual([{ word: 'app', stem: 'app' }]);
+    expect(query.phrases).toEqual(['react native']);
+    expect(query.excludedPhrases).toEqual(['dark mode']);
+    expect(query.excludedStems).toEqual([]);
+    expect(query.text).toBe('react native app');
+  });
+
+  it('keeps one term per stem and drops stop words from the terms', () => {
+    const query = parseSearchQuery('the planning of planned planners');
+
+    expect(query.terms).toEqual([{ word: 'planning', stem: 'plan' }]);
+    expect(query.text).toBe('the planning of planned planners');
+  });
+
+  it('accepts an unclosed quote and ignores empty ones', () => {
+    expect(parseSearchQuery('"open source').phrases).toEqual(['open source']);
+    expect(isEmptyQuery(parseSearchQuery('"" - -""'))).toBe(true);
+  });
+});
+
+describe('scoreKeywords', () => {
+  it('weights a title match above the same word in the content', () => {
+    const inTitle = candidate({ title: 'Garden planner' });
+    const inContent = candidate({ content: 'A small app for friends with a garden.' });
+    const [titleScore, contentScore] = score([inTitle, inContent], 'garden');
+
+    expect(titleScore.matchedFields).toEqual(['title']);
+    expect(contentScore.matchedFields).toEqual(['content']);
+    expect(titleScore.rawKeywordScore).toBeGreaterThan(contentScore.rawKeywordScore);
+  });
+
+  it('ranks a rare word above a common one', () => {
+    const ideas = [
+      candidate({ content: 'A small app for friends and their garden compost.' }),
+      candidate({ content: 'A small app for friends and their garden.' }),
+      candidate({ content: 'A small app for friends and their garden.' })
+    ];
+    const [rare, common] = score(ideas, 'garden compost');
+
+    expect(rare.matchedTerms).toEqual(['garden', 'compost']);
+    expect(rare.isKeywordMatch).toBe(true);
+    expect(common.isKeywordMatch).toBe(false);
+    expect(rare.rawKeywordScore).toBeGreaterThan(2 * common.rawKeywordScore);
+  });
+
+  it('adds a found phrase at the weight of its best field', () => {
+    const tagged = candidate({ tags: ['react-native'] });
+    const [withPhrase] = score([tagged], '"react native"');
+
+    expect(withPhrase.matchedTerms).toEqual(['"react native"']);
+    expect(withPhrase.matchedFields).toEqual(['tags']);
+    expect(withPhrase.rawKeywordScore).toBe(2.5);
+    expect(withPhrase.hasAllPhrases).toBe(true);
+  });
+
+  it('scores excluded ideas zero; an exclusion-only query matches the rest', () => {
+    const withAds = candidate({ content: 'A free app paid for by ads.' });
+    const withTracking = candidate({ description: 'No user tracking, ever' });
+    const clean = candidate();
+    const [ads, tracking, rest] = score([withAds, withTracking, clean], 'app -ads -"user tracking"');
+
+    expect(ads).toMatchObject({ isExcluded: true, isKeywordMatch: false, rawKeywordScore: 0 });
+    expect(tracking).toMatchObject({ isExcluded: true, isKeywordMatch: false, rawKeywordScore: 0 });
+    expect(rest).toMatchObject({ isExcluded: false, isKeywordMatch: true });
+
+    expect(score([clean], '-ads')[0].isKeywordMatch).toBe(true);
+  });
+});
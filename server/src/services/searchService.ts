@@ -0,0 +1,605 @@
+import { Prisma } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { logger } from '../config/logger';
+import { cosineSimilarity, embedQuery, requestReindex } from './embeddingService';
+import { countFacets, FACET_SELECT, FacetableIdea, FacetFilters, IdeaFacets, matchesFacetFilters } from './facetService';
+import { tokenize } from './similarityService';
+
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+export type SearchSort = 'relevance' | 'newest' | 'oldest' | 'popular';
+export type SearchField = 'title' | 'tags' | 'techStack' | 'description' | 'content';
+
+// Why an idea matched, shown next to each result
+export interface SearchMatch {
+  // What "relevance" orders by, 0-1
+  score: number;
+  // Relative to the best keyword match for the same query, 0-1
+  keywordScore: number;
+  // Null when the idea isn't embedded yet or the query couldn't be embedded
+  semanticScore: number | null;
+  // Fields containing a query word or phrase
+  matchedFields: SearchField[];
+  // Query words and phrases found in the idea
+  matchedTerms: string[];
+}
+
+// A snippet of one field, split into plain and matched parts
+export interface SearchHighlight {
+  field: SearchField;
+  fragments: { text: string; highlight: boolean }[];
+}
+
+export interface SearchResultItem {
+  id: string;
+  match: SearchMatch;
+  highlights: SearchHighlight[];
+}
+
+// A title hit says more than one buried in the content
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2.5,
+  techStack: 2,
+  description: 1.5,
+  content: 1
+};
+const FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+// BM25 term-frequency saturation and length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Ideas containing every query word that are scored per search, newest first.
+// A very common word can match more; only the newest this many are ranked.
+const CANDIDATE_LIMIT = 1000;
+// Semantic matching compares every indexed idea, this many vectors at a time
+const EMBEDDING_PAGE_SIZE = 500;
+// Closest semantic matches kept per search, so memory stays bounded however
+// large the corpus is. Results past this are too far down to page to anyway.
+const SEMANTIC_MATCH_LIMIT = 1000;
+// Share of the hybrid score that comes from vector similarity
+const HYBRID_SEMANTIC_WEIGHT = 0.6;
+// Embedding models spread scores differently, so this is configurable
+const SEMANTIC_MIN_SCORE = parseFloat(process.env['SEMANTIC_SEARCH_MIN_SCORE'] || '0.3');
+const SNIPPET_LENGTH = 200;
+const SNIPPET_LEAD = 60;
+
+const SUFFIXES = ['ments', 'ment', 'ness', 'ings', 'ing', 'ions', 'ion', 'ers', 'er', 'ed', 'ly'];
+
+// Light English stemmer: strips one common suffix so "planning", "planned"
+// and "planner" all become "plan". Input is a token from tokenize(), which
+// already lowercased it and dropped a plural "s".
+export function stem(token: string): string {
+  if (token.length <= 3 || /^\d+$/.test(token)) return token;
+
+  let word = token.endsWith('ie') ? token.slice(0, -2) + 'i' : token;
+
+  for (const suffix of SUFFIXES) {
+    if (!word.endsWith(suffix)) continue;
+
+    const base = word.slice(0, -suffix.length);
+    const keeps = base.length >= 3 && /[aeiouy]/.test(base)
+      // "need", "speed": the "ed" is part of the word
+      && !(suffix === 'ed' && base.endsWith('e'))
+      // Only "-tion" and "-sion" lose their "ion"
+      && (!suffix.startsWith('ion') || /[st]$/.test(base));
+
+    if (keeps) {
+      word = base;
+      break;
+    }
+  }
+
+  // runn -> run, but keep "all", "less", "buzz"
+  if (/([^aeiouylsz])\1$/.test(word)) {
+    word = word.slice(0, -1);
+  }
+  if (word.length > 3 && word.endsWith('e')) {
+    word = word.slice(0, -1);
+  }
+  if (word.length > 3 && /[^aeiou]y$/.test(word)) {
+    word = word.slice(0, -1) + 'i';
+  }
+
+  return word;
+}
+
+// Stem of a single word as written in text, or null for stop words
+function stemWord(word: string): string | null {
+  const [token] = tokenize(word);
+  return token ? stem(token) : null;
+}
+
+// Lowercased words separated by single spaces, for phrase matching
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export interface ParsedQuery {
+  // Every term must appear somewhere in an idea
+  terms: { word: string; stem: string }[];
+  // Every phrase must appear as written (normalised)
+  phrases: string[];
+  excludedStems: string[];
+  excludedPhrases: string[];
+  // The query without exclusions or quotes, for embedding
+  text: string;
+}
+
+// Words, "quoted phrases" and -exclusions (-word or -"a phrase")
+export function parseSearchQuery(q: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], phrases: [], excludedStems: [], excludedPhrases: [], text: '' };
+  const included: string[] = [];
+  const pattern = /(-?)"([^"]*)"?|(-?)([^\s"]+)/g;
+
+  for (const [, quotedExclude, quoted, wordExclude, raw] of q.matchAll(pattern)) {
+    const isQuoted = quoted !== undefined;
+    const isExcluded = isQuoted ? quotedExclude === '-' : wordExclude === '-';
+    const text = normalize(isQuoted ? quoted : raw);
+    if (!text) continue;
+
+    // Quoted text, or hyphenated words like react-native, must match as written
+    const isPhrase = isQuoted || text.includes(' ');
+
+    if (isExcluded) {
+      if (isPhrase) {
+        parsed.excludedPhrases.push(text);
+      } else {
+        const stemmed = stemWord(text);
+        if (stemmed) parsed.excludedStems.push(stemmed);
+      }
+      continue;
+    }
+
+    included.push(text);
+    if (isPhrase) {
+      if (!parsed.phrases.includes(text)) parsed.phrases.push(text);
+      continue;
+    }
+
+    const stemmed = stemWord(text);
+    if (stemmed && !parsed.terms.some(term => term.stem === stemmed)) {
+      parsed.terms.push({ word: text, stem: stemmed });
+    }
+  }
+
+  parsed.text = included.join(' ');
+  return parsed;
+}
+
+export const isEmptyQuery = (query: ParsedQuery) =>
+  query.terms.length === 0 && query.phrases.length === 0
+  && query.excludedStems.length === 0 && query.excludedPhrases.length === 0;
+
+export interface SearchableIdea {
+  title: string;
+  description: string;
+  content: string;
+  tags: string[];
+  techStack: string[];
+}
+
+const fieldText = (idea: SearchableIdea, field: SearchField) =>
+  field === 'tags' || field === 'techStack' ? idea[field].join(', ') : idea[field];
+
+interface AnalyzedField {
+  stems: Map<string, number>;
+  length: number;
+  normalized: string;
+}
+
+function analyzeField(text: string): AnalyzedField {
+  const stems = new Map<string, number>();
+  const tokens = tokenize(text);
+  for (const token of tokens) {
+    const stemmed = stem(token);
+    stems.set(stemmed, (stems.get(stemmed) || 0) + 1);
+  }
+  return { stems, length: tokens.length, normalized: ` ${normalize(text)} ` };
+}
+
+const containsPhrase = (field: AnalyzedField, phrase: string) => field.normalized.includes(` ${phrase} `);
+
+// Whether one idea satisfies the query as keyword search would: every word
+// and phrase present, nothing excluded. An empty query matches anything.
+export function matchesSearchQuery(idea: SearchableIdea, query: ParsedQuery): boolean {
+  const fields = FIELDS.map(field => analyzeField(fieldText(idea, field)));
+  const hasStem = (stemmed: string) => fields.some(field => field.stems.has(stemmed));
+  const hasPhrase = (phrase: string) => fields.some(field => containsPhrase(field, phrase));
+
+  return query.terms.every(term => hasStem(term.stem))
+    && query.phrases.every(hasPhrase)
+    && !query.excludedStems.some(hasStem)
+    && !query.excludedPhrases.some(hasPhrase);
+}
+
+// Narrows the candidates in the database: each term's stem (minus a trailing
+// i/e, so "studi" still finds "study") or phrase must appear in a text field,
+// or the word must be one of the tags. Scoring then checks the rest.
+function keywordPrefilter(query: ParsedQuery): Prisma.IdeaWhereInput[] {
+  const anyField = (text: string, word: string): Prisma.IdeaWhereInput => ({
+    OR: [
+      { title: { contains: text, mode: 'insensitive' } },
+      { description: { contains: text, mode: 'insensitive' } },
+      { content: { contains: text, mode: 'insensitive' } },
+      { tags: { hasSome: [word] } },
+      { techStack: { hasSome: [word] } }
+    ]
+  });
+
+  return [
+    ...query.terms.map(term => anyField(term.stem.replace(/[ie]$/, ''), term.word)),
+    // Punctuation inside a phrase varies, so only its longest word is looked up
+    ...query.phrases.map(phrase => {
+      const [longest] = phrase.split(' ').sort((a, b) => b.length - a.length);
+      return anyField(longest, phrase);
+    })
+  ];
+}
+
+export interface Candidate extends SearchableIdea, FacetableIdea {
+  id: string;
+  voteScore: number;
+  createdAt: Date;
+}
+
+const CANDIDATE_SELECT = {
+  ...FACET_SELECT,
+  id: true,
+  title: true,
+  description: true,
+  content: true,
+  voteScore: true,
+  createdAt: true
+} satisfies Prisma.IdeaSelect;
+
+export interface ScoredCandidate {
+  idea: Candidate;
+  // Contains an excluded word or phrase
+  isExcluded: boolean;
+  hasAllPhrases: boolean;
+  // Has every term and phrase and nothing excluded
+  isKeywordMatch: boolean;
+  rawKeywordScore: number;
+  matchedFields: SearchField[];
+  matchedTerms: string[];
+}
+
+// BM25 over the candidates, with each field's term frequency scaled by its weight
+export function scoreKeywords(candidates: Candidate[], query: ParsedQuery): ScoredCandidate[] {
+  const analyzed = candidates.map(idea => {
+    const fields = {} as Record<SearchField, AnalyzedField>;
+    for (const field of FIELDS) {
+      fields[field] = analyzeField(fieldText(idea, field));
+    }
+    return { idea, fields };
+  });
+
+  const weightedLength = (fields: Record<SearchField, AnalyzedField>) =>
+    FIELDS.reduce((sum, field) => sum + FIELD_WEIGHTS[field] * fields[field].length, 0);
+  const averageLength = analyzed.reduce((sum, item) => sum + weightedLength(item.fields), 0) / (analyzed.length || 1) || 1;
+
+  const idf = new Map(query.terms.map(term => {
+    const documentFrequency = analyzed.filter(({ fields }) => FIELDS.some(field => fields[field].stems.has(term.stem))).length;
+    return [term.stem, Math.log(1 + (analyzed.length - documentFrequency + 0.5) / (documentFrequency + 0.5))];
+  }));
+
+  return analyzed.map(({ idea, fields }) => {
+    const isExcluded = FIELDS.some(field =>
+      query.excludedStems.some(excludedStem => fields[field].stems.has(excludedStem))
+      || query.excludedPhrases.some(phrase => containsPhrase(fields[field], phrase))
+    );
+
+    const lengthNorm = 1 - BM25_B + BM25_B * weightedLength(fields) / averageLength;
+    const matchedFields = new Set<SearchField>();
+    const matchedTerms: string[] = [];
+    let score = 0;
+
+    for (const term of query.terms) {
+      let frequency = 0;
+      for (const field of FIELDS) {
+        const count = fields[field].stems.get(term.stem) || 0;
+        if (count > 0) matchedFields.add(field);
+        frequency += FIELD_WEIGHTS[field] * count;
+      }
+      if (frequency > 0) {
+        matchedTerms.push(term.word);
+        score += idf.get(term.stem)! * frequency * (BM25_K1 + 1) / (frequency + BM25_K1 * lengthNorm);
+      }
+    }
+
+    let phrasesFound = 0;
+    for (const phrase of query.phrases) {
+      const found = FIELDS.filter(field => containsPhrase(fields[field], phrase));
+      if (found.length > 0) {
+        phrasesFound++;
+        matchedTerms.push(`"${phrase}"`);
+        found.forEach(field => matchedFields.add(field));
+        // A phrase is worth its best field, as much as a rare word there
+        score += Math.max(...found.map(field => FIELD_WEIGHTS[field]));
+      }
+    }
+
+    const hasAllTerms = matchedTerms.length - phrasesFound === query.terms.length;
+    const hasAllPhrases = phrasesFound === query.phrases.length;
+
+    return {
+      idea,
+      isExcluded,
+      hasAllPhrases,
+      // A query of only exclusions matches everything else
+      isKeywordMatch: !isExcluded && hasAllTerms && hasAllPhrases,
+      rawKeywordScore: isExcluded ? 0 : score,
+      matchedFields: FIELDS.filter(field => matchedFields.has(field)),
+      matchedTerms
+    };
+  });
+}
+
+// Character ranges of query words and phrases in a piece of text
+function matchRanges(text: string, query: ParsedQuery): [number, number][] {
+  const stems = new Set(query.terms.map(term => term.stem));
+  const ranges: [number, number][] = [];
+
+  for (const word of text.matchAll(/[A-Za-z0-9]+/g)) {
+    const stemmed = stemWord(word[0]);
+    if (stemmed && stems.has(stemmed)) {
+      ranges.push([word.index!, word.index! + word[0].length]);
+    }
+  }
+
+  for (const phrase of query.phrases) {
+    const pattern = new RegExp(`\\b${phrase.split(' ').join('[^a-z0-9]+')}\\b`, 'gi');
+    for (const found of text.matchAll(pattern)) {
+      ranges.push([found.index!, found.index! + found[0].length]);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
+
+// The text around the first match (or all of it when short), split into fragments
+function highlight(field: SearchField, text: string, query: ParsedQuery, maxLength?: number): SearchHighlight | null {
+  const ranges = matchRanges(text, query);
+  if (ranges.length === 0) return null;
+
+  let start = 0;
+  let end = text.length;
+  if (maxLength && text.length > maxLength) {
+    start = Math.max(0, ranges[0][0] - SNIPPET_LEAD);
+    // Don't cut into a word at the start
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      start = space === -1 || space > ranges[0][0] ? start : space + 1;
+    }
+    end = Math.min(text.length, start + maxLength);
+  }
+
+  const fragments: SearchHighlight['fragments'] = [];
+  if (start > 0) fragments.push({ text: '…', highlight: false });
+
+  let position = start;
+  for (const [rangeStart, rangeEnd] of ranges) {
+    if (rangeEnd <= start || rangeStart >= end) continue;
+    const from = Math.max(rangeStart, start);
+    const to = Math.min(rangeEnd, end);
+    if (from > position) fragments.push({ text: text.substring(position, from), highlight: false });
+    fragments.push({ text: text.substring(from, to), highlight: true });
+    position = to;
+  }
+  if (position < end) fragments.push({ text: text.substring(position, end), highlight: false });
+  if (end < text.length) fragments.push({ text: '…', highlight: false });
+
+  return { field, fragments };
+}
+
+// The title when it matches, plus the best snippet of the description or content
+function highlightIdea(idea: SearchableIdea, query: ParsedQuery): SearchHighlight[] {
+  const title = highlight('title', idea.title, query);
+  const body = highlight('description', idea.description, query, SNIPPET_LENGTH)
+    || highlight('content', idea.content, query, SNIPPET_LENGTH);
+  return [title, body].filter((item): item is SearchHighlight => !!item);
+}
+
+const round = (score: number) => Math.round(score * 100) / 100;
+
+// Similarity of each indexed idea in `where` to the query, over every vector
+// made by the query's model. Calls onScore a page at a time.
+async function forEachSemanticScore(
+  where: Prisma.IdeaWhereInput,
+  queryEmbedding: { model: string; vector: number[] },
+  onScore: (ideaId: string, score: number) => void
+): Promise<number> {
+  const prisma = getDatabase();
+  let scanned = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const page = await prisma.ideaEmbedding.findMany({
+      where: { model: queryEmbedding.model, idea: { is: where } },
+      orderBy: { id: 'asc' },
+      take: EMBEDDING_PAGE_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      select: { id: true, ideaId: true, vector: true }
+    });
+
+    page.forEach(embedding => onScore(embedding.ideaId, round(Math.max(0, cosineSimilarity(queryEmbedding.vector, embedding.vector)))));
+    scanned += page.length;
+
+    if (page.length < EMBEDDING_PAGE_SIZE) return scanned;
+    cursor = page[page.length - 1].id;
+  }
+}
+
+async function scoreSemantic(where: Prisma.IdeaWhereInput, queryEmbedding: { model: string; vector: number[] }) {
+  const scores = new Map<string, number>();
+  await forEachSemanticScore(where, queryEmbedding, (ideaId, score) => scores.set(ideaId, score));
+  return scores;
+}
+
+// The closest SEMANTIC_MATCH_LIMIT ideas in `where`, wherever they are in the
+// corpus, plus how many ideas have no vector from the query's model yet
+async function findSemanticMatches(where: Prisma.IdeaWhereInput, queryEmbedding: { model: string; vector: number[] }) {
+  let matches: { ideaId: string; score: number }[] = [];
+  const keepClosest = () => {
+    matches = matches.sort((a, b) => b.score - a.score).slice(0, SEMANTIC_MATCH_LIMIT);
+  };
+
+  const [indexed, total] = await Promise.all([
+    forEachSemanticScore(where, queryEmbedding, (ideaId, score) => {
+      if (score < SEMANTIC_MIN_SCORE) return;
+      matches.push({ ideaId, score });
+      if (matches.length >= 2 * SEMANTIC_MATCH_LIMIT) keepClosest();
+    }),
+    getDatabase().idea.count({ where })
+  ]);
+  keepClosest();
+
+  return {
+    scores: new Map(matches.map(match => [match.ideaId, match.score])),
+    unindexed: Math.max(0, total - indexed)
+  };
+}
+
+// Scores ideas in `where` against the query and returns one page in the
+// requested order, with facet counts over every match. "keyword" needs every
+// word and phrase; "semantic" keeps ideas whose vectors are close enough;
+// "hybrid" keeps either and blends both scores. Exclusions apply in every
+// mode. Without a query embedding, semantic modes fall back to keyword
+// matching (degraded). Semantic matching covers every indexed idea, up to the
+// closest SEMANTIC_MATCH_LIMIT; keyword matching ranks the newest
+// CANDIDATE_LIMIT ideas that contain every word.
+export async function searchIdeas(params: {
+  q: string;
+  // Everything but the facet filters, which are applied after counting
+  where: Prisma.IdeaWhereInput;
+  filters: FacetFilters;
+  mode: SearchMode;
+  sort: SearchSort;
+  offset: number;
+  limit: number;
+}): Promise<{ total: number; results: SearchResultItem[]; facets: IdeaFacets; degraded: boolean }> {
+  const { mode, sort } = params;
+  const prisma = getDatabase();
+  const query = parseSearchQuery(params.q);
+
+  if (isEmptyQuery(query)) {
+    return { total: 0, results: [], facets: countFacets([], params.filters), degraded: false };
+  }
+
+  const useSemantic = mode !== 'keyword' && query.text !== '';
+  const queryEmbedding = useSemantic
+    ? await embedQuery(query.text).catch(error => {
+      logger.warn('Failed to embed search query, falling back to keywords:', error);
+      return null;
+    })
+    : null;
+  const degraded = useSemantic && !queryEmbedding;
+
+  // Semantic mode ranks by meaning alone, so it needs no keyword candidates
+  const [keywordCandidates, semantic] = await Promise.all([
+    mode === 'semantic' && queryEmbedding
+      ? Promise.resolve([] as Candidate[])
+      : prisma.idea.findMany({
+        where: { AND: [params.where, ...keywordPrefilter(query)] },
+        orderBy: { createdAt: 'desc' },
+        take: CANDIDATE_LIMIT,
+        select: CANDIDATE_SELECT
+      }),
+    queryEmbedding ? findSemanticMatches(params.where, queryEmbedding) : Promise.resolve(null)
+  ]);
+
+  // Keyword matches that aren't close in meaning still get a hybrid score
+  const keywordIds = new Set(keywordCandidates.map(idea => idea.id));
+  const unscoredKeywordIds = semantic ? [...keywordIds].filter(id => !semantic.scores.has(id)) : [];
+  const [semanticOnly, keywordSemanticScores] = await Promise.all([
+    semantic
+      ? prisma.idea.findMany({
+        where: { id: { in: [...semantic.scores.keys()].filter(id => !keywordIds.has(id)) } },
+        select: CANDIDATE_SELECT
+      })
+      : Promise.resolve([] as Candidate[]),
+    queryEmbedding && unscoredKeywordIds.length > 0
+      ? scoreSemantic({ id: { in: unscoredKeywordIds } }, queryEmbedding)
+      : Promise.resolve(new Map<string, number>())
+  ]);
+
+  const candidates = [...keywordCandidates, ...semanticOnly];
+  const scored = scoreKeywords(candidates, query);
+  // Keyword scores are relative to the best match before facet filtering, so
+  // picking a facet doesn't change them
+  const bestKeywordScore = Math.max(0, ...scored.filter(item => item.isKeywordMatch).map(item => item.rawKeywordScore));
+
+  const matches = scored.flatMap(item => {
+    const keywordScore = bestKeywordScore > 0 && item.isKeywordMatch ? round(item.rawKeywordScore / bestKeywordScore) : 0;
+    // Phrases and exclusions apply in every mode
+    const isAllowed = !item.isExcluded && item.hasAllPhrases;
+
+    const semanticScore = semantic?.scores.get(item.idea.id) ?? keywordSemanticScores.get(item.idea.id) ?? null;
+    const isSemanticMatch = semanticScore !== null && semanticScore >= SEMANTIC_MIN_SCORE;
+
+    let score: number;
+    let isMatch: boolean;
+    if (mode === 'keyword' || !queryEmbedding) {
+      score = keywordScore;
+      isMatch = item.isKeywordMatch;
+    } else if (mode === 'semantic') {
+      score = semanticScore ?? 0;
+      isMatch = isSemanticMatch && isAllowed;
+    } else {
+      score = round(HYBRID_SEMANTIC_WEIGHT * (semanticScore ?? 0) + (1 - HYBRID_SEMANTIC_WEIGHT) * keywordScore);
+      isMatch = item.isKeywordMatch || (isSemanticMatch && isAllowed);
+    }
+
+    if (!isMatch) return [];
+    return [{
+      idea: item.idea,
+      match: {
+        score,
+        keywordScore,
+        semanticScore,
+        matchedFields: item.matchedFields,
+        matchedTerms: item.matchedTerms
+      }
+    }];
+  });
+
+  if (semantic && semantic.unindexed > 0) {
+    requestReindex();
+  }
+
+  const facets = countFacets(matches.map(({ idea }) => idea), params.filters);
+  const filtered = matches.filter(({ idea }) => matchesFacetFilters(idea, params.filters));
+
+  filtered.sort((a, b) => {
+    switch (sort) {
+      case 'newest':
+        return b.idea.createdAt.getTime() - a.idea.createdAt.getTime();
+      case 'oldest':
+        return a.idea.createdAt.getTime() - b.idea.createdAt.getTime();
+      case 'popular':
+        return b.idea.voteScore - a.idea.voteScore;
+      default:
+        return b.match.score - a.match.score || b.idea.voteScore - a.idea.voteScore;
+    }
+  });
+
+  return {
+    total: filtered.length,
+    results: filtered.slice(params.offset, params.offset + params.limit).map(({ idea, match }) => ({
+      id: idea.id,
+      match,
+      highlights: highlightIdea(idea, query)
+    })),
+    facets,
+    degraded
+  };
+}
@@ -0,0 +1,204 @@
+import { IdeaCategory, IdeaStatus } from '@prisma/client';
+import { getDatabase } from '../config/database';
+
+export interface IdeaDraft {
+  title: string;
+  description: string;
+  tags?: string[];
+}
+
+export interface SimilarIdea {
+  id: string;
+  title: string;
+  description: string;
+  category: IdeaCategory;
+  voteScore: number;
+  author: { id: string; username: string; avatar: string | null };
+  // Cosine similarity of the TF-IDF vectors, 0-1
+  score: number;
+  isLikelyDuplicate: boolean;
+}
+
+// Below this an idea isn't worth mentioning; at or above the duplicate score
+// creating or publishing needs confirmation
+export const SIMILARITY_MIN_SCORE = 0.25;
+export const DUPLICATE_SCORE = 0.6;
+
+// Published ideas compared against, newest first
+const CANDIDATE_LIMIT = 2000;
+const CORPUS_TTL_MS = 60 * 1000;
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'do', 'does', 'each', 'for', 'from', 'get', 'has', 'have', 'help', 'helps', 'how',
+  'if', 'in', 'into', 'is', 'it', 'its', 'just', 'like', 'make', 'makes', 'more', 'most', 'my', 'new',
+  'no', 'not', 'of', 'on', 'one', 'or', 'other', 'our', 'out', 'over', 'so', 'some', 'such', 'than',
+  'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to',
+  'up', 'us', 'use', 'uses', 'using', 'very', 'via', 'was', 'way', 'we', 'were', 'what', 'when',
+  'where', 'which', 'while', 'who', 'will', 'with', 'without', 'would', 'you', 'your'
+]);
+
+// Lowercased words without stop words, with a plural "s" stripped (ideas -> idea)
+export function tokenize(text: string): string[] {
+  const words: string[] = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+  return words
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+// Size of the local embedding; changing it means reindexing
+export const HASHED_EMBEDDING_DIMENSIONS = 512;
+
+// FNV-1a, enough to spread tokens over the embedding's dimensions
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Offline stand-in for an embedding model: words and their character trigrams
+// hashed into a fixed-size unit vector. It catches shared vocabulary and word
+// forms ("recommend" and "recommendation"), not synonyms.
+export function hashedEmbedding(text: string, dimensions = HASHED_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+
+  const add = (feature: string, weight: number) => {
+    const hash = hashToken(feature);
+    // The top bit picks a sign so colliding features tend to cancel out
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  for (const token of tokenize(text)) {
+    add(token, 1);
+    for (let i = 0; i + 3 <= token.length; i++) {
+      add(`#${token.substring(i, i + 3)}`, 0.5);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+// Titles say the most about what an idea is, so they count twice
+function termCounts(draft: IdeaDraft): Map<string, number> {
+  const counts = new Map<string, number>();
+  const tokens = [
+    ...tokenize(draft.title),
+    ...tokenize(draft.title),
+    ...tokenize(draft.description),
+    ...(draft.tags || []).flatMap(tag => tokenize(tag))
+  ];
+
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
+
+interface CorpusEntry {
+  idea: Omit<SimilarIdea, 'score' | 'isLikelyDuplicate'>;
+  counts: Map<string, number>;
+}
+
+interface Corpus {
+  entries: CorpusEntry[];
+  documentFrequency: Map<string, number>;
+  loadedAt: number;
+}
+
+let corpus: Corpus | null = null;
+
+async function loadCorpus(): Promise<Corpus> {
+  if (corpus && Date.now() - corpus.loadedAt < CORPUS_TTL_MS) {
+    return corpus;
+  }
+
+  const prisma = getDatabase();
+  const ideas = await prisma.idea.findMany({
+    where: { status: IdeaStatus.PUBLISHED },
+    orderBy: { publishedAt: 'desc' },
+    take: CANDIDATE_LIMIT,
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      tags: true,
+      category: true,
+      voteScore: true,
+      author: { select: { id: true, username: true, avatar: true } }
+    }
+  });
+
+  const documentFrequency = new Map<string, number>();
+  const entries = ideas.map(({ tags, ...idea }) => {
+    const counts = termCounts({ title: idea.title, description: idea.description, tags });
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+    return { idea, counts };
+  });
+
+  corpus = { entries, documentFrequency, loadedAt: Date.now() };
+  return corpus;
+}
+
+// Publishing or merging changes the candidates; the next lookup reloads them
+export function invalidateSimilarityCorpus(): void {
+  corpus = null;
+}
+
+function tfidf(counts: Map<string, number>, idf: (term: string) => number): { weights: Map<string, number>; norm: number } {
+  const weights = new Map<string, number>();
+  let sumOfSquares = 0;
+
+  for (const [term, count] of counts) {
+    const weight = (1 + Math.log(count)) * idf(term);
+    weights.set(term, weight);
+    sumOfSquares += weight * weight;
+  }
+
+  return { weights, norm: Math.sqrt(sumOfSquares) };
+}
+
+// Published ideas most similar to a draft, best first. Uses TF-IDF over titles,
+// descriptions and tags, so it works without an AI provider.
+export async function findSimilarIdeas(
+  draft: IdeaDraft,
+  options: { excludeId?: string; limit?: number } = {}
+): Promise<SimilarIdea[]> {
+  const { entries, documentFrequency } = await loadCorpus();
+  // The draft counts as one more document containing each of its terms
+  const total = entries.length + 1;
+  const idf = (term: string) => Math.log((total + 1) / ((documentFrequency.get(term) || 0) + 2)) + 1;
+
+  const query = tfidf(termCounts(draft), idf);
+  if (query.norm === 0) {
+    return [];
+  }
+
+  const matches: SimilarIdea[] = [];
+
+  for (const entry of entries) {
+    if (entry.idea.id === options.excludeId) continue;
+
+    const candidate = tfidf(entry.counts, idf);
+    let dot = 0;
+    for (const [term, weight] of query.weights) {
+      dot += weight * (candidate.weights.get(term) || 0);
+    }
+
+    const score = candidate.norm === 0 ? 0 : dot / (query.norm * candidate.norm);
+    if (score >= SIMILARITY_MIN_SCORE) {
+      matches.push({
+        ...entry.idea,
+        score: Math.round(score * 100) / 100,
+        isLikelyDuplicate: score >= DUPLICATE_SCORE
+      });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, options.limit || 5);
+}
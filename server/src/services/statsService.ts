@@ -0,0 +1,335 @@
+import { ActivityType, IdeaCategory, IdeaStatus, Prisma } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { cacheService } from '../config/redis';
+
+// Platform analytics for admins. Everything is computed from the existing
+// collections; results are cached briefly since each stat scans its range.
+// Counting happens in Mongo, so a stat gets back one row per day, category or
+// cohort rather than every document in a range of up to a year.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const CACHE_TTL_SECONDS = 300;
+
+const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const dayKey = (date: Date) => date.toISOString().substring(0, 10);
+
+// First day of a window of `days` days that ends today
+const rangeStart = (days: number) => startOfUtcDay(new Date(Date.now() - (days - 1) * DAY_MS));
+
+type Aggregate = (args: { pipeline: Prisma.InputJsonValue[] }) => Prisma.PrismaPromise<Prisma.JsonObject>;
+
+type RawRow = Record<string, any>;
+
+const mongoDate = (date: Date) => ({ $date: date.toISOString() });
+
+// The UTC day of a date field, formatted like dayKey
+const dayOf = (field: string) => ({ $dateToString: { format: '%Y-%m-%d', date: field } });
+
+async function aggregateRows(aggregate: Aggregate, pipeline: Prisma.InputJsonValue[]): Promise<RawRow[]> {
+  return (await aggregate({ pipeline })) as unknown as RawRow[];
+}
+
+// Documents matching `match` per day of `field`, from `since` on
+async function countByDay(aggregate: Aggregate, field: string, since: Date, match: Prisma.InputJsonObject = {}) {
+  const rows = await aggregateRows(aggregate, [
+    { $match: { ...match, [field]: { $gte: mongoDate(since) } } },
+    { $group: { _id: dayOf(`$${field}`), count: { $sum: 1 } } }
+  ]);
+  return new Map<string, number>(rows.map(row => [row['_id'], row['count']]));
+}
+
+async function cached<T>(key: string, compute: () => Promise<T>): Promise<T> {
+  const cacheKey = `admin:stats:${key}`;
+  const hit = await cacheService.getJson<T>(cacheKey);
+  if (hit) return hit;
+
+  const value = await compute();
+  await cacheService.setJson(cacheKey, value, CACHE_TTL_SECONDS);
+  return value;
+}
+
+export interface DailyStats {
+  date: string;
+  signups: number;
+  ideasPublished: number;
+  comments: number;
+  votes: number;
+  activeUsers: number;
+}
+
+export interface CategoryEngagement {
+  category: IdeaCategory;
+  ideasPublished: number;
+  votes: number;
+  comments: number;
+  views: number;
+  // Votes and comments per idea that received any
+  engagementPerIdea: number;
+}
+
+export interface AIUsageStats {
+  totals: { requests: number; repairs: number; tokens: number; users: number };
+  days: { date: string; requests: number; tokens: number }[];
+  tasks: { task: string; requests: number; tokens: number; users: number }[];
+  models: { provider: string; model: string; requests: number; tokens: number }[];
+}
+
+export interface RetentionCohort {
+  weekStart: string;
+  users: number;
+  // Cohort members with any activity in each week since signing up, week 0 first
+  active: number[];
+  rates: number[];
+}
+
+export function getOverview(days: number) {
+  return cached(`overview:${days}`, async () => {
+    const prisma = getDatabase();
+    const since = rangeStart(days);
+    const inRange = { gte: since };
+
+    const [
+      users,
+      publishedIdeas,
+      comments,
+      votes,
+      newUsers,
+      ideasPublished,
+      newComments,
+      newVotes,
+      activeUsers
+    ] = await Promise.all([
+      prisma.user.count(),
+      prisma.idea.count({ where: { status: IdeaStatus.PUBLISHED } }),
+      prisma.comment.count({ where: { isDeleted: false } }),
+      prisma.vote.count(),
+      prisma.user.count({ where: { createdAt: inRange } }),
+      prisma.idea.count({ where: { publishedAt: inRange } }),
+      prisma.comment.count({ where: { isDeleted: false, createdAt: inRange } }),
+      prisma.vote.count({ where: { createdAt: inRange } }),
+      aggregateRows(args => prisma.activity.aggregateRaw(args), [
+        { $match: { createdAt: { $gte: mongoDate(since) } } },
+        { $group: { _id: '$userId' } },
+        { $count: 'users' }
+      ])
+    ]);
+
+    return {
+      since: since.toISOString(),
+      totals: { users, publishedIdeas, comments, votes },
+      period: {
+        newUsers,
+        ideasPublished,
+        comments: newComments,
+        votes: newVotes,
+        activeUsers: activeUsers[0]?.['users'] ?? 0
+      }
+    };
+  });
+}
+
+// One row per day, oldest first, including days with no activity
+export function getDailyStats(days: number) {
+  return cached(`daily:${days}`, async (): Promise<DailyStats[]> => {
+    const prisma = getDatabase();
+    const since = rangeStart(days);
+
+    const [signups, ideasPublished, comments, votes, activeRows] = await Promise.all([
+      countByDay(args => prisma.user.aggregateRaw(args), 'createdAt', since),
+      countByDay(args => prisma.idea.aggregateRaw(args), 'publishedAt', since),
+      countByDay(args => prisma.comment.aggregateRaw(args), 'createdAt', since, { isDeleted: false }),
+      countByDay(args => prisma.vote.aggregateRaw(args), 'createdAt', since),
+      // Distinct users per day: one row per user and day, then one per day
+      aggregateRows(args => prisma.activity.aggregateRaw(args), [
+        { $match: { createdAt: { $gte: mongoDate(since) } } },
+        { $group: { _id: { day: dayOf('$createdAt'), userId: '$userId' } } },
+        { $group: { _id: '$_id.day', count: { $sum: 1 } } }
+      ])
+    ]);
+    const activeUsers = new Map<string, number>(activeRows.map(row => [row['_id'], row['count']]));
+
+    return Array.from({ length: days }, (_, i) => {
+      const date = dayKey(new Date(since.getTime() + i * DAY_MS));
+      return {
+        date,
+        signups: signups.get(date) || 0,
+        ideasPublished: ideasPublished.get(date) || 0,
+        comments: comments.get(date) || 0,
+        votes: votes.get(date) || 0,
+        activeUsers: activeUsers.get(date) || 0
+      };
+    });
+  });
+}
+
+// Events on ideas per category of the idea, and which ideas they were on.
+// Ideas that have since been deleted are left out.
+async function engagementByCategory(aggregate: Aggregate, since: Date, match: Prisma.InputJsonObject) {
+  const rows = await aggregateRows(aggregate, [
+    { $match: { ...match, createdAt: { $gte: mongoDate(since) } } },
+    { $group: { _id: '$ideaId', count: { $sum: 1 } } },
+    { $lookup: { from: 'ideas', localField: '_id', foreignField: '_id', as: 'idea' } },
+    { $project: { count: 1, category: { $arrayElemAt: ['$idea.category', 0] } } },
+    { $match: { category: { $type: 'string' } } },
+    { $group: { _id: '$category', count: { $sum: '$count' }, ideaIds: { $push: '$_id' } } }
+  ]);
+
+  // ObjectIds come back in extended JSON
+  return new Map<IdeaCategory, { count: number; ideaIds: string[] }>(rows.map(row => [
+    row['_id'],
+    { count: row['count'], ideaIds: row['ideaIds'].map((id: any) => id?.$oid ?? id) }
+  ]));
+}
+
+// Engagement in the range, attributed to the category of the idea it happened on
+export function getCategoryEngagement(days: number) {
+  return cached(`categories:${days}`, async (): Promise<CategoryEngagement[]> => {
+    const prisma = getDatabase();
+    const since = rangeStart(days);
+
+    const [published, votes, comments, views] = await Promise.all([
+      aggregateRows(args => prisma.idea.aggregateRaw(args), [
+        { $match: { publishedAt: { $gte: mongoDate(since) } } },
+        { $group: { _id: '$category', count: { $sum: 1 } } }
+      ]),
+      engagementByCategory(args => prisma.vote.aggregateRaw(args), since, { ideaId: { $ne: null } }),
+      engagementByCategory(args => prisma.comment.aggregateRaw(args), since, { isDeleted: false }),
+      engagementByCategory(args => prisma.activity.aggregateRaw(args), since, {
+        type: ActivityType.IDEA_VIEWED,
+        ideaId: { $ne: null }
+      })
+    ]);
+    const publishedByCategory = new Map<string, number>(published.map(row => [row['_id'], row['count']]));
+
+    return Object.values(IdeaCategory)
+      .map(category => {
+        const categoryVotes = votes.get(category);
+        const categoryComments = comments.get(category);
+        // Votes and comments on the same idea make one engaged idea
+        const engagedIdeas = new Set([...categoryVotes?.ideaIds || [], ...categoryComments?.ideaIds || []]);
+        const entry = {
+          category,
+          ideasPublished: publishedByCategory.get(category) || 0,
+          votes: categoryVotes?.count || 0,
+          comments: categoryComments?.count || 0,
+          views: views.get(category)?.count || 0
+        };
+        return {
+          ...entry,
+          engagementPerIdea: engagedIdeas.size
+            ? Math.round(((entry.votes + entry.comments) / engagedIdeas.size) * 10) / 10
+            : 0
+        };
+      })
+      .sort((a, b) => (b.votes + b.comments) - (a.votes + a.comments) || b.ideasPublished - a.ideasPublished);
+  });
+}
+
+// AI requests per day, per task (the endpoint that made them) and per model
+export function getAIUsageStats(days: number) {
+  return cached(`ai-usage:${days}`, async (): Promise<AIUsageStats> => {
+    const prisma = getDatabase();
+    const since = rangeStart(days);
+    const aggregate: Aggregate = args => prisma.aIUsage.aggregateRaw(args);
+    const match = { $match: { createdAt: { $gte: mongoDate(since) } } };
+    // Repair calls cost tokens but aren't requests of their own
+    const requests = { $sum: { $cond: ['$isRepair', 0, 1] } };
+    const tokens = { $sum: '$totalTokens' };
+
+    const [totalRows, dayRows, taskRows, modelRows] = await Promise.all([
+      aggregateRows(aggregate, [
+        match,
+        { $group: { _id: '$userId', requests, repairs: { $sum: { $cond: ['$isRepair', 1, 0] } }, tokens } },
+        {
+          $group: {
+            _id: null,
+            requests: { $sum: '$requests' },
+            repairs: { $sum: '$repairs' },
+            tokens: { $sum: '$tokens' },
+            users: { $sum: 1 }
+          }
+        }
+      ]),
+      aggregateRows(aggregate, [match, { $group: { _id: dayOf('$createdAt'), requests, tokens } }]),
+      aggregateRows(aggregate, [
+        match,
+        { $group: { _id: { task: '$task', userId: '$userId' }, requests, tokens } },
+        { $group: { _id: '$_id.task', requests: { $sum: '$requests' }, tokens: { $sum: '$tokens' }, users: { $sum: 1 } } }
+      ]),
+      aggregateRows(aggregate, [match, { $group: { _id: { provider: '$provider', model: '$model' }, requests, tokens } }])
+    ]);
+
+    const totals = totalRows[0];
+    const byDay = new Map<string, RawRow>(dayRows.map(row => [row['_id'], row]));
+
+    return {
+      totals: {
+        requests: totals?.['requests'] || 0,
+        repairs: totals?.['repairs'] || 0,
+        tokens: totals?.['tokens'] || 0,
+        users: totals?.['users'] || 0
+      },
+      days: Array.from({ length: days }, (_, i) => {
+        const date = dayKey(new Date(since.getTime() + i * DAY_MS));
+        return { date, requests: byDay.get(date)?.['requests'] || 0, tokens: byDay.get(date)?.['tokens'] || 0 };
+      }),
+      tasks: taskRows
+        .map(row => ({ task: row['_id'], requests: row['requests'], tokens: row['tokens'], users: row['users'] }))
+        .sort((a, b) => b.requests - a.requests),
+      models: modelRows
+        .map(row => ({ provider: row['_id'].provider, model: row['_id'].model, requests: row['requests'], tokens: row['tokens'] }))
+        .sort((a, b) => b.requests - a.requests)
+    };
+  });
+}
+
+// Weekly signup cohorts, oldest first. A member counts as retained in a week
+// when they did anything that left an activity record during it.
+export function getRetentionCohorts(weeks: number) {
+  return cached(`retention:${weeks}`, async (): Promise<RetentionCohort[]> => {
+    const prisma = getDatabase();
+    const firstStart = startOfUtcDay(new Date(Date.now() - (weeks * 7 - 1) * DAY_MS));
+    // Weeks since firstStart, counting from 0
+    const weekOf = (date: Prisma.InputJsonValue) => ({
+      $floor: { $divide: [{ $subtract: [date, mongoDate(firstStart)] }, WEEK_MS] }
+    });
+
+    const [cohortRows, activeRows] = await Promise.all([
+      aggregateRows(args => prisma.user.aggregateRaw(args), [
+        { $match: { createdAt: { $gte: mongoDate(firstStart) } } },
+        { $group: { _id: weekOf('$createdAt'), users: { $sum: 1 } } }
+      ]),
+      // One row per active user and week, then the signup week of each user;
+      // older members have none and drop out
+      aggregateRows(args => prisma.activity.aggregateRaw(args), [
+        { $match: { createdAt: { $gte: mongoDate(firstStart) } } },
+        { $group: { _id: { userId: '$userId', week: weekOf('$createdAt') } } },
+        { $lookup: { from: 'users', localField: '_id.userId', foreignField: '_id', as: 'user' } },
+        { $project: { week: '$_id.week', signedUpAt: { $arrayElemAt: ['$user.createdAt', 0] } } },
+        { $match: { signedUpAt: { $gte: mongoDate(firstStart) } } },
+        { $project: { week: 1, cohort: weekOf('$signedUpAt') } },
+        { $group: { _id: { cohort: '$cohort', week: { $subtract: ['$week', '$cohort'] } }, users: { $sum: 1 } } }
+      ])
+    ]);
+
+    const sizes = new Array<number>(weeks).fill(0);
+    cohortRows.forEach(row => {
+      if (row['_id'] >= 0 && row['_id'] < weeks) sizes[row['_id']] = row['users'];
+    });
+
+    // Only weeks that have started: cohort i has weeks - i of them
+    const active = sizes.map((_, cohort) => new Array<number>(weeks - cohort).fill(0));
+    activeRows.forEach(row => {
+      const { cohort, week } = row['_id'];
+      if (active[cohort] && week >= 0 && week < active[cohort].length) active[cohort][week] = row['users'];
+    });
+
+    return sizes.map((size, cohort) => ({
+      weekStart: dayKey(new Date(firstStart.getTime() + cohort * WEEK_MS)),
+      users: size,
+      active: active[cohort],
+      rates: active[cohort].map(count => (size ? Math.round((count / size) * 1000) / 1000 : 0))
+    }));
+  });
+}
@@ -0,0 +1,247 @@
+import { IdeaCategory, Prisma, TrendingPeriod } from '@prisma/client';
+import { getDatabase } from '../config/database';
+import { logger } from '../config/logger';
+import { cacheService } from '../config/redis';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How much each kind of engagement is worth before decay
+const EVENT_WEIGHTS = {
+  upvote: 3,
+  downvote: -1.5,
+  comment: 2,
+  bookmark: 4,
+  view: 0.5
+};
+
+// Each event decays as weight / (hoursAgo + 2) ^ GRAVITY, so a burst of
+// activity today outranks a larger pile of activity from last week
+const GRAVITY = 1.5;
+
+// Idea scores only look at this much history
+const IDEA_SCORE_WINDOW_MS = 7 * 24 * HOUR_MS;
+
+const PERIOD_WINDOW_MS: Record<TrendingPeriod, number> = {
+  HOURLY: HOUR_MS,
+  DAILY: 24 * HOUR_MS,
+  WEEKLY: 7 * 24 * HOUR_MS,
+  MONTHLY: 30 * 24 * HOUR_MS
+};
+
+// Number of topics, and of ideas, stored per period
+const MAX_TOPICS_PER_PERIOD = 50;
+const MAX_IDEAS_PER_PERIOD = 100;
+
+// A user's views of an idea count once per window, so reloading the page
+// neither inflates viewCount nor writes another Activity row
+const VIEW_DEDUPE_WINDOW_SECONDS = 30 * 60;
+
+type ScoreWindow = 'idea' | TrendingPeriod;
+
+// Decayed engagement per window, summed over every event in it
+type IdeaScores = Record<ScoreWindow, number>;
+
+const SCORE_WINDOWS_MS: Record<ScoreWindow, number> = {
+  idea: IDEA_SCORE_WINDOW_MS,
+  ...PERIOD_WINDOW_MS
+};
+
+// One source of engagement events and what each event is worth
+interface EngagementSource {
+  aggregate: (args: { pipeline: Prisma.InputJsonValue[] }) => Prisma.PrismaPromise<Prisma.JsonObject>;
+  match: Prisma.InputJsonObject;
+  weight: Prisma.InputJsonValue;
+}
+
+const mongoDate = (time: number) => ({ $date: new Date(time).toISOString() });
+
+// Decays and sums the events per idea and window in Mongo, so one row per
+// engaged idea comes back rather than every event of the last month
+function engagementPipeline(source: EngagementSource, now: number): Prisma.InputJsonValue[] {
+  const hoursAgo = { $divide: [{ $max: [0, { $subtract: [mongoDate(now), '$createdAt'] }] }, HOUR_MS] };
+  const decayed = { $divide: [source.weight, { $pow: [{ $add: [hoursAgo, 2] }, GRAVITY] }] };
+  const longestWindow = Math.max(...Object.values(SCORE_WINDOWS_MS));
+
+  const sums: Record<string, Prisma.InputJsonValue> = {};
+  for (const [window, ms] of Object.entries(SCORE_WINDOWS_MS)) {
+    sums[window] = { $sum: { $cond: [{ $gte: ['$createdAt', mongoDate(now - ms)] }, decayed, 0] } };
+  }
+
+  return [
+    { $match: { ...source.match, createdAt: { $gte: mongoDate(now - longestWindow) } } },
+    { $group: { _id: '$ideaId', ...sums } }
+  ];
+}
+
+async function aggregateEngagement(now: number): Promise<Map<string, IdeaScores>> {
+  const prisma = getDatabase();
+
+  const sources: EngagementSource[] = [
+    {
+      aggregate: args => prisma.vote.aggregateRaw(args),
+      match: { ideaId: { $ne: null } },
+      weight: { $cond: [{ $eq: ['$type', 'UP'] }, EVENT_WEIGHTS.upvote, EVENT_WEIGHTS.downvote] }
+    },
+    {
+      aggregate: args => prisma.comment.aggregateRaw(args),
+      match: { isDeleted: false },
+      weight: EVENT_WEIGHTS.comment
+    },
+    {
+      aggregate: args => prisma.bookmark.aggregateRaw(args),
+      match: {},
+      weight: EVENT_WEIGHTS.bookmark
+    },
+    {
+      aggregate: args => prisma.activity.aggregateRaw(args),
+      match: { type: 'IDEA_VIEWED', ideaId: { $ne: null } },
+      weight: EVENT_WEIGHTS.view
+    }
+  ];
+
+  const results = await Promise.all(sources.map(source => source.aggregate({ pipeline: engagementPipeline(source, now) })));
+
+  const scores = new Map<string, IdeaScores>();
+  for (const rows of results) {
+    for (const row of rows as unknown as Record<string, any>[]) {
+      // ObjectIds come back in extended JSON
+      const ideaId: string = row['_id']?.$oid ?? row['_id'];
+      const total = scores.get(ideaId) || { idea: 0, HOURLY: 0, DAILY: 0, WEEKLY: 0, MONTHLY: 0 };
+      for (const window of Object.keys(SCORE_WINDOWS_MS) as ScoreWindow[]) {
+        total[window] += row[window] || 0;
+      }
+      scores.set(ideaId, total);
+    }
+  }
+
+  return scores;
+}
+
+const roundScore = (score: number) => Math.round(score * 1000) / 1000;
+
+async function updateIdeaScores(scores: Map<string, IdeaScores>): Promise<number> {
+  const prisma = getDatabase();
+  const scoredIds: string[] = [];
+
+  for (const [ideaId, { idea: score }] of scores) {
+    if (score <= 0) continue;
+
+    scoredIds.push(ideaId);
+    await prisma.idea.updateMany({
+      where: { id: ideaId, status: 'PUBLISHED' },
+      data: { trendingScore: roundScore(score) }
+    });
+  }
+
+  // Ideas that went quiet drop out of trending entirely
+  await prisma.idea.updateMany({
+    where: {
+      trendingScore: { gt: 0 },
+      ...(scoredIds.length > 0 && { id: { notIn: scoredIds } })
+    },
+    data: { trendingScore: 0 }
+  });
+
+  return scoredIds.length;
+}
+
+async function updateTrendingRankings(scores: Map<string, IdeaScores>, now: number): Promise<void> {
+  const prisma = getDatabase();
+
+  const ideas = await prisma.idea.findMany({
+    where: { id: { in: [...scores.keys()] }, status: 'PUBLISHED' },
+    select: { id: true, tags: true, techStack: true, category: true }
+  });
+  const calculatedAt = new Date(now);
+
+  for (const period of Object.values(TrendingPeriod)) {
+    const ranked = ideas
+      .map(idea => ({ idea, score: scores.get(idea.id)![period] }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const topics = new Map<string, { score: number; mentionCount: number; categories: Map<IdeaCategory, number> }>();
+
+    for (const { idea, score } of ranked) {
+      const names = new Set([...idea.tags, ...idea.techStack].map(name => name.trim().toLowerCase()).filter(Boolean));
+      for (const name of names) {
+        const topic = topics.get(name) || { score: 0, mentionCount: 0, categories: new Map() };
+        topic.score += score;
+        topic.mentionCount += 1;
+        topic.categories.set(idea.category, (topic.categories.get(idea.category) || 0) + 1);
+        topics.set(name, topic);
+      }
+    }
+
+    const topicRows = [...topics.entries()]
+      .sort(([, a], [, b]) => b.score - a.score)
+      .slice(0, MAX_TOPICS_PER_PERIOD)
+      .map(([name, topic]) => ({
+        name,
+        period,
+        score: roundScore(topic.score),
+        mentionCount: topic.mentionCount,
+        // A topic belongs to whichever category most of its ideas are in
+        category: [...topic.categories.entries()].sort(([, a], [, b]) => b - a)[0][0],
+        calculatedAt
+      }));
+
+    await prisma.trendingTopic.deleteMany({ where: { period } });
+    if (topicRows.length > 0) {
+      await prisma.trendingTopic.createMany({ data: topicRows });
+    }
+
+    const ideaRows = ranked
+      .slice(0, MAX_IDEAS_PER_PERIOD)
+      .map(({ idea, score }) => ({ ideaId: idea.id, period, score: roundScore(score), calculatedAt }));
+
+    await prisma.trendingIdea.deleteMany({ where: { period } });
+    if (ideaRows.length > 0) {
+      await prisma.trendingIdea.createMany({ data: ideaRows });
+    }
+  }
+}
+
+// Recompute Idea.trendingScore and rebuild the TrendingTopic and TrendingIdea
+// rows for every period
+export async function refreshTrending(): Promise<void> {
+  const now = Date.now();
+  const scores = await aggregateEngagement(now);
+
+  const trendingIdeas = await updateIdeaScores(scores);
+  await updateTrendingRankings(scores, now);
+
+  logger.info(`Trending refreshed: ${trendingIdeas} ideas scored out of ${scores.size} with recent engagement`);
+}
+
+// Counts a signed-in user's view of an idea, at most once per window. Without
+// Redis the last view is looked up in the activity log instead.
+export async function recordIdeaView(ideaId: string, userId: string): Promise<void> {
+  const prisma = getDatabase();
+
+  const views = await cacheService.increment(`idea-view:${ideaId}:${userId}`, VIEW_DEDUPE_WINDOW_SECONDS);
+  if (views > 1) return;
+
+  if (views === 0) {
+    const recent = await prisma.activity.findFirst({
+      where: {
+        type: 'IDEA_VIEWED',
+        userId,
+        ideaId,
+        createdAt: { gte: new Date(Date.now() - VIEW_DEDUPE_WINDOW_SECONDS * 1000) }
+      },
+      select: { id: true }
+    });
+    if (recent) return;
+  }
+
+  await prisma.idea.update({
+    where: { id: ideaId },
+    data: { viewCount: { increment: 1 } }
+  });
+
+  // Timestamped views feed the trending score
+  await prisma.activity.create({
+    data: { type: 'IDEA_VIEWED', userId, ideaId }
+  });
+}
@@ -0,0 +1,597 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+// An in-memory stand-in for the Prisma client, for tests that run routes and
+// services without MongoDB. It reads the schema from Prisma's DMMF, so every
+// model is available, and supports the queries this codebase makes: filters
+// (including relation and composite filters), select/include with nested
+// relations and _count, ordering, paging, nested connect/create writes,
+// atomic number updates, unique constraints, cascading deletes and both forms
+// of $transaction.
+// Raw commands and aggregations are not supported.
+
+type Model = Prisma.DMMF.Model;
+type Field = Prisma.DMMF.Field;
+type Row = Record<string, any>;
+type Args = Record<string, any>;
+
+const datamodel = Prisma.dmmf.datamodel;
+const modelsByName = new Map(datamodel.models.map(model => [model.name, model]));
+const compositeTypes = new Map(datamodel.types.map(type => [type.name, type]));
+
+const delegateName = (model: Model) => model.name[0].toLowerCase() + model.name.slice(1);
+const fieldOf = (fields: readonly Field[], name: string) => fields.find(field => field.name === name);
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+
+let objectIdCounter = 0;
+
+// 24 hex characters, so ids pass isMongoId validation
+function objectId(): string {
+  objectIdCounter++;
+  const time = Math.floor(Date.now() / 1000).toString(16).padStart(8, '0');
+  return time + objectIdCounter.toString(16).padStart(16, '0');
+}
+
+function knownError(message: string, code: string, meta?: Record<string, unknown>) {
+  return new Prisma.PrismaClientKnownRequestError(message, { code, clientVersion: Prisma.prismaVersion.client, meta });
+}
+
+function clone<T>(value: T): T {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, clone(entry)])) as T;
+  }
+  return value;
+}
+
+function comparable(value: unknown) {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((entry, index) => equals(entry, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(key => equals(a[key], b[key]));
+  }
+  return comparable(a ?? null) === comparable(b ?? null);
+}
+
+function compare(a: unknown, b: unknown): number {
+  const left = comparable(a);
+  const right = comparable(b);
+  if (left === right) return 0;
+  if (left === null || left === undefined) return -1;
+  if (right === null || right === undefined) return 1;
+  return left < right ? -1 : 1;
+}
+
+function matchesText(value: unknown, filter: Args, op: 'contains' | 'startsWith' | 'endsWith'): boolean {
+  if (typeof value !== 'string') return false;
+  const insensitive = filter['mode'] === 'insensitive';
+  const haystack = insensitive ? value.toLowerCase() : value;
+  const needle = insensitive ? String(filter[op]).toLowerCase() : String(filter[op]);
+  if (op === 'contains') return haystack.includes(needle);
+  if (op === 'startsWith') return haystack.startsWith(needle);
+  return haystack.endsWith(needle);
+}
+
+// As on MongoDB, null only matches fields that were set to null; fields that
+// were never written need isSet: false
+const equalsScalar = (value: unknown, operand: unknown) =>
+  operand === null ? value === null : equals(value, operand);
+
+function matchesScalar(value: unknown, filter: unknown, isList: boolean): boolean {
+  if (!isPlainObject(filter)) {
+    return equalsScalar(value, filter);
+  }
+
+  return Object.entries(filter).every(([op, operand]) => {
+    switch (op) {
+      case 'equals': return equalsScalar(value, operand);
+      case 'not': return isPlainObject(operand) ? !matchesScalar(value, operand, isList) : !equalsScalar(value, operand);
+      case 'in': return (operand as unknown[]).some(entry => equals(value, entry));
+      case 'notIn': return !(operand as unknown[]).some(entry => equals(value, entry));
+      case 'lt': return value !== null && value !== undefined && compare(value, operand) < 0;
+      case 'lte': return value !== null && value !== undefined && compare(value, operand) <= 0;
+      case 'gt': return value !== null && value !== undefined && compare(value, operand) > 0;
+      case 'gte': return value !== null && value !== undefined && compare(value, operand) >= 0;
+      case 'contains':
+      case 'startsWith':
+      case 'endsWith':
+        return matchesText(value, filter, op);
+      case 'mode': return true;
+      case 'isSet': return (value !== undefined) === operand;
+      case 'has': return Array.isArray(value) && value.some(entry => equals(entry, operand));
+      case 'hasSome': return Array.isArray(value) && (operand as unknown[]).some(wanted => value.some(entry => equals(entry, wanted)));
+      case 'hasEvery': return Array.isArray(value) && (operand as unknown[]).every(wanted => value.some(entry => equals(entry, wanted)));
+      case 'isEmpty': return Array.isArray(value) && (value.length === 0) === operand;
+      default: throw new Error(`Fake Prisma does not support the "${op}" filter`);
+    }
+  });
+}
+
+function matchesComposite(type: string, value: unknown, filter: unknown, isList: boolean): boolean {
+  const fields = compositeTypes.get(type)!.fields;
+  const matchesEntry = (entry: Row, where: Args) => matchesFields(fields, entry, where, () => {
+    throw new Error('Fake Prisma does not support relations inside composite types');
+  });
+
+  if (!isPlainObject(filter)) return equals(value, filter);
+
+  return Object.entries(filter).every(([op, operand]) => {
+    if (isList) {
+      const entries = (value as Row[] | null) || [];
+      switch (op) {
+        case 'some': return entries.some(entry => matchesEntry(entry, operand));
+        case 'every': return entries.every(entry => matchesEntry(entry, operand));
+        case 'none': return !entries.some(entry => matchesEntry(entry, operand));
+        case 'isEmpty': return (entries.length === 0) === operand;
+        case 'equals': return equals(entries, operand);
+        default: throw new Error(`Fake Prisma does not support the "${op}" composite list filter`);
+      }
+    }
+
+    switch (op) {
+      case 'is': return operand === null ? value === null || value === undefined : !!value && matchesEntry(value as Row, operand);
+      case 'isNot': return operand === null ? value !== null && value !== undefined : !value || !matchesEntry(value as Row, operand);
+      case 'equals': return equals(value, operand);
+      case 'isSet': return (value !== undefined) === operand;
+      default: return !!value && matchesEntry(value as Row, { [op]: operand });
+    }
+  });
+}
+
+// Shared by models and composite types; relations are resolved by the caller
+function matchesFields(
+  fields: readonly Field[],
+  row: Row,
+  where: Args | undefined,
+  matchesRelation: (field: Field, filter: unknown) => boolean
+): boolean {
+  if (!where) return true;
+
+  return Object.entries(where).every(([key, filter]) => {
+    if (filter === undefined) return true;
+
+    switch (key) {
+      case 'AND': return ([] as Args[]).concat(filter).every(part => matchesFields(fields, row, part, matchesRelation));
+      case 'OR': return (filter as Args[]).some(part => matchesFields(fields, row, part, matchesRelation));
+      case 'NOT': return !([] as Args[]).concat(filter).some(part => matchesFields(fields, row, part, matchesRelation));
+    }
+
+    const field = fieldOf(fields, key);
+    if (!field) {
+      // Compound unique inputs such as userId_ideaId: { userId, ideaId }
+      if (isPlainObject(filter)) return matchesFields(fields, row, filter, matchesRelation);
+      throw new Error(`Fake Prisma: unknown field "${key}"`);
+    }
+
+    if (field.kind === 'object') {
+      return compositeTypes.has(field.type)
+        ? matchesComposite(field.type, row[key], filter, field.isList)
+        : matchesRelation(field, filter);
+    }
+    return matchesScalar(row[key], filter, field.isList);
+  });
+}
+
+function applyNumberUpdate(current: number, update: Args): number {
+  if ('set' in update) return update['set'];
+  if ('increment' in update) return current + update['increment'];
+  if ('decrement' in update) return current - update['decrement'];
+  if ('multiply' in update) return current * update['multiply'];
+  if ('divide' in update) return current / update['divide'];
+  throw new Error(`Fake Prisma does not support the update ${JSON.stringify(update)}`);
+}
+
+export type FakePrismaClient = PrismaClient & {
+  // Every stored row by model name, for assertions
+  $rows: (model: Prisma.ModelName) => Row[];
+  $reset: () => void;
+};
+
+export function createFakePrisma(): FakePrismaClient {
+  const tables = new Map<string, Row[]>(datamodel.models.map(model => [model.name, []]));
+  const table = (model: Model) => tables.get(model.name)!;
+
+  // The field on the other side of a relation
+  const oppositeOf = (model: Model, field: Field) =>
+    modelsByName.get(field.type)!.fields.find(other =>
+      other.relationName === field.relationName && !(other.type === model.name && other.name === field.name)
+    )!;
+
+  function related(model: Model, row: Row, field: Field): Row[] {
+    const target = modelsByName.get(field.type)!;
+    if (field.relationFromFields?.length) {
+      const fromFields = field.relationFromFields;
+      const toFields = field.relationToFields!;
+      if (fromFields.some(from => row[from] === null || row[from] === undefined)) return [];
+      return table(target).filter(other => toFields.every((to, index) => equals(other[to], row[fromFields[index]])));
+    }
+
+    const opposite = oppositeOf(model, field);
+    const fromFields = opposite.relationFromFields!;
+    const toFields = opposite.relationToFields!;
+    return table(target).filter(other => toFields.every((to, index) => equals(row[to], other[fromFields[index]])));
+  }
+
+  function matches(model: Model, row: Row, where: Args | undefined): boolean {
+    return matchesFields(model.fields, row, where, (field, filter) => {
+      const target = modelsByName.get(field.type)!;
+      const rows = related(model, row, field);
+
+      if (field.isList) {
+        return Object.entries(filter as Args).every(([op, nested]) => {
+          switch (op) {
+            case 'some': return rows.some(other => matches(target, other, nested));
+            case 'every': return rows.every(other => matches(target, other, nested));
+            case 'none': return !rows.some(other => matches(target, other, nested));
+            default: throw new Error(`Fake Prisma does not support the "${op}" relation filter`);
+          }
+        });
+      }
+
+      const [one] = rows;
+      if (filter === null) return !one;
+      const ops = filter as Args;
+      if ('is' in ops || 'isNot' in ops) {
+        return (!('is' in ops) || (ops['is'] === null ? !one : !!one && matches(target, one, ops['is'])))
+          && (!('isNot' in ops) || (ops['isNot'] === null ? !!one : !one || !matches(target, one, ops['isNot'])));
+      }
+      return !!one && matches(target, one, ops);
+    });
+  }
+
+  function sortRows(model: Model, rows: Row[], orderBy: Args | Args[] | undefined): Row[] {
+    if (!orderBy) return rows;
+    const orders = ([] as Args[]).concat(orderBy);
+
+    const valueFor = (row: Row, order: Args): [unknown, string] => {
+      const [key, direction] = Object.entries(order)[0];
+      const field = fieldOf(model.fields, key);
+      if (field?.kind === 'object' && isPlainObject(direction)) {
+        if (field.isList && '_count' in direction) {
+          return [related(model, row, field).length, direction['_count']];
+        }
+        const [one] = related(model, row, field);
+        const nested = Object.entries(direction)[0];
+        return [one?.[nested[0]], nested[1] as string];
+      }
+      return [row[key], isPlainObject(direction) ? direction['sort'] : direction as string];
+    };
+
+    return [...rows].sort((a, b) => {
+      for (const order of orders) {
+        const [left, direction] = valueFor(a, order);
+        const [right] = valueFor(b, order);
+        const result = compare(left, right);
+        if (result !== 0) return direction === 'desc' ? -result : result;
+      }
+      return 0;
+    });
+  }
+
+  // where, orderBy, cursor, skip, take and distinct over a set of rows
+  function query(model: Model, rows: Row[], args: Args = {}): Row[] {
+    let result = sortRows(model, rows.filter(row => matches(model, row, args['where'])), args['orderBy']);
+
+    if (args['cursor']) {
+      const start = result.findIndex(row => matches(model, row, args['cursor']));
+      result = start === -1 ? [] : result.slice(start);
+    }
+    if (args['distinct']) {
+      const keys = ([] as string[]).concat(args['distinct']);
+      const seen = new Set<string>();
+      result = result.filter(row => {
+        const key = JSON.stringify(keys.map(name => comparable(row[name])));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+    if (args['skip']) result = result.slice(args['skip']);
+    if (args['take'] !== undefined) {
+      result = args['take'] >= 0 ? result.slice(0, args['take']) : result.slice(args['take']);
+    }
+    return result;
+  }
+
+  function project(model: Model, row: Row, args: Args = {}): Row {
+    const scalars = () => Object.fromEntries(
+      model.fields.filter(field => field.kind !== 'object' || compositeTypes.has(field.type))
+        .map(field => [field.name, clone(row[field.name] ?? (field.isList ? [] : null))])
+    );
+
+    const relation = (name: string, nested: true | Args) => {
+      const field = fieldOf(model.fields, name)!;
+      const target = modelsByName.get(field.type)!;
+      if (compositeTypes.has(field.type)) return clone(row[name] ?? (field.isList ? [] : null));
+
+      const rows = related(model, row, field);
+      const nestedArgs = nested === true ? {} : nested;
+      if (field.isList) {
+        return query(target, rows, nestedArgs).map(other => project(target, other, nestedArgs));
+      }
+      return rows[0] ? project(target, rows[0], nestedArgs) : null;
+    };
+
+    const count = (spec: true | Args) => {
+      const wanted = spec === true
+        ? Object.fromEntries(model.fields.filter(field => field.kind === 'object' && field.isList && !compositeTypes.has(field.type)).map(field => [field.name, true]))
+        : spec['select'];
+      return Object.fromEntries(Object.entries(wanted).filter(([, value]) => value).map(([name, value]) => {
+        const field = fieldOf(model.fields, name)!;
+        const rows = related(model, row, field);
+        const where = isPlainObject(value) ? value['where'] : undefined;
+        return [name, rows.filter(other => matches(modelsByName.get(field.type)!, other, where)).length];
+      }));
+    };
+
+    const extra = (spec: Args) => Object.fromEntries(
+      Object.entries(spec).filter(([, value]) => value).map(([name, value]) => {
+        if (name === '_count') return [name, count(value)];
+        const field = fieldOf(model.fields, name);
+        if (!field) throw new Error(`Fake Prisma: unknown field "${name}" on ${model.name}`);
+        return [name, field.kind === 'object' ? relation(name, value) : clone(row[name] ?? (field.isList ? [] : null))];
+      })
+    );
+
+    if (args['select']) return extra(args['select']);
+    if (args['include']) return { ...scalars(), ...extra(args['include']) };
+    return scalars();
+  }
+
+  function defaultValue(field: Field) {
+    if (field.isUpdatedAt) return new Date();
+    // Optional fields nobody wrote stay unset, as Prisma leaves them on MongoDB
+    if (!field.hasDefaultValue) return field.isList ? [] : field.isRequired ? null : undefined;
+
+    const fallback = field.default as any;
+    if (isPlainObject(fallback)) {
+      switch (fallback['name']) {
+        case 'auto': return objectId();
+        case 'now': return new Date();
+        case 'uuid':
+        case 'cuid': return objectId();
+        default: throw new Error(`Fake Prisma does not support the default ${fallback['name']}()`);
+      }
+    }
+    return clone(fallback);
+  }
+
+  function assertUnique(model: Model, row: Row, ignore?: Row) {
+    const constraints = [
+      ...model.fields.filter(field => field.isId || field.isUnique).map(field => [field.name]),
+      ...model.uniqueFields
+    ];
+    for (const fields of constraints) {
+      if (fields.some(name => row[name] === null || row[name] === undefined)) continue;
+      const clash = table(model).find(other => other !== ignore && fields.every(name => equals(other[name], row[name])));
+      if (clash) {
+        throw knownError(`Unique constraint failed on the fields: (${fields.join(',')})`, 'P2002', { target: fields });
+      }
+    }
+  }
+
+  // Connects and nested creates for one relation field of a row being written
+  function writeRelation(model: Model, row: Row, field: Field, write: Args, afterInsert: (() => void)[]) {
+    const target = modelsByName.get(field.type)!;
+
+    if (field.relationFromFields?.length) {
+      const link = (other: Row | null) => field.relationFromFields!.forEach((from, index) => {
+        row[from] = other ? other[field.relationToFields![index]] : null;
+      });
+
+      if (write['connect']) {
+        const other = table(target).find(candidate => matches(target, candidate, write['connect']));
+        if (!other) throw knownError(`No ${target.name} found to connect`, 'P2025');
+        link(other);
+      } else if (write['create']) {
+        link(insert(target, write['create']));
+      } else if (write['disconnect']) {
+        link(null);
+      } else {
+        throw new Error(`Fake Prisma does not support the nested write ${Object.keys(write).join(', ')}`);
+      }
+      return;
+    }
+
+    // The other side holds the foreign key, so it's written once this row exists
+    const opposite = oppositeOf(model, field);
+    const withKey = (data: Args) => ({
+      ...data,
+      ...Object.fromEntries(opposite.relationFromFields!.map((from, index) => [from, row[opposite.relationToFields![index]]]))
+    });
+    afterInsert.push(() => {
+      const creates = write['create'] ? ([] as Args[]).concat(write['create']) : [];
+      const createMany = write['createMany']?.data ? ([] as Args[]).concat(write['createMany'].data) : [];
+      [...creates, ...createMany].forEach(data => insert(target, withKey(data)));
+
+      if (write['connect']) {
+        ([] as Args[]).concat(write['connect']).forEach(where => {
+          const other = table(target).find(candidate => matches(target, candidate, where));
+          if (!other) throw knownError(`No ${target.name} found to connect`, 'P2025');
+          Object.assign(other, withKey({}));
+        });
+      }
+    });
+  }
+
+  function insert(model: Model, data: Args): Row {
+    const row: Row = {};
+    const afterInsert: (() => void)[] = [];
+
+    for (const field of model.fields) {
+      const value = data[field.name];
+      if (field.kind === 'object' && !compositeTypes.has(field.type)) {
+        if (value !== undefined) writeRelation(model, row, field, value, afterInsert);
+        continue;
+      }
+      if (value !== undefined) {
+        row[field.name] = clone(isPlainObject(value) && 'set' in value ? value['set'] : value);
+      } else if (!(field.name in row)) {
+        row[field.name] = defaultValue(field);
+      }
+    }
+
+    assertUnique(model, row);
+    table(model).push(row);
+    afterInsert.forEach(write => write());
+    return row;
+  }
+
+  function applyUpdate(model: Model, row: Row, data: Args) {
+    const next: Row = { ...row };
+    const afterInsert: (() => void)[] = [];
+
+    for (const [name, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+      const field = fieldOf(model.fields, name);
+      if (!field) throw new Error(`Fake Prisma: unknown field "${name}" on ${model.name}`);
+
+      if (field.kind === 'object' && !compositeTypes.has(field.type)) {
+        writeRelation(model, next, field, value, afterInsert);
+      } else if (field.isList && isPlainObject(value) && 'push' in value) {
+        next[name] = [...(next[name] || []), ...clone(([] as unknown[]).concat(value['push']))];
+      } else if (field.type === 'Int' || field.type === 'Float') {
+        next[name] = isPlainObject(value) ? applyNumberUpdate(next[name] ?? 0, value) : value;
+      } else {
+        next[name] = clone(isPlainObject(value) && 'set' in value ? value['set'] : value);
+      }
+    }
+
+    model.fields.filter(field => field.isUpdatedAt && !(field.name in data)).forEach(field => {
+      next[field.name] = new Date();
+    });
+
+    assertUnique(model, next, row);
+    Object.assign(row, next);
+    afterInsert.forEach(write => write());
+    return row;
+  }
+
+  // Prisma emulates referential actions on MongoDB, so deletes cascade here too
+  function remove(model: Model, removed: Row[]) {
+    if (removed.length === 0) return;
+    tables.set(model.name, table(model).filter(row => !removed.includes(row)));
+
+    for (const dependent of datamodel.models) {
+      for (const field of dependent.fields) {
+        if (field.type !== model.name || !field.relationFromFields?.length) continue;
+
+        const fromFields = field.relationFromFields;
+        const toFields = field.relationToFields!;
+        const references = (row: Row) => removed.some(parent =>
+          toFields.every((to, index) => equals(parent[to], row[fromFields[index]])));
+        const rows = table(dependent).filter(references);
+
+        if (field.relationOnDelete === 'Cascade') {
+          remove(dependent, rows);
+        } else if (field.relationOnDelete === 'SetNull') {
+          rows.forEach(row => fromFields.forEach(from => {
+            row[from] = null;
+          }));
+        }
+      }
+    }
+  }
+
+  function findOne(model: Model, where: Args) {
+    return table(model).find(row => matches(model, row, where));
+  }
+
+  function delegate(model: Model) {
+    const rows = () => table(model);
+    const notFound = (operation: string) =>
+      knownError(`An operation failed because it depends on one or more records that were required but not found. Record to ${operation} not found.`, 'P2025');
+
+    return {
+      findUnique: async (args: Args) => {
+        const row = findOne(model, args['where']);
+        return row ? project(model, row, args) : null;
+      },
+      findUniqueOrThrow: async (args: Args) => {
+        const row = findOne(model, args['where']);
+        if (!row) throw notFound('find');
+        return project(model, row, args);
+      },
+      findFirst: async (args: Args = {}) => {
+        const [row] = query(model, rows(), { ...args, take: 1 });
+        return row ? project(model, row, args) : null;
+      },
+      findFirstOrThrow: async (args: Args = {}) => {
+        const [row] = query(model, rows(), { ...args, take: 1 });
+        if (!row) throw notFound('find');
+        return project(model, row, args);
+      },
+      findMany: async (args: Args = {}) => query(model, rows(), args).map(row => project(model, row, args)),
+      count: async (args: Args = {}) => query(model, rows(), args).length,
+      create: async (args: Args) => project(model, insert(model, args['data']), args),
+      createMany: async (args: Args) => {
+        const data = ([] as Args[]).concat(args['data']);
+        data.forEach(entry => insert(model, entry));
+        return { count: data.length };
+      },
+      update: async (args: Args) => {
+        const row = findOne(model, args['where']);
+        if (!row) throw notFound('update');
+        return project(model, applyUpdate(model, row, args['data']), args);
+      },
+      updateMany: async (args: Args = {}) => {
+        const matched = rows().filter(row => matches(model, row, args['where']));
+        matched.forEach(row => applyUpdate(model, row, args['data']));
+        return { count: matched.length };
+      },
+      upsert: async (args: Args) => {
+        const row = findOne(model, args['where']);
+        return project(model, row ? applyUpdate(model, row, args['update']) : insert(model, args['create']), args);
+      },
+      delete: async (args: Args) => {
+        const row = findOne(model, args['where']);
+        if (!row) throw notFound('delete');
+        const deleted = project(model, row, args);
+        remove(model, [row]);
+        return deleted;
+      },
+      deleteMany: async (args: Args = {}) => {
+        const removed = rows().filter(row => matches(model, row, args['where']));
+        remove(model, removed);
+        return { count: removed.length };
+      },
+      aggregate: async () => {
+        throw new Error('Fake Prisma does not support aggregate');
+      },
+      groupBy: async () => {
+        throw new Error('Fake Prisma does not support groupBy');
+      },
+      aggregateRaw: async () => {
+        throw new Error('Fake Prisma does not support aggregateRaw');
+      },
+      findRaw: async () => {
+        throw new Error('Fake Prisma does not support findRaw');
+      }
+    };
+  }
+
+  const client: Row = Object.fromEntries(datamodel.models.map(model => [delegateName(model), delegate(model)]));
+
+  Object.assign(client, {
+    $connect: async () => undefined,
+    $disconnect: async () => undefined,
+    // Writes are applied as they happen, so a failed transaction is not rolled back
+    $transaction: async (operations: unknown, _options?: unknown) =>
+      typeof operations === 'function' ? operations(client) : Promise.all(operations as Promise<unknown>[]),
+    $runCommandRaw: async () => {
+      throw new Error('Fake Prisma does not support $runCommandRaw');
+    },
+    $rows: (name: string) => tables.get(name)!,
+    $reset: () => tables.forEach((_rows, name) => tables.set(name, []))
+  });
+
+  return client as unknown as FakePrismaClient;
+}
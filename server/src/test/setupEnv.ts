@@ -0,0 +1,3 @@
+// Secrets the auth middleware and passport need; tests never read .env
+process.env['JWT_SECRET'] = 'test-jwt-secret';
+process.env['JWT_REFRESH_SECRET'] = 'test-jwt-refresh-secret';
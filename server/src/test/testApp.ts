@@ -0,0 +1,23 @@
+import express, { Router } from 'express';
+import { UserRole } from '@prisma/client';
+import { initializePassport } from '../config/passport';
+import { errorHandler } from '../middleware/errorHandler';
+import { generateTokens } from '../middleware/auth';
+
+// An app with only the given routers mounted, authenticating like the real
+// server does. getDatabase must already return the test's client, since
+// passport looks it up once here.
+export function createTestApp(routes: Record<string, Router>) {
+  const app = express();
+  app.use(express.json());
+  initializePassport(app);
+
+  Object.entries(routes).forEach(([path, router]) => app.use(path, router));
+
+  app.use(errorHandler);
+  return app;
+}
+
+export function authHeader(user: { id: string; role: UserRole }) {
+  return { Authorization: `Bearer ${generateTokens(user).accessToken}` };
+}
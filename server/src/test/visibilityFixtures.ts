@@ -0,0 +1,45 @@
+import { CollaboratorRole, CollaboratorStatus, IdeaCategory, IdeaStatus, PrismaClient, UserRole } from '@prisma/client';
+
+// One author with a draft, a published and a hidden idea, a collaborator who
+// accepted an invitation to all three, and a stranger. Every idea mentions
+// "garden" so searches can match all of them.
+export async function seedVisibilityFixtures(prisma: PrismaClient) {
+  const createUser = (username: string) =>
+    prisma.user.create({ data: { email: `${username}@example.com`, username, role: UserRole.USER } });
+
+  const author = await createUser('author');
+  const collaborator = await createUser('collaborator');
+  const stranger = await createUser('stranger');
+
+  const createIdea = (title: string, status: IdeaStatus) => prisma.idea.create({
+    data: {
+      title,
+      description: `A ${status.toLowerCase()} idea about a community garden planner`,
+      content: 'Plan shared garden beds, watering rotas and harvest swaps with your neighbours.',
+      category: IdeaCategory.WEB,
+      tags: ['garden', 'community'],
+      status,
+      authorId: author.id,
+      ...(status === IdeaStatus.PUBLISHED && { publishedAt: new Date() })
+    }
+  });
+
+  const draft = await createIdea('Draft garden planner', IdeaStatus.DRAFT);
+  const published = await createIdea('Published garden planner', IdeaStatus.PUBLISHED);
+  const hidden = await createIdea('Hidden garden planner', IdeaStatus.HIDDEN);
+
+  for (const idea of [draft, published, hidden]) {
+    await prisma.ideaCollaborator.create({
+      data: {
+        ideaId: idea.id,
+        userId: collaborator.id,
+        invitedById: author.id,
+        role: CollaboratorRole.EDITOR,
+        status: CollaboratorStatus.ACCEPTED,
+        inviteToken: `invite-${idea.id}`
+      }
+    });
+  }
+
+  return { author, collaborator, stranger, draft, published, hidden };
+}
@@ -1,4 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
+import { UserRole } from '@prisma/client';
+import { Permission } from '../policies/permissions';
 
 // Extend Express Request type for authenticated routes
 export interface AuthenticatedRequest extends Request {
@@ -11,6 +13,8 @@ export interface AuthenticatedRequest extends Request {
     skills: string[];
     socialLinks?: any;
     karmaScore: number;
+    role: UserRole;
+    permissions: Permission[];
     emailVerified: boolean;
     isActive: boolean;
     createdAt: Date;